@@ -0,0 +1,66 @@
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { InfoCard, Table } from '../common';
+import { useAssets } from '@/hooks';
+
+export const AccountBalances = ({
+  chainName,
+  address,
+}: {
+  chainName: string;
+  address: string;
+}) => {
+  const { data, isLoading } = useAssets(chainName, address);
+
+  const balances = (data?.assets ?? []).filter(({ amount }) => amount !== '0');
+
+  return (
+    <InfoCard title="Balances" mt="20px">
+      {isLoading || !data ? (
+        <Box display="flex" justifyContent="center" py="20px">
+          <Spinner size="$4xl" color="$blackAlpha600" />
+        </Box>
+      ) : balances.length === 0 ? (
+        <Text color="$blackAlpha500" fontSize="14px">
+          No balances
+        </Text>
+      ) : (
+        <Box overflowX="auto">
+          <Table minWidth="500px" width="$full">
+            <Table.Header>
+              <Table.Row height="$fit">
+                <Table.HeaderCell width="40%">Asset</Table.HeaderCell>
+                <Table.HeaderCell width="30%">Amount</Table.HeaderCell>
+                <Table.HeaderCell width="30%">Value</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {balances.map(
+                ({
+                  denom,
+                  symbol,
+                  prettyChainName,
+                  displayAmount,
+                  dollarValue,
+                }) => (
+                  <Table.Row key={denom}>
+                    <Table.Cell>
+                      <Text fontWeight="600">{symbol}</Text>
+                      <Text color="$blackAlpha500" fontSize="12px">
+                        {prettyChainName}
+                      </Text>
+                    </Table.Cell>
+                    <Table.Cell>{displayAmount}</Table.Cell>
+                    <Table.Cell color="$blackAlpha500" fontWeight="500">
+                      ${dollarValue}
+                    </Table.Cell>
+                  </Table.Row>
+                ),
+              )}
+            </Table.Body>
+          </Table>
+        </Box>
+      )}
+    </InfoCard>
+  );
+};
@@ -0,0 +1,43 @@
+import { Box, Text } from '@interchain-ui/react';
+
+import { InfoCard, InfoRow } from '../common';
+import { AccountBalances } from './AccountBalances';
+import { AccountStaking } from './AccountStaking';
+import { AccountVesting } from './AccountVesting';
+import { AccountTransactions } from './AccountTransactions';
+import { useTotalAssets } from '@/hooks';
+
+export const AccountSection = ({
+  chainName,
+  address,
+}: {
+  chainName: string;
+  address: string;
+}) => {
+  const { data: totalAssets } = useTotalAssets(chainName, address);
+
+  return (
+    <Box maxWidth="$containerMd" mx="auto" mb="$17">
+      <Text
+        color="$blackAlpha600"
+        fontSize="24px"
+        fontWeight="700"
+        attributes={{ mb: '20px' }}
+      >
+        Account
+      </Text>
+
+      <InfoCard>
+        <InfoRow label="Address">{address}</InfoRow>
+        <InfoRow label="Total Value">
+          {totalAssets ? `$${totalAssets.total}` : '--'}
+        </InfoRow>
+      </InfoCard>
+
+      <AccountBalances chainName={chainName} address={address} />
+      <AccountStaking chainName={chainName} address={address} />
+      <AccountVesting chainName={chainName} address={address} />
+      <AccountTransactions chainName={chainName} address={address} />
+    </Box>
+  );
+};
@@ -0,0 +1,190 @@
+import { useMemo } from 'react';
+import Link from 'next/link';
+import { useChain } from '@interchain-kit/react';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { InfoCard, InfoRow, Table } from '../common';
+import { useStakingData } from '@/hooks';
+import { formatDate, getNativeAsset, shortenAddress } from '@/utils';
+
+export const AccountStaking = ({
+  chainName,
+  address,
+}: {
+  chainName: string;
+  address: string;
+}) => {
+  const { assetList } = useChain(chainName);
+  const { data, isLoading } = useStakingData(chainName, address);
+
+  const coin = getNativeAsset(assetList);
+
+  const validatorNames = useMemo(() => {
+    const validators = [
+      ...(data?.allValidators ?? []),
+      ...(data?.inactiveValidators ?? []),
+      ...(data?.jailedValidators ?? []),
+      ...(data?.myValidators ?? []),
+    ];
+    return Object.fromEntries(
+      validators.map(({ address, name }) => [address, name]),
+    );
+  }, [data]);
+
+  const renderValidator = (validatorAddress: string) => (
+    <Link href={`/validators/${validatorAddress}`}>
+      <Text as="span" color="$purple600" fontWeight="600">
+        {validatorNames[validatorAddress] || shortenAddress(validatorAddress)}
+      </Text>
+    </Link>
+  );
+
+  if (isLoading || !data) {
+    return (
+      <InfoCard title="Staking" mt="20px">
+        <Box display="flex" justifyContent="center" py="20px">
+          <Spinner size="$4xl" color="$blackAlpha600" />
+        </Box>
+      </InfoCard>
+    );
+  }
+
+  const delegations = data.myValidators.filter(
+    ({ delegation }) => delegation !== '0',
+  );
+
+  return (
+    <>
+      <InfoCard title="Staking" mt="20px">
+        <InfoRow label="Total Delegated">
+          {data.totalDelegated} {coin.symbol}
+        </InfoRow>
+        <InfoRow label="Pending Rewards">
+          {data.rewards.total} {coin.symbol}
+        </InfoRow>
+        <InfoRow label="Available Balance">
+          {data.balance} {coin.symbol}
+        </InfoRow>
+      </InfoCard>
+
+      <InfoCard title={`Delegations (${delegations.length})`} mt="20px">
+        {delegations.length === 0 ? (
+          <Text color="$blackAlpha500" fontSize="14px">
+            No delegations
+          </Text>
+        ) : (
+          <Box overflowX="auto">
+            <Table minWidth="500px" width="$full">
+              <Table.Header>
+                <Table.Row height="$fit">
+                  <Table.HeaderCell width="40%">Validator</Table.HeaderCell>
+                  <Table.HeaderCell width="30%">Delegated</Table.HeaderCell>
+                  <Table.HeaderCell width="30%">Rewards</Table.HeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {delegations.map(({ address, delegation, reward }) => (
+                  <Table.Row key={address}>
+                    <Table.Cell>{renderValidator(address)}</Table.Cell>
+                    <Table.Cell>
+                      {delegation} {coin.symbol}
+                    </Table.Cell>
+                    <Table.Cell color="$blackAlpha500" fontWeight="500">
+                      {reward} {coin.symbol}
+                    </Table.Cell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table>
+          </Box>
+        )}
+      </InfoCard>
+
+      {data.unbondings.length > 0 && (
+        <InfoCard title={`Unbonding (${data.unbondings.length})`} mt="20px">
+          <Box overflowX="auto">
+            <Table minWidth="500px" width="$full">
+              <Table.Header>
+                <Table.Row height="$fit">
+                  <Table.HeaderCell width="40%">Validator</Table.HeaderCell>
+                  <Table.HeaderCell width="30%">Amount</Table.HeaderCell>
+                  <Table.HeaderCell width="30%">Completes</Table.HeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {data.unbondings.map(
+                  ({
+                    validatorAddress,
+                    creationHeight,
+                    amount,
+                    completionTime,
+                  }) => (
+                    <Table.Row key={`${validatorAddress}-${creationHeight}`}>
+                      <Table.Cell>
+                        {renderValidator(validatorAddress)}
+                      </Table.Cell>
+                      <Table.Cell>
+                        {amount} {coin.symbol}
+                      </Table.Cell>
+                      <Table.Cell color="$blackAlpha500" fontWeight="500">
+                        {formatDate(completionTime)}
+                      </Table.Cell>
+                    </Table.Row>
+                  ),
+                )}
+              </Table.Body>
+            </Table>
+          </Box>
+        </InfoCard>
+      )}
+
+      {data.redelegations.length > 0 && (
+        <InfoCard
+          title={`Redelegations (${data.redelegations.length})`}
+          mt="20px"
+        >
+          <Box overflowX="auto">
+            <Table minWidth="600px" width="$full">
+              <Table.Header>
+                <Table.Row height="$fit">
+                  <Table.HeaderCell width="25%">From</Table.HeaderCell>
+                  <Table.HeaderCell width="25%">To</Table.HeaderCell>
+                  <Table.HeaderCell width="25%">Amount</Table.HeaderCell>
+                  <Table.HeaderCell width="25%">Completes</Table.HeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {data.redelegations.map(
+                  ({
+                    srcValidatorAddress,
+                    dstValidatorAddress,
+                    creationHeight,
+                    amount,
+                    completionTime,
+                  }) => (
+                    <Table.Row
+                      key={`${srcValidatorAddress}-${dstValidatorAddress}-${creationHeight}`}
+                    >
+                      <Table.Cell>
+                        {renderValidator(srcValidatorAddress)}
+                      </Table.Cell>
+                      <Table.Cell>
+                        {renderValidator(dstValidatorAddress)}
+                      </Table.Cell>
+                      <Table.Cell>
+                        {amount} {coin.symbol}
+                      </Table.Cell>
+                      <Table.Cell color="$blackAlpha500" fontWeight="500">
+                        {formatDate(completionTime)}
+                      </Table.Cell>
+                    </Table.Row>
+                  ),
+                )}
+              </Table.Body>
+            </Table>
+          </Box>
+        </InfoCard>
+      )}
+    </>
+  );
+};
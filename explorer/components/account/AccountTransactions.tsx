@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { Button, InfoCard, Pagination } from '../common';
+import { TransactionsTable } from '../transactions';
+import {
+  useAddressFirstTxHeight,
+  useIndexedAddressTxs,
+  useIndexerStatus,
+  useTransactions,
+} from '@/hooks';
+import { getAddressTxQuery, getMessageType } from '@/utils';
+
+type Direction = 'sent' | 'received';
+
+const DIRECTIONS: Direction[] = ['sent', 'received'];
+
+const PAGE_SIZE = 10;
+
+const TransactionsBody = ({
+  chainName,
+  isLoading,
+  isError,
+  errorText,
+  emptyText,
+  txs = [],
+}: {
+  chainName: string;
+  isLoading: boolean;
+  isError: boolean;
+  errorText: string;
+  emptyText: string;
+  txs?: Parameters<typeof TransactionsTable>[0]['txs'];
+}) => (
+  <Box
+    display="flex"
+    justifyContent="center"
+    alignItems="center"
+    minHeight="200px"
+  >
+    {isLoading ? (
+      <Spinner size="$4xl" color="$blackAlpha600" />
+    ) : isError ? (
+      <Text color="$textDanger" fontSize="14px">
+        {errorText}
+      </Text>
+    ) : txs.length === 0 ? (
+      <Text color="$blackAlpha500" fontSize="14px">
+        {emptyText}
+      </Text>
+    ) : (
+      <Box width="$full" alignSelf="start" overflowX="auto">
+        <TransactionsTable chainName={chainName} txs={txs} />
+      </Box>
+    )}
+  </Box>
+);
+
+/**
+ * Full address history from the indexer, which links every tx that
+ * mentions the address, so there is no sent/received split.
+ */
+const IndexedAccountTransactions = ({
+  chainName,
+  address,
+  lastHeight,
+}: {
+  chainName: string;
+  address: string;
+  lastHeight: number;
+}) => {
+  const {
+    data,
+    isLoading,
+    isError,
+    isFetching,
+    page,
+    hasNextPage,
+    hasPrevPage,
+    goToNextPage,
+    goToPrevPage,
+  } = useIndexedAddressTxs(address, { limit: PAGE_SIZE });
+
+  return (
+    <InfoCard title="Transactions" mt="20px">
+      <Text color="$blackAlpha500" fontSize="14px">
+        {data ? `${data.total.toLocaleString()} ` : ''}indexed up to block #
+        {lastHeight}
+      </Text>
+
+      <TransactionsBody
+        chainName={chainName}
+        isLoading={isLoading}
+        isError={isError}
+        errorText="Failed to load transactions from the indexer"
+        emptyText="No indexed transactions"
+        txs={data?.txs.map((tx) => ({
+          ...tx,
+          messageTypes: tx.messageTypes.map(getMessageType),
+        }))}
+      />
+
+      <Pagination
+        page={page}
+        hasPrevPage={hasPrevPage}
+        hasNextPage={hasNextPage}
+        isFetching={isFetching}
+        onPrev={goToPrevPage}
+        onNext={goToNextPage}
+      />
+    </InfoCard>
+  );
+};
+
+const RpcAccountTransactions = ({
+  chainName,
+  address,
+}: {
+  chainName: string;
+  address: string;
+}) => {
+  const [direction, setDirection] = useState<Direction>('sent');
+
+  const {
+    data,
+    isLoading,
+    isError,
+    isFetching,
+    page,
+    hasNextPage,
+    hasPrevPage,
+    goToNextPage,
+    goToPrevPage,
+  } = useTransactions(chainName, {
+    query: getAddressTxQuery(address, direction),
+    limit: PAGE_SIZE,
+  });
+
+  return (
+    <InfoCard title="Transactions" mt="20px">
+      <Box display="flex" gap="10px">
+        {DIRECTIONS.map((value) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={direction === value ? 'primary' : 'outline'}
+            onClick={() => setDirection(value)}
+          >
+            {value === 'sent' ? 'Sent' : 'Received'}
+          </Button>
+        ))}
+      </Box>
+
+      <TransactionsBody
+        chainName={chainName}
+        isLoading={isLoading}
+        isError={isError}
+        errorText="Failed to load transactions from the RPC endpoint"
+        emptyText={`No ${direction} transactions`}
+        txs={data?.txs}
+      />
+
+      <Pagination
+        page={page}
+        hasPrevPage={hasPrevPage}
+        hasNextPage={hasNextPage}
+        isFetching={isFetching}
+        onPrev={goToPrevPage}
+        onNext={goToNextPage}
+      />
+    </InfoCard>
+  );
+};
+
+/**
+ * Reads the history from the indexer when one is running for this chain's
+ * addresses and has indexed back to the account's first tx. The indexer
+ * starts at the latest block by default, so otherwise the older history is
+ * only on the RPC endpoint and the list falls back to `tx_search`.
+ */
+export const AccountTransactions = ({
+  chainName,
+  address,
+}: {
+  chainName: string;
+  address: string;
+}) => {
+  const { data: indexerStatus, isLoading: isIndexerLoading } =
+    useIndexerStatus();
+
+  const indexerFirstHeight =
+    indexerStatus?.lastHeight &&
+    address.startsWith(`${indexerStatus.bech32Prefix}1`)
+      ? indexerStatus.firstHeight
+      : null;
+
+  // an indexer that started from genesis covers every account
+  const { data: firstTxHeight, isInitialLoading: isFirstTxLoading } =
+    useAddressFirstTxHeight(chainName, address, {
+      enabled: !!indexerFirstHeight && indexerFirstHeight > 1,
+    });
+
+  if (isIndexerLoading || isFirstTxLoading) {
+    return (
+      <InfoCard title="Transactions" mt="20px">
+        <Box display="flex" justifyContent="center" minHeight="200px">
+          <Spinner size="$4xl" color="$blackAlpha600" />
+        </Box>
+      </InfoCard>
+    );
+  }
+
+  const isIndexed =
+    !!indexerFirstHeight &&
+    (indexerFirstHeight <= 1 ||
+      firstTxHeight === null ||
+      (!!firstTxHeight && firstTxHeight >= indexerFirstHeight));
+
+  return isIndexed ? (
+    <IndexedAccountTransactions
+      chainName={chainName}
+      address={address}
+      lastHeight={indexerStatus!.lastHeight!}
+    />
+  ) : (
+    <RpcAccountTransactions chainName={chainName} address={address} />
+  );
+};
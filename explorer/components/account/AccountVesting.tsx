@@ -0,0 +1,80 @@
+import { useChain } from '@interchain-kit/react';
+import { Text } from '@interchain-ui/react';
+import { Coin } from '@interchainjs/react/types';
+
+import { InfoCard, InfoRow } from '../common';
+import { useVestingAccount } from '@/hooks';
+import {
+  calcLockedAmount,
+  formatDate,
+  getExponentFromAsset,
+  getNativeAsset,
+  shiftDigits,
+} from '@/utils';
+
+export const AccountVesting = ({
+  chainName,
+  address,
+}: {
+  chainName: string;
+  address: string;
+}) => {
+  const { assetList } = useChain(chainName);
+  const { data: schedule } = useVestingAccount(chainName, address);
+
+  if (!schedule) return null;
+
+  const coin = getNativeAsset(assetList);
+  const exp = getExponentFromAsset(coin);
+
+  const formatCoins = (coins: Coin[]) => {
+    if (coins.length === 0) return '0';
+    return coins
+      .map(({ amount, denom }) =>
+        denom === coin.base
+          ? `${shiftDigits(amount, -exp)} ${coin.symbol}`
+          : `${amount} ${denom}`,
+      )
+      .join(', ');
+  };
+
+  const isPermanent = schedule.type === 'PermanentLockedAccount';
+  const locked = calcLockedAmount(schedule, coin.base);
+
+  return (
+    <InfoCard title="Vesting" mt="20px">
+      <InfoRow label="Account Type">{schedule.type}</InfoRow>
+      <InfoRow label="Original Vesting">
+        {formatCoins(schedule.originalVesting)}
+      </InfoRow>
+      <InfoRow label="Still Locked">
+        {shiftDigits(locked, -exp)} {coin.symbol}
+      </InfoRow>
+      <InfoRow label="Delegated Vesting">
+        {formatCoins(schedule.delegatedVesting)}
+      </InfoRow>
+      <InfoRow label="Delegated Free">
+        {formatCoins(schedule.delegatedFree)}
+      </InfoRow>
+      {schedule.startTime && (
+        <InfoRow label="Start">{formatDate(schedule.startTime)}</InfoRow>
+      )}
+      <InfoRow label="End">
+        {isPermanent ? 'Never' : formatDate(schedule.endTime)}
+      </InfoRow>
+
+      {!isPermanent && schedule.periods.length > 1 && (
+        <>
+          <Text fontSize="16px" fontWeight="600" attributes={{ mt: '8px' }}>
+            Periods
+          </Text>
+          {schedule.periods.map(({ endTime, amount }, index) => (
+            <InfoRow key={index} label={formatDate(endTime) || '--'}>
+              {formatCoins(amount)}
+            </InfoRow>
+          ))}
+        </>
+      )}
+    </InfoCard>
+  );
+};
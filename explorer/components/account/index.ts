@@ -0,0 +1,5 @@
+export * from './AccountSection';
+export * from './AccountBalances';
+export * from './AccountStaking';
+export * from './AccountVesting';
+export * from './AccountTransactions';
@@ -0,0 +1,99 @@
+import Link from 'next/link';
+import BigNumber from 'bignumber.js';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { Button, InfoCard, InfoRow } from '../common';
+import { useBlock, useProposerMonikers } from '@/hooks';
+import { formatDate } from '@/utils';
+
+export const BlockDetails = ({
+  chainName,
+  height,
+}: {
+  chainName: string;
+  height: number;
+}) => {
+  const { data: block, isLoading, isError } = useBlock(chainName, height);
+  const monikers = useProposerMonikers(chainName);
+
+  if (isLoading || isError) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="300px"
+      >
+        {isLoading ? (
+          <Spinner size="$6xl" color="$blackAlpha600" />
+        ) : (
+          <Text color="$textDanger" fontSize="16px">
+            Block #{height} could not be found
+          </Text>
+        )}
+      </Box>
+    );
+  }
+
+  return (
+    <Box maxWidth="$containerMd" mx="auto" mb="$17">
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        mb="20px"
+      >
+        <Text color="$blackAlpha600" fontSize="24px" fontWeight="700">
+          Block #{block.height}
+        </Text>
+        <Box display="flex" gap="10px">
+          {block.height > 1 && (
+            <Link href={`/blocks/${block.height - 1}`}>
+              <Button size="sm">Previous</Button>
+            </Link>
+          )}
+          <Link href={`/blocks/${block.height + 1}`}>
+            <Button size="sm">Next</Button>
+          </Link>
+        </Box>
+      </Box>
+
+      <InfoCard>
+        <InfoRow label="Chain ID">{block.chainId}</InfoRow>
+        <InfoRow label="Block Hash">{block.hash}</InfoRow>
+        <InfoRow label="Time">{formatDate(new Date(block.time))}</InfoRow>
+        <InfoRow label="Proposer">
+          {monikers[block.proposerAddress] || block.proposerAddress}
+        </InfoRow>
+        <InfoRow label="Transactions">{block.txCount}</InfoRow>
+        <InfoRow label="Gas Used / Wanted">
+          {new BigNumber(block.gasUsed).toFormat()} /{' '}
+          {new BigNumber(block.gasWanted).toFormat()}
+        </InfoRow>
+        <InfoRow label="App Hash">{block.appHash}</InfoRow>
+        <InfoRow label="Previous Block Hash">{block.lastBlockHash}</InfoRow>
+      </InfoCard>
+
+      <InfoCard title="Transactions" mt="20px">
+        {block.txHashes.length === 0 ? (
+          <Text color="$blackAlpha500" fontSize="14px">
+            No transactions in this block
+          </Text>
+        ) : (
+          block.txHashes.map((txHash) => (
+            <Link key={txHash} href={`/tx/${txHash}`}>
+              <Text
+                color="$purple600"
+                fontSize="14px"
+                fontWeight="500"
+                wordBreak="break-all"
+              >
+                {txHash}
+              </Text>
+            </Link>
+          ))
+        )}
+      </InfoCard>
+    </Box>
+  );
+};
@@ -0,0 +1,113 @@
+import Link from 'next/link';
+import BigNumber from 'bignumber.js';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { Table } from '../common';
+import { useLatestBlocks, useProposerMonikers } from '@/hooks';
+import { BlockSummary, formatDate, shortenAddress } from '@/utils';
+
+export const BlocksSection = ({ chainName }: { chainName: string }) => {
+  const {
+    data: blocks = [],
+    isLoading,
+    isError,
+    isStreaming,
+  } = useLatestBlocks(chainName);
+  const monikers = useProposerMonikers(chainName);
+
+  return (
+    <Box maxWidth="$containerMd" mx="auto" mb="$17">
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        mb="10px"
+      >
+        <Text color="$blackAlpha600" fontSize="24px" fontWeight="700">
+          Latest Blocks
+        </Text>
+        <StreamStatus isStreaming={isStreaming} />
+      </Box>
+
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="300px"
+      >
+        {isLoading ? (
+          <Spinner size="$6xl" color="$blackAlpha600" />
+        ) : isError ? (
+          <Text color="$textDanger" fontSize="16px">
+            Failed to load blocks from the RPC endpoint
+          </Text>
+        ) : (
+          <Box width="$full" alignSelf="start" overflowX="auto">
+            <BlocksTable blocks={blocks} monikers={monikers} />
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+const StreamStatus = ({ isStreaming }: { isStreaming: boolean }) => {
+  return (
+    <Box display="flex" alignItems="center" gap="6px">
+      <Box
+        width="8px"
+        height="8px"
+        borderRadius="$full"
+        backgroundColor={isStreaming ? '$green400' : '$blackAlpha400'}
+      />
+      <Text color="$blackAlpha500" fontSize="14px">
+        {isStreaming ? 'Live' : 'Polling'}
+      </Text>
+    </Box>
+  );
+};
+
+const BlocksTable = ({
+  blocks,
+  monikers,
+}: {
+  blocks: BlockSummary[];
+  monikers: Record<string, string>;
+}) => {
+  return (
+    <Table minWidth="650px" width="$full">
+      <Table.Header>
+        <Table.Row height="$fit">
+          <Table.HeaderCell width="14%">Height</Table.HeaderCell>
+          <Table.HeaderCell width="22%">Time</Table.HeaderCell>
+          <Table.HeaderCell width="30%">Proposer</Table.HeaderCell>
+          <Table.HeaderCell width="10%">Txs</Table.HeaderCell>
+          <Table.HeaderCell width="24%">Gas Used</Table.HeaderCell>
+        </Table.Row>
+      </Table.Header>
+      <Table.Body>
+        {blocks.map(({ height, time, proposerAddress, txCount, gasUsed }) => (
+          <Table.Row key={height}>
+            <Table.Cell>
+              <Link href={`/blocks/${height}`}>
+                <Text as="span" color="$purple600" fontWeight="600">
+                  {height}
+                </Text>
+              </Link>
+            </Table.Cell>
+            <Table.Cell color="$blackAlpha500" fontWeight="500">
+              {formatDate(new Date(time))}
+            </Table.Cell>
+            <Table.Cell>
+              {monikers[proposerAddress] || shortenAddress(proposerAddress)}
+            </Table.Cell>
+            <Table.Cell>{txCount}</Table.Cell>
+            <Table.Cell color="$blackAlpha500" fontWeight="500">
+              {new BigNumber(gasUsed).toFormat()}
+            </Table.Cell>
+          </Table.Row>
+        ))}
+      </Table.Body>
+    </Table>
+  );
+};
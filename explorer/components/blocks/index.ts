@@ -0,0 +1,2 @@
+export * from './BlocksSection';
+export * from './BlockDetails';
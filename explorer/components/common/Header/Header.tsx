@@ -7,6 +7,7 @@ import { ChainDropdown } from './ChainDropdown';
 import { Button } from '../Button';
 import { useDetectBreakpoints } from '@/hooks';
 import { AddressButton } from './AddressButton';
+import { SearchBar } from './SearchBar';
 
 interface HeaderProps {
   onOpenSidebar: () => void;
@@ -27,42 +28,50 @@ export const Header = ({ onOpenSidebar }: HeaderProps) => {
   );
 
   return (
-    <Box
-      display="flex"
-      justifyContent={isDesktop ? 'flex-end' : 'space-between'}
-      alignItems="center"
-      mb="30px"
-    >
-      {!isDesktop && (
-        <Link href="/">
-          <Image
-            src={isMobile ? brandLogoSm : brandLogo}
-            alt="your logo"
-            width="0"
-            height="0"
-            style={{ width: isMobile ? '40px' : '160px', height: 'auto' }}
-          />
-        </Link>
-      )}
-      <Box display="flex" alignItems="center" gap="10px">
-        <AddressButton />
-        <ChainDropdown />
-        <Button
-          leftIcon={theme === 'dark' ? 'moonLine' : 'sunLine'}
-          px="10px"
-          onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
-        />
+    <Box mb="30px">
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        gap="10px"
+      >
+        {isDesktop && <SearchBar width="360px" />}
         {!isDesktop && (
-          <Box
-            color="$blackAlpha400"
-            cursor="pointer"
-            ml="6px"
-            attributes={{ onClick: onOpenSidebar }}
-          >
-            <RxHamburgerMenu size="22px" />
-          </Box>
+          <Link href="/">
+            <Image
+              src={isMobile ? brandLogoSm : brandLogo}
+              alt="your logo"
+              width="0"
+              height="0"
+              style={{ width: isMobile ? '40px' : '160px', height: 'auto' }}
+            />
+          </Link>
         )}
+        <Box display="flex" alignItems="center" gap="10px">
+          <AddressButton />
+          <ChainDropdown />
+          <Button
+            leftIcon={theme === 'dark' ? 'moonLine' : 'sunLine'}
+            px="10px"
+            onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
+          />
+          {!isDesktop && (
+            <Box
+              color="$blackAlpha400"
+              cursor="pointer"
+              ml="6px"
+              attributes={{ onClick: onOpenSidebar }}
+            >
+              <RxHamburgerMenu size="22px" />
+            </Box>
+          )}
+        </Box>
       </Box>
+      {!isDesktop && (
+        <Box mt="16px">
+          <SearchBar width="100%" />
+        </Box>
+      )}
     </Box>
   );
 };
@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import { useChain } from '@interchain-kit/react';
+import { Box, Icon, Text, TextField } from '@interchain-ui/react';
+
+import { useChainStore } from '@/contexts';
+import { useOutsideClick, useValidatorMonikers } from '@/hooks';
+import { classifySearchInput, SearchResult } from '@/utils';
+
+const SEARCH_INPUT_ID = 'global-search';
+
+const TYPE_LABELS: Record<SearchResult['type'], string> = {
+  block: 'Block',
+  proposal: 'Proposal',
+  transaction: 'Transaction',
+  account: 'Account',
+  validator: 'Validator',
+  contract: 'Contract',
+  deployment: 'Deployment',
+};
+
+const isEditableElement = (element: Element | null) => {
+  return (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLTextAreaElement ||
+    (element instanceof HTMLElement && element.isContentEditable)
+  );
+};
+
+export const SearchBar = ({ width }: { width: string }) => {
+  const router = useRouter();
+  const { selectedChain } = useChainStore();
+  const { chain } = useChain(selectedChain);
+  const { data: validators } = useValidatorMonikers(selectedChain);
+
+  const [input, setInput] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useOutsideClick({
+    ref: containerRef,
+    handler: () => setIsOpen(false),
+    shouldListen: isOpen,
+  });
+
+  const results = useMemo(
+    () =>
+      classifySearchInput(input, {
+        bech32Prefix: chain?.bech32Prefix ?? '',
+        validators: validators ?? [],
+      }),
+    [input, chain?.bech32Prefix, validators],
+  );
+
+  useEffect(() => {
+    setHighlighted(0);
+  }, [results]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const isShortcut =
+        (event.key === 'k' && (event.ctrlKey || event.metaKey)) ||
+        (event.key === '/' && !isEditableElement(document.activeElement));
+
+      if (isShortcut) {
+        event.preventDefault();
+        document.getElementById(SEARCH_INPUT_ID)?.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const goTo = (result: SearchResult) => {
+    router.push(result.href);
+    setInput('');
+    setIsOpen(false);
+    document.getElementById(SEARCH_INPUT_ID)?.blur();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    switch (event.key) {
+      case 'Enter':
+        if (results[highlighted]) goTo(results[highlighted]);
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        setHighlighted((index) => Math.min(index + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setHighlighted((index) => Math.max(index - 1, 0));
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        document.getElementById(SEARCH_INPUT_ID)?.blur();
+        break;
+    }
+  };
+
+  return (
+    <Box position="relative" width={width} boxRef={containerRef}>
+      <TextField
+        id={SEARCH_INPUT_ID}
+        value={input}
+        onChange={(e) => {
+          setInput(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        placeholder="Search height, tx, address, validator... ( / )"
+        autoComplete="off"
+        inputAttributes={{ onKeyDown: handleKeyDown }}
+        startAddon={
+          <Box display="flex" alignItems="center" pl="10px">
+            <Icon name="magnifier" size="$lg" color="$blackAlpha400" />
+          </Box>
+        }
+      />
+      {isOpen && input.trim() && (
+        <Box
+          position="absolute"
+          top="calc(100% + 4px)"
+          left="0"
+          right="0"
+          zIndex="10"
+          py="6px"
+          borderRadius="4px"
+          borderWidth="1px"
+          borderStyle="solid"
+          borderColor="$blackAlpha300"
+          backgroundColor="$background"
+          boxShadow="$md"
+        >
+          {results.length === 0 ? (
+            <Text
+              color="$blackAlpha500"
+              fontSize="14px"
+              attributes={{ px: '12px', py: '6px' }}
+            >
+              No matches
+            </Text>
+          ) : (
+            results.map((result, index) => (
+              <Box
+                key={result.href + result.type}
+                px="12px"
+                py="6px"
+                cursor="pointer"
+                backgroundColor={
+                  index === highlighted ? '$blackAlpha200' : 'transparent'
+                }
+                attributes={{
+                  onMouseDown: (event: React.MouseEvent) => {
+                    // keep focus so the outside click handler does not close first
+                    event.preventDefault();
+                    goTo(result);
+                  },
+                  onMouseEnter: () => setHighlighted(index),
+                }}
+              >
+                <Text color="$blackAlpha500" fontSize="12px" fontWeight="600">
+                  {TYPE_LABELS[result.type]}
+                </Text>
+                <Text
+                  color="$blackAlpha600"
+                  fontSize="14px"
+                  fontWeight="600"
+                  wordBreak="break-all"
+                >
+                  {result.label}
+                </Text>
+              </Box>
+            ))
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,64 @@
+import { Box, BoxProps, Text } from '@interchain-ui/react';
+
+type InfoCardProps = {
+  title?: string;
+  children: React.ReactNode;
+} & Pick<BoxProps, 'mt' | 'mb'>;
+
+export const InfoCard = ({ title, children, ...rest }: InfoCardProps) => {
+  return (
+    <Box
+      p="20px"
+      borderWidth="1px"
+      borderStyle="solid"
+      borderColor="$blackAlpha300"
+      borderRadius="4px"
+      {...rest}
+    >
+      {title && (
+        <Text fontSize="18px" fontWeight="600" attributes={{ mb: '16px' }}>
+          {title}
+        </Text>
+      )}
+      <Box display="flex" flexDirection="column" gap="12px">
+        {children}
+      </Box>
+    </Box>
+  );
+};
+
+export const InfoRow = ({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) => {
+  return (
+    <Box
+      display="flex"
+      flexWrap="wrap"
+      alignItems="baseline"
+      columnGap="20px"
+      rowGap="4px"
+    >
+      <Text
+        color="$blackAlpha500"
+        fontSize="14px"
+        fontWeight="500"
+        attributes={{ minWidth: '160px' }}
+      >
+        {label}
+      </Text>
+      <Box
+        color="$blackAlpha600"
+        fontSize="14px"
+        fontWeight="600"
+        wordBreak="break-all"
+        flex="1"
+      >
+        {children}
+      </Box>
+    </Box>
+  );
+};
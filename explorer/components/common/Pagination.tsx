@@ -0,0 +1,41 @@
+import { Box, Text } from '@interchain-ui/react';
+
+import { Button } from './Button';
+
+export const Pagination = ({
+  page,
+  hasPrevPage,
+  hasNextPage,
+  isFetching,
+  onPrev,
+  onNext,
+}: {
+  page: number;
+  hasPrevPage: boolean;
+  hasNextPage: boolean;
+  isFetching: boolean;
+  onPrev: () => void;
+  onNext: () => void;
+}) => {
+  if (!hasPrevPage && !hasNextPage) return null;
+
+  return (
+    <Box
+      display="flex"
+      justifyContent="flex-end"
+      alignItems="center"
+      gap="10px"
+      mt="20px"
+    >
+      <Text color="$blackAlpha500" fontSize="14px">
+        Page {page}
+      </Text>
+      <Button size="sm" disabled={!hasPrevPage || isFetching} onClick={onPrev}>
+        Previous
+      </Button>
+      <Button size="sm" disabled={!hasNextPage || isFetching} onClick={onNext}>
+        Next
+      </Button>
+    </Box>
+  );
+};
@@ -5,6 +5,10 @@ import { Box, Icon, IconName, Stack, Text } from '@interchain-ui/react';
 
 // Dynamically import icons with no SSR
 const RiHome7Line = dynamic(() => import('react-icons/ri').then(mod => mod.RiHome7Line), { ssr: false });
+const RiBox3Line = dynamic(() => import('react-icons/ri').then(mod => mod.RiBox3Line), { ssr: false });
+const RiExchangeLine = dynamic(() => import('react-icons/ri').then(mod => mod.RiExchangeLine), { ssr: false });
+const RiServerLine = dynamic(() => import('react-icons/ri').then(mod => mod.RiServerLine), { ssr: false });
+const RiCloudLine = dynamic(() => import('react-icons/ri').then(mod => mod.RiCloudLine), { ssr: false });
 const RiStackLine = dynamic(() => import('react-icons/ri').then(mod => mod.RiStackLine), { ssr: false });
 const RiQuillPenLine = dynamic(() => import('react-icons/ri').then(mod => mod.RiQuillPenLine), { ssr: false });
 const MdOutlineWaterDrop = dynamic(() => import('react-icons/md').then(mod => mod.MdOutlineWaterDrop), { ssr: false });
@@ -21,7 +25,11 @@ type NavItem = {
 
 export const ROUTES = {
   HOME: '/',
+  BLOCKS: '/blocks',
+  TRANSACTIONS: '/transactions',
   STAKING: '/staking',
+  DEPLOYMENTS: '/deployments',
+  PROVIDERS: '/providers',
   GOVERNANCE: '/governance',
   ASSET_LIST: '/asset-list',
   FAUCET: '/faucet',
@@ -36,11 +44,31 @@ const navItems: NavItem[] = [
     label: 'Home',
     href: ROUTES.HOME,
   },
+  {
+    icon: <RiBox3Line size="20px" />,
+    label: 'Blocks',
+    href: ROUTES.BLOCKS,
+  },
+  {
+    icon: <RiExchangeLine size="20px" />,
+    label: 'Transactions',
+    href: ROUTES.TRANSACTIONS,
+  },
   {
     icon: <RiStackLine size="20px" />,
     label: 'Staking',
     href: ROUTES.STAKING,
   },
+  {
+    icon: <RiServerLine size="20px" />,
+    label: 'Deployments',
+    href: ROUTES.DEPLOYMENTS,
+  },
+  {
+    icon: <RiCloudLine size="20px" />,
+    label: 'Providers',
+    href: ROUTES.PROVIDERS,
+  },
   {
     icon: <MdOutlineHowToVote size="20px" />,
     label: 'Governance',
@@ -81,7 +109,9 @@ const NavItem = ({
 }: NavItem & { onClick?: () => void }) => {
   const router = useRouter();
 
-  const isActive = router.pathname === href;
+  const isActive =
+    router.pathname === href ||
+    (href !== ROUTES.HOME && router.pathname.startsWith(`${href}/`));
 
   return (
     <Link href={href}>
@@ -6,3 +6,5 @@ export * from './Radio';
 export * from './Table';
 export * from './Provider';
 export * from './Stepper';
+export * from './InfoCard';
+export * from './Pagination';
@@ -0,0 +1,92 @@
+import { MetricCard } from './MetricCard';
+import {
+  convertMicroUsdToUsd,
+  DashboardData,
+  formatNumber,
+  formatUsd,
+} from '@/utils/akash/dashboard';
+
+export interface MetricProps {
+  data: DashboardData | null;
+  isLoading?: boolean;
+  error?: string | null;
+}
+
+export const UsdSpentMetric = ({
+  data,
+  isLoading = false,
+  error = null,
+}: MetricProps) => {
+  if (isLoading || error || !data) {
+    return (
+      <MetricCard
+        title="USD Spent (24h)"
+        value=""
+        isLoading={isLoading}
+        error={error}
+      />
+    );
+  }
+  const usd = convertMicroUsdToUsd(data.now.dailyUUsdSpent);
+  const formatted = formatUsd(usd);
+  return (
+    <MetricCard
+      title="USD Spent (24h)"
+      value={formatted}
+      isLoading={isLoading}
+      error={error}
+    />
+  );
+};
+
+export const ActiveLeasesMetric = ({
+  data,
+  isLoading = false,
+  error = null,
+}: MetricProps) => {
+  if (isLoading || error || !data) {
+    return (
+      <MetricCard
+        title="Active Leases"
+        value=""
+        isLoading={isLoading}
+        error={error}
+      />
+    );
+  }
+  const formatted = formatNumber(data.now.activeLeaseCount);
+  return (
+    <MetricCard
+      title="Active Leases"
+      value={formatted}
+      isLoading={isLoading}
+      error={error}
+    />
+  );
+};
+
+export const ActiveProvidersMetric = ({
+  data,
+  isLoading = false,
+  error = null,
+}: MetricProps) => {
+  if (isLoading || error || !data) {
+    return (
+      <MetricCard
+        title="Active Providers"
+        value=""
+        isLoading={isLoading}
+        error={error}
+      />
+    );
+  }
+  const formatted = formatNumber(data.networkCapacity.activeProviderCount);
+  return (
+    <MetricCard
+      title="Active Providers"
+      value={formatted}
+      isLoading={isLoading}
+      error={error}
+    />
+  );
+};
@@ -0,0 +1,188 @@
+import Link from 'next/link';
+import BigNumber from 'bignumber.js';
+import { ProposalStatus } from '@interchainjs/react/cosmos/gov/v1/gov';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { InfoCard } from '../common';
+import { MetricCard } from './MetricCard';
+import {
+  ActiveLeasesMetric,
+  ActiveProvidersMetric,
+  UsdSpentMetric,
+} from './AkashMetrics';
+import {
+  useDashboardData,
+  useDetectBreakpoints,
+  useLatestBlocks,
+  useStakingData,
+  useVotingData,
+} from '@/hooks';
+import {
+  calcAverageBlockTime,
+  calcBondedRatio,
+  formatDate,
+  formatNumber,
+} from '@/utils';
+
+const toPercent = (ratio: BigNumber) =>
+  ratio.isFinite()
+    ? `${ratio.shiftedBy(2).decimalPlaces(2).toString()}%`
+    : '--';
+
+export const Dashboard = ({ chainName }: { chainName: string }) => {
+  const { isMobile, isTablet } = useDetectBreakpoints();
+  const columns = isMobile ? 1 : isTablet ? 2 : 4;
+
+  return (
+    <Box maxWidth="$containerMd" mx="auto" mb="$17">
+      <Text
+        color="$blackAlpha600"
+        fontSize="24px"
+        fontWeight="700"
+        attributes={{ mb: '20px' }}
+      >
+        Network Overview
+      </Text>
+      <Box
+        display="grid"
+        gridTemplateColumns={`repeat(${columns}, 1fr)`}
+        gap="20px"
+      >
+        <ChainMetrics chainName={chainName} />
+        <StakingMetrics chainName={chainName} />
+      </Box>
+
+      <Text
+        color="$blackAlpha600"
+        fontSize="24px"
+        fontWeight="700"
+        attributes={{ mt: '40px', mb: '20px' }}
+      >
+        Akash Network
+      </Text>
+      <Box
+        display="grid"
+        gridTemplateColumns={`repeat(${Math.min(columns, 3)}, 1fr)`}
+        gap="20px"
+      >
+        <AkashMetrics />
+      </Box>
+
+      <ActiveProposals chainName={chainName} />
+    </Box>
+  );
+};
+
+const ChainMetrics = ({ chainName }: { chainName: string }) => {
+  const { data: blocks = [], isLoading, isError } = useLatestBlocks(chainName);
+
+  const error = isError ? 'Failed to load blocks' : null;
+  const blockTime = calcAverageBlockTime(blocks);
+
+  return (
+    <>
+      <MetricCard
+        title="Latest Height"
+        value={blocks[0] ? formatNumber(blocks[0].height) : '--'}
+        isLoading={isLoading}
+        error={error}
+      />
+      <MetricCard
+        title="Block Time"
+        value={blockTime === null ? '--' : `${blockTime.toFixed(2)}s`}
+        isLoading={isLoading}
+        error={error}
+      />
+    </>
+  );
+};
+
+const StakingMetrics = ({ chainName }: { chainName: string }) => {
+  const { data, isLoading, isError } = useStakingData(chainName);
+
+  // other staking queries, e.g. prices, may fail without affecting these
+  const poolError =
+    isError && !data?.pool ? 'Failed to load staking pool' : null;
+  const inflationError =
+    isError && !data?.inflation ? 'Failed to load inflation' : null;
+
+  return (
+    <>
+      <MetricCard
+        title="Bonded Ratio"
+        value={data?.pool ? toPercent(calcBondedRatio(data.pool)) : '--'}
+        isLoading={isLoading}
+        error={poolError}
+      />
+      <MetricCard
+        title="Inflation"
+        value={
+          data?.inflation?.rate
+            ? toPercent(new BigNumber(data.inflation.rate))
+            : '--'
+        }
+        isLoading={isLoading}
+        error={inflationError}
+      />
+    </>
+  );
+};
+
+const AkashMetrics = () => {
+  const { data, isLoading, isError } = useDashboardData();
+
+  const props = {
+    data: data ?? null,
+    isLoading,
+    error: isError ? 'Failed to load Akash network stats' : null,
+  };
+
+  return (
+    <>
+      <UsdSpentMetric {...props} />
+      <ActiveLeasesMetric {...props} />
+      <ActiveProvidersMetric {...props} />
+    </>
+  );
+};
+
+const ActiveProposals = ({ chainName }: { chainName: string }) => {
+  const { data, isLoading } = useVotingData(chainName);
+
+  const activeProposals = (data.proposals ?? []).filter(
+    ({ status }) => status === ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD,
+  );
+
+  return (
+    <InfoCard title="Active Proposals" mt="40px">
+      {isLoading || !data.proposals ? (
+        <Box display="flex" justifyContent="center" py="20px">
+          <Spinner size="$4xl" color="$blackAlpha600" />
+        </Box>
+      ) : activeProposals.length === 0 ? (
+        <Text color="$blackAlpha500" fontSize="14px">
+          No proposals in voting period
+        </Text>
+      ) : (
+        activeProposals.map(({ id, title, votingEndTime }) => (
+          <Box
+            key={id.toString()}
+            display="flex"
+            justifyContent="space-between"
+            flexWrap="wrap"
+            gap="10px"
+          >
+            <Link href={`/governance/${id.toString()}`}>
+              <Text as="span" color="$purple600" fontWeight="600">
+                #{id.toString()} {title}
+              </Text>
+            </Link>
+            <Text color="$blackAlpha500" fontSize="14px">
+              Voting ends {formatDate(votingEndTime)}
+            </Text>
+          </Box>
+        ))
+      )}
+    </InfoCard>
+  );
+};
@@ -0,0 +1,61 @@
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+export interface MetricCardProps {
+  title: string;
+  value: string | number | null | undefined;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export const MetricCard = ({
+  title,
+  value,
+  isLoading,
+  error,
+}: MetricCardProps) => (
+  <Box
+    p="20px"
+    borderWidth="1px"
+    borderStyle="solid"
+    borderColor="$blackAlpha300"
+    borderRadius="4px"
+    minHeight="110px"
+    attributes={{
+      'data-testid': `metric-card-${title.toLowerCase().replace(/\s+/g, '-')}`,
+    }}
+  >
+    <Text
+      as="h3"
+      color="$blackAlpha500"
+      fontSize="14px"
+      fontWeight="600"
+      attributes={{ mb: '12px' }}
+    >
+      {title}
+    </Text>
+    {isLoading && (
+      <Box attributes={{ 'data-testid': 'loading-spinner' }}>
+        <Spinner size="$2xl" color="$blackAlpha600" />
+      </Box>
+    )}
+    {error && (
+      <Text
+        color="$textDanger"
+        fontSize="14px"
+        domAttributes={{ 'data-testid': 'error-message' }}
+      >
+        {error}
+      </Text>
+    )}
+    {!isLoading && !error && (
+      <Text
+        color="$blackAlpha600"
+        fontSize="24px"
+        fontWeight="700"
+        domAttributes={{ 'data-testid': 'metric-value' }}
+      >
+        {value}
+      </Text>
+    )}
+  </Box>
+);
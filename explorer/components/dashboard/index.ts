@@ -0,0 +1,3 @@
+export * from './MetricCard';
+export * from './AkashMetrics';
+export * from './Dashboard';
@@ -0,0 +1,27 @@
+import { Box, Text } from '@interchain-ui/react';
+
+import { DeploymentsList } from './DeploymentsList';
+
+type AllDeploymentsTabProps = {
+  show: boolean;
+  chainName: string;
+};
+
+export const AllDeploymentsTab = ({
+  show,
+  chainName,
+}: AllDeploymentsTabProps) => {
+  return (
+    <Box display={show ? 'block' : 'none'} maxWidth="$containerMd" mx="auto">
+      <Text
+        color="$blackAlpha600"
+        fontSize="24px"
+        fontWeight="700"
+        attributes={{ mb: '20px' }}
+      >
+        Deployments
+      </Text>
+      <DeploymentsList chainName={chainName} />
+    </Box>
+  );
+};
@@ -0,0 +1,295 @@
+import Link from 'next/link';
+import { useChain } from '@interchain-kit/react';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { InfoCard, InfoRow, Table } from '../common';
+import { DeploymentStateBadge } from './DeploymentsTable';
+import { useDeployment } from '@/hooks';
+import {
+  Bid,
+  calcBurnRate,
+  calcEscrowDaysLeft,
+  DeploymentGroup,
+  formatBytes,
+  formatCpu,
+  formatDenomAmount,
+  getEscrowRemaining,
+  Lease,
+  perBlockToPerDay,
+  shortenAddress,
+} from '@/utils';
+
+const getOrderKey = ({ provider, gseq, oseq }: Bid) =>
+  `${provider}-${gseq}-${oseq}`;
+
+export const DeploymentDetails = ({
+  chainName,
+  owner,
+  dseq,
+}: {
+  chainName: string;
+  owner: string;
+  dseq: string;
+}) => {
+  const { assetList } = useChain(chainName);
+  const { deployment, bids, leases, isLoading, isError, isMarketLoading } =
+    useDeployment(chainName, owner, dseq);
+
+  if (isLoading || isError || !deployment) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="300px"
+      >
+        {isLoading ? (
+          <Spinner size="$6xl" color="$blackAlpha600" />
+        ) : (
+          <Text color="$textDanger" fontSize="16px" wordBreak="break-all">
+            Deployment {owner}/{dseq} could not be found
+          </Text>
+        )}
+      </Box>
+    );
+  }
+
+  const { escrow } = deployment;
+  const denom = escrow.balance.denom;
+  const remaining = getEscrowRemaining(escrow);
+  const burnRate = calcBurnRate(leases, denom);
+  const daysLeft = calcEscrowDaysLeft(remaining, burnRate);
+
+  const formatAmount = (amount: string | number, decimalPlaces?: number) =>
+    formatDenomAmount(amount, denom, assetList, decimalPlaces);
+
+  const leaseKeys = new Set(leases.map(getOrderKey));
+
+  return (
+    <Box maxWidth="$containerMd" mx="auto" mb="$17">
+      <Box mb="20px">
+        <Text color="$blackAlpha600" fontSize="24px" fontWeight="700">
+          Deployment {dseq}
+        </Text>
+        <DeploymentStateBadge state={deployment.state} />
+      </Box>
+
+      <InfoCard>
+        <InfoRow label="Owner">
+          <Link href={`/address/${owner}`}>
+            <Text as="span" color="$purple600" fontWeight="600">
+              {owner}
+            </Text>
+          </Link>
+        </InfoRow>
+        <InfoRow label="DSEQ">{dseq}</InfoRow>
+        <InfoRow label="Created">
+          <Link href={`/blocks/${deployment.createdAt}`}>
+            <Text as="span" color="$purple600" fontWeight="600">
+              {deployment.createdAt}
+            </Text>
+          </Link>
+        </InfoRow>
+        <InfoRow label="Resources">
+          {formatCpu(deployment.resources.cpu)} ·{' '}
+          {formatBytes(deployment.resources.memory)} memory ·{' '}
+          {formatBytes(deployment.resources.storage)} storage
+          {deployment.resources.gpu > 0 && ` · ${deployment.resources.gpu} GPU`}
+        </InfoRow>
+      </InfoCard>
+
+      <InfoCard title="Escrow" mt="20px">
+        <InfoRow label="State">{escrow.state}</InfoRow>
+        <InfoRow label="Balance">{formatAmount(escrow.balance.amount)}</InfoRow>
+        {escrow.funds && (
+          <InfoRow label="Granted Funds">
+            {formatDenomAmount(
+              escrow.funds.amount,
+              escrow.funds.denom,
+              assetList,
+            )}
+          </InfoRow>
+        )}
+        <InfoRow label="Transferred">
+          {formatAmount(escrow.transferred.amount)}
+        </InfoRow>
+        <InfoRow label="Burn Rate">
+          {formatAmount(burnRate)} / block (
+          {formatAmount(perBlockToPerDay(burnRate), 2)} / day)
+        </InfoRow>
+        <InfoRow label="Estimated Time Left">
+          {daysLeft === null ? '--' : `${daysLeft} days`}
+        </InfoRow>
+        <InfoRow label="Settled At">
+          <Link href={`/blocks/${escrow.settledAt}`}>
+            <Text as="span" color="$purple600" fontWeight="600">
+              {escrow.settledAt}
+            </Text>
+          </Link>
+        </InfoRow>
+      </InfoCard>
+
+      {deployment.groups.map((group) => (
+        <DeploymentGroupCard
+          key={group.gseq}
+          group={group}
+          formatAmount={formatAmount}
+        />
+      ))}
+
+      <InfoCard title={`Leases (${leases.length})`} mt="20px">
+        {isMarketLoading ? (
+          <Box display="flex" justifyContent="center" py="20px">
+            <Spinner size="$4xl" color="$blackAlpha600" />
+          </Box>
+        ) : leases.length === 0 ? (
+          <Text color="$blackAlpha500" fontSize="14px">
+            No leases
+          </Text>
+        ) : (
+          <OrdersTable orders={leases} formatAmount={formatAmount} />
+        )}
+      </InfoCard>
+
+      <InfoCard title={`Bids (${bids.length})`} mt="20px">
+        {isMarketLoading ? (
+          <Box display="flex" justifyContent="center" py="20px">
+            <Spinner size="$4xl" color="$blackAlpha600" />
+          </Box>
+        ) : bids.length === 0 ? (
+          <Text color="$blackAlpha500" fontSize="14px">
+            No bids
+          </Text>
+        ) : (
+          <OrdersTable
+            orders={bids}
+            formatAmount={formatAmount}
+            isWinning={(bid) => leaseKeys.has(getOrderKey(bid))}
+          />
+        )}
+      </InfoCard>
+    </Box>
+  );
+};
+
+type FormatAmount = (amount: string | number, decimalPlaces?: number) => string;
+
+const DeploymentGroupCard = ({
+  group,
+  formatAmount,
+}: {
+  group: DeploymentGroup;
+  formatAmount: FormatAmount;
+}) => {
+  return (
+    <InfoCard title={`Group ${group.gseq}: ${group.name}`} mt="20px">
+      <InfoRow label="State">{group.state}</InfoRow>
+      {group.requiredAttributes.length > 0 && (
+        <InfoRow label="Attributes">
+          {group.requiredAttributes
+            .map(({ key, value }) => `${key}=${value}`)
+            .join(', ')}
+        </InfoRow>
+      )}
+      {group.signedBy.length > 0 && (
+        <InfoRow label="Signed By">{group.signedBy.join(', ')}</InfoRow>
+      )}
+      <Box overflowX="auto">
+        <Table minWidth="700px" width="$full">
+          <Table.Header>
+            <Table.Row height="$fit">
+              <Table.HeaderCell width="10%">Count</Table.HeaderCell>
+              <Table.HeaderCell width="15%">CPU</Table.HeaderCell>
+              <Table.HeaderCell width="15%">Memory</Table.HeaderCell>
+              <Table.HeaderCell width="15%">Storage</Table.HeaderCell>
+              <Table.HeaderCell width="20%">GPU</Table.HeaderCell>
+              <Table.HeaderCell width="25%">Max Price</Table.HeaderCell>
+            </Table.Row>
+          </Table.Header>
+          <Table.Body>
+            {group.resources.map(
+              ({ count, cpu, memory, storage, gpu, gpuModels, price }, i) => (
+                <Table.Row key={i}>
+                  <Table.Cell>{count}</Table.Cell>
+                  <Table.Cell>{formatCpu(cpu)}</Table.Cell>
+                  <Table.Cell>{formatBytes(memory)}</Table.Cell>
+                  <Table.Cell>{formatBytes(storage)}</Table.Cell>
+                  <Table.Cell>
+                    {gpu > 0
+                      ? `${gpu}${
+                          gpuModels.length ? ` (${gpuModels.join(', ')})` : ''
+                        }`
+                      : '--'}
+                  </Table.Cell>
+                  <Table.Cell color="$blackAlpha500" fontWeight="500">
+                    {formatAmount(price.amount)} / block
+                  </Table.Cell>
+                </Table.Row>
+              ),
+            )}
+          </Table.Body>
+        </Table>
+      </Box>
+    </InfoCard>
+  );
+};
+
+const OrdersTable = ({
+  orders,
+  formatAmount,
+  isWinning,
+}: {
+  orders: (Bid | Lease)[];
+  formatAmount: FormatAmount;
+  isWinning?: (bid: Bid) => boolean;
+}) => {
+  return (
+    <Box overflowX="auto">
+      <Table minWidth="700px" width="$full">
+        <Table.Header>
+          <Table.Row height="$fit">
+            <Table.HeaderCell width="30%">Provider</Table.HeaderCell>
+            <Table.HeaderCell width="15%">GSEQ / OSEQ</Table.HeaderCell>
+            <Table.HeaderCell width="25%">Price</Table.HeaderCell>
+            <Table.HeaderCell width="15%">State</Table.HeaderCell>
+            <Table.HeaderCell width="15%">Created</Table.HeaderCell>
+          </Table.Row>
+        </Table.Header>
+        <Table.Body>
+          {orders.map((order) => (
+            <Table.Row key={getOrderKey(order)}>
+              <Table.Cell>
+                <Link href={`/providers/${order.provider}`}>
+                  <Text as="span" color="$purple600" fontWeight="600">
+                    {shortenAddress(order.provider)}
+                  </Text>
+                </Link>
+                {isWinning?.(order) && (
+                  <Text color="$textSuccess" fontSize="12px" fontWeight="600">
+                    Winning bid
+                  </Text>
+                )}
+              </Table.Cell>
+              <Table.Cell>
+                {order.gseq} / {order.oseq}
+              </Table.Cell>
+              <Table.Cell>
+                {formatAmount(order.price.amount)} / block
+              </Table.Cell>
+              <Table.Cell>
+                <DeploymentStateBadge state={order.state} />
+              </Table.Cell>
+              <Table.Cell>
+                <Link href={`/blocks/${order.createdAt}`}>
+                  <Text as="span" color="$purple600" fontWeight="600">
+                    {order.createdAt}
+                  </Text>
+                </Link>
+              </Table.Cell>
+            </Table.Row>
+          ))}
+        </Table.Body>
+      </Table>
+    </Box>
+  );
+};
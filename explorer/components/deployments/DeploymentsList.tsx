@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Box, Spinner, Text, TextField } from '@interchain-ui/react';
+
+import { Button, Pagination } from '../common';
+import { EmptyState } from '../contract/my-contracts/EmptyState';
+import { DeploymentsTable } from './DeploymentsTable';
+import { useDeployments } from '@/hooks';
+import { DeploymentState } from '@/utils';
+
+const STATE_OPTIONS: { label: string; value?: DeploymentState }[] = [
+  { label: 'All' },
+  { label: 'Active', value: 'active' },
+  { label: 'Closed', value: 'closed' },
+];
+
+export const DeploymentsList = ({
+  chainName,
+  owner: fixedOwner,
+}: {
+  chainName: string;
+  owner?: string;
+}) => {
+  const [owner, setOwner] = useState('');
+  const [dseq, setDseq] = useState('');
+  const [state, setState] = useState<DeploymentState>();
+
+  const {
+    data,
+    isLoading,
+    isError,
+    isFetching,
+    page,
+    hasNextPage,
+    hasPrevPage,
+    goToNextPage,
+    goToPrevPage,
+  } = useDeployments(chainName, {
+    owner: fixedOwner ?? owner.trim(),
+    dseq: /^\d+$/.test(dseq.trim()) ? dseq.trim() : undefined,
+    state,
+  });
+
+  return (
+    <Box>
+      <Box
+        display="flex"
+        flexWrap="wrap"
+        alignItems="center"
+        gap="10px"
+        mb="10px"
+      >
+        {!fixedOwner && (
+          <Box width={{ mobile: '100%', tablet: '360px' }}>
+            <TextField
+              id="deployment-owner"
+              value={owner}
+              onChange={(e) => setOwner(e.target.value)}
+              placeholder="Owner address"
+              autoComplete="off"
+            />
+          </Box>
+        )}
+        <Box width={{ mobile: '100%', tablet: '160px' }}>
+          <TextField
+            id="deployment-dseq"
+            value={dseq}
+            onChange={(e) => setDseq(e.target.value)}
+            placeholder="DSEQ"
+            autoComplete="off"
+          />
+        </Box>
+        <Box display="flex" gap="6px">
+          {STATE_OPTIONS.map(({ label, value }) => (
+            <Button
+              key={label}
+              size="sm"
+              variant={state === value ? 'primary' : 'outline'}
+              onClick={() => setState(value)}
+            >
+              {label}
+            </Button>
+          ))}
+        </Box>
+      </Box>
+
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="300px"
+      >
+        {isLoading ? (
+          <Spinner size="$6xl" color="$blackAlpha600" />
+        ) : isError ? (
+          <Text color="$textDanger" fontSize="16px">
+            Failed to load deployments from the REST endpoint
+          </Text>
+        ) : data.deployments.length === 0 ? (
+          <EmptyState text="No deployments found" />
+        ) : (
+          <Box width="$full" alignSelf="start" overflowX="auto">
+            <DeploymentsTable
+              chainName={chainName}
+              deployments={data.deployments}
+            />
+          </Box>
+        )}
+      </Box>
+
+      <Pagination
+        page={page}
+        hasPrevPage={hasPrevPage}
+        hasNextPage={hasNextPage}
+        isFetching={isFetching}
+        onPrev={goToPrevPage}
+        onNext={goToNextPage}
+      />
+    </Box>
+  );
+};
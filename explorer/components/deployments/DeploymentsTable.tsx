@@ -0,0 +1,96 @@
+import Link from 'next/link';
+import { useChain } from '@interchain-kit/react';
+import { Text } from '@interchain-ui/react';
+
+import { Table } from '../common';
+import {
+  Deployment,
+  formatBytes,
+  formatCpu,
+  formatDenomAmount,
+  getEscrowRemaining,
+  shortenAddress,
+} from '@/utils';
+
+export const DeploymentsTable = ({
+  chainName,
+  deployments,
+}: {
+  chainName: string;
+  deployments: Deployment[];
+}) => {
+  const { assetList } = useChain(chainName);
+
+  return (
+    <Table minWidth="800px" width="$full">
+      <Table.Header>
+        <Table.Row height="$fit">
+          <Table.HeaderCell width="12%">DSEQ</Table.HeaderCell>
+          <Table.HeaderCell width="18%">Owner</Table.HeaderCell>
+          <Table.HeaderCell width="10%">State</Table.HeaderCell>
+          <Table.HeaderCell width="32%">Resources</Table.HeaderCell>
+          <Table.HeaderCell width="18%">Escrow</Table.HeaderCell>
+          <Table.HeaderCell width="10%">Created</Table.HeaderCell>
+        </Table.Row>
+      </Table.Header>
+      <Table.Body>
+        {deployments.map(
+          ({ owner, dseq, state, resources, escrow, createdAt }) => (
+            <Table.Row key={`${owner}-${dseq}`}>
+              <Table.Cell>
+                <Link href={`/deployments/${owner}/${dseq}`}>
+                  <Text as="span" color="$purple600" fontWeight="600">
+                    {dseq}
+                  </Text>
+                </Link>
+              </Table.Cell>
+              <Table.Cell>
+                <Link href={`/address/${owner}`}>
+                  <Text as="span" color="$purple600" fontWeight="600">
+                    {shortenAddress(owner)}
+                  </Text>
+                </Link>
+              </Table.Cell>
+              <Table.Cell>
+                <DeploymentStateBadge state={state} />
+              </Table.Cell>
+              <Table.Cell color="$blackAlpha500" fontWeight="500">
+                {formatCpu(resources.cpu)} · {formatBytes(resources.memory)} ·{' '}
+                {formatBytes(resources.storage)}
+                {resources.gpu > 0 && ` · ${resources.gpu} GPU`}
+              </Table.Cell>
+              <Table.Cell>
+                {formatDenomAmount(
+                  getEscrowRemaining(escrow),
+                  escrow.balance.denom,
+                  assetList,
+                  2,
+                )}
+              </Table.Cell>
+              <Table.Cell>
+                <Link href={`/blocks/${createdAt}`}>
+                  <Text as="span" color="$purple600" fontWeight="600">
+                    {createdAt}
+                  </Text>
+                </Link>
+              </Table.Cell>
+            </Table.Row>
+          ),
+        )}
+      </Table.Body>
+    </Table>
+  );
+};
+
+export const DeploymentStateBadge = ({ state }: { state: string }) => {
+  return (
+    <Text
+      as="span"
+      fontSize="14px"
+      fontWeight="600"
+      color={state === 'active' ? '$textSuccess' : '$blackAlpha500'}
+    >
+      {state.charAt(0).toUpperCase() + state.slice(1)}
+    </Text>
+  );
+};
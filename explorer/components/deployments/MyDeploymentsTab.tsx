@@ -0,0 +1,42 @@
+import { useChain } from '@interchain-kit/react';
+import { Box, Text } from '@interchain-ui/react';
+
+import { EmptyState } from '../contract/my-contracts/EmptyState';
+import { DeploymentsList } from './DeploymentsList';
+
+type MyDeploymentsTabProps = {
+  show: boolean;
+  chainName: string;
+};
+
+export const MyDeploymentsTab = ({
+  show,
+  chainName,
+}: MyDeploymentsTabProps) => {
+  const { address } = useChain(chainName);
+
+  return (
+    <Box display={show ? 'block' : 'none'} maxWidth="$containerMd" mx="auto">
+      <Text
+        color="$blackAlpha600"
+        fontSize="24px"
+        fontWeight="700"
+        attributes={{ mb: '20px' }}
+      >
+        My Deployments
+      </Text>
+      {address ? (
+        <DeploymentsList chainName={chainName} owner={address} />
+      ) : (
+        <Box
+          display="flex"
+          justifyContent="center"
+          alignItems="center"
+          minHeight="300px"
+        >
+          <EmptyState text="Connect wallet to see your deployments." />
+        </Box>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,3 @@
+export * from './AllDeploymentsTab';
+export * from './MyDeploymentsTab';
+export * from './DeploymentDetails';
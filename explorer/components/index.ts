@@ -3,3 +3,10 @@ export * from './staking';
 export * from './voting';
 export * from './asset-list';
 export * from './contract';
+export * from './blocks';
+export * from './transactions';
+export * from './account';
+export * from './validators';
+export * from './deployments';
+export * from './providers';
+export * from './dashboard';
@@ -0,0 +1,76 @@
+import { Box, Text } from '@interchain-ui/react';
+
+import { LeaseHistoryEntry } from '@/utils';
+
+const CHART_HEIGHT = 120;
+
+export const LeaseHistoryChart = ({
+  history,
+}: {
+  history: LeaseHistoryEntry[];
+}) => {
+  if (history.length === 0) return null;
+
+  const max = Math.max(
+    ...history.map(({ created, closed }) => Math.max(created, closed)),
+  );
+
+  const toHeight = (count: number) =>
+    `${Math.max((count / max) * CHART_HEIGHT, count ? 2 : 0)}px`;
+
+  return (
+    <Box mt="10px">
+      <Box display="flex" gap="16px" mb="10px">
+        <Text color="$blackAlpha500" fontSize="12px" fontWeight="600">
+          <Box as="span" color="$purple600">
+            ■
+          </Box>{' '}
+          Created
+        </Text>
+        <Text color="$blackAlpha500" fontSize="12px" fontWeight="600">
+          <Box as="span" color="$blackAlpha400">
+            ■
+          </Box>{' '}
+          Closed
+        </Text>
+      </Box>
+      <Box display="flex" alignItems="flex-end" gap="6px" overflowX="auto">
+        {history.map(({ month, created, closed }) => (
+          <Box
+            key={month}
+            display="flex"
+            flexDirection="column"
+            alignItems="center"
+            attributes={{
+              title: `${month}: ${created} created, ${closed} closed`,
+            }}
+          >
+            <Box
+              display="flex"
+              alignItems="flex-end"
+              gap="2px"
+              height={`${CHART_HEIGHT}px`}
+            >
+              <Box
+                width="10px"
+                height={toHeight(created)}
+                backgroundColor="$purple600"
+              />
+              <Box
+                width="10px"
+                height={toHeight(closed)}
+                backgroundColor="$blackAlpha400"
+              />
+            </Box>
+            <Text color="$blackAlpha500" fontSize="10px">
+              {month}
+            </Text>
+          </Box>
+        ))}
+      </Box>
+      <Text color="$blackAlpha500" fontSize="12px" attributes={{ mt: '6px' }}>
+        Months are estimated from block heights
+      </Text>
+    </Box>
+  );
+};
@@ -0,0 +1,239 @@
+import { useMemo } from 'react';
+import Link from 'next/link';
+import { useChain } from '@interchain-kit/react';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { InfoCard, InfoRow, Table } from '../common';
+import { DeploymentStateBadge } from '../deployments/DeploymentsTable';
+import { LeaseHistoryChart } from './LeaseHistoryChart';
+import { useProvider } from '@/hooks';
+import {
+  formatDenomAmount,
+  formatDenomAmounts,
+  getLeaseHistory,
+  shortenAddress,
+  sumLeaseSpend,
+} from '@/utils';
+
+const RECENT_LEASES_LIMIT = 20;
+
+export const ProviderDetails = ({
+  chainName,
+  owner,
+}: {
+  chainName: string;
+  owner: string;
+}) => {
+  const { assetList } = useChain(chainName);
+  const {
+    provider,
+    leases,
+    isLeasesTruncated,
+    latestHeight,
+    isLoading,
+    isError,
+    isLeasesLoading,
+  } = useProvider(chainName, owner);
+
+  const history = useMemo(
+    () => (latestHeight ? getLeaseHistory(leases, latestHeight) : []),
+    [leases, latestHeight],
+  );
+
+  const recentLeases = useMemo(
+    () =>
+      [...leases]
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, RECENT_LEASES_LIMIT),
+    [leases],
+  );
+
+  if (isLoading || isError || !provider) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="300px"
+      >
+        {isLoading ? (
+          <Spinner size="$6xl" color="$blackAlpha600" />
+        ) : (
+          <Text color="$textDanger" fontSize="16px" wordBreak="break-all">
+            Provider {owner} could not be found
+          </Text>
+        )}
+      </Box>
+    );
+  }
+
+  const activeLeases = leases.filter(({ state }) => state === 'active');
+
+  const getSigners = (key: string, value: string) =>
+    provider.audits
+      .filter(({ attributes }) =>
+        attributes.some((attr) => attr.key === key && attr.value === value),
+      )
+      .map(({ auditor }) => auditor);
+
+  return (
+    <Box maxWidth="$containerMd" mx="auto" mb="$17">
+      <Box mb="20px">
+        <Text color="$blackAlpha600" fontSize="24px" fontWeight="700">
+          Provider
+        </Text>
+        <Text color="$blackAlpha500" fontSize="14px" wordBreak="break-all">
+          {provider.hostUri}
+        </Text>
+      </Box>
+
+      <InfoCard>
+        <InfoRow label="Owner">
+          <Link href={`/address/${owner}`}>
+            <Text as="span" color="$purple600" fontWeight="600">
+              {owner}
+            </Text>
+          </Link>
+        </InfoRow>
+        <InfoRow label="Host URI">{provider.hostUri}</InfoRow>
+        {provider.website && (
+          <InfoRow label="Website">{provider.website}</InfoRow>
+        )}
+        {provider.email && <InfoRow label="Email">{provider.email}</InfoRow>}
+        <InfoRow label="Region">{provider.region || '--'}</InfoRow>
+        <InfoRow label="Tier">{provider.tier || '--'}</InfoRow>
+        <InfoRow label="GPU Models">
+          {provider.gpuModels.join(', ') || '--'}
+        </InfoRow>
+      </InfoCard>
+
+      <InfoCard title="Leases" mt="20px">
+        {isLeasesLoading ? (
+          <Box display="flex" justifyContent="center" py="20px">
+            <Spinner size="$4xl" color="$blackAlpha600" />
+          </Box>
+        ) : (
+          <>
+            <InfoRow label="Active Leases">{activeLeases.length}</InfoRow>
+            <InfoRow label="Total Leases">
+              {leases.length}
+              {isLeasesTruncated && '+'}
+            </InfoRow>
+            <InfoRow label="Total Lease Spend">
+              {formatDenomAmounts(sumLeaseSpend(leases), assetList, 2)}
+            </InfoRow>
+            {isLeasesTruncated && (
+              <Text color="$blackAlpha500" fontSize="12px">
+                Only the first {leases.length} leases are included
+              </Text>
+            )}
+            <LeaseHistoryChart history={history} />
+          </>
+        )}
+      </InfoCard>
+
+      <InfoCard title={`Attributes (${provider.attributes.length})`} mt="20px">
+        <Box overflowX="auto">
+          <Table minWidth="600px" width="$full">
+            <Table.Header>
+              <Table.Row height="$fit">
+                <Table.HeaderCell width="40%">Key</Table.HeaderCell>
+                <Table.HeaderCell width="25%">Value</Table.HeaderCell>
+                <Table.HeaderCell width="35%">Signed By</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {provider.attributes.map(({ key, value }) => {
+                const signers = getSigners(key, value);
+                return (
+                  <Table.Row key={key}>
+                    <Table.Cell wordBreak="break-all">{key}</Table.Cell>
+                    <Table.Cell wordBreak="break-all">{value}</Table.Cell>
+                    <Table.Cell color="$blackAlpha500" fontWeight="500">
+                      {signers.length
+                        ? signers.map(shortenAddress).join(', ')
+                        : 'Not audited'}
+                    </Table.Cell>
+                  </Table.Row>
+                );
+              })}
+            </Table.Body>
+          </Table>
+        </Box>
+      </InfoCard>
+
+      {!isLeasesLoading && recentLeases.length > 0 && (
+        <InfoCard title="Recent Leases" mt="20px">
+          <Box overflowX="auto">
+            <Table minWidth="700px" width="$full">
+              <Table.Header>
+                <Table.Row height="$fit">
+                  <Table.HeaderCell width="25%">Deployment</Table.HeaderCell>
+                  <Table.HeaderCell width="25%">Price</Table.HeaderCell>
+                  <Table.HeaderCell width="15%">State</Table.HeaderCell>
+                  <Table.HeaderCell width="15%">Created</Table.HeaderCell>
+                  <Table.HeaderCell width="20%">Withdrawn</Table.HeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {recentLeases.map(
+                  ({
+                    owner: leaseOwner,
+                    dseq,
+                    gseq,
+                    oseq,
+                    price,
+                    state,
+                    createdAt,
+                    withdrawn,
+                  }) => (
+                    <Table.Row key={`${leaseOwner}-${dseq}-${gseq}-${oseq}`}>
+                      <Table.Cell>
+                        <Link href={`/deployments/${leaseOwner}/${dseq}`}>
+                          <Text as="span" color="$purple600" fontWeight="600">
+                            {dseq}
+                          </Text>
+                        </Link>
+                        <Text color="$blackAlpha500" fontSize="12px">
+                          {shortenAddress(leaseOwner)}
+                        </Text>
+                      </Table.Cell>
+                      <Table.Cell>
+                        {formatDenomAmount(
+                          price.amount,
+                          price.denom,
+                          assetList,
+                        )}{' '}
+                        / block
+                      </Table.Cell>
+                      <Table.Cell>
+                        <DeploymentStateBadge state={state} />
+                      </Table.Cell>
+                      <Table.Cell>
+                        <Link href={`/blocks/${createdAt}`}>
+                          <Text as="span" color="$purple600" fontWeight="600">
+                            {createdAt}
+                          </Text>
+                        </Link>
+                      </Table.Cell>
+                      <Table.Cell color="$blackAlpha500" fontWeight="500">
+                        {withdrawn
+                          ? formatDenomAmount(
+                              withdrawn.amount,
+                              withdrawn.denom,
+                              assetList,
+                              2,
+                            )
+                          : '--'}
+                      </Table.Cell>
+                    </Table.Row>
+                  ),
+                )}
+              </Table.Body>
+            </Table>
+          </Box>
+        </InfoCard>
+      )}
+    </Box>
+  );
+};
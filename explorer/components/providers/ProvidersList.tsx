@@ -0,0 +1,197 @@
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useChain } from '@interchain-kit/react';
+import { Box, Spinner, Text, TextField } from '@interchain-ui/react';
+
+import { Button, Table } from '../common';
+import { EmptyState } from '../contract/my-contracts/EmptyState';
+import { useProviders } from '@/hooks';
+import {
+  filterProviders,
+  formatDenomAmounts,
+  getAuditors,
+  shortenAddress,
+} from '@/utils';
+
+export const ProvidersList = ({ chainName }: { chainName: string }) => {
+  const { assetList } = useChain(chainName);
+  const { providers, leaseStats, isLoading, isError, isLeaseStatsLoading } =
+    useProviders(chainName);
+
+  const [attributeKey, setAttributeKey] = useState('');
+  const [attributeValue, setAttributeValue] = useState('');
+  const [gpuModel, setGpuModel] = useState('');
+  const [auditor, setAuditor] = useState<string>();
+
+  const auditors = useMemo(() => getAuditors(providers), [providers]);
+
+  const filteredProviders = useMemo(
+    () =>
+      filterProviders(providers, {
+        attributeKey,
+        attributeValue,
+        auditor,
+        gpuModel,
+      }).sort(
+        (a, b) =>
+          (leaseStats?.[b.owner]?.activeLeases ?? 0) -
+          (leaseStats?.[a.owner]?.activeLeases ?? 0),
+      ),
+    [providers, leaseStats, attributeKey, attributeValue, auditor, gpuModel],
+  );
+
+  const renderLeaseStat = (render: () => string) =>
+    isLeaseStatsLoading ? (
+      <Spinner size="$sm" color="$blackAlpha600" />
+    ) : (
+      render()
+    );
+
+  return (
+    <Box>
+      <Box
+        display="flex"
+        flexWrap="wrap"
+        alignItems="center"
+        gap="10px"
+        mb="10px"
+      >
+        <Box width={{ mobile: '100%', tablet: '200px' }}>
+          <TextField
+            id="provider-attribute-key"
+            value={attributeKey}
+            onChange={(e) => setAttributeKey(e.target.value)}
+            placeholder="Attribute key"
+            autoComplete="off"
+          />
+        </Box>
+        <Box width={{ mobile: '100%', tablet: '200px' }}>
+          <TextField
+            id="provider-attribute-value"
+            value={attributeValue}
+            onChange={(e) => setAttributeValue(e.target.value)}
+            placeholder="Attribute value"
+            autoComplete="off"
+          />
+        </Box>
+        <Box width={{ mobile: '100%', tablet: '200px' }}>
+          <TextField
+            id="provider-gpu-model"
+            value={gpuModel}
+            onChange={(e) => setGpuModel(e.target.value)}
+            placeholder="GPU model"
+            autoComplete="off"
+          />
+        </Box>
+      </Box>
+
+      {auditors.length > 0 && (
+        <Box
+          display="flex"
+          flexWrap="wrap"
+          alignItems="center"
+          gap="6px"
+          mb="10px"
+        >
+          <Text color="$blackAlpha500" fontSize="14px" fontWeight="600">
+            Audited by
+          </Text>
+          <Button
+            size="sm"
+            variant={!auditor ? 'primary' : 'outline'}
+            onClick={() => setAuditor(undefined)}
+          >
+            Anyone
+          </Button>
+          {auditors.map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={auditor === value ? 'primary' : 'outline'}
+              onClick={() => setAuditor(value)}
+            >
+              {shortenAddress(value)}
+            </Button>
+          ))}
+        </Box>
+      )}
+
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="300px"
+      >
+        {isLoading ? (
+          <Spinner size="$6xl" color="$blackAlpha600" />
+        ) : isError ? (
+          <Text color="$textDanger" fontSize="16px">
+            Failed to load providers from the REST endpoint
+          </Text>
+        ) : filteredProviders.length === 0 ? (
+          <EmptyState text="No providers found" />
+        ) : (
+          <Box width="$full" alignSelf="start" overflowX="auto">
+            <Table minWidth="900px" width="$full">
+              <Table.Header>
+                <Table.Row height="$fit">
+                  <Table.HeaderCell width="30%">Provider</Table.HeaderCell>
+                  <Table.HeaderCell width="12%">Region</Table.HeaderCell>
+                  <Table.HeaderCell width="10%">Tier</Table.HeaderCell>
+                  <Table.HeaderCell width="16%">Audited By</Table.HeaderCell>
+                  <Table.HeaderCell width="12%">Active Leases</Table.HeaderCell>
+                  <Table.HeaderCell width="20%">Lease Spend</Table.HeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {filteredProviders.map(
+                  ({ owner, hostUri, region, tier, audits }) => (
+                    <Table.Row key={owner}>
+                      <Table.Cell>
+                        <Link href={`/providers/${owner}`}>
+                          <Text as="span" color="$purple600" fontWeight="600">
+                            {shortenAddress(owner)}
+                          </Text>
+                        </Link>
+                        <Text
+                          color="$blackAlpha500"
+                          fontSize="12px"
+                          wordBreak="break-all"
+                        >
+                          {hostUri}
+                        </Text>
+                      </Table.Cell>
+                      <Table.Cell>{region || '--'}</Table.Cell>
+                      <Table.Cell>{tier || '--'}</Table.Cell>
+                      <Table.Cell>
+                        {audits.length
+                          ? audits
+                              .map((audit) => shortenAddress(audit.auditor))
+                              .join(', ')
+                          : '--'}
+                      </Table.Cell>
+                      <Table.Cell>
+                        {renderLeaseStat(() =>
+                          String(leaseStats?.[owner]?.activeLeases ?? 0),
+                        )}
+                      </Table.Cell>
+                      <Table.Cell color="$blackAlpha500" fontWeight="500">
+                        {renderLeaseStat(() =>
+                          formatDenomAmounts(
+                            leaseStats?.[owner]?.spend ?? {},
+                            assetList,
+                            2,
+                          ),
+                        )}
+                      </Table.Cell>
+                    </Table.Row>
+                  ),
+                )}
+              </Table.Body>
+            </Table>
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,2 @@
+export * from './ProvidersList';
+export * from './ProviderDetails';
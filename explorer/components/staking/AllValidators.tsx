@@ -1,13 +1,26 @@
 import { useState } from 'react';
-import { Text } from '@interchain-ui/react';
+import Link from 'next/link';
+import { Box, Button, Tabs, Text } from '@interchain-ui/react';
 
 import { DelegateModal } from './DelegateModal';
+import { DelegateManyModal } from './DelegateManyModal';
 import AllValidatorsList from './AllValidatorsList';
+import { RewardsCalculatorModal } from './RewardsCalculator';
 import { Prices, useDisclosure } from '@/hooks';
-import { type ExtendedValidator as Validator } from '@/utils';
+import { type ExtendedValidator as Validator, type SigningInfo } from '@/utils';
+import styles from '@/styles/comp.module.css';
+
+enum StatusTab {
+  Active,
+  Inactive,
+  Jailed,
+}
 
 export const AllValidators = ({
   validators,
+  inactiveValidators,
+  jailedValidators,
+  signingInfos,
   balance,
   updateData,
   unbondingDays,
@@ -16,6 +29,9 @@ export const AllValidators = ({
   prices,
 }: {
   validators: Validator[];
+  inactiveValidators: Validator[];
+  jailedValidators: Validator[];
+  signingInfos?: Record<string, SigningInfo>;
   balance: string;
   updateData: () => void;
   unbondingDays: string;
@@ -26,27 +42,85 @@ export const AllValidators = ({
   prices: Prices;
 }) => {
   const delegateModalControl = useDisclosure();
+  const rewardsCalculatorModalControl = useDisclosure();
+  const delegateManyModalControl = useDisclosure();
   const [selectedValidator, setSelectedValidator] = useState<Validator>();
+  const [activeTab, setActiveTab] = useState(StatusTab.Active);
+
+  const validatorsByTab = {
+    [StatusTab.Active]: validators,
+    [StatusTab.Inactive]: inactiveValidators,
+    [StatusTab.Jailed]: jailedValidators,
+  };
+
+  const tabValidators = validatorsByTab[activeTab];
 
   return (
     <>
-      <Text
-        color="$textSecondary"
-        fontSize="$lg"
-        fontWeight="$semibold"
-        attributes={{ mt: '$14', mb: '$6' }}
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        mt="$14"
+        mb="$6"
       >
-        All Validators
-      </Text>
+        <Text color="$textSecondary" fontSize="$lg" fontWeight="$semibold">
+          All Validators
+        </Text>
+        <Box display="flex" gap="$6">
+          <Link href="/validators/compare">
+            <Button variant="solid" intent="secondary" size="sm">
+              Compare
+            </Button>
+          </Link>
+          <Button
+            variant="solid"
+            intent="secondary"
+            size="sm"
+            onClick={rewardsCalculatorModalControl.onOpen}
+          >
+            Rewards Calculator
+          </Button>
+          <Button
+            variant="solid"
+            intent="tertiary"
+            size="sm"
+            onClick={delegateManyModalControl.onOpen}
+          >
+            Delegate to Many
+          </Button>
+        </Box>
+      </Box>
 
-      <AllValidatorsList
-        validators={validators}
-        chainName={chainName}
-        logos={logos}
-        openModal={delegateModalControl.onOpen}
-        setSelectedValidator={setSelectedValidator}
+      <Tabs
+        tabs={[StatusTab.Active, StatusTab.Inactive, StatusTab.Jailed].map(
+          (tab) => ({
+            label: `${StatusTab[tab]} (${validatorsByTab[tab].length})`,
+            content: undefined,
+          }),
+        )}
+        activeTab={activeTab}
+        onActiveTabChange={setActiveTab}
+        className={styles.tabs}
       />
 
+      <Box mt="$6">
+        {tabValidators.length === 0 ? (
+          <Text color="$textSecondary" textAlign="center">
+            No {StatusTab[activeTab].toLowerCase()} validators
+          </Text>
+        ) : (
+          <AllValidatorsList
+            validators={tabValidators}
+            chainName={chainName}
+            logos={logos}
+            signingInfos={signingInfos}
+            openModal={delegateModalControl.onOpen}
+            setSelectedValidator={setSelectedValidator}
+          />
+        )}
+      </Box>
+
       {selectedValidator && (
         <DelegateModal
           balance={balance}
@@ -60,6 +134,28 @@ export const AllValidators = ({
           modalTitle="Validator"
         />
       )}
+
+      {rewardsCalculatorModalControl.isOpen && (
+        <RewardsCalculatorModal
+          chainName={chainName}
+          modalControl={rewardsCalculatorModalControl}
+          validators={validators}
+          prices={prices}
+        />
+      )}
+
+      {delegateManyModalControl.isOpen && (
+        <DelegateManyModal
+          chainName={chainName}
+          modalControl={delegateManyModalControl}
+          validators={validators}
+          logos={logos}
+          balance={balance}
+          updateData={updateData}
+          unbondingDays={unbondingDays}
+          prices={prices}
+        />
+      )}
     </>
   );
 };
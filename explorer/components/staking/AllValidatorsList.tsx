@@ -1,6 +1,7 @@
 import React, { Dispatch, SetStateAction, useMemo } from 'react';
 import { useChain } from '@interchain-kit/react';
 import {
+  Box,
   Text,
   Button,
   ValidatorList,
@@ -9,10 +10,13 @@ import {
   GridColumn,
 } from '@interchain-ui/react';
 
+import { ValidatorStatusBadge } from './ValidatorStatusBadge';
+import { getRestakeOperators } from '@/config';
 import {
   getNativeAsset,
   shiftDigits,
   type ExtendedValidator as Validator,
+  type SigningInfo,
 } from '@/utils';
 
 const AllValidatorsList = ({
@@ -20,6 +24,7 @@ const AllValidatorsList = ({
   openModal,
   chainName,
   logos,
+  signingInfos,
   setSelectedValidator,
 }: {
   validators: Validator[];
@@ -29,11 +34,16 @@ const AllValidatorsList = ({
   logos: {
     [key: string]: string;
   };
+  signingInfos?: Record<string, SigningInfo>;
 }) => {
   const { assetList } = useChain(chainName);
   const coin = getNativeAsset(assetList);
 
   const columns = useMemo(() => {
+    const restakeValidators = new Set(
+      getRestakeOperators(chainName).map(({ validator }) => validator)
+    );
+
     const _columns: GridColumn[] = [
       {
         id: 'validator',
@@ -41,10 +51,28 @@ const AllValidatorsList = ({
         width: '196px',
         align: 'left',
         render: (validator: Validator) => (
-          <ValidatorNameCell
-            validatorName={validator.name}
-            validatorImg={logos[validator.address]}
-          />
+          <Box display="flex" alignItems="center" gap="$4">
+            <ValidatorNameCell
+              validatorName={validator.name}
+              validatorImg={logos[validator.address]}
+            />
+            <ValidatorStatusBadge
+              status={validator.status}
+              signingInfo={signingInfos?.[validator.consensusAddress]}
+            />
+            {restakeValidators.has(validator.address) && (
+              <Box
+                px="$4"
+                py="$2"
+                borderRadius="$md"
+                backgroundColor="$green400"
+              >
+                <Text color="$white" fontSize="$xs" fontWeight="$bold">
+                  Restake
+                </Text>
+              </Box>
+            )}
+          </Box>
         ),
       },
       {
@@ -106,7 +134,7 @@ const AllValidatorsList = ({
     }
 
     return _columns;
-  }, [chainName]);
+  }, [chainName, validators, logos, signingInfos]);
 
   return (
     <ValidatorList
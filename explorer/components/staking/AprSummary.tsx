@@ -0,0 +1,69 @@
+import { Box, Text } from '@interchain-ui/react';
+
+import { useRealizedApr } from '@/hooks';
+import { calcWeightedApr, type ExtendedValidator as Validator } from '@/utils';
+
+const AprStat = ({
+  label,
+  value,
+  hint,
+}: {
+  label: string;
+  value: string;
+  hint: string;
+}) => (
+  <Box flex="1">
+    <Text color="$textSecondary" fontSize="$sm" fontWeight="$semibold">
+      {label}
+    </Text>
+    <Text fontSize="$2xl" fontWeight="$semibold">
+      {value}
+    </Text>
+    <Text color="$textSecondary" fontSize="$xs">
+      {hint}
+    </Text>
+  </Box>
+);
+
+export const AprSummary = ({
+  chainName,
+  address,
+  myValidators,
+  rewards,
+  staked,
+}: {
+  chainName: string;
+  address: string;
+  myValidators: Validator[];
+  rewards: string;
+  staked: string;
+}) => {
+  const estimatedApr = calcWeightedApr(myValidators);
+  const realizedApr = useRealizedApr(chainName, address, rewards, staked);
+
+  return (
+    <Box
+      display="flex"
+      gap="$10"
+      mt="$10"
+      p="$8"
+      backgroundColor="$cardBg"
+      borderRadius="$lg"
+    >
+      <AprStat
+        label="Estimated APR"
+        value={estimatedApr ? `${estimatedApr}%` : '--'}
+        hint="From inflation and your validators' commission"
+      />
+      <AprStat
+        label="Realized APR"
+        value={realizedApr ? `${realizedApr}%` : '--'}
+        hint={
+          realizedApr
+            ? 'From rewards accrued since your last claim or delegation change'
+            : 'Measured once rewards have accrued for a while'
+        }
+      />
+    </Box>
+  );
+};
@@ -0,0 +1,193 @@
+import { useEffect } from 'react';
+import { useChain } from '@interchain-kit/react';
+import {
+  BasicModal,
+  Box,
+  Button,
+  Callout,
+  StakingDelegateCard,
+  Text,
+} from '@interchain-ui/react';
+import { useCancelUnbondingDelegation } from '@interchainjs/react/cosmos/staking/v1beta1/tx.rpc.react';
+import { MsgCancelUnbondingDelegation } from '@interchainjs/react/cosmos/staking/v1beta1/tx';
+import { defaultContext } from '@tanstack/react-query';
+import { StdFee } from '@interchainjs/react/types';
+
+import {
+  UseDisclosureReturn,
+  useSigningClient,
+  useSimulateGas,
+  useToastHandlers,
+} from '@/hooks';
+import {
+  convertGasToTokenAmount,
+  formatDate,
+  getExponentFromAsset,
+  getNativeAsset,
+  toBaseAmount,
+  type ParsedUnbondingDelegations,
+} from '@/utils';
+
+export const CancelUnbondingModal = ({
+  chainName,
+  unbonding,
+  validatorName,
+  modalControl,
+  updateData,
+}: {
+  chainName: string;
+  unbonding: ParsedUnbondingDelegations[number];
+  validatorName: string;
+  modalControl: UseDisclosureReturn;
+  updateData: () => void;
+}) => {
+  const { address, assetList, chain } = useChain(chainName);
+
+  const coin = getNativeAsset(assetList);
+  const exp = getExponentFromAsset(coin);
+
+  const toastHandlers = useToastHandlers();
+  const { data: signingClient } = useSigningClient(chainName);
+  const { mutate: cancelUnbonding, isLoading: isCancelling } =
+    useCancelUnbondingDelegation({
+      clientResolver: signingClient,
+      options: {
+        context: defaultContext,
+        ...toastHandlers,
+      },
+    });
+
+  const {
+    mutate: simulate,
+    data: gas,
+    isLoading: isSimulating,
+    error: simulateError,
+    reset: resetSimulation,
+  } = useSimulateGas(chainName);
+
+  // the chain finds the entry to cancel by the height it was created at
+  const buildMessage = () =>
+    MsgCancelUnbondingDelegation.fromPartial({
+      delegatorAddress: address,
+      validatorAddress: unbonding.validatorAddress,
+      amount: {
+        denom: coin.base,
+        amount: toBaseAmount(unbonding.amount, exp),
+      },
+      creationHeight: BigInt(unbonding.creationHeight),
+    });
+
+  useEffect(() => {
+    if (!modalControl.isOpen || !address) return;
+
+    simulate({
+      messages: [
+        {
+          typeUrl: MsgCancelUnbondingDelegation.typeUrl,
+          value: buildMessage(),
+        },
+      ],
+      memo: 'Cancel unbonding',
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [modalControl.isOpen, address, unbonding]);
+
+  const onModalClose = () => {
+    modalControl.onClose();
+    resetSimulation();
+  };
+
+  const onCancelClick = () => {
+    if (!address || !gas) return;
+
+    const fee: StdFee = {
+      amount: [
+        {
+          denom: coin.base,
+          amount: '0',
+        },
+      ],
+      gas,
+    };
+
+    cancelUnbonding(
+      {
+        signerAddress: address,
+        message: buildMessage(),
+        fee,
+        memo: 'Cancel unbonding',
+      },
+      {
+        onSuccess: () => {
+          updateData();
+          onModalClose();
+        },
+      },
+    );
+  };
+
+  return (
+    <BasicModal
+      title="Cancel Unbonding"
+      isOpen={modalControl.isOpen}
+      onClose={onModalClose}
+    >
+      <Box width={{ mobile: '100%', tablet: '$containerSm' }} mt="$6">
+        <Text fontSize="$md" attributes={{ mb: '20px' }}>
+          Restake with&nbsp;
+          <Text as="span" fontSize="$md" fontWeight="$semibold">
+            {validatorName}
+          </Text>
+        </Text>
+
+        <StakingDelegateCard
+          label="Unbonding Amount"
+          tokenAmount={unbonding.amount}
+          tokenName={coin.symbol}
+          attributes={{ mb: '$12' }}
+        />
+
+        <Box display="flex" flexDirection="column" gap="$4">
+          <Text color="$textSecondary" fontSize="$sm">
+            Started at height {unbonding.creationHeight}, would complete on{' '}
+            {formatDate(unbonding.completionTime)}
+          </Text>
+          <Text color="$textSecondary" fontSize="$sm">
+            Estimated fee:{' '}
+            {gas
+              ? `${convertGasToTokenAmount(gas, chain, exp).toString()} ${
+                  coin.symbol
+                } (${gas} gas)`
+              : isSimulating
+              ? 'Estimating...'
+              : '--'}
+          </Text>
+        </Box>
+
+        {simulateError instanceof Error && (
+          <Box mt="$8">
+            <Callout
+              title="Simulation failed"
+              intent="error"
+              iconName="errorWarningLine"
+            >
+              {simulateError.message}
+            </Callout>
+          </Box>
+        )}
+      </Box>
+
+      <Box mt="$12">
+        <Button
+          intent="tertiary"
+          onClick={onCancelClick}
+          isLoading={isCancelling || isSimulating}
+          disabled={!gas || isCancelling}
+          fluidWidth
+        >
+          Cancel Unbonding
+        </Button>
+      </Box>
+    </BasicModal>
+  );
+};
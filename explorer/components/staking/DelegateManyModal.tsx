@@ -0,0 +1,504 @@
+import { useState } from 'react';
+import BigNumber from 'bignumber.js';
+import { useChain } from '@interchain-kit/react';
+import {
+  BasicModal,
+  Box,
+  Button,
+  Callout,
+  GridColumn,
+  Select,
+  SelectOption,
+  Text,
+  TextField,
+  ValidatorList,
+  ValidatorNameCell,
+  ValidatorTokenAmountCell,
+} from '@interchain-ui/react';
+import { useDelegate } from '@interchainjs/react/cosmos/staking/v1beta1/tx.rpc.react';
+import { MsgDelegate } from '@interchainjs/react/cosmos/staking/v1beta1/tx';
+import { StdFee } from '@interchainjs/react/types';
+import { defaultContext } from '@tanstack/react-query';
+
+import { InputField } from '../contract/common';
+import {
+  Prices,
+  UseDisclosureReturn,
+  useSigningClient,
+  useSimulateGas,
+  useToastHandlers,
+} from '@/hooks';
+import {
+  calcDollarValue,
+  convertGasToTokenAmount,
+  getExponentFromAsset,
+  getNativeAsset,
+  getTopValidators,
+  isGreaterThanZero,
+  shiftDigits,
+  splitDelegation,
+  SPLIT_STRATEGIES,
+  toBaseAmount,
+  TOP_VALIDATOR_COUNT,
+  type ExtendedValidator as Validator,
+} from '@/utils';
+
+// per message, only used to keep the fee out of the max amount
+const DEFAULT_DELEGATION_GAS = 200000;
+
+enum Step {
+  Configure,
+  Review,
+}
+
+export const DelegateManyModal = ({
+  chainName,
+  modalControl,
+  validators,
+  logos,
+  balance,
+  updateData,
+  unbondingDays,
+  prices,
+}: {
+  chainName: string;
+  modalControl: UseDisclosureReturn;
+  validators: Validator[];
+  logos: {
+    [key: string]: string;
+  };
+  balance: string;
+  updateData: () => void;
+  unbondingDays: string;
+  prices: Prices;
+}) => {
+  const { isOpen, onClose } = modalControl;
+  const { address, assetList, chain } = useChain(chainName);
+  const coin = getNativeAsset(assetList);
+  const exp = getExponentFromAsset(coin);
+
+  const [step, setStep] = useState(Step.Configure);
+  const [amount, setAmount] = useState('');
+  const [strategyIndex, setStrategyIndex] = useState(0);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [shares, setShares] = useState<Record<string, string>>({});
+  const [gas, setGas] = useState('');
+
+  const toastHandlers = useToastHandlers();
+  const { data: signingClient } = useSigningClient(chainName);
+  const { mutate: delegate, isLoading: isDelegating } = useDelegate({
+    clientResolver: signingClient,
+    options: {
+      context: defaultContext,
+      ...toastHandlers,
+    },
+  });
+  const {
+    mutate: simulate,
+    isLoading: isSimulating,
+    error: simulateError,
+    reset: resetSimulation,
+  } = useSimulateGas(chainName);
+
+  const strategy = SPLIT_STRATEGIES[strategyIndex].id;
+  const topValidators = getTopValidators(validators);
+  const selectedValidators = validators.filter(({ address }) =>
+    selected.includes(address),
+  );
+  const selectedTopValidators = selectedValidators.filter(({ address }) =>
+    topValidators.has(address),
+  );
+
+  const split = splitDelegation({
+    amount: isGreaterThanZero(amount) ? toBaseAmount(amount, exp) : 0,
+    validators: selectedValidators,
+    strategy,
+    shares,
+  });
+  const splitAmounts = Object.fromEntries(
+    split.map(({ address, amount }) => [address, shiftDigits(amount, -exp)]),
+  );
+
+  const shareTotal = selectedValidators.reduce(
+    (sum, { address }) => sum.plus(shares[address] || 0),
+    new BigNumber(0),
+  );
+  const hasValidShares = strategy !== 'custom' || shareTotal.eq(100);
+
+  const maxAmount = BigNumber.max(
+    new BigNumber(balance).minus(
+      convertGasToTokenAmount(
+        String(DEFAULT_DELEGATION_GAS * Math.max(selected.length, 1)),
+        chain,
+        exp,
+      ),
+    ),
+    0,
+  );
+  const exceedsBalance = new BigNumber(amount || 0).gt(maxAmount);
+
+  const onModalClose = () => {
+    onClose();
+    setStep(Step.Configure);
+    setAmount('');
+    setSelected([]);
+    setShares({});
+    setGas('');
+    resetSimulation();
+  };
+
+  const toggleValidator = (validatorAddress: string) => {
+    setSelected((prev) =>
+      prev.includes(validatorAddress)
+        ? prev.filter((address) => address !== validatorAddress)
+        : [...prev, validatorAddress],
+    );
+  };
+
+  const buildMessages = () =>
+    split.map(({ address: validatorAddress, amount }) =>
+      MsgDelegate.fromPartial({
+        delegatorAddress: address,
+        validatorAddress,
+        amount: {
+          amount,
+          denom: coin.base,
+        },
+      }),
+    );
+
+  const onReviewClick = () => {
+    if (!address || split.length === 0) return;
+
+    simulate(
+      {
+        messages: buildMessages().map((value) => ({
+          typeUrl: MsgDelegate.typeUrl,
+          value,
+        })),
+        memo: 'Delegate',
+      },
+      {
+        onSuccess: (simulatedGas) => {
+          setGas(simulatedGas);
+          setStep(Step.Review);
+        },
+      },
+    );
+  };
+
+  const onDelegateClick = () => {
+    if (!address || !gas) return;
+
+    const fee: StdFee = {
+      amount: [
+        {
+          denom: coin.base,
+          amount: '0',
+        },
+      ],
+      gas,
+    };
+
+    delegate(
+      {
+        signerAddress: address,
+        message: buildMessages(),
+        fee,
+        memo: 'Delegate',
+      },
+      {
+        onSuccess: () => {
+          updateData();
+          onModalClose();
+        },
+      },
+    );
+  };
+
+  const configureColumns: GridColumn[] = [
+    {
+      id: 'validator',
+      label: 'Validator',
+      width: '196px',
+      align: 'left',
+      render: (validator: Validator) => (
+        <ValidatorNameCell
+          validatorName={validator.name}
+          validatorImg={logos[validator.address]}
+        />
+      ),
+    },
+    {
+      id: 'voting-power',
+      label: 'Voting Power',
+      width: '166px',
+      align: 'right',
+      render: (validator: Validator) => (
+        <Box display="flex" flexDirection="column" alignItems="flex-end">
+          <ValidatorTokenAmountCell
+            amount={validator.votingPower}
+            symbol={coin.symbol}
+          />
+          {topValidators.has(validator.address) && (
+            <Text fontSize="$xs" color="$textDanger">
+              Top {TOP_VALIDATOR_COUNT}
+            </Text>
+          )}
+        </Box>
+      ),
+    },
+    {
+      id: 'commission',
+      label: 'Commission',
+      width: '116px',
+      align: 'right',
+      render: (validator: Validator) => (
+        <Text fontWeight="$semibold">
+          {shiftDigits(validator.commission, 2)}%
+        </Text>
+      ),
+    },
+    {
+      id: 'share',
+      label: strategy === 'custom' ? 'Share (%)' : 'Amount',
+      width: '146px',
+      align: 'right',
+      render: ({ address }: Validator) => {
+        if (!selected.includes(address)) {
+          return <Text color="$textSecondary">--</Text>;
+        }
+        if (strategy === 'custom') {
+          return (
+            <TextField
+              id={`share-${address}`}
+              type="number"
+              value={shares[address] ?? ''}
+              onChange={(e) =>
+                setShares((prev) => ({ ...prev, [address]: e.target.value }))
+              }
+              autoComplete="off"
+            />
+          );
+        }
+        return (
+          <Text fontWeight="$semibold">
+            {splitAmounts[address] ?? 0} {coin.symbol}
+          </Text>
+        );
+      },
+    },
+    {
+      id: 'action',
+      width: '116px',
+      align: 'right',
+      render: ({ address }: Validator) => (
+        <Button
+          size="sm"
+          intent={selected.includes(address) ? 'secondary' : 'tertiary'}
+          variant="solid"
+          onClick={() => toggleValidator(address)}
+        >
+          {selected.includes(address) ? 'Remove' : 'Add'}
+        </Button>
+      ),
+    },
+  ];
+
+  const reviewColumns: GridColumn[] = [
+    {
+      id: 'validator',
+      label: 'Validator',
+      width: '196px',
+      align: 'left',
+      render: ({ address }: { address: string }) => (
+        <ValidatorNameCell
+          validatorName={
+            validators.find((validator) => validator.address === address)
+              ?.name ?? address
+          }
+          validatorImg={logos[address]}
+        />
+      ),
+    },
+    {
+      id: 'amount',
+      label: 'Amount',
+      width: '196px',
+      align: 'right',
+      render: ({ address }: { address: string }) => (
+        <ValidatorTokenAmountCell
+          amount={splitAmounts[address]}
+          symbol={coin.symbol}
+        />
+      ),
+    },
+    {
+      id: 'value',
+      label: 'Value',
+      width: '146px',
+      align: 'right',
+      render: ({ address }: { address: string }) => (
+        <Text fontWeight="$semibold">
+          ${calcDollarValue(coin.base, splitAmounts[address], prices)}
+        </Text>
+      ),
+    },
+  ];
+
+  return (
+    <BasicModal
+      title="Delegate to Many Validators"
+      isOpen={isOpen}
+      onClose={onModalClose}
+    >
+      <Box
+        width={{ mobile: '100%', tablet: '$containerMd' }}
+        display="flex"
+        flexDirection="column"
+        gap="$8"
+        mt="$6"
+      >
+        {step === Step.Configure ? (
+          <>
+            <Box display="flex" gap="$8">
+              <Box flex="1">
+                <InputField title={`Amount (${coin.symbol})`}>
+                  <TextField
+                    id="delegate-many-amount"
+                    type="number"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    autoComplete="off"
+                  />
+                  <InputField.Description
+                    intent={exceedsBalance ? 'error' : 'default'}
+                  >
+                    {`Available: ${maxAmount.toString()} ${coin.symbol}`}
+                  </InputField.Description>
+                </InputField>
+              </Box>
+              <Box flex="1">
+                <InputField title="Strategy">
+                  <Select
+                    fullWidth
+                    selectedIndex={strategyIndex}
+                    onSelectItem={(item) =>
+                      item && setStrategyIndex(item.index)
+                    }
+                  >
+                    {SPLIT_STRATEGIES.map(({ id, label }) => (
+                      <SelectOption key={id} optionKey={id} label={label} />
+                    ))}
+                  </Select>
+                  {strategy === 'custom' && (
+                    <InputField.Description
+                      intent={hasValidShares ? 'default' : 'error'}
+                    >
+                      {`Shares add up to ${shareTotal.toString()}% of 100%`}
+                    </InputField.Description>
+                  )}
+                </InputField>
+              </Box>
+            </Box>
+
+            {selectedTopValidators.length > 0 && (
+              <Callout
+                title={`Delegating to the top ${TOP_VALIDATOR_COUNT} validators`}
+                intent="warning"
+                iconName="errorWarningLine"
+              >
+                {selectedTopValidators.map(({ name }) => name).join(', ')}{' '}
+                already hold the most voting power. Spreading stake to smaller
+                validators helps keep the network decentralized.
+              </Callout>
+            )}
+
+            <Box maxHeight="400px" overflowY="scroll">
+              <ValidatorList
+                columns={configureColumns}
+                data={validators}
+                tableProps={{ width: '$full' }}
+                variant="ghost"
+              />
+            </Box>
+
+            {simulateError instanceof Error && (
+              <Callout
+                title="Simulation failed"
+                intent="error"
+                iconName="errorWarningLine"
+              >
+                {simulateError.message}
+              </Callout>
+            )}
+
+            <Button
+              intent="tertiary"
+              onClick={onReviewClick}
+              disabled={
+                !address ||
+                split.length === 0 ||
+                !hasValidShares ||
+                exceedsBalance ||
+                isSimulating
+              }
+              isLoading={isSimulating}
+            >
+              {address
+                ? `Review ${split.length} delegations`
+                : 'Connect wallet to delegate'}
+            </Button>
+          </>
+        ) : (
+          <>
+            {unbondingDays && (
+              <Callout
+                title={`Staking will lock your funds for ${unbondingDays} days`}
+                intent="error"
+                iconName="errorWarningLine"
+              >
+                You will need to undelegate in order for your staked assets to
+                be liquid again. This process will take {unbondingDays} days to
+                complete.
+              </Callout>
+            )}
+
+            <ValidatorList
+              columns={reviewColumns}
+              data={split}
+              tableProps={{ width: '$full' }}
+              variant="ghost"
+            />
+
+            <Box display="flex" justifyContent="space-between">
+              <Text color="$textSecondary">Estimated fee ({gas} gas)</Text>
+              <Text fontWeight="$semibold">
+                {convertGasToTokenAmount(gas, chain, exp).toString()}{' '}
+                {coin.symbol}
+              </Text>
+            </Box>
+
+            <Box display="flex" gap="$6">
+              <Button
+                intent="secondary"
+                onClick={() => setStep(Step.Configure)}
+                disabled={isDelegating}
+              >
+                Back
+              </Button>
+              <Button
+                intent="tertiary"
+                onClick={onDelegateClick}
+                disabled={isDelegating}
+                isLoading={isDelegating}
+              >
+                {`Delegate to ${split.length} validators`}
+              </Button>
+            </Box>
+          </>
+        )}
+      </Box>
+    </BasicModal>
+  );
+};
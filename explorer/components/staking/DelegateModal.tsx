@@ -222,10 +222,10 @@ export const DelegateModal = ({
             <Button
               intent="tertiary"
               onClick={onDelegateClick}
-              disabled={!isGreaterThanZero(amount) || isDelegating}
+              disabled={!address || !isGreaterThanZero(amount) || isDelegating}
               isLoading={isDelegating}
             >
-              Delegate
+              {address ? 'Delegate' : 'Connect wallet to delegate'}
             </Button>
           }
         />
@@ -0,0 +1,33 @@
+import Link from 'next/link';
+import { Box, Text } from '@interchain-ui/react';
+
+/**
+ * Badge for validators that have not voted on proposals in their voting
+ * period. Delegators inherit their validator's vote, so it links to the
+ * proposal for the user to cast their own.
+ */
+export const MissingVoteBadge = ({
+  proposalIds,
+}: {
+  proposalIds: string[];
+}) => {
+  if (proposalIds.length === 0) return null;
+
+  const [proposalId] = proposalIds;
+
+  return (
+    <Link
+      href={
+        proposalIds.length === 1 ? `/governance/${proposalId}` : '/governance'
+      }
+    >
+      <Box px="$4" py="$2" borderRadius="$md" backgroundColor="$orange400">
+        <Text color="$white" fontSize="$xs" fontWeight="$bold">
+          {proposalIds.length === 1
+            ? `Not voted on #${proposalId}`
+            : `Not voted on ${proposalIds.length} proposals`}
+        </Text>
+      </Box>
+    </Link>
+  );
+};
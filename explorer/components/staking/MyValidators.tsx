@@ -1,13 +1,19 @@
 import { useState } from 'react';
-import { Text } from '@interchain-ui/react';
+import { Callout, Text } from '@interchain-ui/react';
 
 import MyValidatorsList from './MyValidatorsList';
 import { ValidatorInfoModal } from './ValidatorInfoModal';
 import { UndelegateModal } from './UndelegateModal';
 import { SelectValidatorModal } from './SelectValidatorModal';
 import { RedelegateModal } from './RedelegateModal';
-import { type ExtendedValidator as Validator } from '@/utils';
+import {
+  getRedelegationLocks,
+  type ExtendedValidator as Validator,
+  type ParsedRedelegations,
+  type SigningInfo,
+} from '@/utils';
 import { DelegateModal } from './DelegateModal';
+import { RewardsCalculatorModal } from './RewardsCalculator';
 import { Prices, useDisclosure } from '@/hooks';
 
 export const MyValidators = ({
@@ -18,6 +24,8 @@ export const MyValidators = ({
   unbondingDays,
   chainName,
   logos,
+  signingInfos,
+  redelegations,
   prices,
 }: {
   myValidators: Validator[];
@@ -30,6 +38,8 @@ export const MyValidators = ({
   logos: {
     [key: string]: string;
   };
+  signingInfos?: Record<string, SigningInfo>;
+  redelegations: ParsedRedelegations;
 }) => {
   const [selectedValidator, setSelectedValidator] = useState<Validator>();
   const [validatorToRedelegate, setValidatorToRedelegate] =
@@ -40,6 +50,13 @@ export const MyValidators = ({
   const undelegateModalControl = useDisclosure();
   const selectValidatorModalControl = useDisclosure();
   const redelegateModalControl = useDisclosure();
+  const rewardsCalculatorModalControl = useDisclosure();
+
+  const idleValidators = myValidators.filter(
+    ({ status, delegation }) => status !== 'Active' && delegation !== '0'
+  );
+
+  const redelegationLocks = getRedelegationLocks(redelegations);
 
   return (
     <>
@@ -52,12 +69,31 @@ export const MyValidators = ({
         My Validators
       </Text>
 
+      {idleValidators.length > 0 && (
+        <Callout
+          title="Some of your stake is not earning rewards"
+          intent="error"
+          iconName="errorWarningLine"
+          attributes={{ mb: '$6' }}
+        >
+          {idleValidators.map(({ name }) => name).join(', ')}{' '}
+          {idleValidators.length === 1 ? 'is' : 'are'} jailed or outside the
+          active set. Redelegate to an active validator to keep earning.
+        </Callout>
+      )}
+
       <MyValidatorsList
         logos={logos}
+        signingInfos={signingInfos}
+        redelegationLocks={redelegationLocks}
         myValidators={myValidators}
         chainName={chainName}
         openModal={validatorInfoModalControl.onOpen}
         setSelectedValidator={setSelectedValidator}
+        onRedelegate={(validator) => {
+          setSelectedValidator(validator);
+          selectValidatorModalControl.onOpen();
+        }}
       />
 
       {selectedValidator && validatorInfoModalControl.isOpen && (
@@ -66,10 +102,12 @@ export const MyValidators = ({
           logoUrl={logos[selectedValidator.address]}
           modalControl={validatorInfoModalControl}
           selectedValidator={selectedValidator}
+          isRedelegationLocked={!!redelegationLocks[selectedValidator.address]}
           handleClick={{
             openDelegateModal: delegateModalControl.onOpen,
             openSelectValidatorModal: selectValidatorModalControl.onOpen,
             openUndelegateModal: undelegateModalControl.onOpen,
+            openRewardsCalculator: rewardsCalculatorModalControl.onOpen,
           }}
         />
       )}
@@ -102,12 +140,25 @@ export const MyValidators = ({
         />
       )}
 
+      {selectedValidator && rewardsCalculatorModalControl.isOpen && (
+        <RewardsCalculatorModal
+          chainName={chainName}
+          modalControl={rewardsCalculatorModalControl}
+          validators={allValidators}
+          prices={prices}
+          initialValidator={selectedValidator}
+          initialAmount={selectedValidator.delegation}
+        />
+      )}
+
       {selectValidatorModalControl.isOpen && (
         <SelectValidatorModal
           chainName={chainName}
           modalControl={selectValidatorModalControl}
           logos={logos}
-          allValidators={allValidators}
+          allValidators={allValidators.filter(
+            ({ address }) => address !== selectedValidator?.address
+          )}
           handleValidatorClick={(validator) => {
             redelegateModalControl.onOpen();
             selectValidatorModalControl.onClose();
@@ -124,6 +175,7 @@ export const MyValidators = ({
             modalControl={redelegateModalControl}
             selectedValidator={selectedValidator}
             validatorToRedelegate={validatorToRedelegate}
+            redelegations={redelegations}
             updateData={updateData}
             prices={prices}
           />
@@ -1,14 +1,19 @@
 import React from 'react';
 import { Dispatch, SetStateAction } from 'react';
 import {
+  Box,
   Button,
+  Text,
   ValidatorList,
   ValidatorNameCell,
   ValidatorTokenAmountCell,
 } from '@interchain-ui/react';
 import { useChain } from '@interchain-kit/react';
 
-import { getNativeAsset } from '@/utils';
+import { ValidatorStatusBadge } from './ValidatorStatusBadge';
+import { MissingVoteBadge } from './MissingVoteBadge';
+import { useActiveProposalVotes } from '@/hooks';
+import { getNativeAsset, type SigningInfo } from '@/utils';
 import { type ExtendedValidator as Validator } from '@/utils';
 
 const MyValidatorsList = ({
@@ -16,19 +21,36 @@ const MyValidatorsList = ({
   openModal,
   chainName,
   logos,
+  signingInfos,
+  redelegationLocks,
   setSelectedValidator,
+  onRedelegate,
 }: {
   myValidators: Validator[];
   chainName: string;
   openModal: () => void;
   setSelectedValidator: Dispatch<SetStateAction<Validator | undefined>>;
+  onRedelegate: (validator: Validator) => void;
   logos: {
     [key: string]: string;
   };
+  signingInfos?: Record<string, SigningInfo>;
+  redelegationLocks: Record<string, Date>;
 }) => {
   const { assetList } = useChain(chainName);
   const coin = getNativeAsset(assetList);
 
+  const { activeProposals, votes } = useActiveProposalVotes(
+    chainName,
+    myValidators.map(({ address }) => address)
+  );
+
+  // `undefined` votes are still loading, only confirmed misses get a badge
+  const getMissingVotes = (validator: Validator) =>
+    activeProposals
+      .map(({ id }) => id.toString())
+      .filter((id) => votes[validator.address]?.[id] === null);
+
   return (
     <ValidatorList
       columns={[
@@ -38,10 +60,17 @@ const MyValidatorsList = ({
           width: '196px',
           align: 'left',
           render: (validator: Validator) => (
-            <ValidatorNameCell
-              validatorName={validator.name}
-              validatorImg={logos[validator.address]}
-            />
+            <Box display="flex" alignItems="center" gap="$4">
+              <ValidatorNameCell
+                validatorName={validator.name}
+                validatorImg={logos[validator.address]}
+              />
+              <ValidatorStatusBadge
+                status={validator.status}
+                signingInfo={signingInfos?.[validator.consensusAddress]}
+              />
+              <MissingVoteBadge proposalIds={getMissingVotes(validator)} />
+            </Box>
           ),
         },
         {
@@ -61,30 +90,53 @@ const MyValidatorsList = ({
           label: 'Claimable Rewards',
           width: '196px',
           align: 'right',
-          render: (validator: Validator) => (
-            <ValidatorTokenAmountCell
-              amount={validator.reward}
-              symbol={coin.symbol}
-            />
-          ),
+          render: (validator: Validator) =>
+            validator.status === 'Active' ? (
+              <ValidatorTokenAmountCell
+                amount={validator.reward}
+                symbol={coin.symbol}
+              />
+            ) : (
+              <Box textAlign="right">
+                <ValidatorTokenAmountCell
+                  amount={validator.reward}
+                  symbol={coin.symbol}
+                />
+                <Text color="$textDanger" fontSize="$xs" fontWeight="$semibold">
+                  Not earning rewards
+                </Text>
+              </Box>
+            ),
         },
         {
           id: 'action',
           width: '196px',
           align: 'right',
-          render: (validator) => (
-            <Button
-              variant="solid"
-              intent="tertiary"
-              size="sm"
-              onClick={() => {
-                openModal();
-                setSelectedValidator(validator);
-              }}
-              attributes={{ ml: 'auto' }}
-            >
-              Manage
-            </Button>
+          render: (validator: Validator) => (
+            <Box display="flex" justifyContent="flex-end" gap="$4">
+              {validator.status !== 'Active' && (
+                <Button
+                  variant="solid"
+                  intent="secondary"
+                  size="sm"
+                  disabled={!!redelegationLocks[validator.address]}
+                  onClick={() => onRedelegate(validator)}
+                >
+                  Redelegate
+                </Button>
+              )}
+              <Button
+                variant="solid"
+                intent="tertiary"
+                size="sm"
+                onClick={() => {
+                  openModal();
+                  setSelectedValidator(validator);
+                }}
+              >
+                Manage
+              </Button>
+            </Box>
           ),
         },
       ]}
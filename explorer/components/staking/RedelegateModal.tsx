@@ -4,6 +4,7 @@ import {
   BasicModal,
   Box,
   Button,
+  Callout,
   StakingDelegateCard,
   StakingDelegateInput,
   Text,
@@ -16,12 +17,15 @@ import { StdFee } from '@interchainjs/react/types';
 
 import {
   calcDollarValue,
+  formatDate,
   getAssetLogoUrl,
+  getRedelegationLocks,
   getExponentFromAsset,
   getNativeAsset,
   isGreaterThanZero,
   toBaseAmount,
   type ExtendedValidator as Validator,
+  type ParsedRedelegations,
 } from '@/utils';
 import {
   Prices,
@@ -36,6 +40,7 @@ export const RedelegateModal = ({
   modalControl,
   selectedValidator,
   validatorToRedelegate,
+  redelegations,
   prices,
 }: {
   updateData: () => void;
@@ -43,6 +48,7 @@ export const RedelegateModal = ({
   selectedValidator: Validator;
   validatorToRedelegate: Validator;
   modalControl: UseDisclosureReturn;
+  redelegations: ParsedRedelegations;
   prices: Prices;
 }) => {
   const { address, assetList } = useChain(chainName);
@@ -109,6 +115,10 @@ export const RedelegateModal = ({
 
   const maxAmount = selectedValidator.delegation;
 
+  // the chain rejects this with "redelegation in progress", so catch it early
+  const lockedUntil =
+    getRedelegationLocks(redelegations)[selectedValidator.address];
+
   return (
     <BasicModal
       title="Redelegate"
@@ -184,12 +194,26 @@ export const RedelegateModal = ({
         />
       </Box>
 
+      {lockedUntil && (
+        <Callout
+          title="Redelegation in progress"
+          intent="error"
+          iconName="errorWarningLine"
+          attributes={{ mt: '$12' }}
+        >
+          Stake was recently redelegated to {selectedValidator.name}. It can be
+          redelegated again once that completes on {formatDate(lockedUntil)}.
+        </Callout>
+      )}
+
       <Box mt="$12">
         <Button
           intent="tertiary"
           onClick={onRedelegateClick}
           isLoading={isRedelegating}
-          disabled={!isGreaterThanZero(amount) || isRedelegating}
+          disabled={
+            !isGreaterThanZero(amount) || isRedelegating || !!lockedUntil
+          }
           fluidWidth
         >
           Redelegate
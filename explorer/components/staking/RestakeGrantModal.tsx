@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import dayjs from 'dayjs';
+import { useChain } from '@interchain-kit/react';
+import { BasicModal, Box, Button, Text, TextField } from '@interchain-ui/react';
+import { useGrant } from '@interchainjs/react/cosmos/authz/v1beta1/tx.rpc.react';
+import { defaultContext } from '@tanstack/react-query';
+import { StdFee } from '@interchainjs/react/types';
+
+import { InputField } from '../contract/common';
+import { type RestakeOperator } from '@/config';
+import {
+  UseDisclosureReturn,
+  useSigningClient,
+  useToastHandlers,
+} from '@/hooks';
+import {
+  buildRestakeGrantMsgs,
+  getExponentFromAsset,
+  getNativeAsset,
+  isGreaterThanZero,
+  toBaseAmount,
+  type RestakeAuthorizationKind,
+} from '@/utils';
+
+const DEFAULT_GRANT_GAS = '300000';
+const DATE_FORMAT = 'YYYY-MM-DD';
+
+const AUTHORIZATION_OPTIONS: {
+  kind: RestakeAuthorizationKind;
+  label: string;
+  description: string;
+}[] = [
+  {
+    kind: 'stake',
+    label: 'Stake',
+    description: 'The bot can only delegate to this validator, up to the cap.',
+  },
+  {
+    kind: 'generic',
+    label: 'Generic',
+    description: 'The bot can delegate to any validator, without a cap.',
+  },
+];
+
+export const RestakeGrantModal = ({
+  chainName,
+  operator,
+  validatorName,
+  modalControl,
+  updateData,
+}: {
+  chainName: string;
+  operator: RestakeOperator;
+  validatorName: string;
+  modalControl: UseDisclosureReturn;
+  updateData: () => void;
+}) => {
+  const { address, assetList } = useChain(chainName);
+
+  const [kind, setKind] = useState<RestakeAuthorizationKind>('stake');
+  const [expiration, setExpiration] = useState(
+    dayjs().add(1, 'year').format(DATE_FORMAT),
+  );
+  const [maxTokens, setMaxTokens] = useState('');
+
+  const coin = getNativeAsset(assetList);
+  const exp = getExponentFromAsset(coin);
+
+  const toastHandlers = useToastHandlers();
+  const { data: signingClient } = useSigningClient(chainName);
+  const { mutate: grant, isLoading: isGranting } = useGrant({
+    clientResolver: signingClient,
+    options: {
+      context: defaultContext,
+      ...toastHandlers,
+    },
+  });
+
+  const expirationDate = dayjs(expiration);
+  const expirationError = !(
+    /^\d{4}-\d{2}-\d{2}$/.test(expiration) && expirationDate.isValid()
+  )
+    ? `Enter a date as ${DATE_FORMAT}`
+    : !expirationDate.isAfter(dayjs())
+    ? 'The expiry must be in the future'
+    : '';
+  const maxTokensError =
+    kind === 'stake' && maxTokens && !isGreaterThanZero(maxTokens)
+      ? 'The cap must be greater than zero'
+      : '';
+
+  const onGrantClick = () => {
+    if (!address) return;
+
+    const msgs = buildRestakeGrantMsgs({
+      granter: address,
+      grantee: operator.botAddress,
+      validator: operator.validator,
+      kind,
+      maxTokens: maxTokens ? toBaseAmount(maxTokens, exp) : undefined,
+      denom: coin.base,
+      expiration: expirationDate.toDate(),
+    });
+
+    const fee: StdFee = {
+      amount: [
+        {
+          denom: coin.base,
+          amount: '0',
+        },
+      ],
+      gas: DEFAULT_GRANT_GAS,
+    };
+
+    grant(
+      {
+        signerAddress: address,
+        message: msgs,
+        fee,
+        memo: 'Restake grant',
+      },
+      {
+        onSuccess: () => {
+          updateData();
+          modalControl.onClose();
+        },
+      },
+    );
+  };
+
+  return (
+    <BasicModal
+      title="Enable Restake"
+      isOpen={modalControl.isOpen}
+      onClose={modalControl.onClose}
+    >
+      <Box
+        width={{ mobile: '100%', tablet: '$containerSm' }}
+        mt="$6"
+        display="flex"
+        flexDirection="column"
+        gap="20px"
+      >
+        <Text fontSize="$md">
+          Let&nbsp;
+          <Text as="span" fontSize="$md" fontWeight="$semibold">
+            {validatorName}
+          </Text>
+          &nbsp;claim your rewards and delegate them back for you.
+        </Text>
+
+        <InputField title="Authorization">
+          <Box display="flex" gap="$4">
+            {AUTHORIZATION_OPTIONS.map((option) => (
+              <Button
+                key={option.kind}
+                size="sm"
+                intent={kind === option.kind ? 'tertiary' : 'secondary'}
+                onClick={() => setKind(option.kind)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </Box>
+          <InputField.Description>
+            {
+              AUTHORIZATION_OPTIONS.find((option) => option.kind === kind)!
+                .description
+            }
+          </InputField.Description>
+        </InputField>
+
+        {kind === 'stake' && (
+          <InputField title={`Max Tokens (${coin.symbol})`}>
+            <TextField
+              id="restake-max-tokens"
+              type="number"
+              value={maxTokens}
+              onChange={(e) => setMaxTokens(e.target.value)}
+              placeholder="No cap"
+              autoComplete="off"
+            />
+            <InputField.Description
+              intent={maxTokensError ? 'error' : 'default'}
+            >
+              {maxTokensError ||
+                'Total amount the bot may delegate before the grant runs out.'}
+            </InputField.Description>
+          </InputField>
+        )}
+
+        <InputField title="Expires" required>
+          <TextField
+            id="restake-expiration"
+            value={expiration}
+            onChange={(e) => setExpiration(e.target.value)}
+            placeholder={DATE_FORMAT}
+            autoComplete="off"
+          />
+          {expirationError && (
+            <InputField.Description intent="error">
+              {expirationError}
+            </InputField.Description>
+          )}
+        </InputField>
+      </Box>
+
+      <Box mt="$12">
+        <Button
+          intent="tertiary"
+          onClick={onGrantClick}
+          isLoading={isGranting}
+          disabled={!!expirationError || !!maxTokensError || isGranting}
+          fluidWidth
+        >
+          Grant
+        </Button>
+      </Box>
+    </BasicModal>
+  );
+};
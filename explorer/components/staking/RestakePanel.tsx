@@ -0,0 +1,266 @@
+import { useState } from 'react';
+import { useChain } from '@interchain-kit/react';
+import {
+  Box,
+  Button,
+  GridColumn,
+  Text,
+  ValidatorList,
+  ValidatorNameCell,
+} from '@interchain-ui/react';
+import { useRevoke } from '@interchainjs/react/cosmos/authz/v1beta1/tx.rpc.react';
+import { defaultContext } from '@tanstack/react-query';
+import { StdFee } from '@interchainjs/react/types';
+
+import { RestakeGrantModal } from './RestakeGrantModal';
+import { getRestakeOperators, type RestakeOperator } from '@/config';
+import {
+  useDisclosure,
+  useRestakeGrants,
+  useSigningClient,
+  useToastHandlers,
+} from '@/hooks';
+import {
+  buildRestakeRevokeMsgs,
+  formatDate,
+  getNativeAsset,
+  shortenAddress,
+  type ExtendedValidator as Validator,
+  type RestakeGrant,
+} from '@/utils';
+
+export const RestakePanel = ({
+  chainName,
+  validators,
+  logos,
+}: {
+  chainName: string;
+  validators: Validator[];
+  logos: {
+    [key: string]: string;
+  };
+}) => {
+  const { address, assetList } = useChain(chainName);
+  const coin = getNativeAsset(assetList);
+
+  const [selectedOperator, setSelectedOperator] = useState<RestakeOperator>();
+  const grantModalControl = useDisclosure();
+
+  const operators = getRestakeOperators(chainName);
+  const { data: grants = [], refetch } = useRestakeGrants(chainName);
+
+  const toastHandlers = useToastHandlers();
+  const { data: signingClient } = useSigningClient(chainName);
+  const { mutate: revoke, isLoading: isRevoking } = useRevoke({
+    clientResolver: signingClient,
+    options: {
+      context: defaultContext,
+      ...toastHandlers,
+    },
+  });
+
+  const validatorNames = Object.fromEntries(
+    validators.map(({ address, name }) => [address, name]),
+  );
+
+  const getValidatorName = (validatorAddress: string) =>
+    validatorNames[validatorAddress] || shortenAddress(validatorAddress);
+
+  const onRevokeClick = (grant: RestakeGrant) => {
+    if (!address) return;
+
+    const fee: StdFee = {
+      amount: [
+        {
+          denom: coin.base,
+          amount: '0',
+        },
+      ],
+      gas: '200000',
+    };
+
+    revoke(
+      {
+        signerAddress: address,
+        message: buildRestakeRevokeMsgs(address, grant),
+        fee,
+        memo: 'Revoke restake grant',
+      },
+      { onSuccess: () => refetch() },
+    );
+  };
+
+  if (!address || (operators.length === 0 && grants.length === 0)) {
+    return null;
+  }
+
+  const grantColumns: GridColumn[] = [
+    {
+      id: 'grantee',
+      label: 'Operator',
+      width: '196px',
+      align: 'left',
+      render: ({ grantee }: RestakeGrant) => {
+        const operator = operators.find(
+          ({ botAddress }) => botAddress === grantee,
+        );
+        return operator ? (
+          <ValidatorNameCell
+            validatorName={getValidatorName(operator.validator)}
+            validatorImg={logos[operator.validator]}
+          />
+        ) : (
+          <Text fontWeight="$semibold">{shortenAddress(grantee)}</Text>
+        );
+      },
+    },
+    {
+      id: 'permissions',
+      label: 'Permissions',
+      width: '196px',
+      align: 'left',
+      render: ({ canWithdraw, canDelegate, validators }: RestakeGrant) => (
+        <Text>
+          {[
+            canWithdraw && 'Claim rewards',
+            canDelegate &&
+              (validators.length
+                ? `Delegate to ${validators.map(getValidatorName).join(', ')}`
+                : 'Delegate anywhere'),
+          ]
+            .filter(Boolean)
+            .join(', ')}
+        </Text>
+      ),
+    },
+    {
+      id: 'max-tokens',
+      label: 'Max Tokens',
+      width: '146px',
+      align: 'right',
+      render: ({ maxTokens }: RestakeGrant) => (
+        <Text fontWeight="$semibold">
+          {maxTokens ? `${maxTokens} ${coin.symbol}` : 'No cap'}
+        </Text>
+      ),
+    },
+    {
+      id: 'expiration',
+      label: 'Expires',
+      width: '146px',
+      align: 'right',
+      render: ({ expiration }: RestakeGrant) => (
+        <Text>{formatDate(expiration ?? undefined) ?? 'Never'}</Text>
+      ),
+    },
+    {
+      id: 'action',
+      width: '126px',
+      align: 'right',
+      render: (grant: RestakeGrant) => (
+        <Button
+          variant="solid"
+          intent="secondary"
+          size="sm"
+          disabled={isRevoking}
+          onClick={() => onRevokeClick(grant)}
+        >
+          Revoke
+        </Button>
+      ),
+    },
+  ];
+
+  const operatorColumns: GridColumn[] = [
+    {
+      id: 'validator',
+      label: 'Validator',
+      width: '196px',
+      align: 'left',
+      render: ({ validator }: RestakeOperator) => (
+        <ValidatorNameCell
+          validatorName={getValidatorName(validator)}
+          validatorImg={logos[validator]}
+        />
+      ),
+    },
+    {
+      id: 'run-time',
+      label: 'Runs',
+      width: '196px',
+      align: 'right',
+      render: ({ runTime }: RestakeOperator) => (
+        <Text fontWeight="$semibold">{runTime || '--'}</Text>
+      ),
+    },
+    {
+      id: 'action',
+      width: '126px',
+      align: 'right',
+      render: (operator: RestakeOperator) => {
+        const isGranted = grants.some(
+          ({ grantee }) => grantee === operator.botAddress,
+        );
+        return (
+          <Button
+            variant="solid"
+            intent="tertiary"
+            size="sm"
+            disabled={isGranted}
+            onClick={() => {
+              setSelectedOperator(operator);
+              grantModalControl.onOpen();
+            }}
+          >
+            {isGranted ? 'Enabled' : 'Enable'}
+          </Button>
+        );
+      },
+    },
+  ];
+
+  return (
+    <>
+      <Text
+        color="$textSecondary"
+        fontSize="$lg"
+        fontWeight="$semibold"
+        attributes={{ mt: '$14', mb: '$6' }}
+      >
+        Restake
+      </Text>
+      <Text color="$textSecondary" fontSize="$sm" attributes={{ mb: '$6' }}>
+        Authorize a validator&apos;s restake bot to claim your rewards and
+        delegate them back, so they compound without manual claims.
+      </Text>
+
+      {grants.length > 0 && (
+        <Box mb="$10">
+          <ValidatorList
+            columns={grantColumns}
+            data={grants}
+            tableProps={{ width: '$full' }}
+          />
+        </Box>
+      )}
+
+      {operators.length > 0 && (
+        <ValidatorList
+          columns={operatorColumns}
+          data={operators}
+          tableProps={{ width: '$full' }}
+        />
+      )}
+
+      {selectedOperator && grantModalControl.isOpen && (
+        <RestakeGrantModal
+          chainName={chainName}
+          operator={selectedOperator}
+          validatorName={getValidatorName(selectedOperator.validator)}
+          modalControl={grantModalControl}
+          updateData={refetch}
+        />
+      )}
+    </>
+  );
+};
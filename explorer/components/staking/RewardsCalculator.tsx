@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import BigNumber from 'bignumber.js';
+import { useChain } from '@interchain-kit/react';
+import {
+  BasicModal,
+  Box,
+  Select,
+  SelectOption,
+  Text,
+  TextField,
+} from '@interchain-ui/react';
+
+import { InputField } from '../contract/common';
+import { Prices, UseDisclosureReturn } from '@/hooks';
+import {
+  calcDollarValue,
+  COMPOUND_FREQUENCIES,
+  convertGasToTokenAmount,
+  findBestCompoundFrequency,
+  getExponentFromAsset,
+  getNativeAsset,
+  isGreaterThanZero,
+  MAX_PROJECTION_DAYS,
+  projectRewards,
+  shiftDigits,
+  type ExtendedValidator as Validator,
+} from '@/utils';
+
+// a claim and a delegation, at the gas Overview and DelegateModal send with
+const COMPOUND_GAS = '400000';
+const DEFAULT_DAYS = '365';
+const DEFAULT_FREQUENCY_INDEX = COMPOUND_FREQUENCIES.findIndex(
+  ({ id }) => id === 'monthly',
+);
+
+const ResultRow = ({ label, value }: { label: string; value: string }) => (
+  <Box display="flex" justifyContent="space-between" py="$2">
+    <Text color="$textSecondary">{label}</Text>
+    <Text fontWeight="$semibold">{value}</Text>
+  </Box>
+);
+
+export const RewardsCalculator = ({
+  chainName,
+  validators: activeValidators,
+  prices,
+  initialValidator,
+  initialAmount,
+}: {
+  chainName: string;
+  validators: Validator[];
+  prices: Prices;
+  initialValidator?: Validator;
+  initialAmount?: string;
+}) => {
+  const { assetList, chain } = useChain(chainName);
+  const coin = getNativeAsset(assetList);
+  const exp = getExponentFromAsset(coin);
+
+  // a delegation can be with an inactive validator, which is not listed
+  const validators =
+    initialValidator &&
+    !activeValidators.some(
+      ({ address }) => address === initialValidator.address,
+    )
+      ? [initialValidator, ...activeValidators]
+      : activeValidators;
+
+  const [validatorIndex, setValidatorIndex] = useState(() =>
+    Math.max(
+      validators.findIndex(
+        ({ address }) => address === initialValidator?.address,
+      ),
+      0,
+    ),
+  );
+  const [amount, setAmount] = useState(
+    isGreaterThanZero(initialAmount) ? initialAmount! : '1000',
+  );
+  const [days, setDays] = useState(DEFAULT_DAYS);
+  const [frequencyIndex, setFrequencyIndex] = useState(DEFAULT_FREQUENCY_INDEX);
+
+  const validator = validators[validatorIndex];
+  const frequency = COMPOUND_FREQUENCIES[frequencyIndex];
+  const feePerCompound = convertGasToTokenAmount(COMPOUND_GAS, chain, exp);
+
+  const isDaysInRange =
+    Number.isInteger(Number(days)) && +days > 0 && +days <= MAX_PROJECTION_DAYS;
+  const isValid = isGreaterThanZero(amount) && isDaysInRange;
+
+  const input = {
+    amount,
+    apr: validator?.apr || 0,
+    days: Number(days),
+    feePerCompound,
+  };
+  const projection = isValid
+    ? projectRewards({ ...input, perYear: frequency.perYear })
+    : null;
+  const best = isValid ? findBestCompoundFrequency(input) : null;
+
+  const formatAmount = (value: BigNumber.Value) =>
+    `${shiftDigits(value.toString(), 0, 4)} ${coin.symbol} ($${calcDollarValue(
+      coin.base,
+      value.toString(),
+      prices,
+    )})`;
+
+  return (
+    <Box display="flex" flexDirection="column" gap="20px">
+      <InputField title="Validator">
+        <Select
+          fullWidth
+          selectedIndex={validatorIndex}
+          onSelectItem={(item) => item && setValidatorIndex(item.index)}
+        >
+          {validators.map(({ address, name }) => (
+            <SelectOption key={address} optionKey={address} label={name} />
+          ))}
+        </Select>
+        <InputField.Description>
+          {validator
+            ? `Commission ${shiftDigits(validator.commission, 2)}%, APR ${
+                validator.apr ? `${validator.apr}%` : 'unavailable'
+              }`
+            : 'No validators to choose from'}
+        </InputField.Description>
+      </InputField>
+
+      <Box display="flex" gap="$8">
+        <Box flex="1">
+          <InputField title={`Amount (${coin.symbol})`}>
+            <TextField
+              id="calculator-amount"
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              autoComplete="off"
+            />
+          </InputField>
+        </Box>
+        <Box flex="1">
+          <InputField title="Duration (days)">
+            <TextField
+              id="calculator-days"
+              type="number"
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+              autoComplete="off"
+            />
+            <InputField.Description
+              intent={isDaysInRange ? 'default' : 'error'}
+            >
+              {`Up to ${MAX_PROJECTION_DAYS} days`}
+            </InputField.Description>
+          </InputField>
+        </Box>
+      </Box>
+
+      <InputField title="Compounding">
+        <Select
+          fullWidth
+          selectedIndex={frequencyIndex}
+          onSelectItem={(item) => item && setFrequencyIndex(item.index)}
+        >
+          {COMPOUND_FREQUENCIES.map(({ id, label }) => (
+            <SelectOption key={id} optionKey={id} label={label} />
+          ))}
+        </Select>
+      </InputField>
+
+      {projection && best ? (
+        <Box>
+          <ResultRow
+            label="Projected rewards"
+            value={formatAmount(projection.rewards)}
+          />
+          <ResultRow
+            label={`Fees (${projection.compounds} claims)`}
+            value={formatAmount(projection.fees)}
+          />
+          <ResultRow
+            label="Staked at the end"
+            value={formatAmount(new BigNumber(amount).plus(projection.rewards))}
+          />
+          <Text color="$textSecondary" fontSize="$sm" attributes={{ mt: '$6' }}>
+            {best.frequency.perYear
+              ? `Compounding ${best.frequency.label.toLowerCase()} earns the most. More often than that, the ${formatAmount(
+                  feePerCompound,
+                )} fee per claim costs more than it brings in.`
+              : 'At this amount, claim fees cost more than compounding earns.'}
+          </Text>
+        </Box>
+      ) : (
+        <Text color="$textDanger" fontSize="$sm">
+          Enter an amount and a whole number of days
+        </Text>
+      )}
+    </Box>
+  );
+};
+
+export const RewardsCalculatorModal = ({
+  modalControl,
+  ...props
+}: Parameters<typeof RewardsCalculator>[0] & {
+  modalControl: UseDisclosureReturn;
+}) => {
+  return (
+    <BasicModal
+      title="Rewards Calculator"
+      isOpen={modalControl.isOpen}
+      onClose={modalControl.onClose}
+    >
+      <Box width={{ mobile: '100%', tablet: '$containerSm' }} mt="$6">
+        <RewardsCalculator {...props} />
+      </Box>
+    </BasicModal>
+  );
+};
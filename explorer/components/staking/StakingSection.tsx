@@ -2,17 +2,30 @@ import { useChain } from '@interchain-kit/react';
 import { Box, Spinner, Text } from '@interchain-ui/react';
 
 import Overview from './Overview';
+import { AprSummary } from './AprSummary';
 import { MyValidators } from './MyValidators';
 import { AllValidators } from './AllValidators';
-import { useStakingData, useValidatorLogos } from '@/hooks';
+import { UnbondingQueue } from './UnbondingQueue';
+import { RestakePanel } from './RestakePanel';
+import { useSigningInfos, useStakingData, useValidatorLogos } from '@/hooks';
 
 export const StakingSection = ({ chainName }: { chainName: string }) => {
   const { address, chain } = useChain(chainName);
   console.log('chain', chain, chain.chainType);
-  const { data, isLoading, refetch } = useStakingData(chainName);
+  const { data, isLoading, refetch, progress } = useStakingData(chainName);
+  const { data: signingInfos } = useSigningInfos(chainName);
+
+  const everyValidator = data
+    ? [
+        ...data.allValidators,
+        ...data.inactiveValidators,
+        ...data.jailedValidators,
+      ]
+    : [];
+
   const { data: logos, isLoading: isFetchingLogos } = useValidatorLogos(
     chainName,
-    data?.allValidators || []
+    everyValidator
   );
 
   return (
@@ -28,36 +41,57 @@ export const StakingSection = ({ chainName }: { chainName: string }) => {
             Staking functionality is not available for {chain.chainType} chains
           </Text>
         </Box>
-      ) : !address ? (
-        <Box
-          height="$28"
-          display="flex"
-          justifyContent="center"
-          alignItems="center"
-        >
-          <Text fontWeight="$semibold" fontSize="$xl">
-            Please connect your wallet
-          </Text>
-        </Box>
       ) : isLoading || isFetchingLogos || !data ? (
         <Box
           height="$28"
           display="flex"
+          flexDirection="column"
           justifyContent="center"
           alignItems="center"
+          gap="$6"
         >
           <Spinner size="$7xl" />
+          {progress && (
+            <Text color="$textSecondary" fontSize="$sm">
+              Loaded {progress.loaded}
+              {progress.total ? ` of ${progress.total}` : ''} validators
+            </Text>
+          )}
         </Box>
       ) : (
         <>
-          <Overview
-            balance={data.balance}
-            rewards={data.rewards}
-            staked={data.totalDelegated}
-            updateData={refetch}
-            chainName={chainName}
-            prices={data.prices}
-          />
+          {address ? (
+            <>
+              <Overview
+                balance={data.balance}
+                rewards={data.rewards}
+                staked={data.totalDelegated}
+                updateData={refetch}
+                chainName={chainName}
+                prices={data.prices}
+              />
+              <AprSummary
+                chainName={chainName}
+                address={address}
+                myValidators={data.myValidators}
+                rewards={data.rewards.total}
+                staked={data.totalDelegated}
+              />
+            </>
+          ) : (
+            <Box
+              height="$28"
+              display="flex"
+              justifyContent="center"
+              alignItems="center"
+              backgroundColor="$cardBg"
+              borderRadius="$lg"
+            >
+              <Text color="$textSecondary" fontSize="$lg">
+                Connect your wallet to see your delegations and rewards
+              </Text>
+            </Box>
+          )}
 
           {data.myValidators.length > 0 && (
             <MyValidators
@@ -68,13 +102,33 @@ export const StakingSection = ({ chainName }: { chainName: string }) => {
               unbondingDays={data.unbondingDays}
               chainName={chainName}
               logos={logos}
+              signingInfos={signingInfos}
+              redelegations={data.redelegations}
               prices={data.prices}
             />
           )}
 
+          <UnbondingQueue
+            unbondings={data.unbondings}
+            redelegations={data.redelegations}
+            validators={everyValidator}
+            logos={logos}
+            chainName={chainName}
+            updateData={refetch}
+          />
+
+          <RestakePanel
+            chainName={chainName}
+            validators={everyValidator}
+            logos={logos}
+          />
+
           <AllValidators
             balance={data.balance}
             validators={data.allValidators}
+            inactiveValidators={data.inactiveValidators}
+            jailedValidators={data.jailedValidators}
+            signingInfos={signingInfos}
             updateData={refetch}
             unbondingDays={data.unbondingDays}
             chainName={chainName}
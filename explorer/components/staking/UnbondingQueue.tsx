@@ -0,0 +1,205 @@
+import { ReactNode, useState } from 'react';
+import { useChain } from '@interchain-kit/react';
+import {
+  Box,
+  Button,
+  Text,
+  ValidatorList,
+  ValidatorNameCell,
+  ValidatorTokenAmountCell,
+  GridColumn,
+} from '@interchain-ui/react';
+
+import { CancelUnbondingModal } from './CancelUnbondingModal';
+import { useCancelUnbondingSupport, useDisclosure, useNow } from '@/hooks';
+import {
+  formatCountdown,
+  formatDate,
+  getNativeAsset,
+  shortenAddress,
+  type ExtendedValidator as Validator,
+  type ParsedRedelegations,
+  type ParsedUnbondingDelegations,
+} from '@/utils';
+
+type Unbonding = ParsedUnbondingDelegations[number];
+type Redelegation = ParsedRedelegations[number];
+
+const SectionTitle = ({ children }: { children: ReactNode }) => (
+  <Text
+    color="$textSecondary"
+    fontSize="$lg"
+    fontWeight="$semibold"
+    attributes={{ mt: '$14', mb: '$6' }}
+  >
+    {children}
+  </Text>
+);
+
+export const UnbondingQueue = ({
+  unbondings,
+  redelegations,
+  validators,
+  logos,
+  chainName,
+  updateData,
+}: {
+  unbondings: ParsedUnbondingDelegations;
+  redelegations: ParsedRedelegations;
+  validators: Validator[];
+  logos: {
+    [key: string]: string;
+  };
+  chainName: string;
+  updateData: () => void;
+}) => {
+  const { address, assetList } = useChain(chainName);
+  const coin = getNativeAsset(assetList);
+  const now = useNow();
+
+  const [unbondingToCancel, setUnbondingToCancel] = useState<Unbonding>();
+  const cancelModalControl = useDisclosure();
+  const { data: canCancel } = useCancelUnbondingSupport(chainName);
+
+  const validatorNames = Object.fromEntries(
+    validators.map(({ address, name }) => [address, name]),
+  );
+
+  const getValidatorName = (address: string) =>
+    validatorNames[address] || shortenAddress(address);
+
+  const renderValidator = (address: string) => (
+    <ValidatorNameCell
+      validatorName={getValidatorName(address)}
+      validatorImg={logos[address]}
+    />
+  );
+
+  const renderCompletion = ({ completionTime }: Unbonding | Redelegation) => (
+    <Box textAlign="right">
+      <Text fontWeight="$semibold">
+        {completionTime.getTime() > now
+          ? formatCountdown(completionTime, now)
+          : 'Completing'}
+      </Text>
+      <Text color="$textSecondary" fontSize="$xs">
+        {formatDate(completionTime)}
+      </Text>
+    </Box>
+  );
+
+  const amountColumn: GridColumn = {
+    id: 'amount',
+    label: 'Amount',
+    width: '196px',
+    align: 'right',
+    render: ({ amount }: Unbonding | Redelegation) => (
+      <ValidatorTokenAmountCell amount={amount} symbol={coin.symbol} />
+    ),
+  };
+
+  const completionColumn: GridColumn = {
+    id: 'completion',
+    label: 'Completes In',
+    width: '196px',
+    align: 'right',
+    render: renderCompletion,
+  };
+
+  const unbondingColumns: GridColumn[] = [
+    {
+      id: 'validator',
+      label: 'Validator',
+      width: '196px',
+      align: 'left',
+      render: ({ validatorAddress }: Unbonding) =>
+        renderValidator(validatorAddress),
+    },
+    amountColumn,
+    completionColumn,
+  ];
+
+  if (canCancel && address) {
+    unbondingColumns.push({
+      id: 'action',
+      width: '126px',
+      align: 'right',
+      // entries past their completion time can no longer be cancelled
+      render: (unbonding: Unbonding) =>
+        unbonding.completionTime.getTime() > now ? (
+          <Button
+            variant="solid"
+            intent="secondary"
+            size="sm"
+            onClick={() => {
+              setUnbondingToCancel(unbonding);
+              cancelModalControl.onOpen();
+            }}
+          >
+            Cancel
+          </Button>
+        ) : null,
+    });
+  }
+
+  const redelegationColumns: GridColumn[] = [
+    {
+      id: 'source',
+      label: 'From',
+      width: '196px',
+      align: 'left',
+      render: ({ srcValidatorAddress }: Redelegation) =>
+        renderValidator(srcValidatorAddress),
+    },
+    {
+      id: 'destination',
+      label: 'To',
+      width: '196px',
+      align: 'left',
+      render: ({ dstValidatorAddress }: Redelegation) =>
+        renderValidator(dstValidatorAddress),
+    },
+    amountColumn,
+    completionColumn,
+  ];
+
+  return (
+    <>
+      {unbondings.length > 0 && (
+        <>
+          <SectionTitle>Unbonding</SectionTitle>
+          <ValidatorList
+            columns={unbondingColumns}
+            data={unbondings}
+            tableProps={{ width: '$full' }}
+          />
+        </>
+      )}
+
+      {redelegations.length > 0 && (
+        <>
+          <SectionTitle>Redelegations</SectionTitle>
+          <Text color="$textSecondary" fontSize="$sm" attributes={{ mb: '$6' }}>
+            Stake redelegated to a validator cannot be redelegated again until
+            the redelegation completes.
+          </Text>
+          <ValidatorList
+            columns={redelegationColumns}
+            data={redelegations}
+            tableProps={{ width: '$full' }}
+          />
+        </>
+      )}
+
+      {unbondingToCancel && cancelModalControl.isOpen && (
+        <CancelUnbondingModal
+          chainName={chainName}
+          unbonding={unbondingToCancel}
+          validatorName={getValidatorName(unbondingToCancel.validatorAddress)}
+          modalControl={cancelModalControl}
+          updateData={updateData}
+        />
+      )}
+    </>
+  );
+};
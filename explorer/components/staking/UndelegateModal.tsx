@@ -15,6 +15,7 @@ import { defaultContext } from '@tanstack/react-query';
 import {
   Prices,
   UseDisclosureReturn,
+  useCancelUnbondingSupport,
   useSigningClient,
   useToastHandlers,
 } from '@/hooks';
@@ -56,6 +57,8 @@ export const UndelegateModal = ({
   const coin = getNativeAsset(assetList);
   const exp = getExponentFromAsset(coin);
 
+  const { data: canCancelUnbonding } = useCancelUnbondingSupport(chainName);
+
   const toastHandlers = useToastHandlers();
   const { data: signingClient } = useSigningClient(chainName);
   const { mutate: undelegate, isLoading: isUndelegating } = useUndelegate({
@@ -134,7 +137,9 @@ export const UndelegateModal = ({
               >
                 <Box as="ul" ml="$9">
                   <Box as="li">not receive staking rewards</Box>
-                  <Box as="li">not be able to cancel the unbonding</Box>
+                  {!canCancelUnbonding && (
+                    <Box as="li">not be able to cancel the unbonding</Box>
+                  )}
                   <Box as="li">
                     need to wait {unbondingDays} days for the amount to be
                     liquid
@@ -5,6 +5,7 @@ import {
   StakingDelegate,
   Text,
 } from '@interchain-ui/react';
+import Link from 'next/link';
 import { useChain } from '@interchain-kit/react';
 
 import { UseDisclosureReturn } from '@/hooks';
@@ -20,14 +21,17 @@ export const ValidatorInfoModal = ({
   handleClick,
   modalControl,
   selectedValidator,
+  isRedelegationLocked = false,
 }: {
   chainName: string;
   modalControl: UseDisclosureReturn;
   selectedValidator: Validator;
+  isRedelegationLocked?: boolean;
   handleClick: {
     openDelegateModal: () => void;
     openUndelegateModal: () => void;
     openSelectValidatorModal: () => void;
+    openRewardsCalculator: () => void;
   };
   logoUrl: string;
 }) => {
@@ -35,8 +39,12 @@ export const ValidatorInfoModal = ({
   const coin = getNativeAsset(assetList);
 
   const { isOpen, onClose } = modalControl;
-  const { openDelegateModal, openSelectValidatorModal, openUndelegateModal } =
-    handleClick;
+  const {
+    openDelegateModal,
+    openSelectValidatorModal,
+    openUndelegateModal,
+    openRewardsCalculator,
+  } = handleClick;
 
   return (
     <BasicModal title="Validator" isOpen={isOpen} onClose={onClose}>
@@ -48,9 +56,31 @@ export const ValidatorInfoModal = ({
             avatarUrl: logoUrl,
           }}
           headerExtra={
-            selectedValidator.description && (
-              <Text fontSize="$md">{selectedValidator.description}</Text>
-            )
+            <>
+              {selectedValidator.description && (
+                <Text fontSize="$md">{selectedValidator.description}</Text>
+              )}
+              <Box display="flex" gap="$8">
+                <Link href={`/validators/${selectedValidator.address}`}>
+                  <Text as="span" color="$purple600" fontWeight="$semibold">
+                    View validator details
+                  </Text>
+                </Link>
+                <Box
+                  cursor="pointer"
+                  attributes={{
+                    onClick: () => {
+                      onClose();
+                      openRewardsCalculator();
+                    },
+                  }}
+                >
+                  <Text as="span" color="$purple600" fontWeight="$semibold">
+                    Calculate rewards
+                  </Text>
+                </Box>
+              </Box>
+            </>
           }
           delegationItems={[
             {
@@ -72,6 +102,7 @@ export const ValidatorInfoModal = ({
               </Button>
               <Button
                 intent="secondary"
+                disabled={isRedelegationLocked}
                 onClick={() => {
                   onClose();
                   openSelectValidatorModal();
@@ -0,0 +1,46 @@
+import { Box, Text } from '@interchain-ui/react';
+
+import { type SigningInfo, type ValidatorStatus } from '@/utils';
+
+/**
+ * Badge for validators that do not earn rewards. Tombstoning comes from the
+ * slashing module and takes precedence, since such a validator can never be
+ * unjailed.
+ */
+const getBadgeLabel = (status: ValidatorStatus, signingInfo?: SigningInfo) => {
+  if (signingInfo?.tombstoned) return 'Tombstoned';
+
+  const isJailed =
+    status === 'Jailed' ||
+    (!!signingInfo?.jailedUntil && signingInfo.jailedUntil > new Date());
+  if (isJailed) return 'Jailed';
+
+  return status === 'Active' ? null : status;
+};
+
+export const ValidatorStatusBadge = ({
+  status,
+  signingInfo,
+}: {
+  status: ValidatorStatus;
+  signingInfo?: SigningInfo;
+}) => {
+  const label = getBadgeLabel(status, signingInfo);
+
+  if (!label) return null;
+
+  const isSlashed = label === 'Jailed' || label === 'Tombstoned';
+
+  return (
+    <Box
+      px="$4"
+      py="$2"
+      borderRadius="$md"
+      backgroundColor={isSlashed ? '$red400' : '$blackAlpha500'}
+    >
+      <Text color="$white" fontSize="$xs" fontWeight="$bold">
+        {label}
+      </Text>
+    </Box>
+  );
+};
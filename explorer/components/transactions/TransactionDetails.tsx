@@ -0,0 +1,193 @@
+import Link from 'next/link';
+import BigNumber from 'bignumber.js';
+import { useChain } from '@interchain-kit/react';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { InfoCard, InfoRow } from '../common';
+import { JsonEditor } from '../contract/common';
+import { TxStatusBadge } from './TxStatusBadge';
+import { useTransaction } from '@/hooks';
+import {
+  formatDate,
+  formatTxFee,
+  getMessageType,
+  TxDetail,
+  validateChainAddress,
+} from '@/utils';
+
+const MAX_MESSAGE_LINES = 30;
+
+export const TransactionDetails = ({
+  chainName,
+  hash,
+}: {
+  chainName: string;
+  hash: string;
+}) => {
+  const { assetList, chain } = useChain(chainName);
+  const { data: tx, isLoading, isError } = useTransaction(chainName, hash);
+
+  if (isLoading || isError) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="300px"
+      >
+        {isLoading ? (
+          <Spinner size="$6xl" color="$blackAlpha600" />
+        ) : (
+          <Text color="$textDanger" fontSize="16px" wordBreak="break-all">
+            Transaction {hash} could not be found
+          </Text>
+        )}
+      </Box>
+    );
+  }
+
+  return (
+    <Box maxWidth="$containerMd" mx="auto" mb="$17">
+      <Text
+        color="$blackAlpha600"
+        fontSize="24px"
+        fontWeight="700"
+        attributes={{ mb: '20px' }}
+      >
+        Transaction Details
+      </Text>
+
+      <InfoCard>
+        <InfoRow label="Tx Hash">{tx.hash}</InfoRow>
+        <InfoRow label="Status">
+          <TxStatusBadge code={tx.code} />
+        </InfoRow>
+        <InfoRow label="Height">
+          <Link href={`/blocks/${tx.height}`}>
+            <Text as="span" color="$purple600" fontWeight="600">
+              {tx.height}
+            </Text>
+          </Link>
+        </InfoRow>
+        <InfoRow label="Time">
+          {tx.time ? formatDate(new Date(tx.time)) : '--'}
+        </InfoRow>
+        <InfoRow label="Fee">
+          {tx.fee && assetList ? formatTxFee(tx.fee, assetList) : '--'}
+        </InfoRow>
+        <InfoRow label="Gas Used / Wanted">
+          {new BigNumber(tx.gasUsed).toFormat()} /{' '}
+          {new BigNumber(tx.gasWanted).toFormat()}
+        </InfoRow>
+        <InfoRow label="Memo">{tx.memo || '--'}</InfoRow>
+      </InfoCard>
+
+      {tx.code !== 0 && (
+        <InfoCard title="Raw Log" mt="20px">
+          {tx.codespace && (
+            <InfoRow label="Error Code">
+              {tx.codespace} / {tx.code}
+            </InfoRow>
+          )}
+          <Text
+            color="$textDanger"
+            fontSize="14px"
+            fontWeight="500"
+            wordBreak="break-all"
+          >
+            {tx.rawLog}
+          </Text>
+        </InfoCard>
+      )}
+
+      <InfoCard title={`Messages (${tx.messages.length})`} mt="20px">
+        {tx.messages.map(({ typeUrl, value }, index) => (
+          <MessageItem key={index} typeUrl={typeUrl} value={value} />
+        ))}
+      </InfoCard>
+
+      <TxEvents events={tx.events} bech32Prefix={chain.bech32Prefix ?? ''} />
+    </Box>
+  );
+};
+
+export const MessageItem = ({
+  typeUrl,
+  value,
+}: {
+  typeUrl: string;
+  value: unknown;
+}) => {
+  const json = JSON.stringify(value, null, 2);
+
+  return (
+    <Box display="flex" flexDirection="column" gap="8px">
+      <Text fontSize="16px" fontWeight="600">
+        {getMessageType(typeUrl)}
+      </Text>
+      <Text color="$blackAlpha500" fontSize="12px" wordBreak="break-all">
+        {typeUrl}
+      </Text>
+      <Box
+        borderWidth="1px"
+        borderStyle="solid"
+        borderColor="$blackAlpha200"
+        borderRadius="4px"
+        py="8px"
+      >
+        <JsonEditor
+          value={json}
+          lines={Math.min(json.split('\n').length, MAX_MESSAGE_LINES)}
+          readOnly
+          enableFolding
+        />
+      </Box>
+    </Box>
+  );
+};
+
+const TxEvents = ({
+  events,
+  bech32Prefix,
+}: {
+  events: TxDetail['events'];
+  bech32Prefix: string;
+}) => {
+  if (events.length === 0) return null;
+
+  return (
+    <InfoCard title={`Events (${events.length})`} mt="20px">
+      {events.map(({ type, attributes }, index) => (
+        <Box
+          key={`${type}-${index}`}
+          display="flex"
+          flexDirection="column"
+          gap="8px"
+          pb="12px"
+          borderBottomWidth={index === events.length - 1 ? '0' : '1px'}
+          borderBottomStyle="solid"
+          borderBottomColor="$blackAlpha200"
+        >
+          <Text fontSize="16px" fontWeight="600">
+            {type}
+          </Text>
+          {attributes.map(({ key, value }, attrIndex) => (
+            <InfoRow key={`${key}-${attrIndex}`} label={key}>
+              {value &&
+              bech32Prefix &&
+              !validateChainAddress(value, bech32Prefix) ? (
+                <Link href={`/address/${value}`}>
+                  <Text as="span" color="$purple600" fontWeight="600">
+                    {value}
+                  </Text>
+                </Link>
+              ) : (
+                value || '--'
+              )}
+            </InfoRow>
+          ))}
+        </Box>
+      ))}
+    </InfoCard>
+  );
+};
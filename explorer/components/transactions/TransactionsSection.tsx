@@ -0,0 +1,74 @@
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { Pagination } from '../common';
+import { TransactionsTable } from './TransactionsTable';
+import { useTransactions } from '@/hooks';
+
+export const TransactionsSection = ({ chainName }: { chainName: string }) => {
+  const {
+    data,
+    isLoading,
+    isError,
+    isFetching,
+    page,
+    hasNextPage,
+    hasPrevPage,
+    goToNextPage,
+    goToPrevPage,
+  } = useTransactions(chainName);
+
+  return (
+    <Box maxWidth="$containerMd" mx="auto" mb="$17">
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        mb="10px"
+      >
+        <Text color="$blackAlpha600" fontSize="24px" fontWeight="700">
+          Transactions
+        </Text>
+        {data && (
+          <Text color="$blackAlpha500" fontSize="14px">
+            {data.totalCount === null
+              ? 'Latest blocks'
+              : data.totalCount.toLocaleString()}{' '}
+            up to block #{data.cursor.maxHeight}
+          </Text>
+        )}
+      </Box>
+
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="300px"
+      >
+        {isLoading ? (
+          <Spinner size="$6xl" color="$blackAlpha600" />
+        ) : isError ? (
+          <Text color="$textDanger" fontSize="16px">
+            Failed to load transactions from the RPC endpoint
+          </Text>
+        ) : data.txs.length === 0 ? (
+          <Text color="$blackAlpha500" fontSize="16px">
+            No transactions found
+          </Text>
+        ) : (
+          <Box width="$full" alignSelf="start" overflowX="auto">
+            <TransactionsTable chainName={chainName} txs={data.txs} />
+          </Box>
+        )}
+      </Box>
+
+      <Pagination
+        page={page}
+        hasPrevPage={hasPrevPage}
+        hasNextPage={hasNextPage}
+        isFetching={isFetching}
+        onPrev={goToPrevPage}
+        onNext={goToNextPage}
+      />
+    </Box>
+  );
+};
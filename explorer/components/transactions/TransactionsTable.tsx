@@ -0,0 +1,67 @@
+import Link from 'next/link';
+import { useChain } from '@interchain-kit/react';
+import { Text } from '@interchain-ui/react';
+
+import { Table } from '../common';
+import { TxStatusBadge } from './TxStatusBadge';
+import { formatDate, formatTxFee, shortenAddress, TxSummary } from '@/utils';
+
+type TxRow = Pick<
+  TxSummary,
+  'hash' | 'height' | 'time' | 'code' | 'fee' | 'messageTypes'
+>;
+
+export const TransactionsTable = ({
+  chainName,
+  txs,
+}: {
+  chainName: string;
+  txs: TxRow[];
+}) => {
+  const { assetList } = useChain(chainName);
+
+  return (
+    <Table minWidth="800px" width="$full">
+      <Table.Header>
+        <Table.Row height="$fit">
+          <Table.HeaderCell width="18%">Tx Hash</Table.HeaderCell>
+          <Table.HeaderCell width="11%">Height</Table.HeaderCell>
+          <Table.HeaderCell width="20%">Time</Table.HeaderCell>
+          <Table.HeaderCell width="11%">Status</Table.HeaderCell>
+          <Table.HeaderCell width="14%">Fee</Table.HeaderCell>
+          <Table.HeaderCell width="26%">Messages</Table.HeaderCell>
+        </Table.Row>
+      </Table.Header>
+      <Table.Body>
+        {txs.map(({ hash, height, time, code, fee, messageTypes }) => (
+          <Table.Row key={hash}>
+            <Table.Cell>
+              <Link href={`/tx/${hash}`}>
+                <Text as="span" color="$purple600" fontWeight="600">
+                  {shortenAddress(hash)}
+                </Text>
+              </Link>
+            </Table.Cell>
+            <Table.Cell>
+              <Link href={`/blocks/${height}`}>
+                <Text as="span" color="$purple600" fontWeight="600">
+                  {height}
+                </Text>
+              </Link>
+            </Table.Cell>
+            <Table.Cell color="$blackAlpha500" fontWeight="500">
+              {time ? formatDate(new Date(time)) : '--'}
+            </Table.Cell>
+            <Table.Cell>
+              <TxStatusBadge code={code} />
+            </Table.Cell>
+            <Table.Cell color="$blackAlpha500" fontWeight="500">
+              {fee && assetList ? formatTxFee(fee, assetList) : '--'}
+            </Table.Cell>
+            <Table.Cell>{messageTypes.join(', ') || '--'}</Table.Cell>
+          </Table.Row>
+        ))}
+      </Table.Body>
+    </Table>
+  );
+};
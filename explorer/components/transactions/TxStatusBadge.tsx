@@ -0,0 +1,16 @@
+import { Text } from '@interchain-ui/react';
+
+export const TxStatusBadge = ({ code }: { code: number }) => {
+  const isSuccess = code === 0;
+
+  return (
+    <Text
+      as="span"
+      fontSize="14px"
+      fontWeight="600"
+      color={isSuccess ? '$textSuccess' : '$textDanger'}
+    >
+      {isSuccess ? 'Success' : 'Failed'}
+    </Text>
+  );
+};
@@ -0,0 +1,4 @@
+export * from './TransactionsSection';
+export * from './TransactionsTable';
+export * from './TransactionDetails';
+export * from './TxStatusBadge';
@@ -0,0 +1,77 @@
+import Link from 'next/link';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { InfoCard, Table } from '../common';
+import { useCommissionHistory } from '@/hooks';
+import { formatDate, shiftDigits, shortenAddress } from '@/utils';
+
+export const CommissionHistory = ({
+  chainName,
+  accountAddress,
+}: {
+  chainName: string;
+  accountAddress: string;
+}) => {
+  const {
+    data: changes,
+    isLoading,
+    isError,
+  } = useCommissionHistory(chainName, accountAddress);
+
+  return (
+    <InfoCard title="Commission History" mt="20px">
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" py="20px">
+          <Spinner size="$4xl" color="$blackAlpha600" />
+        </Box>
+      ) : isError ? (
+        <Text color="$textDanger" fontSize="14px">
+          Failed to load commission changes from the RPC endpoint
+        </Text>
+      ) : changes.length === 0 ? (
+        <Text color="$blackAlpha500" fontSize="14px">
+          Commission has not been changed since the validator was created
+        </Text>
+      ) : (
+        <Box overflowX="auto">
+          <Table minWidth="500px" width="$full">
+            <Table.Header>
+              <Table.Row height="$fit">
+                <Table.HeaderCell width="25%">Commission</Table.HeaderCell>
+                <Table.HeaderCell width="20%">Height</Table.HeaderCell>
+                <Table.HeaderCell width="30%">Time</Table.HeaderCell>
+                <Table.HeaderCell width="25%">Tx Hash</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {changes.map(({ hash, height, time, rate }) => (
+                <Table.Row key={hash}>
+                  <Table.Cell fontWeight="600">
+                    {shiftDigits(rate, 2)}%
+                  </Table.Cell>
+                  <Table.Cell>
+                    <Link href={`/blocks/${height}`}>
+                      <Text as="span" color="$purple600" fontWeight="600">
+                        {height}
+                      </Text>
+                    </Link>
+                  </Table.Cell>
+                  <Table.Cell color="$blackAlpha500" fontWeight="500">
+                    {time ? formatDate(new Date(time)) : '--'}
+                  </Table.Cell>
+                  <Table.Cell>
+                    <Link href={`/tx/${hash}`}>
+                      <Text as="span" color="$purple600" fontWeight="600">
+                        {shortenAddress(hash)}
+                      </Text>
+                    </Link>
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        </Box>
+      )}
+    </InfoCard>
+  );
+};
@@ -0,0 +1,55 @@
+import Link from 'next/link';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { InfoCard } from '../common';
+import { useSignedBlocks } from '@/hooks';
+
+export const SigningHeatmap = ({
+  chainName,
+  consensusAddress,
+}: {
+  chainName: string;
+  consensusAddress: string;
+}) => {
+  const {
+    data: blocks,
+    isLoading,
+    isError,
+  } = useSignedBlocks(chainName, consensusAddress);
+
+  const signedCount = blocks?.filter(({ signed }) => signed).length ?? 0;
+
+  return (
+    <InfoCard
+      title={
+        blocks
+          ? `Last ${blocks.length} Blocks (${signedCount} signed)`
+          : 'Recent Blocks'
+      }
+      mt="20px"
+    >
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" py="20px">
+          <Spinner size="$4xl" color="$blackAlpha600" />
+        </Box>
+      ) : isError ? (
+        <Text color="$textDanger" fontSize="14px">
+          Failed to load signatures from the RPC endpoint
+        </Text>
+      ) : (
+        <Box display="flex" flexWrap="wrap" gap="4px">
+          {blocks.map(({ height, signed }) => (
+            <Link key={height} href={`/blocks/${height}`} title={`#${height}`}>
+              <Box
+                width="14px"
+                height="14px"
+                borderRadius="2px"
+                backgroundColor={signed ? '$green400' : '$red400'}
+              />
+            </Link>
+          ))}
+        </Box>
+      )}
+    </InfoCard>
+  );
+};
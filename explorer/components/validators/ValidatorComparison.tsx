@@ -0,0 +1,330 @@
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useChain } from '@interchain-kit/react';
+import {
+  Box,
+  Button,
+  GridColumn,
+  Select,
+  SelectOption,
+  Spinner,
+  Text,
+  ValidatorList,
+  ValidatorNameCell,
+} from '@interchain-ui/react';
+
+import {
+  useSigningInfos,
+  useStakingData,
+  useValidatorComparison,
+  useValidatorLogos,
+} from '@/hooks';
+import {
+  calcUptime,
+  getNativeAsset,
+  shiftDigits,
+  shortenAddress,
+  type ExtendedValidator as Validator,
+} from '@/utils';
+
+export const MIN_COMPARED_VALIDATORS = 2;
+export const MAX_COMPARED_VALIDATORS = 5;
+
+export const parseComparedValidators = (value: string | string[] = '') => {
+  const addresses = (Array.isArray(value) ? value.join(',') : value)
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  return Array.from(new Set(addresses)).slice(0, MAX_COMPARED_VALIDATORS);
+};
+
+type ComparisonRow = ReturnType<
+  typeof useValidatorComparison
+>['data'][number] & {
+  validator?: Validator;
+  rank?: number;
+};
+
+export const ValidatorComparison = ({ chainName }: { chainName: string }) => {
+  const router = useRouter();
+  const { assetList } = useChain(chainName);
+  const coin = getNativeAsset(assetList);
+
+  const selected = parseComparedValidators(router.query.validators);
+
+  const { data: stakingData, isLoading: isStakingDataLoading } =
+    useStakingData(chainName);
+  const { data: signingInfos } = useSigningInfos(chainName);
+  const { data: logos } = useValidatorLogos(
+    chainName,
+    stakingData?.allValidators || [],
+  );
+  const { data: comparison, recentProposalCount } = useValidatorComparison(
+    chainName,
+    selected,
+  );
+
+  const everyValidator = [
+    ...(stakingData?.allValidators ?? []),
+    ...(stakingData?.inactiveValidators ?? []),
+    ...(stakingData?.jailedValidators ?? []),
+  ];
+  const rankedAddresses = [...(stakingData?.allValidators ?? [])]
+    .sort((a, b) => b.votingPower - a.votingPower)
+    .map(({ address }) => address);
+
+  const updateSelection = (addresses: string[]) => {
+    const query = { ...router.query };
+    if (addresses.length > 0) {
+      query.validators = addresses.join(',');
+    } else {
+      delete query.validators;
+    }
+
+    router.replace({ pathname: router.pathname, query }, undefined, {
+      shallow: true,
+    });
+  };
+
+  const rows: ComparisonRow[] = comparison.map((entry) => {
+    const rank = rankedAddresses.indexOf(entry.address);
+    return {
+      ...entry,
+      validator: everyValidator.find(
+        ({ address }) => address === entry.address,
+      ),
+      rank: rank === -1 ? undefined : rank + 1,
+    };
+  });
+
+  const columns: GridColumn[] = [
+    {
+      id: 'validator',
+      label: 'Validator',
+      width: '196px',
+      align: 'left',
+      render: ({ address, validator, detail }: ComparisonRow) => (
+        <Link href={`/validators/${address}`}>
+          <ValidatorNameCell
+            validatorName={
+              validator?.name || detail?.name || shortenAddress(address)
+            }
+            validatorImg={logos?.[address]}
+          />
+        </Link>
+      ),
+    },
+    {
+      id: 'commission',
+      label: 'Commission',
+      width: '146px',
+      align: 'right',
+      render: ({ detail }: ComparisonRow) =>
+        detail ? (
+          <Box display="flex" flexDirection="column" alignItems="flex-end">
+            <Text fontWeight="$semibold">
+              {shiftDigits(detail.commission, 2)}%
+            </Text>
+            <Text fontSize="$xs" color="$textSecondary">
+              max change {shiftDigits(detail.maxCommissionChange, 2)}%/day
+            </Text>
+          </Box>
+        ) : (
+          <Text>--</Text>
+        ),
+    },
+    {
+      id: 'apr',
+      label: 'APR',
+      width: '96px',
+      align: 'right',
+      render: ({ validator }: ComparisonRow) => (
+        <Text fontWeight="$semibold">
+          {validator?.apr ? `${validator.apr}%` : '--'}
+        </Text>
+      ),
+    },
+    {
+      id: 'rank',
+      label: 'Rank',
+      width: '96px',
+      align: 'right',
+      render: ({ rank, validator }: ComparisonRow) => (
+        <Text fontWeight="$semibold">
+          {rank ? `#${rank}` : validator?.status ?? '--'}
+        </Text>
+      ),
+    },
+    {
+      id: 'uptime',
+      label: 'Uptime',
+      width: '96px',
+      align: 'right',
+      render: ({ validator }: ComparisonRow) => {
+        const signingInfo =
+          validator && signingInfos?.[validator.consensusAddress];
+        const uptime = signingInfo ? calcUptime(signingInfo) : null;
+        return (
+          <Text fontWeight="$semibold">{uptime ? `${uptime}%` : '--'}</Text>
+        );
+      },
+    },
+    {
+      id: 'self-bond',
+      label: 'Self-Bond',
+      width: '146px',
+      align: 'right',
+      render: ({ selfBond }: ComparisonRow) => (
+        <Text fontWeight="$semibold">
+          {selfBond ? `${selfBond} ${coin.symbol}` : '--'}
+        </Text>
+      ),
+    },
+    {
+      id: 'governance',
+      label: 'Governance',
+      width: '116px',
+      align: 'right',
+      render: ({ participation }: ComparisonRow) => (
+        <Box display="flex" flexDirection="column" alignItems="flex-end">
+          <Text fontWeight="$semibold">
+            {participation ? `${participation}%` : '--'}
+          </Text>
+          {!!recentProposalCount && (
+            <Text fontSize="$xs" color="$textSecondary">
+              of last {recentProposalCount} proposals
+            </Text>
+          )}
+        </Box>
+      ),
+    },
+    {
+      id: 'slashing',
+      label: 'Slashing',
+      width: '126px',
+      align: 'right',
+      render: ({ slashes, validator }: ComparisonRow) => {
+        const signingInfo =
+          validator && signingInfos?.[validator.consensusAddress];
+        return (
+          <Box display="flex" flexDirection="column" alignItems="flex-end">
+            <Text fontWeight="$semibold">
+              {!slashes
+                ? '--'
+                : slashes.count === 0
+                ? 'Never slashed'
+                : `${slashes.count}x (${shiftDigits(slashes.fraction, 2)}%)`}
+            </Text>
+            {signingInfo?.tombstoned && (
+              <Text fontSize="$xs" color="$textDanger">
+                Tombstoned
+              </Text>
+            )}
+          </Box>
+        );
+      },
+    },
+    {
+      id: 'identity',
+      label: 'Website / Identity',
+      width: '196px',
+      align: 'right',
+      render: ({ detail }: ComparisonRow) => (
+        <Box display="flex" flexDirection="column" alignItems="flex-end">
+          {detail?.website ? (
+            <a href={detail.website} target="_blank" rel="noopener noreferrer">
+              <Text as="span" color="$purple600" fontWeight="$semibold">
+                {detail.website.replace(/^https?:\/\//, '')}
+              </Text>
+            </a>
+          ) : (
+            <Text>--</Text>
+          )}
+          {detail?.identity && (
+            <Text fontSize="$xs" color="$textSecondary">
+              Keybase {detail.identity}
+            </Text>
+          )}
+        </Box>
+      ),
+    },
+    {
+      id: 'action',
+      width: '106px',
+      align: 'right',
+      render: ({ address }: ComparisonRow) => (
+        <Button
+          size="sm"
+          intent="secondary"
+          variant="solid"
+          onClick={() =>
+            updateSelection(selected.filter((item) => item !== address))
+          }
+        >
+          Remove
+        </Button>
+      ),
+    },
+  ];
+
+  const candidates = everyValidator.filter(
+    ({ address }) => !selected.includes(address),
+  );
+
+  return (
+    <Box maxWidth="$containerLg" mx="auto" mb="$17">
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        gap="$8"
+        mb="20px"
+      >
+        <Text color="$blackAlpha600" fontSize="24px" fontWeight="700">
+          Compare Validators
+        </Text>
+        {selected.length < MAX_COMPARED_VALIDATORS && candidates.length > 0 && (
+          <Box width="280px">
+            <Select
+              // remount after every pick so the placeholder comes back
+              key={selected.join(',')}
+              fullWidth
+              placeholder="Add a validator"
+              onSelectItem={(item) =>
+                item && updateSelection([...selected, item.key])
+              }
+            >
+              {candidates.map(({ address, name }) => (
+                <SelectOption key={address} optionKey={address} label={name} />
+              ))}
+            </Select>
+          </Box>
+        )}
+      </Box>
+
+      {isStakingDataLoading ? (
+        <Box display="flex" justifyContent="center" minHeight="300px">
+          <Spinner size="$6xl" color="$blackAlpha600" />
+        </Box>
+      ) : (
+        <>
+          {selected.length < MIN_COMPARED_VALIDATORS && (
+            <Text color="$textSecondary" attributes={{ mb: '$6' }}>
+              Select {MIN_COMPARED_VALIDATORS} to {MAX_COMPARED_VALIDATORS}{' '}
+              validators to compare them side by side.
+            </Text>
+          )}
+          {rows.length > 0 && (
+            <Box overflowX="auto">
+              <ValidatorList
+                columns={columns}
+                data={rows}
+                tableProps={{ width: '$full' }}
+              />
+            </Box>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,199 @@
+import Link from 'next/link';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { Button, InfoCard, InfoRow, Table } from '../common';
+import { useValidatorConsistency } from '@/hooks';
+import { ConsistencyIssue, shortenAddress } from '@/utils';
+
+type IssueOf<T extends ConsistencyIssue['type']> = Extract<
+  ConsistencyIssue,
+  { type: T }
+>;
+
+const ValidatorLink = ({
+  address,
+  name,
+}: {
+  address: string;
+  name?: string;
+}) => (
+  <Link href={`/validators/${address}`}>
+    <Text as="span" color="$purple600" fontWeight="600">
+      {name || shortenAddress(address)}
+    </Text>
+  </Link>
+);
+
+const EmptyRow = ({ text }: { text: string }) => (
+  <Text color="$blackAlpha500" fontSize="14px">
+    {text}
+  </Text>
+);
+
+export const ValidatorConsistencyReport = ({
+  chainName,
+}: {
+  chainName: string;
+}) => {
+  const { data, isLoading, isError, isFetching, refetch } =
+    useValidatorConsistency(chainName);
+
+  if (isLoading || isError) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="300px"
+      >
+        {isLoading ? (
+          <Spinner size="$6xl" color="$blackAlpha600" />
+        ) : (
+          <Text color="$textDanger" fontSize="16px">
+            Failed to load the validator set or staking validators
+          </Text>
+        )}
+      </Box>
+    );
+  }
+
+  const missing = data.issues.filter(
+    (issue): issue is IssueOf<'missing-from-staking'> =>
+      issue.type === 'missing-from-staking',
+  );
+  const drifts = data.issues.filter(
+    (issue): issue is IssueOf<'voting-power-drift'> =>
+      issue.type === 'voting-power-drift',
+  );
+  const conflicts = data.issues.filter(
+    (issue): issue is IssueOf<'moniker-conflict'> =>
+      issue.type === 'moniker-conflict',
+  );
+
+  const matched = data.entries.filter(
+    ({ operatorAddress }) => operatorAddress,
+  ).length;
+
+  return (
+    <>
+      <InfoCard title="Summary">
+        <InfoRow label="Height">{data.height}</InfoRow>
+        <InfoRow label="Validator Set">{data.entries.length}</InfoRow>
+        <InfoRow label="Matched to Staking">{matched}</InfoRow>
+        <InfoRow label="Issues">{data.issues.length}</InfoRow>
+        <Box mt="10px">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isFetching}
+            onClick={() => refetch()}
+          >
+            {isFetching ? 'Checking...' : 'Re-run check'}
+          </Button>
+        </Box>
+      </InfoCard>
+
+      <InfoCard title={`Missing from Staking (${missing.length})`} mt="20px">
+        {missing.length === 0 ? (
+          <EmptyRow text="Every validator in the set has a staking validator" />
+        ) : (
+          <Box overflowX="auto">
+            <Table minWidth="500px" width="$full">
+              <Table.Header>
+                <Table.Row height="$fit">
+                  <Table.HeaderCell width="70%">
+                    Consensus Address
+                  </Table.HeaderCell>
+                  <Table.HeaderCell width="30%">Voting Power</Table.HeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {missing.map(({ consensusAddress, votingPower }) => (
+                  <Table.Row key={consensusAddress}>
+                    <Table.Cell>{consensusAddress}</Table.Cell>
+                    <Table.Cell>{votingPower}</Table.Cell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table>
+          </Box>
+        )}
+      </InfoCard>
+
+      <InfoCard title={`Voting Power Drift (${drifts.length})`} mt="20px">
+        {drifts.length === 0 ? (
+          <EmptyRow text="Voting power matches bonded tokens" />
+        ) : (
+          <Box overflowX="auto">
+            <Table minWidth="600px" width="$full">
+              <Table.Header>
+                <Table.Row height="$fit">
+                  <Table.HeaderCell width="40%">Validator</Table.HeaderCell>
+                  <Table.HeaderCell width="20%">Voting Power</Table.HeaderCell>
+                  <Table.HeaderCell width="20%">From Tokens</Table.HeaderCell>
+                  <Table.HeaderCell width="20%">Drift</Table.HeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {drifts.map(
+                  ({
+                    operatorAddress,
+                    moniker,
+                    votingPower,
+                    expectedVotingPower,
+                    drift,
+                  }) => (
+                    <Table.Row key={operatorAddress}>
+                      <Table.Cell>
+                        <ValidatorLink
+                          address={operatorAddress}
+                          name={moniker}
+                        />
+                      </Table.Cell>
+                      <Table.Cell>{votingPower}</Table.Cell>
+                      <Table.Cell>{expectedVotingPower}</Table.Cell>
+                      <Table.Cell color="$textDanger" fontWeight="600">
+                        {(drift * 100).toFixed(2)}%
+                      </Table.Cell>
+                    </Table.Row>
+                  ),
+                )}
+              </Table.Body>
+            </Table>
+          </Box>
+        )}
+      </InfoCard>
+
+      <InfoCard title={`Moniker Conflicts (${conflicts.length})`} mt="20px">
+        {conflicts.length === 0 ? (
+          <EmptyRow text="Every moniker belongs to a single operator" />
+        ) : (
+          <Box overflowX="auto">
+            <Table minWidth="500px" width="$full">
+              <Table.Header>
+                <Table.Row height="$fit">
+                  <Table.HeaderCell width="30%">Moniker</Table.HeaderCell>
+                  <Table.HeaderCell width="70%">Operators</Table.HeaderCell>
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {conflicts.map(({ moniker, operatorAddresses }) => (
+                  <Table.Row key={moniker}>
+                    <Table.Cell>{moniker}</Table.Cell>
+                    <Table.Cell>
+                      <Box display="flex" flexDirection="column" gap="4px">
+                        {operatorAddresses.map((address) => (
+                          <ValidatorLink key={address} address={address} />
+                        ))}
+                      </Box>
+                    </Table.Cell>
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table>
+          </Box>
+        )}
+      </InfoCard>
+    </>
+  );
+};
@@ -0,0 +1,83 @@
+import Link from 'next/link';
+import { useChain } from '@interchain-kit/react';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { InfoCard, Pagination, Table } from '../common';
+import { useValidatorDelegators } from '@/hooks';
+import { getNativeAsset } from '@/utils';
+
+export const ValidatorDelegators = ({
+  chainName,
+  operatorAddress,
+}: {
+  chainName: string;
+  operatorAddress: string;
+}) => {
+  const { assetList } = useChain(chainName);
+  const {
+    data,
+    isLoading,
+    isError,
+    isFetching,
+    page,
+    hasNextPage,
+    hasPrevPage,
+    goToNextPage,
+    goToPrevPage,
+  } = useValidatorDelegators(chainName, operatorAddress);
+
+  const coin = getNativeAsset(assetList);
+
+  return (
+    <InfoCard
+      title={data ? `Delegators (${data.total})` : 'Delegators'}
+      mt="20px"
+    >
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" py="20px">
+          <Spinner size="$4xl" color="$blackAlpha600" />
+        </Box>
+      ) : isError ? (
+        <Text color="$textDanger" fontSize="14px">
+          Failed to load delegators
+        </Text>
+      ) : (
+        <Box overflowX="auto">
+          <Table minWidth="500px" width="$full">
+            <Table.Header>
+              <Table.Row height="$fit">
+                <Table.HeaderCell width="65%">Delegator</Table.HeaderCell>
+                <Table.HeaderCell width="35%">Amount</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {data.delegators.map(({ address, amount }) => (
+                <Table.Row key={address}>
+                  <Table.Cell>
+                    <Link href={`/address/${address}`}>
+                      <Text as="span" color="$purple600" fontWeight="600">
+                        {address}
+                      </Text>
+                    </Link>
+                  </Table.Cell>
+                  <Table.Cell>
+                    {amount} {coin.symbol}
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        </Box>
+      )}
+
+      <Pagination
+        page={page}
+        hasPrevPage={hasPrevPage}
+        hasNextPage={hasNextPage}
+        isFetching={isFetching}
+        onPrev={goToPrevPage}
+        onNext={goToNextPage}
+      />
+    </InfoCard>
+  );
+};
@@ -0,0 +1,239 @@
+import { useMemo } from 'react';
+import Link from 'next/link';
+import BigNumber from 'bignumber.js';
+import { useChain } from '@interchain-kit/react';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+
+import { Button, InfoCard, InfoRow } from '../common';
+import { DelegateModal } from '../staking/DelegateModal';
+import { SigningHeatmap } from './SigningHeatmap';
+import { ValidatorDelegators } from './ValidatorDelegators';
+import { CommissionHistory } from './CommissionHistory';
+import {
+  useDisclosure,
+  useSelfBond,
+  useSigningInfo,
+  useStakingData,
+  useValidator,
+  useValidatorLogos,
+} from '@/hooks';
+import {
+  extendValidators,
+  formatDate,
+  getNativeAsset,
+  shiftDigits,
+  toAccountAddress,
+  toValconsAddress,
+  ValidatorDetail,
+} from '@/utils';
+
+export const ValidatorDetails = ({
+  chainName,
+  operatorAddress,
+}: {
+  chainName: string;
+  operatorAddress: string;
+}) => {
+  const { address, assetList, chain } = useChain(chainName);
+  const {
+    data: validator,
+    isLoading,
+    isError,
+  } = useValidator(chainName, operatorAddress);
+
+  const coin = getNativeAsset(assetList);
+  const prefix = chain.bech32Prefix ?? '';
+  const accountAddress = toAccountAddress(operatorAddress, prefix);
+  const valconsAddress = validator?.consensusAddress
+    ? toValconsAddress(validator.consensusAddress, prefix)
+    : '';
+
+  const { data: signingInfo } = useSigningInfo(chainName, valconsAddress);
+  const { data: selfBond } = useSelfBond(
+    chainName,
+    operatorAddress,
+    accountAddress,
+  );
+
+  if (isLoading || isError) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="300px"
+      >
+        {isLoading ? (
+          <Spinner size="$6xl" color="$blackAlpha600" />
+        ) : (
+          <Text color="$textDanger" fontSize="16px" wordBreak="break-all">
+            Validator {operatorAddress} could not be found
+          </Text>
+        )}
+      </Box>
+    );
+  }
+
+  const delegatedStake = new BigNumber(validator.tokens)
+    .minus(selfBond || 0)
+    .toString();
+
+  return (
+    <Box maxWidth="$containerMd" mx="auto" mb="$17">
+      <Box
+        display="flex"
+        justifyContent="space-between"
+        alignItems="center"
+        mb="20px"
+      >
+        <Box>
+          <Text color="$blackAlpha600" fontSize="24px" fontWeight="700">
+            {validator.name || operatorAddress}
+          </Text>
+          <Text color="$blackAlpha500" fontSize="14px" fontWeight="600">
+            {validator.status}
+          </Text>
+        </Box>
+        {address ? (
+          <ValidatorDelegateButton
+            chainName={chainName}
+            validator={validator}
+          />
+        ) : (
+          <Text color="$blackAlpha500" fontSize="14px">
+            Connect your wallet to delegate
+          </Text>
+        )}
+      </Box>
+
+      <InfoCard>
+        {validator.description && (
+          <InfoRow label="Details">{validator.description}</InfoRow>
+        )}
+        {validator.website && (
+          <InfoRow label="Website">{validator.website}</InfoRow>
+        )}
+        <InfoRow label="Operator Address">{operatorAddress}</InfoRow>
+        <InfoRow label="Account Address">
+          <Link href={`/address/${accountAddress}`}>
+            <Text as="span" color="$purple600" fontWeight="600">
+              {accountAddress}
+            </Text>
+          </Link>
+        </InfoRow>
+        <InfoRow label="Consensus Address">{valconsAddress || '--'}</InfoRow>
+        <InfoRow label="Commission">
+          {shiftDigits(validator.commission, 2)}% (max{' '}
+          {shiftDigits(validator.maxCommission, 2)}%, max change{' '}
+          {shiftDigits(validator.maxCommissionChange, 2)}% per day)
+        </InfoRow>
+      </InfoCard>
+
+      <InfoCard title="Voting Power" mt="20px">
+        <InfoRow label="Total Stake">
+          {validator.tokens} {coin.symbol}
+        </InfoRow>
+        <InfoRow label="Self-Bonded">
+          {selfBond ?? '--'} {coin.symbol}
+        </InfoRow>
+        <InfoRow label="Delegated">
+          {delegatedStake} {coin.symbol}
+        </InfoRow>
+        <InfoRow label="Min Self-Delegation">
+          {validator.minSelfDelegation} {coin.symbol}
+        </InfoRow>
+      </InfoCard>
+
+      <InfoCard title="Signing Info" mt="20px">
+        {signingInfo ? (
+          <>
+            <InfoRow label="Missed Blocks">
+              {signingInfo.missedBlocks} / {signingInfo.signedBlocksWindow}
+            </InfoRow>
+            <InfoRow label="Jailed Until">
+              {signingInfo.jailedUntil
+                ? formatDate(signingInfo.jailedUntil)
+                : '--'}
+            </InfoRow>
+            <InfoRow label="Tombstoned">
+              {signingInfo.tombstoned ? 'Yes' : 'No'}
+            </InfoRow>
+          </>
+        ) : (
+          <Text color="$blackAlpha500" fontSize="14px">
+            No signing info available
+          </Text>
+        )}
+      </InfoCard>
+
+      {validator.consensusAddress && (
+        <SigningHeatmap
+          chainName={chainName}
+          consensusAddress={validator.consensusAddress}
+        />
+      )}
+
+      <CommissionHistory
+        chainName={chainName}
+        accountAddress={accountAddress}
+      />
+
+      <ValidatorDelegators
+        chainName={chainName}
+        operatorAddress={operatorAddress}
+      />
+    </Box>
+  );
+};
+
+const ValidatorDelegateButton = ({
+  chainName,
+  validator,
+}: {
+  chainName: string;
+  validator: ValidatorDetail;
+}) => {
+  const delegateModalControl = useDisclosure();
+  const { data, refetch } = useStakingData(chainName);
+  const { data: logos } = useValidatorLogos(
+    chainName,
+    data?.allValidators || [],
+  );
+
+  // inactive validators are not part of `allValidators`, so extend this one
+  const [selectedValidator] = useMemo(() => {
+    if (!data) return [];
+    return extendValidators(
+      [validator],
+      data.delegations,
+      data.rewards?.byValidators,
+      data.chainMetadata,
+    );
+  }, [data, validator]);
+
+  return (
+    <>
+      <Button
+        variant="primary"
+        size="sm"
+        disabled={!selectedValidator}
+        onClick={delegateModalControl.onOpen}
+      >
+        Delegate
+      </Button>
+
+      {data && selectedValidator && (
+        <DelegateModal
+          balance={data.balance}
+          updateData={refetch}
+          unbondingDays={data.unbondingDays}
+          chainName={chainName}
+          prices={data.prices}
+          logoUrl={logos?.[selectedValidator.address] || ''}
+          modalControl={delegateModalControl}
+          selectedValidator={selectedValidator}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,6 @@
+export * from './ValidatorDetails';
+export * from './SigningHeatmap';
+export * from './ValidatorDelegators';
+export * from './CommissionHistory';
+export * from './ValidatorConsistencyReport';
+export * from './ValidatorComparison';
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import BigNumber from 'bignumber.js';
+import { useChain } from '@interchain-kit/react';
+import {
+  BasicModal,
+  Box,
+  Button,
+  Callout,
+  TextField,
+} from '@interchain-ui/react';
+import { useDeposit } from '@interchainjs/react/cosmos/gov/v1/tx.rpc.react';
+import { MsgDeposit } from '@interchainjs/react/cosmos/gov/v1/tx';
+import { Proposal } from '@interchainjs/react/cosmos/gov/v1/gov';
+import { StdFee } from '@interchainjs/react/types';
+import { defaultContext } from '@tanstack/react-query';
+
+import { InputField } from '../contract/common';
+import {
+  UseDisclosureReturn,
+  useDepositParams,
+  useSigningClient,
+  useSimulateGas,
+  useToastHandlers,
+} from '@/hooks';
+import {
+  getExponentFromAsset,
+  getNativeAsset,
+  isGreaterThanZero,
+  shiftDigits,
+  toBaseAmount,
+} from '@/utils';
+
+export const DepositModal = ({
+  chainName,
+  proposal,
+  modalControl,
+  onDepositSuccess = () => {},
+}: {
+  chainName: string;
+  proposal: Proposal;
+  modalControl: UseDisclosureReturn;
+  onDepositSuccess?: () => void;
+}) => {
+  const { isOpen, onClose } = modalControl;
+  const { address, assetList } = useChain(chainName);
+  const coin = getNativeAsset(assetList);
+  const exp = getExponentFromAsset(coin);
+
+  const [amount, setAmount] = useState('');
+
+  const { data: depositParams } = useDepositParams(chainName);
+  const toastHandlers = useToastHandlers();
+  const { data: signingClient } = useSigningClient(chainName);
+  const { mutate: deposit, isLoading: isDepositing } = useDeposit({
+    clientResolver: signingClient,
+    options: {
+      context: defaultContext,
+      ...toastHandlers,
+    },
+  });
+  const {
+    mutate: simulate,
+    isLoading: isSimulating,
+    error: simulateError,
+    reset: resetSimulation,
+  } = useSimulateGas(chainName);
+
+  const minDeposit =
+    depositParams?.minDeposit.find(({ denom }) => denom === coin.base)
+      ?.amount ?? '0';
+  const totalDeposit =
+    proposal.totalDeposit?.find(
+      ({ denom }: { denom: string }) => denom === coin.base,
+    )?.amount ?? '0';
+  const missingDeposit = BigNumber.max(
+    new BigNumber(minDeposit).minus(totalDeposit),
+    0,
+  ).toString();
+
+  const onModalClose = () => {
+    onClose();
+    setAmount('');
+    resetSimulation();
+  };
+
+  const onDepositClick = () => {
+    if (!address || !isGreaterThanZero(amount)) return;
+
+    const message = MsgDeposit.fromPartial({
+      proposalId: proposal.id,
+      depositor: address,
+      amount: [{ denom: coin.base, amount: toBaseAmount(amount, exp) }],
+    });
+
+    simulate(
+      {
+        messages: [{ typeUrl: MsgDeposit.typeUrl, value: message }],
+        memo: 'Deposit',
+      },
+      {
+        onSuccess: (gas) => {
+          const fee: StdFee = {
+            amount: [
+              {
+                denom: coin.base,
+                amount: '0',
+              },
+            ],
+            gas,
+          };
+
+          deposit(
+            {
+              signerAddress: address,
+              message,
+              fee,
+              memo: 'Deposit',
+            },
+            {
+              onSuccess: () => {
+                onDepositSuccess();
+                onModalClose();
+              },
+            },
+          );
+        },
+      },
+    );
+  };
+
+  return (
+    <BasicModal
+      title={`Deposit on #${proposal.id.toString()}`}
+      isOpen={isOpen}
+      onClose={onModalClose}
+    >
+      <Box
+        width={{ mobile: '100%', tablet: '$containerSm' }}
+        display="flex"
+        flexDirection="column"
+        gap="$8"
+        mt="$6"
+      >
+        <InputField title={`Amount (${coin.symbol})`}>
+          <TextField
+            id="proposal-deposit-amount"
+            type="number"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            autoComplete="off"
+          />
+          <InputField.Description>
+            {`Deposited ${shiftDigits(totalDeposit, -exp)} of ${shiftDigits(
+              minDeposit,
+              -exp,
+            )} ${coin.symbol}, ${shiftDigits(missingDeposit, -exp)} ${
+              coin.symbol
+            } left to start voting`}
+          </InputField.Description>
+        </InputField>
+
+        {simulateError instanceof Error && (
+          <Callout
+            title="Simulation failed"
+            intent="error"
+            iconName="errorWarningLine"
+          >
+            {simulateError.message}
+          </Callout>
+        )}
+
+        <Box display="flex" gap="$6">
+          <Button
+            intent="secondary"
+            onClick={() => setAmount(shiftDigits(missingDeposit, -exp))}
+            disabled={!address || missingDeposit === '0'}
+          >
+            Fill missing
+          </Button>
+          <Button
+            intent="tertiary"
+            onClick={onDepositClick}
+            disabled={
+              !address ||
+              !isGreaterThanZero(amount) ||
+              isSimulating ||
+              isDepositing
+            }
+            isLoading={isSimulating || isDepositing}
+          >
+            {address ? 'Deposit' : 'Connect wallet to deposit'}
+          </Button>
+        </Box>
+      </Box>
+    </BasicModal>
+  );
+};
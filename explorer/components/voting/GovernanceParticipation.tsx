@@ -0,0 +1,143 @@
+import Link from 'next/link';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+import { ProposalStatus } from '@interchainjs/react/cosmos/gov/v1/gov';
+
+import { Table } from '../common';
+import { useGovernanceParticipation, useStakingData } from '@/hooks';
+import { formatWeightedVote, WeightedVote } from '@/utils';
+
+const VoteCell = ({
+  vote,
+  isActive,
+  isLoading,
+}: {
+  vote: WeightedVote[] | null | undefined;
+  isActive: boolean;
+  isLoading: boolean;
+}) => {
+  if (vote === undefined) {
+    return <Text color="$blackAlpha500">{isLoading ? '…' : '--'}</Text>;
+  }
+
+  if (vote === null) {
+    return (
+      <Text
+        color={isActive ? '$textWarning' : '$textDanger'}
+        fontSize="12px"
+        fontWeight="600"
+      >
+        {isActive ? 'Not yet' : 'Did not vote'}
+      </Text>
+    );
+  }
+
+  return (
+    <Text fontSize="12px" fontWeight="600">
+      {formatWeightedVote(vote)}
+    </Text>
+  );
+};
+
+export const GovernanceParticipation = ({
+  chainName,
+}: {
+  chainName: string;
+}) => {
+  const { data: stakingData, isLoading: isStakingDataLoading } =
+    useStakingData(chainName);
+
+  const validators = [...(stakingData?.allValidators ?? [])].sort(
+    (a, b) => b.votingPower - a.votingPower,
+  );
+  const names = Object.fromEntries(
+    validators.map(({ address, name }) => [address, name]),
+  );
+
+  const { proposals, rows, isLoading } = useGovernanceParticipation(
+    chainName,
+    validators.map(({ address }) => address),
+  );
+
+  return (
+    <Box maxWidth="$containerLg" mx="auto" mb="$17">
+      <Link href="/governance">
+        <Text as="span" color="$purple600" fontWeight="600">
+          All proposals
+        </Text>
+      </Link>
+      <Text
+        color="$blackAlpha600"
+        fontSize="24px"
+        fontWeight="700"
+        attributes={{ mt: '10px' }}
+      >
+        Validator Participation
+      </Text>
+      <Text color="$blackAlpha500" fontSize="14px" attributes={{ mb: '20px' }}>
+        How the active validators voted on the last {proposals.length}{' '}
+        proposals. Delegators inherit their validator&apos;s vote unless they
+        vote themselves.
+      </Text>
+
+      {isStakingDataLoading || (isLoading && rows.length === 0) ? (
+        <Box display="flex" justifyContent="center" minHeight="300px">
+          <Spinner size="$6xl" color="$blackAlpha600" />
+        </Box>
+      ) : (
+        <Box overflowX="auto">
+          <Table minWidth="900px" width="$full">
+            <Table.Header>
+              <Table.Row height="$fit">
+                <Table.HeaderCell width="200px">Validator</Table.HeaderCell>
+                <Table.HeaderCell width="110px">Participation</Table.HeaderCell>
+                {proposals.map(({ id, status }) => (
+                  <Table.HeaderCell key={id.toString()}>
+                    <Link href={`/governance/${id.toString()}`}>
+                      <Text as="span" color="$purple600" fontWeight="600">
+                        #{id.toString()}
+                      </Text>
+                    </Link>
+                    {status ===
+                      ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD && (
+                      <Text color="$blackAlpha500" fontSize="10px">
+                        Voting
+                      </Text>
+                    )}
+                  </Table.HeaderCell>
+                ))}
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {rows.map(({ address, votes, participation }) => (
+                <Table.Row key={address}>
+                  <Table.Cell>
+                    <Link href={`/validators/${address}`}>
+                      <Text as="span" color="$purple600" fontWeight="600">
+                        {names[address]}
+                      </Text>
+                    </Link>
+                  </Table.Cell>
+                  <Table.Cell fontWeight="600">
+                    {participation ? `${participation}%` : '--'}
+                  </Table.Cell>
+                  {proposals.map(({ id, status }) => (
+                    <Table.Cell key={id.toString()}>
+                      <VoteCell
+                        vote={votes[id.toString()]}
+                        isActive={
+                          status ===
+                          ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD
+                        }
+                        isLoading={isLoading}
+                      />
+                    </Table.Cell>
+                  ))}
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        </Box>
+      )}
+    </Box>
+  );
+};
@@ -8,8 +8,10 @@ import {
   GovernanceVoteBreakdown,
   GovernanceVoteType,
   Icon,
+  Slider,
   Stack,
   Text,
+  TextField,
 } from '@interchain-ui/react';
 import {
   Proposal as IProposal,
@@ -18,13 +20,22 @@ import {
 import Markdown from 'react-markdown';
 import { useChain } from '@interchain-kit/react';
 
-import { useVoting, Votes } from '@/hooks';
+import { DepositModal } from './DepositModal';
+
+import { useDisclosure, useProposalTallies, useVoting, Votes } from '@/hooks';
 import {
   exponentiate,
   formatDate,
+  formatVoteWeights,
   getExponentFromAsset,
   getNativeAsset,
   percent,
+  rebalanceVoteWeights,
+  TallyOutcome,
+  toVoteWeights,
+  toWeightedVoteOptions,
+  VOTE_OPTIONS,
+  VoteWeights,
 } from '@/utils';
 
 // export declare enum VoteOption {
@@ -43,6 +54,20 @@ import {
 
 const VoteTypes = ['', 'yes', 'abstain', 'no', 'noWithVeto'];
 
+const INITIAL_WEIGHTS: VoteWeights = toVoteWeights([{ option: 1, weight: 1 }]);
+
+const TALLY_OUTCOME_LABELS: Record<TallyOutcome, string> = {
+  passing: 'Passing',
+  'no-quorum': 'Failing, quorum not reached',
+  'no-votes': 'Failing, no votes besides abstain',
+  vetoed: 'Failing, vetoed',
+  'below-threshold': 'Failing, not enough yes votes',
+};
+
+function isSameWeights(a: VoteWeights, b: VoteWeights) {
+  return VOTE_OPTIONS.every(({ option }) => a[option] === b[option]);
+}
+
 export type ProposalProps = {
   proposal: IProposal;
   votes?: Votes;
@@ -50,6 +75,7 @@ export type ProposalProps = {
   bondedTokens?: string;
   chainName: string;
   onVoteSuccess?: () => void;
+  showDescription?: boolean;
 };
 
 export function Proposal({
@@ -59,28 +85,50 @@ export function Proposal({
   chainName,
   bondedTokens,
   onVoteSuccess = () => {},
+  showDescription = true,
 }: ProposalProps) {
   const vote = votes?.[proposal.id.toString()];
 
   const [showMore, setShowMore] = useState(false);
   const [voteType, setVoteType] = useState<GovernanceVoteType>();
+  const [isWeighted, setIsWeighted] = useState(false);
+  const [weights, setWeights] = useState<VoteWeights>(INITIAL_WEIGHTS);
+  const [metadata, setMetadata] = useState('');
 
-  const { assetList } = useChain(chainName);
+  const { address, assetList } = useChain(chainName);
   const coin = getNativeAsset(assetList);
   const exponent = getExponentFromAsset(coin);
-  const { isVoting, onVote } = useVoting({ chainName, proposal });
+  const depositModalControl = useDisclosure();
+  const { tallies, tallyParams } = useProposalTallies(chainName, [proposal]);
+  const { tally, projection } = tallies[proposal.id.toString()] ?? {};
+  const { isVoting, onVote, onVoteWeighted } = useVoting({
+    chainName,
+    proposal,
+  });
+
+  // a single option with the whole weight is a plain vote
+  const isWeightedVote =
+    !!vote && (vote.length > 1 || (vote.length === 1 && vote[0].weight < 1));
 
   const toggleShowMore = () => setShowMore((v) => !v);
 
   useEffect(() => {
-    if (typeof vote === 'number') {
-      setVoteType(VoteTypes[vote] as GovernanceVoteType);
+    if (!vote || vote.length === 0) return;
+    if (isWeightedVote) {
+      setIsWeighted(true);
+      setWeights(toVoteWeights(vote));
+    } else {
+      setVoteType(VoteTypes[vote[0].option] as GovernanceVoteType);
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [vote]);
 
-  const isChanged =
-    (vote === undefined && voteType) ||
-    (typeof vote === 'number' && voteType && voteType !== VoteTypes[vote]);
+  const isChanged = isWeighted
+    ? !vote || !isSameWeights(weights, toVoteWeights(vote))
+    : (!vote && voteType) ||
+      (vote &&
+        voteType &&
+        (isWeightedVote || voteType !== VoteTypes[vote[0].option]));
 
   const isPassed = proposal.status === ProposalStatus.PROPOSAL_STATUS_PASSED;
 
@@ -93,11 +141,8 @@ export function Proposal({
   const isVotingPeriod =
     proposal.status === ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD;
 
-  const total = proposal.finalTallyResult
-    ? Object.values(proposal.finalTallyResult).reduce(
-        (sum, val) => sum + Number(val),
-        0
-      )
+  const total = tally
+    ? Object.values(tally).reduce((sum, val) => sum + Number(val), 0)
     : 0;
 
   const turnout = total / Number(bondedTokens);
@@ -137,7 +182,26 @@ export function Proposal({
     setVoteType(selected as GovernanceVoteType);
   }
 
+  function onWeightChange(option: number, value: number | number[]) {
+    setWeights((prev) =>
+      rebalanceVoteWeights(
+        prev,
+        option,
+        Array.isArray(value) ? value[0] : value
+      )
+    );
+  }
+
   function onVoteButtonClick() {
+    if (isWeighted) {
+      onVoteWeighted({
+        options: toWeightedVoteOptions(weights),
+        metadata,
+        success: onVoteSuccess,
+      });
+      return;
+    }
+
     if (!voteType) return;
 
     onVote({
@@ -176,43 +240,124 @@ export function Proposal({
             </Stack>
           ))}
         </Box>
-        <Box display={!isVotingPeriod && !vote ? 'none' : 'block'}>
-          <GovernanceRadioGroup
-            value={voteType}
-            isDisabled={isVoting}
-            onChange={onVoteTypeChange}
-          >
-            <Box
-              display="flex"
-              flexDirection={{
-                mobile: 'column',
-                tablet: 'row',
-                desktop: 'row',
-              }}
-              justifyContent={{
-                mobile: 'flex-start',
-                tablet: 'space-between',
-                desktop: 'space-between',
-              }}
-              gap="$6"
+        <Box
+          display={!address || (!isVotingPeriod && !vote) ? 'none' : 'block'}
+        >
+          {isWeightedVote && (
+            <Text
+              color="$textSecondary"
+              fontSize="$sm"
+              attributes={{ marginBottom: '$6' }}
+            >
+              Your vote: {formatVoteWeights(vote!)}
+            </Text>
+          )}
+          <Box display={isWeighted ? 'none' : 'block'}>
+            <GovernanceRadioGroup
+              value={voteType}
+              isDisabled={isVoting}
+              onChange={onVoteTypeChange}
             >
-              <GovernanceRadio value="yes">Yes</GovernanceRadio>
-              <GovernanceRadio value="no">No</GovernanceRadio>
-              <GovernanceRadio value="noWithVeto">No with veto</GovernanceRadio>
-              <GovernanceRadio value="abstain">Abstain</GovernanceRadio>
+              <Box
+                display="flex"
+                flexDirection={{
+                  mobile: 'column',
+                  tablet: 'row',
+                  desktop: 'row',
+                }}
+                justifyContent={{
+                  mobile: 'flex-start',
+                  tablet: 'space-between',
+                  desktop: 'space-between',
+                }}
+                gap="$6"
+              >
+                <GovernanceRadio value="yes">Yes</GovernanceRadio>
+                <GovernanceRadio value="no">No</GovernanceRadio>
+                <GovernanceRadio value="noWithVeto">
+                  No with veto
+                </GovernanceRadio>
+                <GovernanceRadio value="abstain">Abstain</GovernanceRadio>
+              </Box>
+            </GovernanceRadioGroup>
+          </Box>
+          {isWeighted && (
+            <Stack direction="vertical" space="$6">
+              {VOTE_OPTIONS.map(({ option, label }) => (
+                <Slider
+                  key={option}
+                  name={`vote-weight-${option}`}
+                  label={label}
+                  fluidWidth
+                  minValue={0}
+                  maxValue={100}
+                  step={1}
+                  value={weights[option]}
+                  isDisabled={!isVotingPeriod || isVoting}
+                  onChange={(value) => onWeightChange(option, value)}
+                  renderLabel={({ labelProps }) => (
+                    <Box display="flex" justifyContent="space-between">
+                      <label {...labelProps}>
+                        <Text as="span" color="$textSecondary" fontSize="$sm">
+                          {label}
+                        </Text>
+                      </label>
+                      <Text
+                        as="span"
+                        color="$textSecondary"
+                        fontSize="$sm"
+                        fontWeight="$semibold"
+                      >
+                        {weights[option]}%
+                      </Text>
+                    </Box>
+                  )}
+                />
+              ))}
+              <TextField
+                id={`vote-metadata-${proposal.id.toString()}`}
+                label="Metadata (optional)"
+                placeholder="A note or link explaining your vote"
+                value={metadata}
+                disabled={!isVotingPeriod || isVoting}
+                onChange={(e) => setMetadata(e.target.value)}
+              />
+            </Stack>
+          )}
+          {isVotingPeriod && (
+            <Box mt="$6" display="flex" justifyContent="flex-end">
+              <Button
+                size="sm"
+                intent="secondary"
+                variant="ghost"
+                disabled={isVoting}
+                onClick={() => setIsWeighted((v) => !v)}
+              >
+                {isWeighted ? 'Vote a single option' : 'Split my vote'}
+              </Button>
             </Box>
-          </GovernanceRadioGroup>
+          )}
         </Box>
-        <Button
-          intent="tertiary"
-          isLoading={isVoting}
-          disabled={
-            !isVotingPeriod || isVoting || (isVotingPeriod && !isChanged)
-          }
-          onClick={onVoteButtonClick}
-        >
-          {vote ? 'Update Vote' : 'Vote'}
-        </Button>
+        {address && isDepositPeriod ? (
+          <Button intent="tertiary" onClick={depositModalControl.onOpen}>
+            Deposit
+          </Button>
+        ) : address ? (
+          <Button
+            intent="tertiary"
+            isLoading={isVoting}
+            disabled={
+              !isVotingPeriod || isVoting || (isVotingPeriod && !isChanged)
+            }
+            onClick={onVoteButtonClick}
+          >
+            {vote ? 'Update Vote' : 'Vote'}
+          </Button>
+        ) : (
+          <Text color="$textSecondary" fontSize="$sm" textAlign="center">
+            Connect your wallet to vote on this proposal
+          </Text>
+        )}
       </Box>
       <Stack
         direction="vertical"
@@ -258,6 +403,56 @@ export function Proposal({
             </Text>
           </Text>
         ) : null}
+        {projection && tallyParams ? (
+          <Box
+            display="flex"
+            flexDirection="column"
+            gap="$2"
+            p="$6"
+            borderRadius="$md"
+            backgroundColor="$cardBg"
+          >
+            <Text color="$textSecondary" fontSize="$sm">
+              If voting ended now:{' '}
+              <Text
+                as="span"
+                fontSize="$sm"
+                fontWeight="$semibold"
+                color={
+                  projection.outcome === 'passing'
+                    ? '$textSuccess'
+                    : '$textDanger'
+                }
+              >
+                {TALLY_OUTCOME_LABELS[projection.outcome]}
+              </Text>
+            </Text>
+            <Text color="$textSecondary" fontSize="$xs">
+              {`Turnout ${percent(projection.turnout, 1)}% of ${percent(
+                tallyParams.quorum,
+                1
+              )}% quorum`}
+            </Text>
+            <Text color="$textSecondary" fontSize="$xs">
+              {`Yes ${percent(
+                projection.yesRatio,
+                1
+              )}% of non-abstaining votes, more than ${percent(
+                tallyParams.threshold,
+                1
+              )}% needed`}
+            </Text>
+            <Text color="$textSecondary" fontSize="$xs">
+              {`No with veto ${percent(
+                projection.vetoRatio,
+                1
+              )}% of all votes, vetoed above ${percent(
+                tallyParams.vetoThreshold,
+                1
+              )}%`}
+            </Text>
+          </Box>
+        ) : null}
       </Stack>
 
       <Box display="flex" gap="$17" marginBottom="$12">
@@ -265,42 +460,34 @@ export function Proposal({
           <GovernanceVoteBreakdown
             voteType="yes"
             title="Yes"
-            votePercentage={percent(proposal.finalTallyResult?.yesCount, total)}
-            description={`${exponentiate(
-              proposal.finalTallyResult?.yesCount,
-              -exponent
-            ).toFixed(2)} ${coin.symbol}`}
+            votePercentage={percent(tally?.yesCount, total)}
+            description={`${exponentiate(tally?.yesCount, -exponent).toFixed(
+              2
+            )} ${coin.symbol}`}
           />
           <GovernanceVoteBreakdown
             voteType="abstain"
             title="Abstain"
-            votePercentage={percent(
-              proposal.finalTallyResult?.abstainCount,
-              total
-            )}
+            votePercentage={percent(tally?.abstainCount, total)}
             description={`${exponentiate(
-              proposal.finalTallyResult?.abstainCount,
+              tally?.abstainCount,
               -exponent
             ).toFixed(2)} ${coin.symbol}`}
           />
           <GovernanceVoteBreakdown
             voteType="no"
             title="No"
-            votePercentage={percent(proposal.finalTallyResult?.noCount, total)}
-            description={`${exponentiate(
-              proposal.finalTallyResult?.noCount,
-              -exponent
-            ).toFixed(2)} ${coin.symbol}`}
+            votePercentage={percent(tally?.noCount, total)}
+            description={`${exponentiate(tally?.noCount, -exponent).toFixed(
+              2
+            )} ${coin.symbol}`}
           />
           <GovernanceVoteBreakdown
             voteType="noWithVeto"
             title="No with veto"
-            votePercentage={percent(
-              proposal.finalTallyResult?.noWithVetoCount,
-              total
-            )}
+            votePercentage={percent(tally?.noWithVetoCount, total)}
             description={`${exponentiate(
-              proposal.finalTallyResult?.noWithVetoCount,
+              tally?.noWithVetoCount,
               -exponent
             ).toFixed(2)} ${coin.symbol}`}
           />
@@ -310,10 +497,7 @@ export function Proposal({
             <GovernanceResultCard
               resultType="passed"
               label="Passed"
-              votePercentage={percent(
-                proposal.finalTallyResult?.yesCount,
-                total
-              )}
+              votePercentage={percent(tally?.yesCount, total)}
             />
           ) : null}
           {isRejected ? (
@@ -322,8 +506,8 @@ export function Proposal({
               label="Rejected"
               votePercentage={
                 +(
-                  percent(proposal.finalTallyResult?.noCount, total) +
-                  percent(proposal.finalTallyResult?.noWithVetoCount, total)
+                  percent(tally?.noCount, total) +
+                  percent(tally?.noWithVetoCount, total)
                 ).toFixed(2)
               }
             />
@@ -337,7 +521,7 @@ export function Proposal({
       </Box>
 
       {/* Description */}
-      <Box>
+      <Box display={showDescription ? 'block' : 'none'}>
         <Text
           color="$textSecondary"
           fontSize="$lg"
@@ -365,6 +549,15 @@ export function Proposal({
           </Button>
         </Box> */}
       </Box>
+
+      {isDepositPeriod && (
+        <DepositModal
+          chainName={chainName}
+          proposal={proposal}
+          modalControl={depositModalControl}
+          onDepositSuccess={onVoteSuccess}
+        />
+      )}
     </Box>
   );
 }
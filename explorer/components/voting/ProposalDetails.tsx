@@ -0,0 +1,386 @@
+import { useMemo } from 'react';
+import Link from 'next/link';
+import Markdown from 'react-markdown';
+import { useChain } from '@interchain-kit/react';
+import { Box, Spinner, Text } from '@interchain-ui/react';
+import { ProposalStatus } from '@interchainjs/react/cosmos/gov/v1/gov';
+
+import { InfoCard, Pagination, Table } from '../common';
+import { MessageItem } from '../transactions/TransactionDetails';
+import { Proposal } from './Proposal';
+import {
+  useParamDiffs,
+  useProposalDeposits,
+  useProposalVotes,
+  useStakingData,
+  useVotingData,
+} from '@/hooks';
+import {
+  decodeAny,
+  formatDate,
+  formatTxFee,
+  formatWeightedVote,
+  getParamUpdates,
+  shortenAddress,
+  toAccountAddress,
+} from '@/utils';
+
+const STATUS_LABELS: Record<number, string> = {
+  [ProposalStatus.PROPOSAL_STATUS_DEPOSIT_PERIOD]: 'Deposit Period',
+  [ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD]: 'Voting Period',
+  [ProposalStatus.PROPOSAL_STATUS_PASSED]: 'Passed',
+  [ProposalStatus.PROPOSAL_STATUS_REJECTED]: 'Rejected',
+  [ProposalStatus.PROPOSAL_STATUS_FAILED]: 'Failed',
+};
+
+export const ProposalDetails = ({
+  chainName,
+  proposalId,
+}: {
+  chainName: string;
+  proposalId: string;
+}) => {
+  const { data, isLoading, refetch } = useVotingData(chainName);
+
+  const proposal = data.proposals?.find(
+    ({ id }) => id.toString() === proposalId,
+  );
+
+  const messages = useMemo(
+    () => (proposal?.messages ?? []).map(decodeAny),
+    [proposal],
+  );
+
+  if (!proposal) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="300px"
+      >
+        {isLoading || !data.proposals ? (
+          <Spinner size="$6xl" color="$blackAlpha600" />
+        ) : (
+          <Text color="$textDanger" fontSize="16px">
+            Proposal #{proposalId} could not be found
+          </Text>
+        )}
+      </Box>
+    );
+  }
+
+  return (
+    <Box maxWidth="$containerMd" mx="auto" mb="$17">
+      <Link href="/governance">
+        <Text as="span" color="$purple600" fontWeight="600">
+          All proposals
+        </Text>
+      </Link>
+      <Box mt="10px">
+        <Text color="$blackAlpha600" fontSize="24px" fontWeight="700">
+          #{proposalId} {proposal.title}
+        </Text>
+        <Text color="$blackAlpha500" fontSize="14px" fontWeight="600">
+          {STATUS_LABELS[proposal.status] ?? 'Unknown'}
+        </Text>
+      </Box>
+
+      <Proposal
+        votes={data.votes}
+        proposal={proposal}
+        quorum={data.tallyParams?.quorum}
+        bondedTokens={data.bondedTokens}
+        chainName={chainName}
+        onVoteSuccess={refetch}
+        showDescription={false}
+      />
+
+      {proposal.summary && (
+        <InfoCard title="Summary">
+          <Box color="$blackAlpha600" fontSize="14px">
+            <Markdown>{proposal.summary}</Markdown>
+          </Box>
+        </InfoCard>
+      )}
+
+      {messages.length > 0 && (
+        <InfoCard title={`Messages (${messages.length})`} mt="20px">
+          {messages.map(({ typeUrl, value }, index) => (
+            <MessageItem key={index} typeUrl={typeUrl} value={value} />
+          ))}
+        </InfoCard>
+      )}
+
+      <ParameterChanges chainName={chainName} messages={messages} />
+
+      <ProposalDeposits chainName={chainName} proposalId={proposalId} />
+
+      <ProposalVotes chainName={chainName} proposalId={proposalId} />
+    </Box>
+  );
+};
+
+const ParameterChanges = ({
+  chainName,
+  messages,
+}: {
+  chainName: string;
+  messages: ReturnType<typeof decodeAny>[];
+}) => {
+  const updates = useMemo(() => getParamUpdates(messages), [messages]);
+  const paramDiffs = useParamDiffs(chainName, updates);
+
+  if (updates.length === 0) return null;
+
+  return (
+    <InfoCard title="Parameter Changes" mt="20px">
+      {paramDiffs.map(({ title, isLoading, isError, diffs }, index) => (
+        <Box key={index} display="flex" flexDirection="column" gap="8px">
+          <Text fontSize="16px" fontWeight="600">
+            {title}
+          </Text>
+          {isLoading ? (
+            <Spinner size="$4xl" color="$blackAlpha600" />
+          ) : isError ? (
+            <Text color="$textDanger" fontSize="14px">
+              Failed to load the current values
+            </Text>
+          ) : (
+            <Box overflowX="auto">
+              <Table minWidth="600px" width="$full">
+                <Table.Header>
+                  <Table.Row height="$fit">
+                    <Table.HeaderCell width="30%">Parameter</Table.HeaderCell>
+                    <Table.HeaderCell width="35%">Current</Table.HeaderCell>
+                    <Table.HeaderCell width="35%">Proposed</Table.HeaderCell>
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {diffs.map(({ key, current, proposed, changed }) => (
+                    <Table.Row key={key}>
+                      <Table.Cell fontWeight={changed ? '700' : '500'}>
+                        {key}
+                      </Table.Cell>
+                      <Table.Cell
+                        color={changed ? '$textDanger' : '$blackAlpha500'}
+                        wordBreak="break-all"
+                      >
+                        {current ?? '--'}
+                      </Table.Cell>
+                      <Table.Cell
+                        color={changed ? '$textSuccess' : '$blackAlpha500'}
+                        wordBreak="break-all"
+                      >
+                        {proposed ?? '--'}
+                      </Table.Cell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table>
+            </Box>
+          )}
+        </Box>
+      ))}
+    </InfoCard>
+  );
+};
+
+const ProposalDeposits = ({
+  chainName,
+  proposalId,
+}: {
+  chainName: string;
+  proposalId: string;
+}) => {
+  const { assetList } = useChain(chainName);
+  const {
+    data: deposits,
+    isLoading,
+    isError,
+  } = useProposalDeposits(chainName, proposalId);
+
+  return (
+    <InfoCard
+      title={deposits ? `Deposits (${deposits.length})` : 'Deposits'}
+      mt="20px"
+    >
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" py="20px">
+          <Spinner size="$4xl" color="$blackAlpha600" />
+        </Box>
+      ) : isError ? (
+        <Text color="$textDanger" fontSize="14px">
+          Failed to load deposits
+        </Text>
+      ) : deposits.length === 0 ? (
+        <Text color="$blackAlpha500" fontSize="14px">
+          No deposits found
+        </Text>
+      ) : (
+        <Box overflowX="auto">
+          <Table minWidth="600px" width="$full">
+            <Table.Header>
+              <Table.Row height="$fit">
+                <Table.HeaderCell width="40%">Depositor</Table.HeaderCell>
+                <Table.HeaderCell width="20%">Amount</Table.HeaderCell>
+                <Table.HeaderCell width="25%">Time</Table.HeaderCell>
+                <Table.HeaderCell width="15%">Tx</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {deposits.map(({ hash, depositor, amount, time }, index) => (
+                <Table.Row key={`${hash}-${index}`}>
+                  <Table.Cell>
+                    <Link href={`/address/${depositor}`}>
+                      <Text as="span" color="$purple600" fontWeight="600">
+                        {shortenAddress(depositor)}
+                      </Text>
+                    </Link>
+                  </Table.Cell>
+                  <Table.Cell>
+                    {assetList ? formatTxFee(amount, assetList) : amount}
+                  </Table.Cell>
+                  <Table.Cell color="$blackAlpha500" fontWeight="500">
+                    {time ? formatDate(new Date(time)) : '--'}
+                  </Table.Cell>
+                  <Table.Cell>
+                    <Link href={`/tx/${hash}`}>
+                      <Text as="span" color="$purple600" fontWeight="600">
+                        {shortenAddress(hash)}
+                      </Text>
+                    </Link>
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table>
+        </Box>
+      )}
+    </InfoCard>
+  );
+};
+
+const ProposalVotes = ({
+  chainName,
+  proposalId,
+}: {
+  chainName: string;
+  proposalId: string;
+}) => {
+  const { chain } = useChain(chainName);
+  const { data: stakingData } = useStakingData(chainName);
+  const {
+    data,
+    isLoading,
+    isError,
+    isFetching,
+    page,
+    hasNextPage,
+    hasPrevPage,
+    goToNextPage,
+    goToPrevPage,
+  } = useProposalVotes(chainName, proposalId);
+
+  // operators vote from the account behind their valoper address
+  const validatorNames = useMemo(() => {
+    const prefix = chain.bech32Prefix ?? '';
+    const validators = [
+      ...(stakingData?.allValidators ?? []),
+      ...(stakingData?.inactiveValidators ?? []),
+      ...(stakingData?.jailedValidators ?? []),
+    ];
+    return Object.fromEntries(
+      validators.map(({ address, name }) => [
+        toAccountAddress(address, prefix),
+        name,
+      ]),
+    );
+  }, [chain.bech32Prefix, stakingData]);
+
+  return (
+    <InfoCard
+      title={data ? `Votes (${data.totalCount} txs)` : 'Votes'}
+      mt="20px"
+    >
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" py="20px">
+          <Spinner size="$4xl" color="$blackAlpha600" />
+        </Box>
+      ) : isError ? (
+        <Text color="$textDanger" fontSize="14px">
+          Failed to load votes
+        </Text>
+      ) : data.votes.length === 0 ? (
+        <Text color="$blackAlpha500" fontSize="14px">
+          No votes found
+        </Text>
+      ) : (
+        <Box overflowX="auto">
+          <Table minWidth="600px" width="$full">
+            <Table.Header>
+              <Table.Row height="$fit">
+                <Table.HeaderCell width="40%">Voter</Table.HeaderCell>
+                <Table.HeaderCell width="20%">Option</Table.HeaderCell>
+                <Table.HeaderCell width="25%">Time</Table.HeaderCell>
+                <Table.HeaderCell width="15%">Tx</Table.HeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {data.votes.map(
+                ({ hash, voter, options, time, superseded }, index) => (
+                  <Table.Row key={`${hash}-${index}`}>
+                    <Table.Cell>
+                      <Link href={`/address/${voter}`}>
+                        <Text as="span" color="$purple600" fontWeight="600">
+                          {validatorNames[voter] || shortenAddress(voter)}
+                        </Text>
+                      </Link>
+                      {validatorNames[voter] && (
+                        <Text color="$blackAlpha500" fontSize="12px">
+                          Validator
+                        </Text>
+                      )}
+                    </Table.Cell>
+                    <Table.Cell>
+                      <Text
+                        color={superseded ? '$blackAlpha500' : '$text'}
+                        fontWeight="500"
+                      >
+                        {formatWeightedVote(options)}
+                      </Text>
+                      {superseded && (
+                        <Text color="$blackAlpha500" fontSize="12px">
+                          Changed later
+                        </Text>
+                      )}
+                    </Table.Cell>
+                    <Table.Cell color="$blackAlpha500" fontWeight="500">
+                      {time ? formatDate(new Date(time)) : '--'}
+                    </Table.Cell>
+                    <Table.Cell>
+                      <Link href={`/tx/${hash}`}>
+                        <Text as="span" color="$purple600" fontWeight="600">
+                          {shortenAddress(hash)}
+                        </Text>
+                      </Link>
+                    </Table.Cell>
+                  </Table.Row>
+                ),
+              )}
+            </Table.Body>
+          </Table>
+        </Box>
+      )}
+
+      <Pagination
+        page={page}
+        hasPrevPage={hasPrevPage}
+        hasNextPage={hasNextPage}
+        isFetching={isFetching}
+        onPrev={goToPrevPage}
+        onNext={goToNextPage}
+      />
+    </InfoCard>
+  );
+};
@@ -0,0 +1,380 @@
+import { useState } from 'react';
+import { useChain } from '@interchain-kit/react';
+import {
+  BasicModal,
+  Box,
+  Button,
+  Callout,
+  Select,
+  SelectOption,
+  TextField,
+} from '@interchain-ui/react';
+import { useSubmitProposal } from '@interchainjs/react/cosmos/gov/v1/tx.rpc.react';
+import { MsgSubmitProposal } from '@interchainjs/react/cosmos/gov/v1/tx';
+import { StdFee } from '@interchainjs/react/types';
+import { defaultContext } from '@tanstack/react-query';
+
+import { InputField, JsonInput } from '../contract/common';
+import {
+  UseDisclosureReturn,
+  useDepositParams,
+  useSigningClient,
+  useSimulateGas,
+  useToastHandlers,
+} from '@/hooks';
+import {
+  buildTemplateMessages,
+  checkDeposit,
+  encodeAny,
+  getExponentFromAsset,
+  getModuleAddress,
+  getNativeAsset,
+  isGreaterThanZero,
+  parseRawMessages,
+  PROPOSAL_TEMPLATES,
+  RAW_MESSAGES_EXAMPLE,
+  shiftDigits,
+  toBaseAmount,
+} from '@/utils';
+
+export const SubmitProposalModal = ({
+  chainName,
+  modalControl,
+  onSubmitSuccess = () => {},
+}: {
+  chainName: string;
+  modalControl: UseDisclosureReturn;
+  onSubmitSuccess?: () => void;
+}) => {
+  const { isOpen, onClose } = modalControl;
+  const { address, assetList, chain } = useChain(chainName);
+  const coin = getNativeAsset(assetList);
+  const exp = getExponentFromAsset(coin);
+
+  const [templateIndex, setTemplateIndex] = useState(0);
+  const [title, setTitle] = useState('');
+  const [summary, setSummary] = useState('');
+  const [metadata, setMetadata] = useState('');
+  const [deposit, setDeposit] = useState('');
+  const [recipient, setRecipient] = useState('');
+  const [spendAmount, setSpendAmount] = useState('');
+  const [upgradeName, setUpgradeName] = useState('');
+  const [upgradeHeight, setUpgradeHeight] = useState('');
+  const [upgradeInfo, setUpgradeInfo] = useState('');
+  const [rawMessages, setRawMessages] = useState(RAW_MESSAGES_EXAMPLE);
+  const [buildError, setBuildError] = useState('');
+
+  const { data: depositParams } = useDepositParams(chainName);
+  const toastHandlers = useToastHandlers();
+  const { data: signingClient } = useSigningClient(chainName);
+  const { mutate: submitProposal, isLoading: isSubmitting } = useSubmitProposal(
+    {
+      clientResolver: signingClient,
+      options: {
+        context: defaultContext,
+        ...toastHandlers,
+      },
+    },
+  );
+  const {
+    mutate: simulate,
+    isLoading: isSimulating,
+    error: simulateError,
+    reset: resetSimulation,
+  } = useSimulateGas(chainName);
+
+  const template = PROPOSAL_TEMPLATES[templateIndex].id;
+
+  const minDeposit =
+    depositParams?.minDeposit.find(({ denom }) => denom === coin.base)
+      ?.amount ?? '0';
+  const depositCheck = checkDeposit({
+    amount: isGreaterThanZero(deposit) ? toBaseAmount(deposit, exp) : 0,
+    minDeposit,
+    minInitialDepositRatio: depositParams?.minInitialDepositRatio,
+  });
+
+  const onModalClose = () => {
+    onClose();
+    setTitle('');
+    setSummary('');
+    setMetadata('');
+    setDeposit('');
+    setBuildError('');
+    resetSimulation();
+  };
+
+  const buildMessage = () => {
+    const messages =
+      template === 'raw'
+        ? parseRawMessages(rawMessages)
+        : buildTemplateMessages(
+            template,
+            {
+              recipient,
+              amount: isGreaterThanZero(spendAmount)
+                ? toBaseAmount(spendAmount, exp)
+                : '0',
+              denom: coin.base,
+              upgradeName,
+              upgradeHeight,
+              upgradeInfo,
+            },
+            getModuleAddress('gov', chain.bech32Prefix ?? ''),
+          );
+
+    return MsgSubmitProposal.fromPartial({
+      messages: messages.map(encodeAny),
+      initialDeposit: isGreaterThanZero(deposit)
+        ? [{ denom: coin.base, amount: toBaseAmount(deposit, exp) }]
+        : [],
+      proposer: address,
+      metadata,
+      title,
+      summary,
+    });
+  };
+
+  const onSubmitClick = () => {
+    if (!address) return;
+
+    let message: ReturnType<typeof buildMessage>;
+    try {
+      message = buildMessage();
+      setBuildError('');
+    } catch (error) {
+      setBuildError((error as Error).message);
+      return;
+    }
+
+    simulate(
+      {
+        messages: [{ typeUrl: MsgSubmitProposal.typeUrl, value: message }],
+        memo: 'Submit proposal',
+      },
+      {
+        onSuccess: (gas) => {
+          const fee: StdFee = {
+            amount: [
+              {
+                denom: coin.base,
+                amount: '0',
+              },
+            ],
+            gas,
+          };
+
+          submitProposal(
+            {
+              signerAddress: address,
+              message,
+              fee,
+              memo: 'Submit proposal',
+            },
+            {
+              onSuccess: () => {
+                onSubmitSuccess();
+                onModalClose();
+              },
+            },
+          );
+        },
+      },
+    );
+  };
+
+  const isTemplateFilled =
+    template === 'community-pool-spend'
+      ? !!recipient && isGreaterThanZero(spendAmount)
+      : template === 'software-upgrade'
+      ? !!upgradeName && isGreaterThanZero(upgradeHeight)
+      : true;
+
+  return (
+    <BasicModal title="Submit Proposal" isOpen={isOpen} onClose={onModalClose}>
+      <Box
+        width={{ mobile: '100%', tablet: '$containerSm' }}
+        display="flex"
+        flexDirection="column"
+        gap="$8"
+        mt="$6"
+      >
+        <InputField title="Template">
+          <Select
+            fullWidth
+            selectedIndex={templateIndex}
+            onSelectItem={(item) => item && setTemplateIndex(item.index)}
+          >
+            {PROPOSAL_TEMPLATES.map(({ id, label }) => (
+              <SelectOption key={id} optionKey={id} label={label} />
+            ))}
+          </Select>
+        </InputField>
+
+        <InputField title="Title" required>
+          <TextField
+            id="proposal-title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            autoComplete="off"
+          />
+        </InputField>
+
+        <InputField title="Summary (markdown)" required>
+          <Box
+            as="textarea"
+            width="$full"
+            minHeight="120px"
+            p="10px"
+            borderWidth="1px"
+            borderStyle="solid"
+            borderColor="$blackAlpha300"
+            borderRadius="4px"
+            backgroundColor="transparent"
+            color="$text"
+            fontSize="14px"
+            attributes={{
+              value: summary,
+              onChange: (e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                setSummary(e.target.value),
+            }}
+          />
+        </InputField>
+
+        {template === 'community-pool-spend' && (
+          <>
+            <InputField title="Recipient" required>
+              <TextField
+                id="proposal-recipient"
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+                autoComplete="off"
+              />
+            </InputField>
+            <InputField title={`Amount (${coin.symbol})`} required>
+              <TextField
+                id="proposal-spend-amount"
+                type="number"
+                value={spendAmount}
+                onChange={(e) => setSpendAmount(e.target.value)}
+                autoComplete="off"
+              />
+            </InputField>
+          </>
+        )}
+
+        {template === 'software-upgrade' && (
+          <>
+            <InputField title="Upgrade name" required>
+              <TextField
+                id="proposal-upgrade-name"
+                value={upgradeName}
+                onChange={(e) => setUpgradeName(e.target.value)}
+                autoComplete="off"
+              />
+            </InputField>
+            <InputField title="Upgrade height" required>
+              <TextField
+                id="proposal-upgrade-height"
+                type="number"
+                value={upgradeHeight}
+                onChange={(e) => setUpgradeHeight(e.target.value)}
+                autoComplete="off"
+              />
+            </InputField>
+            <InputField title="Upgrade info">
+              <TextField
+                id="proposal-upgrade-info"
+                value={upgradeInfo}
+                onChange={(e) => setUpgradeInfo(e.target.value)}
+                placeholder="Binaries as JSON, or a link to them"
+                autoComplete="off"
+              />
+            </InputField>
+          </>
+        )}
+
+        {template === 'raw' && (
+          <InputField title="Messages" required>
+            <JsonInput
+              value={rawMessages}
+              setValue={setRawMessages}
+              minLines={12}
+            />
+          </InputField>
+        )}
+
+        <InputField title="Metadata">
+          <TextField
+            id="proposal-metadata"
+            value={metadata}
+            onChange={(e) => setMetadata(e.target.value)}
+            placeholder="Optional, e.g. an IPFS link to the proposal"
+            autoComplete="off"
+          />
+        </InputField>
+
+        <InputField title={`Initial deposit (${coin.symbol})`}>
+          <TextField
+            id="proposal-deposit"
+            type="number"
+            value={deposit}
+            onChange={(e) => setDeposit(e.target.value)}
+            autoComplete="off"
+          />
+          <InputField.Description
+            intent={depositCheck.isBelowMinInitialDeposit ? 'error' : 'default'}
+          >
+            {depositCheck.isBelowMinInitialDeposit
+              ? `The chain requires an initial deposit of at least ${shiftDigits(
+                  depositCheck.minInitialDeposit,
+                  -exp,
+                )} ${coin.symbol}`
+              : `Minimum deposit: ${shiftDigits(minDeposit, -exp)} ${
+                  coin.symbol
+                }`}
+          </InputField.Description>
+        </InputField>
+
+        {depositCheck.isBelowMinDeposit &&
+          !depositCheck.isBelowMinInitialDeposit && (
+            <Callout
+              title="Below the minimum deposit"
+              intent="warning"
+              iconName="errorWarningLine"
+            >
+              The proposal will stay in the deposit period until it collects the
+              minimum deposit, and voting only starts once it does.
+            </Callout>
+          )}
+
+        {(buildError || simulateError instanceof Error) && (
+          <Callout
+            title={buildError ? 'Invalid proposal' : 'Simulation failed'}
+            intent="error"
+            iconName="errorWarningLine"
+          >
+            {buildError || (simulateError as Error).message}
+          </Callout>
+        )}
+
+        <Button
+          intent="tertiary"
+          onClick={onSubmitClick}
+          disabled={
+            !address ||
+            !title ||
+            !summary ||
+            !isTemplateFilled ||
+            depositCheck.isBelowMinInitialDeposit ||
+            isSimulating ||
+            isSubmitting
+          }
+          isLoading={isSimulating || isSubmitting}
+        >
+          {address ? 'Submit Proposal' : 'Connect wallet to submit'}
+        </Button>
+      </Box>
+    </BasicModal>
+  );
+};
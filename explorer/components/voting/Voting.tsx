@@ -1,4 +1,5 @@
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
+import Link from 'next/link';
 import { useChain } from '@interchain-kit/react';
 import {
   Proposal as IProposal,
@@ -8,15 +9,21 @@ import {
 import {
   BasicModal,
   Box,
+  Button,
   GovernanceProposalItem,
   Spinner,
   Text,
   useColorModeValue,
 } from '@interchain-ui/react';
-import { chains } from 'chain-registry';
 
-import { useModal, useVotingData } from '@/hooks';
+import {
+  useDisclosure,
+  useModal,
+  useProposalTallies,
+  useVotingData,
+} from '@/hooks';
 import { Proposal } from '@/components';
+import { SubmitProposalModal } from './SubmitProposalModal';
 import { formatDate } from '@/utils';
 
 function status(s: ProposalStatus) {
@@ -56,42 +63,8 @@ export function Voting({ chainName }: VotingProps) {
   const [proposal, setProposal] = useState<IProposal>();
   const { data, isLoading, refetch } = useVotingData(chainName);
   const { modal, open: openModal, close: closeModal, setTitle } = useModal('');
-  const [tallies, setTallies] = useState<{ [key: string]: TallyResult }>({});
-
-  const chain = chains.find((c) => c.chain_name === chainName);
-
-  useEffect(() => {
-    if (!data.proposals || data.proposals.length === 0) return;
-    data.proposals.forEach((proposal) => {
-      if (proposal.status === ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD) {
-        (async () => {
-          for (const { address } of chain?.apis?.rest || []) {
-            const api = `${address}/cosmos/gov/v1/proposals/${Number(
-              proposal.id
-            )}/tally`;
-            try {
-              const tally = (await (await fetch(api)).json()).tally;
-              if (!tally) {
-                continue;
-              }
-              setTallies((prev) => {
-                return {
-                  ...prev,
-                  [proposal.id.toString()]: {
-                    yesCount: tally.yes_count,
-                    noCount: tally.no_count,
-                    abstainCount: tally.abstain_count,
-                    noWithVetoCount: tally.no_with_veto_count,
-                  },
-                };
-              });
-              break;
-            } catch (e) {}
-          }
-        })();
-      }
-    });
-  }, [data.proposals?.length, chainName]);
+  const { tallies } = useProposalTallies(chainName, data.proposals);
+  const submitProposalModalControl = useDisclosure();
 
   function onClickProposal(index: number) {
     const proposal = data.proposals![index];
@@ -119,12 +92,7 @@ export function Voting({ chainName }: VotingProps) {
       {data.proposals?.length === 0
         ? empty
         : data.proposals?.map((proposal, index) => {
-            let tally = proposal.finalTallyResult;
-            if (
-              proposal.status === ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD
-            ) {
-              tally = tallies[proposal.id.toString()];
-            }
+            const tally = tallies[proposal.id.toString()]?.tally;
             return (
               <Box
                 my="$8"
@@ -163,14 +131,9 @@ export function Voting({ chainName }: VotingProps) {
   );
 
   const connect = (
-    <Box
-      height="$24"
-      display="flex"
-      alignItems="center"
-      justifyContent="center"
-    >
-      <Text fontSize="$lg">
-        Please connect to your wallet to see the proposals.
+    <Box mt="$6">
+      <Text fontSize="$md" color="$textSecondary">
+        Connect your wallet to see your votes.
       </Text>
     </Box>
   );
@@ -191,13 +154,33 @@ export function Voting({ chainName }: VotingProps) {
 
   return (
     <Box mb="$20" position="relative" maxWidth="$containerMd" mx="auto">
-      <Text fontWeight="600" fontSize="$2xl">
-        Proposals
-      </Text>
+      <Box display="flex" justifyContent="space-between" alignItems="center">
+        <Text fontWeight="600" fontSize="$2xl">
+          Proposals
+        </Text>
+        <Box display="flex" alignItems="center" gap="$8">
+          <Link href="/governance/participation">
+            <Text as="span" color="$purple600" fontSize="$sm" fontWeight="600">
+              Validator participation
+            </Text>
+          </Link>
+          {address && (
+            <Button
+              intent="tertiary"
+              size="sm"
+              onClick={submitProposalModalControl.onOpen}
+            >
+              New Proposal
+            </Button>
+          )}
+        </Box>
+      </Box>
 
-      {address ? Loading : null}
+      {!address && connect}
 
-      {address ? content : connect}
+      {Loading}
+
+      {content}
 
       <BasicModal
         title={
@@ -205,6 +188,13 @@ export function Voting({ chainName }: VotingProps) {
             <Text fontSize="$xl" fontWeight="$bold">
               {modal.title}
             </Text>
+            {proposal && (
+              <Link href={`/governance/${proposal.id.toString()}`}>
+                <Text as="span" color="$purple600" fontSize="$sm">
+                  View full proposal
+                </Text>
+              </Link>
+            )}
           </Box>
         }
         isOpen={modal.open}
@@ -214,12 +204,18 @@ export function Voting({ chainName }: VotingProps) {
         <Proposal
           votes={data.votes}
           proposal={proposal!}
-          quorum={data.quorum!}
+          quorum={data.tallyParams?.quorum}
           bondedTokens={data.bondedTokens!}
           chainName={chainName}
           onVoteSuccess={refetch}
         />
       </BasicModal>
+
+      <SubmitProposalModal
+        chainName={chainName}
+        modalControl={submitProposalModalControl}
+        onSubmitSuccess={refetch}
+      />
     </Box>
   );
 }
@@ -1,2 +1,6 @@
 export * from './Voting';
-export * from './Proposal';
\ No newline at end of file
+export * from './Proposal';
+export * from './ProposalDetails';
+export * from './SubmitProposalModal';
+export * from './DepositModal';
+export * from './GovernanceParticipation';
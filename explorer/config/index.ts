@@ -3,3 +3,4 @@ export * from './theme';
 export * from './wallets';
 export * from './products';
 export * from './breakpoints';
+export * from './restake';
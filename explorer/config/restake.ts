@@ -0,0 +1,18 @@
+import registry from './restake.json';
+
+export type RestakeOperator = {
+  /** Operator address of the validator running the bot. */
+  validator: string;
+  /** Account the bot signs with, which receives the authz grants. */
+  botAddress: string;
+  /** How often the bot runs, e.g. `"21:00"` or `"every 1 hour"`. */
+  runTime?: string;
+  /** Smallest reward, in base units, the bot will restake. */
+  minimumReward?: string;
+};
+
+const operators: Record<string, RestakeOperator[]> = registry;
+
+export const getRestakeOperators = (chainName: string) => {
+  return operators[chainName] ?? [];
+};
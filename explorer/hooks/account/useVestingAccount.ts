@@ -0,0 +1,21 @@
+import { defaultContext } from '@tanstack/react-query';
+import { useGetAccount } from '@interchainjs/react/cosmos/auth/v1beta1/query.rpc.react';
+
+import { parseVestingAccount } from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+export const useVestingAccount = (chainName: string, address: string) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  return useGetAccount({
+    request: { address },
+    options: {
+      context: defaultContext,
+      enabled: !!address && !!rpcEndpoint,
+      select: ({ account }) => parseVestingAccount(account),
+      retry: false,
+    },
+    clientResolver: rpcEndpoint,
+    customizedQueryKey: ['vestingAccount', chainName, address],
+  });
+};
@@ -0,0 +1,5 @@
+export * from './useDeployments';
+export * from './useDeployment';
+export * from './useProviders';
+export * from './useProvider';
+export * from './useDashboardData';
@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchDashboardData } from '@/utils';
+
+export const useDashboardData = () => {
+  return useQuery({
+    queryKey: ['akashDashboardData'],
+    queryFn: fetchDashboardData,
+    refetchInterval: 60000,
+  });
+};
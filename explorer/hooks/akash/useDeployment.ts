@@ -0,0 +1,50 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchBids, fetchDeployment, fetchLeases } from '@/utils';
+import { useRestEndpoint } from '../common';
+
+// a deployment rarely has more than a handful of groups and leases
+const DEPLOYMENT_LEASES_LIMIT = 100;
+
+export const useDeployment = (
+  chainName: string,
+  owner: string,
+  dseq: string,
+) => {
+  const { data: restEndpoint } = useRestEndpoint(chainName);
+
+  const isEnabled = !!restEndpoint && !!owner && !!dseq;
+
+  const deploymentQuery = useQuery({
+    queryKey: ['deployment', chainName, owner, dseq],
+    queryFn: () => fetchDeployment(restEndpoint!, owner, dseq),
+    enabled: isEnabled,
+  });
+
+  const bidsQuery = useQuery({
+    queryKey: ['deploymentBids', chainName, owner, dseq],
+    queryFn: () => fetchBids(restEndpoint!, { owner, dseq }),
+    enabled: isEnabled,
+  });
+
+  const leasesQuery = useQuery({
+    queryKey: ['deploymentLeases', chainName, owner, dseq],
+    queryFn: () =>
+      fetchLeases(
+        restEndpoint!,
+        { owner, dseq },
+        { limit: DEPLOYMENT_LEASES_LIMIT },
+      ),
+    enabled: isEnabled,
+    select: ({ leases }) => leases,
+  });
+
+  return {
+    deployment: deploymentQuery.data,
+    bids: bidsQuery.data ?? [],
+    leases: leasesQuery.data ?? [],
+    isLoading: deploymentQuery.isLoading,
+    isError: deploymentQuery.isError,
+    isMarketLoading: bidsQuery.isLoading || leasesQuery.isLoading,
+  };
+};
@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { DeploymentFilters, fetchDeployments } from '@/utils';
+import { usePageKeys, useRestEndpoint } from '../common';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export const useDeployments = (
+  chainName: string,
+  filters: DeploymentFilters,
+  { enabled = true, limit = DEFAULT_PAGE_SIZE } = {},
+) => {
+  const { data: restEndpoint } = useRestEndpoint(chainName);
+  const { owner, state, dseq } = filters;
+  const { pageKey, page, hasPrevPage, goToNextPage, goToPrevPage } =
+    usePageKeys<string | undefined>(undefined, [chainName, owner, state, dseq]);
+
+  const deploymentsQuery = useQuery({
+    queryKey: ['deployments', chainName, owner, state, dseq, pageKey, limit],
+    queryFn: () =>
+      fetchDeployments(restEndpoint!, filters, { key: pageKey, limit }),
+    enabled: enabled && !!restEndpoint,
+    keepPreviousData: true,
+  });
+
+  const nextKey = deploymentsQuery.data?.nextKey;
+
+  return {
+    ...deploymentsQuery,
+    page,
+    hasNextPage: !!nextKey,
+    hasPrevPage,
+    goToNextPage: () => nextKey && goToNextPage(nextKey),
+    goToPrevPage,
+  };
+};
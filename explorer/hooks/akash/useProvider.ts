@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchAllLeases, fetchLatestHeight, fetchProvider } from '@/utils';
+import { useRestEndpoint, useRpcEndpoint } from '../common';
+
+const PROVIDER_LEASES_MAX_PAGES = 10;
+
+export const useProvider = (chainName: string, owner: string) => {
+  const { data: restEndpoint } = useRestEndpoint(chainName);
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  const providerQuery = useQuery({
+    queryKey: ['provider', chainName, owner],
+    queryFn: () => fetchProvider(restEndpoint!, owner),
+    enabled: !!restEndpoint && !!owner,
+  });
+
+  const leasesQuery = useQuery({
+    queryKey: ['providerLeases', chainName, owner],
+    queryFn: () =>
+      fetchAllLeases(
+        restEndpoint!,
+        { provider: owner },
+        PROVIDER_LEASES_MAX_PAGES,
+      ),
+    enabled: !!restEndpoint && !!owner,
+  });
+
+  const latestHeightQuery = useQuery({
+    queryKey: ['latestHeight', chainName],
+    queryFn: () => fetchLatestHeight(rpcEndpoint!.toString()),
+    enabled: !!rpcEndpoint,
+  });
+
+  return {
+    provider: providerQuery.data,
+    leases: leasesQuery.data?.leases ?? [],
+    isLeasesTruncated: leasesQuery.data?.isTruncated ?? false,
+    latestHeight: latestHeightQuery.data,
+    isLoading: providerQuery.isLoading,
+    isError: providerQuery.isError,
+    isLeasesLoading: leasesQuery.isLoading || latestHeightQuery.isLoading,
+  };
+};
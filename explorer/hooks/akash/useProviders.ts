@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query';
+
+import {
+  fetchAllLeases,
+  fetchProviders,
+  getLeaseStatsByProvider,
+} from '@/utils';
+import { useRestEndpoint } from '../common';
+
+// enough pages to cover every active lease on mainnet
+const ACTIVE_LEASES_MAX_PAGES = 20;
+
+export const useProviders = (chainName: string) => {
+  const { data: restEndpoint } = useRestEndpoint(chainName);
+
+  const providersQuery = useQuery({
+    queryKey: ['providers', chainName],
+    queryFn: () => fetchProviders(restEndpoint!),
+    enabled: !!restEndpoint,
+  });
+
+  const leaseStatsQuery = useQuery({
+    queryKey: ['providerLeaseStats', chainName],
+    queryFn: async () => {
+      const { leases } = await fetchAllLeases(
+        restEndpoint!,
+        { state: 'active' },
+        ACTIVE_LEASES_MAX_PAGES,
+      );
+      return getLeaseStatsByProvider(leases);
+    },
+    enabled: !!restEndpoint,
+  });
+
+  return {
+    providers: providersQuery.data ?? [],
+    leaseStats: leaseStatsQuery.data,
+    isLoading: providersQuery.isLoading,
+    isError: providersQuery.isError,
+    isLeaseStatsLoading: leaseStatsQuery.isLoading,
+  };
+};
@@ -1,40 +1,36 @@
 import { useMemo } from 'react';
 import { useChain } from '@interchain-kit/react';
-import { defaultContext } from '@tanstack/react-query';
 import BigNumber from 'bignumber.js';
-import { useGetAllBalances } from '@interchainjs/react/cosmos/bank/v1beta1/query.rpc.react';
+import { getAllBalances } from '@interchainjs/react/cosmos/bank/v1beta1/query.rpc.func';
 import { Coin } from '@interchainjs/react/types';
 
 import { PrettyAsset } from '@/components';
 import { useChainUtils } from './useChainUtils';
 import { useChainAssetsPrices } from './useChainAssetsPrices';
-import { getPagination } from './useTotalAssets';
-import { useRpcEndpoint } from '../common';
+import { useAllPages, useRpcEndpoint } from '../common';
 
 (BigInt.prototype as any).toJSON = function () {
   return this.toString();
 };
 
-export const useAssets = (chainName: string) => {
-  const { address } = useChain(chainName);
+export const useAssets = (chainName: string, explicitAddress?: string) => {
+  const { address: walletAddress } = useChain(chainName);
+  const address = explicitAddress || walletAddress;
 
   const { data: rpcEndpoint, isFetching } = useRpcEndpoint(chainName);
 
   const isReady = !!address && !!rpcEndpoint;
 
-  const allBalancesQuery = useGetAllBalances({
-    request: {
-      address: address || '',
-      pagination: getPagination(100n),
-      resolveDenom: false,
-    },
-    options: {
-      enabled: isReady,
-      select: ({ balances }) => balances || [],
-      context: defaultContext,
-    },
-    clientResolver: rpcEndpoint,
-    customizedQueryKey: ['allBalances', address],
+  const allBalancesQuery = useAllPages({
+    queryKey: ['allBalances', address],
+    fetchPage: (pagination) =>
+      getAllBalances(rpcEndpoint!.toString(), {
+        address: address!,
+        pagination,
+        resolveDenom: false,
+      }),
+    getItems: ({ balances }) => balances || [],
+    enabled: isReady,
   });
 
   const pricesQuery = useChainAssetsPrices(chainName);
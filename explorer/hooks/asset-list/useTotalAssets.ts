@@ -1,61 +1,47 @@
 import { useMemo } from 'react';
 import { useChain } from '@interchain-kit/react';
-import { defaultContext } from '@tanstack/react-query';
 import BigNumber from 'bignumber.js';
-import { useGetAllBalances } from '@interchainjs/react/cosmos/bank/v1beta1/query.rpc.react';
-import { useGetDelegatorDelegations } from '@interchainjs/react/cosmos/staking/v1beta1/query.rpc.react';
+import { getAllBalances } from '@interchainjs/react/cosmos/bank/v1beta1/query.rpc.func';
+import { getDelegatorDelegations } from '@interchainjs/react/cosmos/staking/v1beta1/query.rpc.func';
 
 import { useChainUtils } from './useChainUtils';
 import { useChainAssetsPrices } from './useChainAssetsPrices';
-import { useRpcEndpoint } from '../common';
+import { useAllPages, useRpcEndpoint } from '../common';
 
 (BigInt.prototype as any).toJSON = function () {
   return this.toString();
 };
 
-export const getPagination = (limit: bigint) => ({
-  limit,
-  key: new Uint8Array(),
-  offset: 0n,
-  countTotal: true,
-  reverse: false,
-});
-
-export const useTotalAssets = (chainName: string) => {
-  const { address } = useChain(chainName);
+export const useTotalAssets = (chainName: string, explicitAddress?: string) => {
+  const { address: walletAddress } = useChain(chainName);
+  const address = explicitAddress || walletAddress;
 
   const { data: rpcEndpoint, isFetching } = useRpcEndpoint(chainName);
 
   const isReady = !!address && !!rpcEndpoint;
 
-  const allBalancesQuery = useGetAllBalances({
-    request: {
-      address: address || '',
-      pagination: getPagination(100n),
-      resolveDenom: false,
-    },
-    options: {
-      enabled: isReady,
-      select: ({ balances }) => balances || [],
-      context: defaultContext,
-    },
-    clientResolver: rpcEndpoint,
-    customizedQueryKey: ['allBalances', address],
+  const allBalancesQuery = useAllPages({
+    queryKey: ['allBalances', address],
+    fetchPage: (pagination) =>
+      getAllBalances(rpcEndpoint!.toString(), {
+        address: address!,
+        pagination,
+        resolveDenom: false,
+      }),
+    getItems: ({ balances }) => balances || [],
+    enabled: isReady,
   });
 
-  const delegationsQuery = useGetDelegatorDelegations({
-    request: {
-      delegatorAddr: address || '',
-      pagination: getPagination(100n),
-    },
-    options: {
-      enabled: isReady,
-      select: ({ delegationResponses }) =>
-        delegationResponses.map(({ balance }) => balance) || [],
-      context: defaultContext,
-    },
-    clientResolver: rpcEndpoint,
-    customizedQueryKey: ['delegations', address],
+  const delegationsQuery = useAllPages({
+    queryKey: ['delegations', address],
+    fetchPage: (pagination) =>
+      getDelegatorDelegations(rpcEndpoint!.toString(), {
+        delegatorAddr: address!,
+        pagination,
+      }),
+    getItems: ({ delegationResponses }) =>
+      delegationResponses.map(({ balance }) => balance) || [],
+    enabled: isReady,
   });
 
   const pricesQuery = useChainAssetsPrices(chainName);
@@ -0,0 +1,4 @@
+export * from './useBlockSubscription';
+export * from './useLatestBlocks';
+export * from './useBlock';
+export * from './useProposerMonikers';
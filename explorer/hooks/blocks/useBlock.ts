@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchBlockDetail } from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+export const useBlock = (chainName: string, height: number | undefined) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  return useQuery({
+    queryKey: ['block', chainName, height],
+    queryFn: () => fetchBlockDetail(rpcEndpoint!.toString(), height!),
+    enabled: !!rpcEndpoint && !!height,
+    staleTime: Infinity,
+  });
+};
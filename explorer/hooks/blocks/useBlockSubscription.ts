@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+
+import {
+  NEW_BLOCK_SUBSCRIPTION,
+  parseNewBlockEvent,
+  toWebsocketEndpoint,
+} from '@/utils';
+
+const MAX_RECONNECT_DELAY = 30000;
+
+export const useBlockSubscription = ({
+  rpcEndpoint,
+  onNewBlock,
+  enabled = true,
+}: {
+  rpcEndpoint: string;
+  onNewBlock: (height: number) => void;
+  enabled?: boolean;
+}) => {
+  const [isConnected, setIsConnected] = useState(false);
+
+  const onNewBlockRef = useRef(onNewBlock);
+  onNewBlockRef.current = onNewBlock;
+
+  useEffect(() => {
+    if (!rpcEndpoint || !enabled) return;
+
+    let socket: WebSocket | undefined;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+    let retries = 0;
+    let isUnmounted = false;
+
+    const connect = () => {
+      socket = new WebSocket(toWebsocketEndpoint(rpcEndpoint));
+
+      socket.onopen = () => {
+        retries = 0;
+        setIsConnected(true);
+        socket?.send(JSON.stringify(NEW_BLOCK_SUBSCRIPTION));
+      };
+
+      socket.onmessage = ({ data }) => {
+        const height = parseNewBlockEvent(data);
+        if (height) onNewBlockRef.current(height);
+      };
+
+      socket.onerror = () => socket?.close();
+
+      socket.onclose = () => {
+        setIsConnected(false);
+        if (isUnmounted) return;
+
+        // callers fall back to polling until the socket is back
+        const delay = Math.min(1000 * 2 ** retries, MAX_RECONNECT_DELAY);
+        retries += 1;
+        reconnectTimeout = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      isUnmounted = true;
+      clearTimeout(reconnectTimeout);
+      socket?.close();
+    };
+  }, [rpcEndpoint, enabled]);
+
+  return { isConnected };
+};
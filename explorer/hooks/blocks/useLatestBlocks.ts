@@ -0,0 +1,47 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+
+import {
+  BlockSummary,
+  fetchBlockSummary,
+  fetchLatestBlocks,
+  mergeBlocks,
+} from '@/utils';
+import { useRpcEndpoint } from '../common';
+import { useBlockSubscription } from './useBlockSubscription';
+
+const DEFAULT_BLOCKS_LIMIT = 20;
+const POLLING_INTERVAL = 6000;
+
+export const useLatestBlocks = (
+  chainName: string,
+  limit: number = DEFAULT_BLOCKS_LIMIT,
+) => {
+  const queryClient = useQueryClient();
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  const endpoint = rpcEndpoint?.toString() || '';
+  const queryKey = ['latestBlocks', chainName, limit];
+
+  const { isConnected: isStreaming } = useBlockSubscription({
+    rpcEndpoint: endpoint,
+    onNewBlock: async (height) => {
+      try {
+        const block = await fetchBlockSummary(endpoint, height);
+        queryClient.setQueryData<BlockSummary[]>(queryKey, (prev) =>
+          mergeBlocks([block], prev, limit),
+        );
+      } catch (error) {
+        console.error(error);
+      }
+    },
+  });
+
+  const blocksQuery = useQuery({
+    queryKey,
+    queryFn: () => fetchLatestBlocks(endpoint, limit),
+    enabled: !!endpoint,
+    refetchInterval: isStreaming ? false : POLLING_INTERVAL,
+  });
+
+  return { ...blocksQuery, isStreaming };
+};
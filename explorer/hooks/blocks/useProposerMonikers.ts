@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+
+import { useStakingData } from '../staking';
+
+/**
+ * Maps hex consensus addresses (as found in block headers) to validator
+ * monikers, using the validator set already fetched for the staking page.
+ */
+export const useProposerMonikers = (chainName: string) => {
+  const { data } = useStakingData(chainName);
+
+  return useMemo(() => {
+    const monikers: Record<string, string> = {};
+    if (!data) return monikers;
+
+    // recent blocks may have been proposed by validators since jailed or
+    // dropped from the active set
+    [
+      ...data.allValidators,
+      ...data.inactiveValidators,
+      ...data.jailedValidators,
+    ].forEach(({ consensusAddress, name }) => {
+      if (consensusAddress) monikers[consensusAddress] = name;
+    });
+    return monikers;
+  }, [data]);
+};
@@ -9,3 +9,8 @@ export * from './useRpcEndpoint';
 export * from './useSigningClient';
 export * from './useToastHandlers';
 export * from './useCustomSigningClient';
+export * from './useRestEndpoint';
+export * from './usePageKeys';
+export * from './useAllPages';
+export * from './useNow';
+export * from './useSimulateGas';
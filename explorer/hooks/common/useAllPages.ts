@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { QueryKey, useQuery } from '@tanstack/react-query';
+
+import {
+  fetchAllPages,
+  FetchAllPagesOptions,
+  PaginationRequest,
+  PaginationResponse,
+  PaginationProgress,
+} from '@/utils';
+
+/**
+ * Loads every page of a list query by following `pagination.nextKey`, and
+ * reports how many items have been loaded so far.
+ */
+export const useAllPages = <
+  Page extends { pagination?: PaginationResponse },
+  Item,
+  Data = Item[],
+>({
+  queryKey,
+  fetchPage,
+  getItems,
+  select,
+  enabled,
+  staleTime,
+  keepPreviousData,
+  limit,
+  reverse,
+}: {
+  queryKey: QueryKey;
+  fetchPage: (pagination: PaginationRequest) => Promise<Page>;
+  getItems: (page: Page) => Item[];
+  select?: (items: Item[]) => Data;
+  enabled: boolean;
+  staleTime?: number;
+  keepPreviousData?: boolean;
+} & Omit<FetchAllPagesOptions, 'onProgress'>) => {
+  const [progress, setProgress] = useState<PaginationProgress | null>(null);
+
+  const query = useQuery<Item[], unknown, Data>({
+    queryKey,
+    queryFn: () =>
+      fetchAllPages(fetchPage, getItems, {
+        limit,
+        reverse,
+        onProgress: setProgress,
+      }),
+    select,
+    enabled,
+    staleTime,
+    keepPreviousData,
+  });
+
+  return { ...query, progress };
+};
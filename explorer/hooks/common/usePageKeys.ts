@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Keeps the `pagination.key` of every visited page so list queries can move
+ * back and forth without offsets. The stack resets whenever `resetDeps`
+ * change (e.g. new filters).
+ */
+export const usePageKeys = <Key>(initialKey: Key, resetDeps: unknown[]) => {
+  const [pageKeys, setPageKeys] = useState<Key[]>([initialKey]);
+
+  useEffect(() => {
+    setPageKeys([initialKey]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, resetDeps);
+
+  const goToNextPage = useCallback((nextKey: Key) => {
+    setPageKeys((keys) => [...keys, nextKey]);
+  }, []);
+
+  const goToPrevPage = useCallback(() => {
+    setPageKeys((keys) => (keys.length > 1 ? keys.slice(0, -1) : keys));
+  }, []);
+
+  return {
+    pageKey: pageKeys[pageKeys.length - 1],
+    page: pageKeys.length,
+    hasPrevPage: pageKeys.length > 1,
+    goToNextPage,
+    goToPrevPage,
+  };
+};
@@ -0,0 +1,14 @@
+import { useChain } from '@interchain-kit/react';
+import { useQuery } from '@tanstack/react-query';
+
+export const useRestEndpoint = (chainName: string) => {
+  const { getRestEndpoint } = useChain(chainName);
+
+  return useQuery({
+    queryKey: ['restEndpoint', chainName],
+    queryFn: async () => {
+      return await getRestEndpoint();
+    },
+    staleTime: Infinity,
+  });
+};
@@ -0,0 +1,41 @@
+import { useChain } from '@interchain-kit/react';
+import { useMutation } from '@tanstack/react-query';
+
+import { useSigningClient } from './useSigningClient';
+
+// simulation runs against the current state, leave room for it to change
+const GAS_ADJUSTMENT = 1.4;
+
+export type EncodeObject = {
+  typeUrl: string;
+  value: unknown;
+};
+
+/** Simulates a transaction and returns the gas limit to broadcast it with. */
+export const useSimulateGas = (chainName: string) => {
+  const { address } = useChain(chainName);
+  const { data: signingClient } = useSigningClient(chainName);
+
+  return useMutation({
+    mutationFn: async ({
+      messages,
+      memo,
+    }: {
+      messages: EncodeObject[];
+      memo?: string;
+    }) => {
+      if (!signingClient || !address) {
+        throw new Error('Connect your wallet to simulate the transaction');
+      }
+
+      const gasUsed = Number(
+        await signingClient.simulate(address, messages, memo),
+      );
+      if (!Number.isFinite(gasUsed) || gasUsed <= 0) {
+        throw new Error('Failed to simulate the transaction');
+      }
+
+      return Math.ceil(gasUsed * GAS_ADJUSTMENT).toString();
+    },
+  });
+};
@@ -1,7 +1,6 @@
 import Link from 'next/link';
 import { useState, useCallback } from 'react';
 import { Box, Text, Icon } from '@interchain-ui/react';
-import { useChain } from '@interchain-kit/react';
 
 import { useToast } from '../common';
 import { getExplorerLink } from '@/utils';
@@ -15,7 +14,6 @@ interface HandleTxParams<T> {
 
 export const useHandleTx = (chainName: string) => {
   const { toast } = useToast();
-  const { chain } = useChain(chainName);
   const [toastId, setToastId] = useState<string | number | undefined>();
 
   return useCallback(
@@ -41,16 +39,16 @@ export const useHandleTx = (chainName: string) => {
         onTxSucceed(result);
         toast.close(toastId);
 
-        const explorerLink = getExplorerLink(chain, result?.transactionHash);
+        const explorerLink = getExplorerLink(result?.transactionHash);
 
         toast({
           title: successMessage,
           type: 'success',
           description: explorerLink ? (
-            <Link href={explorerLink} target="_blank">
+            <Link href={explorerLink}>
               <Box display="flex" gap="6px" alignItems="center" color="$text">
                 <Text fontSize="14px">View tx details</Text>
-                <Icon name="externalLinkLine" />
+                <Icon name="arrowRightLine" />
               </Box>
             </Link>
           ) : undefined,
@@ -1,9 +1,8 @@
 import { useChain } from '@interchain-kit/react';
-import { useGetContractsByCreator } from '@interchainjs/react/cosmwasm/wasm/v1/query.rpc.react';
-import { defaultContext } from '@tanstack/react-query';
+import { getContractsByCreator } from '@interchainjs/react/cosmwasm/wasm/v1/query.rpc.func';
 
 import { useChainStore } from '@/contexts';
-import { useRpcEndpoint } from '../common';
+import { useAllPages, useRpcEndpoint } from '../common';
 
 export type WasmContractInfo = {
   address: string;
@@ -30,37 +29,32 @@ export const useMyContracts = () => {
   const { address } = useChain(selectedChain);
   const { data: rpcEndpoint } = useRpcEndpoint(selectedChain);
 
-  const { data, isLoading } = useGetContractsByCreator({
-    request: {
-      creatorAddress: address || '',
-      pagination: {
-        limit: 1000n,
-        reverse: true,
-        countTotal: false,
-        key: new Uint8Array(),
-        offset: 0n,
-      },
+  const { data, isLoading, refetch } = useAllPages({
+    queryKey: ['contractsByCreator', selectedChain, address],
+    fetchPage: (pagination) =>
+      getContractsByCreator(rpcEndpoint!.toString(), {
+        creatorAddress: address!,
+        pagination,
+      }),
+    getItems: ({ contractAddresses }) => contractAddresses,
+    select: (contractAddresses) => {
+      const contracts: Contracts = {
+        wasmContracts: contractAddresses.map((address) => ({
+          address,
+          contractInfo: {
+            label: 'Contract', // Placeholder - full implementation would fetch this
+            codeId: 0n,
+            admin: '',
+            creator: '',
+          },
+        })),
+      };
+      return contracts;
     },
-    options: {
-      enabled: !!address && !!rpcEndpoint,
-      select: ({ contractAddresses }) => {
-        const contracts: Contracts = {
-          wasmContracts: contractAddresses.map((address) => ({
-            address,
-            contractInfo: {
-              label: 'Contract', // Placeholder - full implementation would fetch this
-              codeId: 0n,
-              admin: '',
-              creator: '',
-            },
-          })),
-        };
-        return contracts;
-      },
-      context: defaultContext,
-    },
-    clientResolver: rpcEndpoint,
+    enabled: !!address && !!rpcEndpoint,
+    limit: 1000n,
+    reverse: true,
   });
 
-  return { data, isLoading };
+  return { data, isLoading, refetch };
 };
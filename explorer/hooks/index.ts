@@ -3,3 +3,9 @@ export * from './staking';
 export * from './voting';
 export * from './asset-list';
 export * from './contract';
+export * from './blocks';
+export * from './transactions';
+export * from './account';
+export * from './validators';
+export * from './akash';
+export * from './indexer';
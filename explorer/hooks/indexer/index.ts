@@ -0,0 +1,2 @@
+export * from './useIndexerStatus';
+export * from './useIndexedTxs';
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchIndexedAddressTxs } from '@/utils';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export const useIndexedAddressTxs = (
+  address: string,
+  { limit = DEFAULT_PAGE_SIZE } = {},
+) => {
+  const [page, setPage] = useState(1);
+  const offset = (page - 1) * limit;
+
+  useEffect(() => {
+    setPage(1);
+  }, [address]);
+
+  const query = useQuery({
+    queryKey: ['indexedAddressTxs', address, limit, offset],
+    queryFn: () => fetchIndexedAddressTxs(address, { limit, offset }),
+    enabled: !!address,
+    keepPreviousData: true,
+    retry: false,
+  });
+
+  return {
+    ...query,
+    page,
+    hasPrevPage: page > 1,
+    hasNextPage: !!query.data && offset + limit < query.data.total,
+    goToNextPage: () => setPage((prev) => prev + 1),
+    goToPrevPage: () => setPage((prev) => Math.max(prev - 1, 1)),
+  };
+};
@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchIndexerStatus } from '@/utils';
+
+export const useIndexerStatus = () => {
+  return useQuery({
+    queryKey: ['indexerStatus'],
+    queryFn: fetchIndexerStatus,
+    refetchInterval: 10000,
+    retry: false,
+  });
+};
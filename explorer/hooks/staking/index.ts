@@ -1,3 +1,7 @@
 export * from './useStakingData';
 export * from './useAssetsPrices';
 export * from './useValidatorLogos';
+export * from './useInflation';
+export * from './useCancelUnbondingSupport';
+export * from './useRestakeGrants';
+export * from './useRealizedApr';
@@ -0,0 +1,34 @@
+import { defaultContext } from '@tanstack/react-query';
+import { useGetModuleVersions } from '@interchainjs/react/cosmos/upgrade/v1beta1/query.rpc.react';
+
+import { useRpcEndpoint } from '../common';
+
+// MsgCancelUnbondingDelegation shipped with staking consensus version 3 (SDK 0.46)
+const CANCEL_UNBONDING_STAKING_VERSION = 3n;
+
+/**
+ * Whether the chain's staking module accepts `MsgCancelUnbondingDelegation`.
+ * Chains too old to serve module versions are treated as unsupported.
+ */
+export const useCancelUnbondingSupport = (chainName: string) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  return useGetModuleVersions({
+    request: {
+      moduleName: 'staking',
+    },
+    options: {
+      context: defaultContext,
+      enabled: !!rpcEndpoint,
+      select: ({ moduleVersions }) =>
+        moduleVersions.some(
+          ({ name, version }) =>
+            name === 'staking' && version >= CANCEL_UNBONDING_STAKING_VERSION,
+        ),
+      retry: false,
+      staleTime: Infinity,
+    },
+    clientResolver: rpcEndpoint,
+    customizedQueryKey: ['cancelUnbondingSupport', chainName],
+  });
+};
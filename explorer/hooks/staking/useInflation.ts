@@ -0,0 +1,84 @@
+import { useChain } from '@interchain-kit/react';
+import { useQuery } from '@tanstack/react-query';
+import { getSupplyOf } from '@interchainjs/react/cosmos/bank/v1beta1/query.rpc.func';
+import { getInflation } from '@interchainjs/react/cosmos/mint/v1beta1/query.rpc.func';
+
+import {
+  AkashInflationParams,
+  calcAkashInflation,
+  fetchRest,
+  getAprProvider,
+  getNativeAsset,
+  InflationSource,
+  parseMintDec,
+} from '@/utils';
+import { useRestEndpoint, useRpcEndpoint } from '../common';
+
+type InflationContext = {
+  rpcEndpoint: string;
+  restEndpoint?: string;
+  genesisTime?: string;
+};
+
+const getMinterInflation = async (rpcEndpoint: string) => {
+  // chains with a custom mint module may not serve this query
+  return getInflation(rpcEndpoint, {})
+    .then(({ inflation }) => parseMintDec(inflation))
+    .catch(() => null);
+};
+
+const inflationProviders: Record<
+  InflationSource,
+  (context: InflationContext) => Promise<string | null>
+> = {
+  mint: ({ rpcEndpoint }) => getMinterInflation(rpcEndpoint),
+  akash: async ({ rpcEndpoint, restEndpoint, genesisTime }) => {
+    if (!restEndpoint) return getMinterInflation(rpcEndpoint);
+
+    const [{ params }, minterInflation] = await Promise.all([
+      fetchRest<{ params: AkashInflationParams }>(
+        restEndpoint,
+        'akash/inflation/v1beta3/params',
+      ),
+      getMinterInflation(rpcEndpoint),
+    ]);
+    return calcAkashInflation({
+      params,
+      genesisTime: genesisTime!,
+      minterInflation,
+    }).toString();
+  },
+};
+
+/**
+ * Yearly inflation from the chain's APR provider, and the bank supply of the
+ * staking denom it applies to.
+ */
+export const useInflation = (chainName: string) => {
+  const { assetList } = useChain(chainName);
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+  const { data: restEndpoint, isLoading: isRestEndpointLoading } =
+    useRestEndpoint(chainName);
+
+  const coin = getNativeAsset(assetList);
+  const { source, genesisTime } = getAprProvider(chainName);
+
+  return useQuery({
+    queryKey: ['inflation', chainName, source],
+    queryFn: async () => {
+      const [rate, { amount }] = await Promise.all([
+        inflationProviders[source]({
+          rpcEndpoint: rpcEndpoint!.toString(),
+          restEndpoint,
+          genesisTime,
+        }),
+        getSupplyOf(rpcEndpoint!.toString(), { denom: coin.base }),
+      ]);
+      return { rate, totalSupply: amount?.amount || '0', source };
+    },
+    // without a REST endpoint the akash provider falls back to the minter
+    enabled: !!rpcEndpoint && !isRestEndpointLoading,
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+};
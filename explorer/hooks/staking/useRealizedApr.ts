@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+
+import { appendRewardSample, calcRealizedApr, RewardSample } from '@/utils';
+
+const getStorageKey = (chainName: string, address: string) =>
+  `rewardSamples:${chainName}:${address}`;
+
+const readSamples = (key: string): RewardSample[] => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Records pending rewards each time they are loaded and derives the APR they
+ * actually accrued at. Samples persist across visits, so the estimate gets
+ * better the longer the delegation is left untouched.
+ */
+export const useRealizedApr = (
+  chainName: string,
+  address: string | undefined,
+  rewards: string | undefined,
+  delegated: string | undefined,
+) => {
+  const [samples, setSamples] = useState<RewardSample[]>([]);
+
+  useEffect(() => {
+    if (!address || rewards === undefined || delegated === undefined) {
+      setSamples([]);
+      return;
+    }
+
+    const key = getStorageKey(chainName, address);
+    const next = appendRewardSample(readSamples(key), {
+      time: Date.now(),
+      rewards,
+      delegated,
+    });
+
+    localStorage.setItem(key, JSON.stringify(next));
+    setSamples(next);
+  }, [chainName, address, rewards, delegated]);
+
+  return calcRealizedApr(samples);
+};
@@ -0,0 +1,28 @@
+import { useChain } from '@interchain-kit/react';
+import { getGranterGrants } from '@interchainjs/react/cosmos/authz/v1beta1/query.rpc.func';
+
+import {
+  getExponentFromAsset,
+  getNativeAsset,
+  parseRestakeGrants,
+} from '@/utils';
+import { useAllPages, useRpcEndpoint } from '../common';
+
+export const useRestakeGrants = (chainName: string) => {
+  const { address, assetList } = useChain(chainName);
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  const exp = getExponentFromAsset(getNativeAsset(assetList));
+
+  return useAllPages({
+    queryKey: ['restakeGrants', chainName, address],
+    fetchPage: (pagination) =>
+      getGranterGrants(rpcEndpoint!.toString(), {
+        granter: address!,
+        pagination,
+      }),
+    getItems: ({ grants }) => grants,
+    select: (grants) => parseRestakeGrants(grants, -exp),
+    enabled: !!address && !!rpcEndpoint,
+  });
+};
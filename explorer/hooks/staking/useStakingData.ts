@@ -1,53 +1,66 @@
 import { useMemo } from 'react';
 import { useChain } from '@interchain-kit/react';
 import BigNumber from 'bignumber.js';
-import {
-  BondStatus,
-  bondStatusToJSON,
-} from '@interchainjs/react/cosmos/staking/v1beta1/staking';
 import { useGetBalance } from '@interchainjs/react/cosmos/bank/v1beta1/query.rpc.react';
 import {
-  useGetDelegatorValidators,
-  useGetDelegatorDelegations,
-  useGetValidators,
   useGetParams as useStakingParams,
   useGetPool,
 } from '@interchainjs/react/cosmos/staking/v1beta1/query.rpc.react';
+import {
+  getDelegatorDelegations,
+  getDelegatorUnbondingDelegations,
+  getDelegatorValidators,
+  getRedelegations,
+  getValidators,
+} from '@interchainjs/react/cosmos/staking/v1beta1/query.rpc.func';
 import {
   useGetDelegationTotalRewards,
   useGetParams as useDistributionParams,
 } from '@interchainjs/react/cosmos/distribution/v1beta1/query.rpc.react';
-import { useGetAnnualProvisions } from '@interchainjs/react/cosmos/mint/v1beta1/query.rpc.react';
 import { defaultContext } from '@tanstack/react-query';
 
 import { useAssetsPrices } from './useAssetsPrices';
+import { useInflation } from './useInflation';
 import {
   shiftDigits,
   calcTotalDelegation,
   extendValidators,
-  parseAnnualProvisions,
   parseDelegations,
+  parseRedelegations,
   parseRewards,
+  parseUnbondingDelegations,
   parseUnbondingDays,
   parseValidators,
   getNativeAsset,
   getExponentFromAsset,
 } from '@/utils';
-import { useRpcEndpoint } from '../common';
+import { useAllPages, useRpcEndpoint } from '../common';
 
 (BigInt.prototype as any).toJSON = function () {
   return this.toString();
 };
 
-export const useStakingData = (chainName: string) => {
-  const { address, assetList } = useChain(chainName);
+const EMPTY_ACCOUNT_DATA = {
+  balance: '0',
+  myValidators: [],
+  rewards: { byValidators: [], total: '0' },
+  delegations: [],
+  unbondings: [],
+  redelegations: [],
+};
+
+export const useStakingData = (chainName: string, explicitAddress?: string) => {
+  const { address: walletAddress, assetList } = useChain(chainName);
+  const address = explicitAddress || walletAddress;
 
   const coin = getNativeAsset(assetList);
   const exp = getExponentFromAsset(coin);
 
   const { data: rpcEndpoint } = useRpcEndpoint(chainName);
 
-  const isDataQueryEnabled = !!address && !!rpcEndpoint;
+  // chain-wide queries run without a wallet, account queries need an address
+  const isChainQueryEnabled = !!rpcEndpoint;
+  const isAccountQueryEnabled = !!address && isChainQueryEnabled;
 
   const balanceQuery = useGetBalance({
     request: {
@@ -56,24 +69,23 @@ export const useStakingData = (chainName: string) => {
     },
     options: {
       context: defaultContext,
-      enabled: isDataQueryEnabled,
+      enabled: isAccountQueryEnabled,
       select: ({ balance }) => shiftDigits(balance?.amount || '0', -exp),
       refetchOnMount: 'always',
     },
     clientResolver: rpcEndpoint,
   });
 
-  const myValidatorsQuery = useGetDelegatorValidators({
-    request: {
-      delegatorAddr: address || '',
-      pagination: undefined,
-    },
-    options: {
-      context: defaultContext,
-      enabled: isDataQueryEnabled,
-      select: ({ validators }) => parseValidators(validators),
-    },
-    clientResolver: rpcEndpoint,
+  const myValidatorsQuery = useAllPages({
+    queryKey: ['delegatorValidators', chainName, address],
+    fetchPage: (pagination) =>
+      getDelegatorValidators(rpcEndpoint!.toString(), {
+        delegatorAddr: address!,
+        pagination,
+      }),
+    getItems: ({ validators }) => validators,
+    select: parseValidators,
+    enabled: isAccountQueryEnabled,
   });
 
   const rewardsQuery = useGetDelegationTotalRewards({
@@ -82,85 +94,86 @@ export const useStakingData = (chainName: string) => {
     },
     options: {
       context: defaultContext,
-      enabled: isDataQueryEnabled,
+      enabled: isAccountQueryEnabled,
       select: (data) => parseRewards(data, coin.base, -exp),
     },
     clientResolver: rpcEndpoint,
   });
 
-  const validatorsQuery = useGetValidators({
-    request: {
-      status: bondStatusToJSON(BondStatus.BOND_STATUS_BONDED),
-      pagination: {
-        key: new Uint8Array(),
-        offset: 0n,
-        limit: 200n,
-        countTotal: true,
-        reverse: false,
-      },
+  const validatorsQuery = useAllPages({
+    queryKey: ['validators', chainName],
+    fetchPage: (pagination) =>
+      // every status, so delegations to inactive or jailed validators show up
+      getValidators(rpcEndpoint!.toString(), { status: '', pagination }),
+    getItems: ({ validators }) => validators,
+    select: (validators) => {
+      const sorted = [...validators].sort((a, b) =>
+        new BigNumber(b.tokens).minus(a.tokens).toNumber(),
+      );
+      return parseValidators(sorted);
     },
-    options: {
-      context: defaultContext,
-      enabled: isDataQueryEnabled,
-      select: ({ validators }) => {
-        const sorted = validators.sort((a, b) =>
-          new BigNumber(b.tokens).minus(a.tokens).toNumber(),
-        );
-        return parseValidators(sorted);
-      },
-    },
-    clientResolver: rpcEndpoint,
-    customizedQueryKey: ['validators', chainName],
+    enabled: isChainQueryEnabled,
   });
 
-  const delegationsQuery = useGetDelegatorDelegations({
-    request: {
-      delegatorAddr: address || '',
-      pagination: {
-        key: new Uint8Array(),
-        offset: 0n,
-        limit: 100n,
-        countTotal: true,
-        reverse: false,
-      },
-    },
-    options: {
-      context: defaultContext,
-      enabled: isDataQueryEnabled,
-      select: ({ delegationResponses }) =>
-        parseDelegations(delegationResponses, -exp),
-    },
-    clientResolver: rpcEndpoint,
+  const delegationsQuery = useAllPages({
+    queryKey: ['delegatorDelegations', chainName, address],
+    fetchPage: (pagination) =>
+      getDelegatorDelegations(rpcEndpoint!.toString(), {
+        delegatorAddr: address!,
+        pagination,
+      }),
+    getItems: ({ delegationResponses }) => delegationResponses,
+    select: (delegationResponses) =>
+      parseDelegations(delegationResponses, -exp),
+    enabled: isAccountQueryEnabled,
+  });
+
+  const unbondingsQuery = useAllPages({
+    queryKey: ['delegatorUnbondings', chainName, address],
+    fetchPage: (pagination) =>
+      getDelegatorUnbondingDelegations(rpcEndpoint!.toString(), {
+        delegatorAddr: address!,
+        pagination,
+      }),
+    getItems: ({ unbondingResponses }) => unbondingResponses,
+    select: (unbondingResponses) =>
+      parseUnbondingDelegations(unbondingResponses, -exp),
+    enabled: isAccountQueryEnabled,
+  });
+
+  const redelegationsQuery = useAllPages({
+    queryKey: ['delegatorRedelegations', chainName, address],
+    fetchPage: (pagination) =>
+      getRedelegations(rpcEndpoint!.toString(), {
+        delegatorAddr: address!,
+        srcValidatorAddr: '',
+        dstValidatorAddr: '',
+        pagination,
+      }),
+    getItems: ({ redelegationResponses }) => redelegationResponses,
+    select: (redelegationResponses) =>
+      parseRedelegations(redelegationResponses, -exp),
+    enabled: isAccountQueryEnabled,
   });
 
   const unbondingDaysQuery = useStakingParams({
     request: {},
     options: {
       context: defaultContext,
-      enabled: isDataQueryEnabled,
+      enabled: isChainQueryEnabled,
       select: ({ params }) => parseUnbondingDays(params),
     },
     clientResolver: rpcEndpoint,
     customizedQueryKey: ['unbondingDays', chainName],
   });
 
-  const annualProvisionsQuery = useGetAnnualProvisions({
-    request: {},
-    options: {
-      context: defaultContext,
-      enabled: isDataQueryEnabled,
-      select: parseAnnualProvisions,
-      retry: false,
-    },
-    clientResolver: rpcEndpoint,
-    customizedQueryKey: ['annualProvisions', chainName],
-  });
+  const inflationQuery = useInflation(chainName);
 
   const poolQuery = useGetPool({
     request: {},
     options: {
       context: defaultContext,
-      enabled: isDataQueryEnabled,
+      enabled: isChainQueryEnabled,
       select: ({ pool }) => pool,
     },
     clientResolver: rpcEndpoint,
@@ -171,7 +184,7 @@ export const useStakingData = (chainName: string) => {
     request: {},
     options: {
       context: defaultContext,
-      enabled: isDataQueryEnabled,
+      enabled: isChainQueryEnabled,
       select: ({ params }) => shiftDigits(params?.communityTax || '0', -18),
     },
     clientResolver: rpcEndpoint,
@@ -180,37 +193,48 @@ export const useStakingData = (chainName: string) => {
 
   const pricesQuery = useAssetsPrices();
 
-  const allQueries = {
+  const accountQueries = {
     balance: balanceQuery,
     myValidators: myValidatorsQuery,
     rewards: rewardsQuery,
-    allValidators: validatorsQuery,
     delegations: delegationsQuery,
+    unbondings: unbondingsQuery,
+    redelegations: redelegationsQuery,
+  };
+
+  const chainQueries = {
+    allValidators: validatorsQuery,
     unbondingDays: unbondingDaysQuery,
-    annualProvisions: annualProvisionsQuery,
+    inflation: inflationQuery,
     pool: poolQuery,
     communityTax: communityTaxQuery,
     prices: pricesQuery,
   };
 
+  const allQueries = { ...accountQueries, ...chainQueries };
+
+  // disabled queries stay in the loading state, so skip them without a wallet
+  const activeQueries = Object.values(address ? allQueries : chainQueries);
+
   const updatableQueriesAfterMutation = [
     allQueries.balance,
     allQueries.myValidators,
     allQueries.rewards,
     allQueries.allValidators,
     allQueries.delegations,
+    allQueries.unbondings,
+    allQueries.redelegations,
   ];
 
-  const isInitialFetching = Object.values(allQueries).some(
-    ({ isLoading }) => isLoading,
-  );
+  const isInitialFetching =
+    !isChainQueryEnabled || activeQueries.some(({ isLoading }) => isLoading);
 
-  const isRefetching = Object.values(allQueries).some(
-    ({ isRefetching }) => isRefetching,
-  );
+  const isRefetching = activeQueries.some(({ isRefetching }) => isRefetching);
 
   const isLoading = isInitialFetching || isRefetching;
 
+  const isError = activeQueries.some(({ isError }) => isError);
+
   type AllQueries = typeof allQueries;
 
   type QueriesData = {
@@ -224,17 +248,25 @@ export const useStakingData = (chainName: string) => {
       Object.entries(allQueries).map(([key, query]) => [key, query.data]),
     ) as QueriesData;
 
+    if (!address) Object.assign(queriesData, EMPTY_ACCOUNT_DATA);
+
     const {
       allValidators,
       delegations,
       rewards,
       myValidators,
-      annualProvisions,
+      inflation,
       communityTax,
       pool,
     } = queriesData;
 
-    const chainMetadata = { annualProvisions, communityTax, pool };
+    // inflation is missing when the APR provider fails, leaving APR empty
+    const chainMetadata = {
+      inflation: inflation?.rate ?? '',
+      totalSupply: inflation?.totalSupply ?? '',
+      communityTax,
+      pool,
+    };
 
     const extendedAllValidators = extendValidators(
       allValidators,
@@ -254,16 +286,31 @@ export const useStakingData = (chainName: string) => {
 
     return {
       ...queriesData,
-      allValidators: extendedAllValidators,
+      allValidators: extendedAllValidators.filter(
+        ({ status }) => status === 'Active',
+      ),
+      inactiveValidators: extendedAllValidators.filter(
+        ({ status }) => status === 'Inactive' || status === 'Unbonding',
+      ),
+      jailedValidators: extendedAllValidators.filter(
+        ({ status }) => status === 'Jailed',
+      ),
       myValidators: extendedMyValidators,
       totalDelegated,
+      chainMetadata,
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isLoading]);
+  }, [isLoading, address]);
 
   const refetch = () => {
     updatableQueriesAfterMutation.forEach((query) => query.refetch());
   };
 
-  return { data, isLoading, refetch };
+  return {
+    data,
+    isLoading,
+    isError,
+    refetch,
+    progress: validatorsQuery.progress,
+  };
 };
@@ -0,0 +1,3 @@
+export * from './useTransactions';
+export * from './useTransaction';
+export * from './useAddressFirstTxHeight';
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchAddressFirstTxHeight } from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+export const useAddressFirstTxHeight = (
+  chainName: string,
+  address: string,
+  { enabled = true } = {},
+) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  return useQuery({
+    queryKey: ['addressFirstTxHeight', chainName, address],
+    queryFn: () => fetchAddressFirstTxHeight(rpcEndpoint!.toString(), address),
+    enabled: enabled && !!rpcEndpoint && !!address,
+    staleTime: Infinity,
+  });
+};
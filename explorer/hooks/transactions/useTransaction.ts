@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchTransaction } from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+export const useTransaction = (chainName: string, hash: string) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  return useQuery({
+    queryKey: ['transaction', chainName, hash],
+    queryFn: () => fetchTransaction(rpcEndpoint!.toString(), hash),
+    enabled: !!rpcEndpoint && !!hash,
+    staleTime: Infinity,
+  });
+};
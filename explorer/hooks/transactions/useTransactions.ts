@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchTransactions, TxCursor } from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export const useTransactions = (
+  chainName: string,
+  { query, limit = DEFAULT_PAGE_SIZE }: { query?: string; limit?: number } = {},
+) => {
+  // the latest-blocks listing has no `prevCursor`, so keep the visited ones
+  const [cursors, setCursors] = useState<TxCursor[]>([]);
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  useEffect(() => {
+    setCursors([]);
+  }, [chainName, query]);
+
+  const cursor = cursors[cursors.length - 1];
+
+  const txsQuery = useQuery({
+    queryKey: ['transactions', chainName, query, cursor, limit],
+    queryFn: () =>
+      fetchTransactions(rpcEndpoint!.toString(), { cursor, limit, query }),
+    enabled: !!rpcEndpoint,
+    keepPreviousData: true,
+    staleTime: Infinity,
+  });
+
+  const { data } = txsQuery;
+
+  return {
+    ...txsQuery,
+    page: data?.cursor.page ?? 1,
+    hasNextPage: !!data?.nextCursor,
+    hasPrevPage: cursors.length > 0,
+    goToNextPage: () =>
+      data?.nextCursor && setCursors([...cursors, data.nextCursor]),
+    goToPrevPage: () => setCursors(cursors.slice(0, -1)),
+  };
+};
@@ -0,0 +1,10 @@
+export * from './useValidator';
+export * from './useSigningInfo';
+export * from './useSignedBlocks';
+export * from './useSelfBond';
+export * from './useValidatorDelegators';
+export * from './useCommissionHistory';
+export * from './useValidatorConsistency';
+export * from './useSigningInfos';
+export * from './useValidatorComparison';
+export * from './useValidatorMonikers';
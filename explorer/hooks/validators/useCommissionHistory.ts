@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchCommissionHistory } from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+export const useCommissionHistory = (
+  chainName: string,
+  accountAddress: string,
+) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  return useQuery({
+    queryKey: ['commissionHistory', chainName, accountAddress],
+    queryFn: () =>
+      fetchCommissionHistory(rpcEndpoint!.toString(), accountAddress),
+    enabled: !!rpcEndpoint && !!accountAddress,
+    staleTime: Infinity,
+  });
+};
@@ -0,0 +1,34 @@
+import { useChain } from '@interchain-kit/react';
+import { defaultContext } from '@tanstack/react-query';
+import { useGetDelegation } from '@interchainjs/react/cosmos/staking/v1beta1/query.rpc.react';
+
+import { getExponentFromAsset, getNativeAsset, shiftDigits } from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+export const useSelfBond = (
+  chainName: string,
+  operatorAddress: string,
+  accountAddress: string,
+) => {
+  const { assetList } = useChain(chainName);
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  const exp = getExponentFromAsset(getNativeAsset(assetList));
+
+  return useGetDelegation({
+    request: {
+      delegatorAddr: accountAddress,
+      validatorAddr: operatorAddress,
+    },
+    options: {
+      context: defaultContext,
+      enabled: !!accountAddress && !!operatorAddress && !!rpcEndpoint,
+      select: ({ delegationResponse }) =>
+        shiftDigits(delegationResponse?.balance?.amount || '0', -exp),
+      // operators that withdrew their whole self-bond have no delegation
+      retry: false,
+    },
+    clientResolver: rpcEndpoint,
+    customizedQueryKey: ['selfBond', chainName, operatorAddress],
+  });
+};
@@ -0,0 +1,31 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { fetchSignedBlocks, SignedBlock } from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+const DEFAULT_BLOCKS_COUNT = 100;
+
+export const useSignedBlocks = (
+  chainName: string,
+  consensusAddress: string,
+  count: number = DEFAULT_BLOCKS_COUNT,
+) => {
+  const queryClient = useQueryClient();
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  const queryKey = ['signedBlocks', chainName, consensusAddress, count];
+
+  return useQuery({
+    queryKey,
+    // refreshes only fetch the commits of blocks that are not loaded yet
+    queryFn: () =>
+      fetchSignedBlocks(
+        rpcEndpoint!.toString(),
+        consensusAddress,
+        count,
+        queryClient.getQueryData<SignedBlock[]>(queryKey),
+      ),
+    enabled: !!rpcEndpoint && !!consensusAddress,
+    refetchInterval: 30000,
+  });
+};
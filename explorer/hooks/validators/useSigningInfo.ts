@@ -0,0 +1,47 @@
+import { defaultContext } from '@tanstack/react-query';
+import {
+  useGetParams,
+  useGetSigningInfo,
+} from '@interchainjs/react/cosmos/slashing/v1beta1/query.rpc.react';
+
+import { parseSigningInfo } from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+export const useSigningInfo = (chainName: string, valconsAddress: string) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  const isEnabled = !!valconsAddress && !!rpcEndpoint;
+
+  const paramsQuery = useGetParams({
+    request: {},
+    options: {
+      context: defaultContext,
+      enabled: !!rpcEndpoint,
+      select: ({ params }) => params?.signedBlocksWindow,
+    },
+    clientResolver: rpcEndpoint,
+    customizedQueryKey: ['slashingParams', chainName],
+  });
+
+  const signingInfoQuery = useGetSigningInfo({
+    request: { consAddress: valconsAddress },
+    options: {
+      context: defaultContext,
+      enabled: isEnabled,
+      select: ({ valSigningInfo }) => valSigningInfo,
+      retry: false,
+    },
+    clientResolver: rpcEndpoint,
+    customizedQueryKey: ['signingInfo', chainName, valconsAddress],
+  });
+
+  const isLoading = paramsQuery.isLoading || signingInfoQuery.isLoading;
+
+  return {
+    data: isLoading
+      ? undefined
+      : parseSigningInfo(signingInfoQuery.data, paramsQuery.data),
+    isLoading,
+    isError: signingInfoQuery.isError,
+  };
+};
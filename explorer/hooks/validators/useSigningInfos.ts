@@ -0,0 +1,42 @@
+import { defaultContext } from '@tanstack/react-query';
+import { useGetParams } from '@interchainjs/react/cosmos/slashing/v1beta1/query.rpc.react';
+import { getSigningInfos } from '@interchainjs/react/cosmos/slashing/v1beta1/query.rpc.func';
+
+import { parseSigningInfos } from '@/utils';
+import { useAllPages, useRpcEndpoint } from '../common';
+
+/**
+ * Signing infos of every validator, keyed by hex consensus address, for the
+ * jailed and tombstoned badges in validator lists.
+ */
+export const useSigningInfos = (chainName: string) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  const paramsQuery = useGetParams({
+    request: {},
+    options: {
+      context: defaultContext,
+      enabled: !!rpcEndpoint,
+      select: ({ params }) => params?.signedBlocksWindow,
+    },
+    clientResolver: rpcEndpoint,
+    customizedQueryKey: ['slashingParams', chainName],
+  });
+
+  const signingInfosQuery = useAllPages({
+    queryKey: ['signingInfos', chainName],
+    fetchPage: (pagination) =>
+      getSigningInfos(rpcEndpoint!.toString(), { pagination }),
+    getItems: ({ info }) => info,
+    enabled: !!rpcEndpoint,
+  });
+
+  const isLoading = paramsQuery.isLoading || signingInfosQuery.isLoading;
+
+  return {
+    data: isLoading
+      ? undefined
+      : parseSigningInfos(signingInfosQuery.data ?? [], paramsQuery.data),
+    isLoading,
+  };
+};
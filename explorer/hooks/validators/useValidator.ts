@@ -0,0 +1,28 @@
+import { useChain } from '@interchain-kit/react';
+import { defaultContext } from '@tanstack/react-query';
+import { useGetValidator } from '@interchainjs/react/cosmos/staking/v1beta1/query.rpc.react';
+
+import {
+  getExponentFromAsset,
+  getNativeAsset,
+  parseValidatorDetail,
+} from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+export const useValidator = (chainName: string, operatorAddress: string) => {
+  const { assetList } = useChain(chainName);
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  const exp = getExponentFromAsset(getNativeAsset(assetList));
+
+  return useGetValidator({
+    request: { validatorAddr: operatorAddress },
+    options: {
+      context: defaultContext,
+      enabled: !!operatorAddress && !!rpcEndpoint,
+      select: ({ validator }) => parseValidatorDetail(validator, -exp),
+    },
+    clientResolver: rpcEndpoint,
+    customizedQueryKey: ['validator', chainName, operatorAddress],
+  });
+};
@@ -0,0 +1,166 @@
+import BigNumber from 'bignumber.js';
+import { useChain } from '@interchain-kit/react';
+import { useQueries, useQuery } from '@tanstack/react-query';
+import {
+  getDelegation,
+  getValidator,
+} from '@interchainjs/react/cosmos/staking/v1beta1/query.rpc.func';
+import { getValidatorSlashes } from '@interchainjs/react/cosmos/distribution/v1beta1/query.rpc.func';
+import { getProposals } from '@interchainjs/react/cosmos/gov/v1/query.rpc.func';
+import { ProposalStatus } from '@interchainjs/react/cosmos/gov/v1/gov';
+
+import {
+  calcGovernanceParticipation,
+  fetchAccountVotes,
+  fetchLatestHeight,
+  getExponentFromAsset,
+  getNativeAsset,
+  parseValidatorDetail,
+  shiftDigits,
+  toAccountAddress,
+} from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+const RECENT_PROPOSALS_LIMIT = 20;
+
+const ENDED_PROPOSAL_STATUSES = [
+  ProposalStatus.PROPOSAL_STATUS_PASSED,
+  ProposalStatus.PROPOSAL_STATUS_REJECTED,
+  ProposalStatus.PROPOSAL_STATUS_FAILED,
+];
+
+/**
+ * Per validator details that are not part of the validator list: commission
+ * limits, self-bond, slashes and how many recently ended proposals the
+ * operator voted on.
+ */
+export const useValidatorComparison = (
+  chainName: string,
+  operatorAddresses: string[],
+) => {
+  const { assetList, chain } = useChain(chainName);
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  const exp = getExponentFromAsset(getNativeAsset(assetList));
+  const prefix = chain.bech32Prefix ?? '';
+  const endpoint = rpcEndpoint?.toString() ?? '';
+
+  const recentProposalsQuery = useQuery({
+    queryKey: ['recentEndedProposals', chainName],
+    queryFn: async () => {
+      const { proposals } = await getProposals(endpoint, {
+        proposalStatus: ProposalStatus.PROPOSAL_STATUS_UNSPECIFIED,
+        voter: '',
+        depositor: '',
+        pagination: {
+          key: new Uint8Array(),
+          offset: 0n,
+          // proposals still in deposit or voting are skipped below
+          limit: BigInt(RECENT_PROPOSALS_LIMIT * 2),
+          countTotal: false,
+          reverse: true,
+        },
+      });
+      return proposals
+        .filter(({ status }) => ENDED_PROPOSAL_STATUSES.includes(status))
+        .slice(0, RECENT_PROPOSALS_LIMIT)
+        .map(({ id }) => id.toString());
+    },
+    enabled: !!rpcEndpoint,
+    staleTime: Infinity,
+  });
+
+  const detailQueries = useQueries({
+    queries: operatorAddresses.map((operatorAddress) => ({
+      queryKey: ['validator', chainName, operatorAddress],
+      queryFn: () => getValidator(endpoint, { validatorAddr: operatorAddress }),
+      select: ({ validator }: Awaited<ReturnType<typeof getValidator>>) =>
+        parseValidatorDetail(validator, -exp),
+      enabled: !!rpcEndpoint,
+    })),
+  });
+
+  const selfBondQueries = useQueries({
+    queries: operatorAddresses.map((operatorAddress) => ({
+      queryKey: ['selfBondAmount', chainName, operatorAddress],
+      queryFn: async () => {
+        try {
+          const { delegationResponse } = await getDelegation(endpoint, {
+            delegatorAddr: toAccountAddress(operatorAddress, prefix),
+            validatorAddr: operatorAddress,
+          });
+          return shiftDigits(delegationResponse?.balance?.amount || '0', -exp);
+        } catch {
+          // operators that withdrew their whole self-bond have no delegation
+          return '0';
+        }
+      },
+      enabled: !!rpcEndpoint,
+    })),
+  });
+
+  const slashQueries = useQueries({
+    queries: operatorAddresses.map((operatorAddress) => ({
+      queryKey: ['validatorSlashes', chainName, operatorAddress],
+      queryFn: async () => {
+        const latestHeight = await fetchLatestHeight(endpoint);
+        const { slashes } = await getValidatorSlashes(endpoint, {
+          validatorAddress: operatorAddress,
+          startingHeight: 0n,
+          endingHeight: BigInt(latestHeight),
+        });
+        return {
+          count: slashes.length,
+          fraction: slashes
+            .reduce(
+              (sum: BigNumber, { fraction }: { fraction: string }) =>
+                sum.plus(
+                  fraction.includes('.')
+                    ? fraction
+                    : shiftDigits(fraction, -18),
+                ),
+              new BigNumber(0),
+            )
+            .toString(),
+        };
+      },
+      enabled: !!rpcEndpoint,
+      staleTime: Infinity,
+    })),
+  });
+
+  const votedQueries = useQueries({
+    queries: operatorAddresses.map((operatorAddress) => ({
+      queryKey: ['accountVotes', chainName, operatorAddress],
+      // matched on the voter, so votes cast through authz grants count too
+      queryFn: () =>
+        fetchAccountVotes(endpoint, toAccountAddress(operatorAddress, prefix)),
+      select: (votes: Awaited<ReturnType<typeof fetchAccountVotes>>) =>
+        Object.keys(votes),
+      enabled: !!rpcEndpoint,
+      staleTime: Infinity,
+    })),
+  });
+
+  const data = operatorAddresses.map((address, index) => {
+    const votedProposalIds = votedQueries[index].data;
+    const recentProposalIds = recentProposalsQuery.data;
+
+    return {
+      address,
+      detail: detailQueries[index].data,
+      selfBond: selfBondQueries[index].data,
+      slashes: slashQueries[index].data,
+      participation:
+        votedProposalIds && recentProposalIds
+          ? calcGovernanceParticipation(votedProposalIds, recentProposalIds)
+          : undefined,
+    };
+  });
+
+  return {
+    data,
+    recentProposalCount: recentProposalsQuery.data?.length,
+    isLoading: detailQueries.some(({ isLoading }) => isLoading),
+  };
+};
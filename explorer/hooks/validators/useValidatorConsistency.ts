@@ -0,0 +1,17 @@
+import { useChain } from '@interchain-kit/react';
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchValidatorConsistencyReport } from '@/utils';
+import { useRestEndpoint } from '../common';
+
+export const useValidatorConsistency = (chainName: string) => {
+  const { chain } = useChain(chainName);
+  const { data: restEndpoint } = useRestEndpoint(chainName);
+  const bech32Prefix = chain.bech32Prefix ?? '';
+
+  return useQuery({
+    queryKey: ['validatorConsistency', chainName],
+    queryFn: () => fetchValidatorConsistencyReport(restEndpoint!, bech32Prefix),
+    enabled: !!restEndpoint && !!bech32Prefix,
+  });
+};
@@ -0,0 +1,66 @@
+import { useChain } from '@interchain-kit/react';
+import { defaultContext } from '@tanstack/react-query';
+import { useGetValidatorDelegations } from '@interchainjs/react/cosmos/staking/v1beta1/query.rpc.react';
+
+import { getExponentFromAsset, getNativeAsset, shiftDigits } from '@/utils';
+import { usePageKeys, useRpcEndpoint } from '../common';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export const useValidatorDelegators = (
+  chainName: string,
+  operatorAddress: string,
+  limit: number = DEFAULT_PAGE_SIZE,
+) => {
+  const { assetList } = useChain(chainName);
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+  const { pageKey, page, hasPrevPage, goToNextPage, goToPrevPage } =
+    usePageKeys(new Uint8Array(), [chainName, operatorAddress]);
+
+  const exp = getExponentFromAsset(getNativeAsset(assetList));
+
+  const delegatorsQuery = useGetValidatorDelegations({
+    request: {
+      validatorAddr: operatorAddress,
+      pagination: {
+        key: pageKey,
+        offset: 0n,
+        limit: BigInt(limit),
+        countTotal: true,
+        reverse: false,
+      },
+    },
+    options: {
+      context: defaultContext,
+      enabled: !!operatorAddress && !!rpcEndpoint,
+      keepPreviousData: true,
+      select: ({ delegationResponses, pagination }) => ({
+        delegators: delegationResponses.map(({ delegation, balance }) => ({
+          address: delegation?.delegatorAddress || '',
+          amount: shiftDigits(balance?.amount || '0', -exp),
+        })),
+        nextKey: pagination?.nextKey,
+        total: Number(pagination?.total ?? 0),
+      }),
+    },
+    clientResolver: rpcEndpoint,
+    customizedQueryKey: [
+      'validatorDelegators',
+      chainName,
+      operatorAddress,
+      page,
+      limit,
+    ],
+  });
+
+  const nextKey = delegatorsQuery.data?.nextKey;
+
+  return {
+    ...delegatorsQuery,
+    page,
+    hasNextPage: !!nextKey && nextKey.length > 0,
+    hasPrevPage,
+    goToNextPage: () => nextKey && goToNextPage(nextKey),
+    goToPrevPage,
+  };
+};
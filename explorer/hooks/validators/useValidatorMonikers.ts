@@ -0,0 +1,32 @@
+import BigNumber from 'bignumber.js';
+import { Validator } from '@interchainjs/react/cosmos/staking/v1beta1/staking';
+import { getValidators } from '@interchainjs/react/cosmos/staking/v1beta1/query.rpc.func';
+
+import { useAllPages, useRpcEndpoint } from '../common';
+
+// module scoped so the selected list keeps its identity between renders
+const selectMonikers = (validators: Validator[]) =>
+  [...validators]
+    .sort((a, b) => new BigNumber(b.tokens).minus(a.tokens).toNumber())
+    .map(({ operatorAddress, description }) => ({
+      address: operatorAddress,
+      name: description?.moniker || '',
+    }));
+
+/**
+ * Monikers of validators of every status, largest first, for the global
+ * search. Shares its pages with the validator list of `useStakingData`.
+ */
+export const useValidatorMonikers = (chainName: string) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  return useAllPages({
+    queryKey: ['validators', chainName],
+    fetchPage: (pagination) =>
+      getValidators(rpcEndpoint!.toString(), { status: '', pagination }),
+    getItems: ({ validators }) => validators,
+    select: selectMonikers,
+    enabled: !!rpcEndpoint,
+    staleTime: Infinity,
+  });
+};
@@ -1,3 +1,8 @@
 export * from './useModal';
 export * from './useVoting';
 export * from './useVotingData';
+export * from './useProposalHistory';
+export * from './useParamDiffs';
+export * from './useDepositParams';
+export * from './useProposalTallies';
+export * from './useGovernanceParticipation';
@@ -0,0 +1,29 @@
+import { defaultContext } from '@tanstack/react-query';
+import { useGetParams as useGovParams } from '@interchainjs/react/cosmos/gov/v1/query.rpc.react';
+
+import { useRpcEndpoint } from '../common';
+
+type Coin = { denom: string; amount: string };
+
+export const useDepositParams = (chainName: string) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  return useGovParams({
+    request: { paramsType: 'deposit' },
+    options: {
+      enabled: !!rpcEndpoint,
+      staleTime: Infinity,
+      // SDK 0.47 moved the deposit params into `params`
+      select: ({ params, depositParams }) => ({
+        minDeposit: (params?.minDeposit ??
+          depositParams?.minDeposit ??
+          []) as Coin[],
+        minInitialDepositRatio: (params?.minInitialDepositRatio ||
+          '0') as string,
+      }),
+      context: defaultContext,
+    },
+    clientResolver: rpcEndpoint,
+    customizedQueryKey: ['govDepositParams', chainName],
+  });
+};
@@ -0,0 +1,240 @@
+import { useChain } from '@interchain-kit/react';
+import { useQueries, useQuery } from '@tanstack/react-query';
+import {
+  Proposal,
+  ProposalStatus,
+  Vote,
+} from '@interchainjs/react/cosmos/gov/v1/gov';
+import {
+  getProposals,
+  getVotes,
+} from '@interchainjs/react/cosmos/gov/v1/query.rpc.func';
+
+import {
+  calcGovernanceParticipation,
+  fetchAccountVotes,
+  fetchAllPages,
+  parseVoteWeight,
+  splitIntoChunks,
+  toAccountAddress,
+  toWeightedVotes,
+  WeightedVote,
+} from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+const RECENT_PROPOSALS_LIMIT = 10;
+// vote history is a `tx_search` per validator, kept off public nodes' limits
+const HISTORY_CONCURRENCY = 5;
+
+// proposals that never left the deposit period had nothing to vote on
+const VOTED_PROPOSAL_STATUSES = [
+  ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD,
+  ProposalStatus.PROPOSAL_STATUS_PASSED,
+  ProposalStatus.PROPOSAL_STATUS_REJECTED,
+  ProposalStatus.PROPOSAL_STATUS_FAILED,
+];
+
+/**
+ * `null` when the account did not vote, `undefined` while loading or when its
+ * votes could not be looked up.
+ */
+export type ValidatorVotes = Record<string, WeightedVote[] | null | undefined>;
+
+const fetchProposals = async (
+  rpcEndpoint: string,
+  proposalStatus: ProposalStatus,
+  limit: number,
+) => {
+  const { proposals } = await getProposals(rpcEndpoint, {
+    proposalStatus,
+    voter: '',
+    depositor: '',
+    pagination: {
+      key: new Uint8Array(),
+      offset: 0n,
+      limit: BigInt(limit),
+      countTotal: false,
+      reverse: true,
+    },
+  });
+  return proposals as Proposal[];
+};
+
+/**
+ * Votes of validator operators on the proposals in their voting period, read
+ * from gov state so votes cast through authz grants are included. Every vote
+ * of a proposal is paged through once and indexed by voter, instead of
+ * querying each validator.
+ */
+export const useActiveProposalVotes = (
+  chainName: string,
+  operatorAddresses: string[],
+) => {
+  const { chain } = useChain(chainName);
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  const prefix = chain.bech32Prefix ?? '';
+  const endpoint = rpcEndpoint?.toString() ?? '';
+
+  const activeProposalsQuery = useQuery({
+    queryKey: ['activeProposals', chainName],
+    queryFn: () =>
+      fetchProposals(
+        endpoint,
+        ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD,
+        RECENT_PROPOSALS_LIMIT,
+      ),
+    enabled: !!rpcEndpoint,
+  });
+
+  const activeProposals = activeProposalsQuery.data ?? [];
+
+  const voteQueries = useQueries({
+    queries: activeProposals.map(({ id }) => ({
+      queryKey: ['proposalVotesByVoter', chainName, id.toString()],
+      queryFn: () =>
+        fetchAllPages(
+          (pagination) => getVotes(endpoint, { proposalId: id, pagination }),
+          ({ votes }: Awaited<ReturnType<typeof getVotes>>) => votes as Vote[],
+        ),
+      select: (votes: Vote[]) =>
+        Object.fromEntries(
+          votes.map(({ voter, options }) => [
+            voter,
+            toWeightedVotes(
+              options.map(({ option, weight }) => ({
+                option,
+                weight: parseVoteWeight(weight),
+              })),
+            ),
+          ]),
+        ) as Record<string, WeightedVote[]>,
+      enabled: !!rpcEndpoint,
+    })),
+  });
+
+  const votes: Record<string, ValidatorVotes> = {};
+  operatorAddresses.forEach((operatorAddress) => {
+    const voter = toAccountAddress(operatorAddress, prefix);
+    votes[operatorAddress] = Object.fromEntries(
+      activeProposals.map(({ id }, index) => {
+        const proposalVotes = voteQueries[index].data;
+        return [
+          id.toString(),
+          proposalVotes ? proposalVotes[voter] ?? null : undefined,
+        ];
+      }),
+    );
+  });
+
+  return {
+    activeProposals,
+    votes,
+    isLoading:
+      activeProposalsQuery.isLoading ||
+      voteQueries.some(({ isLoading }) => isLoading),
+  };
+};
+
+/**
+ * How validator operators voted on the recent proposals, as a validators by
+ * proposals matrix. Participation only counts proposals that already ended,
+ * so validators are not marked down while voting is still open.
+ */
+export const useGovernanceParticipation = (
+  chainName: string,
+  operatorAddresses: string[],
+) => {
+  const { chain } = useChain(chainName);
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  const prefix = chain.bech32Prefix ?? '';
+  const endpoint = rpcEndpoint?.toString() ?? '';
+
+  const recentProposalsQuery = useQuery({
+    queryKey: ['recentVotedProposals', chainName],
+    queryFn: async () => {
+      // proposals still in their deposit period are skipped below
+      const proposals = await fetchProposals(
+        endpoint,
+        ProposalStatus.PROPOSAL_STATUS_UNSPECIFIED,
+        RECENT_PROPOSALS_LIMIT * 2,
+      );
+      return proposals
+        .filter(({ status }) => VOTED_PROPOSAL_STATUSES.includes(status))
+        .slice(0, RECENT_PROPOSALS_LIMIT);
+    },
+    enabled: !!rpcEndpoint,
+    staleTime: Infinity,
+  });
+
+  const { votes: activeVotes, isLoading: isActiveVotesLoading } =
+    useActiveProposalVotes(chainName, operatorAddresses);
+
+  const historyQuery = useQuery({
+    queryKey: ['accountVotesByValidator', chainName, operatorAddresses],
+    queryFn: async () => {
+      const histories: Record<string, Record<string, WeightedVote[]>> = {};
+
+      for (const chunk of splitIntoChunks(
+        operatorAddresses,
+        HISTORY_CONCURRENCY,
+      )) {
+        await Promise.all(
+          chunk.map(async (operatorAddress: string) => {
+            try {
+              histories[operatorAddress] = await fetchAccountVotes(
+                endpoint,
+                toAccountAddress(operatorAddress, prefix),
+              );
+            } catch {
+              // one failed search should not blank the whole matrix
+            }
+          }),
+        );
+      }
+
+      return histories;
+    },
+    enabled: !!rpcEndpoint && operatorAddresses.length > 0,
+    staleTime: Infinity,
+  });
+
+  const proposals = recentProposalsQuery.data ?? [];
+  const endedProposalIds = proposals
+    .filter(
+      ({ status }) => status !== ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD,
+    )
+    .map(({ id }) => id.toString());
+
+  const rows = operatorAddresses.map((operatorAddress) => {
+    const history = historyQuery.data?.[operatorAddress];
+
+    const votes: ValidatorVotes = Object.fromEntries(
+      proposals.map(({ id, status }) => {
+        const proposalId = id.toString();
+        if (status === ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD) {
+          return [proposalId, activeVotes[operatorAddress]?.[proposalId]];
+        }
+        return [proposalId, history ? history[proposalId] ?? null : undefined];
+      }),
+    );
+
+    return {
+      address: operatorAddress,
+      votes,
+      participation: history
+        ? calcGovernanceParticipation(Object.keys(history), endedProposalIds)
+        : undefined,
+    };
+  });
+
+  return {
+    proposals,
+    rows,
+    isLoading:
+      recentProposalsQuery.isLoading ||
+      isActiveVotesLoading ||
+      historyQuery.isLoading,
+  };
+};
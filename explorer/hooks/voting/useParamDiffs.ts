@@ -0,0 +1,81 @@
+import { useQueries } from '@tanstack/react-query';
+import { getParams as getAuthParams } from '@interchainjs/react/cosmos/auth/v1beta1/query.rpc.func';
+import { getParams as getBankParams } from '@interchainjs/react/cosmos/bank/v1beta1/query.rpc.func';
+import { getParams as getDistributionParams } from '@interchainjs/react/cosmos/distribution/v1beta1/query.rpc.func';
+import { getParams as getGovParams } from '@interchainjs/react/cosmos/gov/v1/query.rpc.func';
+import { getParams as getMintParams } from '@interchainjs/react/cosmos/mint/v1beta1/query.rpc.func';
+import { getParams as getSubspaceParams } from '@interchainjs/react/cosmos/params/v1beta1/query.rpc.func';
+import { getParams as getSlashingParams } from '@interchainjs/react/cosmos/slashing/v1beta1/query.rpc.func';
+import { getParams as getStakingParams } from '@interchainjs/react/cosmos/staking/v1beta1/query.rpc.func';
+
+import { diffParams, ParamsModule, ParamUpdate, toDisplayValue } from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+const moduleParamsFetchers: Record<
+  ParamsModule,
+  (endpoint: string) => Promise<{ params?: unknown }>
+> = {
+  auth: (endpoint) => getAuthParams(endpoint, {}),
+  bank: (endpoint) => getBankParams(endpoint, {}),
+  distribution: (endpoint) => getDistributionParams(endpoint, {}),
+  gov: (endpoint) => getGovParams(endpoint, { paramsType: '' }),
+  mint: (endpoint) => getMintParams(endpoint, {}),
+  slashing: (endpoint) => getSlashingParams(endpoint, {}),
+  staking: (endpoint) => getStakingParams(endpoint, {}),
+};
+
+const fetchCurrentParams = async (endpoint: string, update: ParamUpdate) => {
+  if (update.kind === 'module') {
+    const { params } = await moduleParamsFetchers[update.module](endpoint);
+    return toDisplayValue(params);
+  }
+
+  const { param } = await getSubspaceParams(endpoint, {
+    subspace: update.subspace,
+    key: update.key,
+  });
+  try {
+    return JSON.parse(param?.value ?? '');
+  } catch {
+    return param?.value;
+  }
+};
+
+/**
+ * Current on-chain values next to the values a proposal would set. Changes
+ * that already executed compare against the values they set.
+ */
+export const useParamDiffs = (chainName: string, updates: ParamUpdate[]) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  const queries = useQueries({
+    queries: updates.map((update) => ({
+      queryKey: ['currentParams', chainName, update],
+      queryFn: () => fetchCurrentParams(rpcEndpoint!.toString(), update),
+      enabled: !!rpcEndpoint,
+      staleTime: Infinity,
+    })),
+  });
+
+  return updates.map((update, index) => {
+    const { data: current, isLoading, isError } = queries[index];
+    const title =
+      update.kind === 'module'
+        ? `${update.module} params`
+        : `${update.subspace} / ${update.key}`;
+
+    return {
+      title,
+      isLoading,
+      isError,
+      diffs:
+        current === undefined
+          ? []
+          : diffParams(
+              current,
+              update.proposed,
+              update.kind === 'subspace' ? update.key : '',
+            ),
+    };
+  });
+};
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+import { fetchProposalDeposits, fetchProposalVotes, TxCursor } from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export const useProposalVotes = (
+  chainName: string,
+  proposalId: string,
+  { limit = DEFAULT_PAGE_SIZE }: { limit?: number } = {},
+) => {
+  const [cursor, setCursor] = useState<TxCursor>();
+  // voters of the pages before the current one, to mark superseded votes
+  const [newerVoters, setNewerVoters] = useState<string[][]>([]);
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  useEffect(() => {
+    setCursor(undefined);
+    setNewerVoters([]);
+  }, [chainName, proposalId]);
+
+  const votesQuery = useQuery({
+    queryKey: ['proposalVotes', chainName, proposalId, cursor, limit],
+    queryFn: () =>
+      fetchProposalVotes(rpcEndpoint!.toString(), proposalId, {
+        cursor,
+        limit,
+        newerVoters: newerVoters.flat(),
+      }),
+    enabled: !!rpcEndpoint && !!proposalId,
+    keepPreviousData: true,
+  });
+
+  const { data } = votesQuery;
+
+  return {
+    ...votesQuery,
+    page: data?.cursor.page ?? 1,
+    hasNextPage: !!data?.nextCursor,
+    hasPrevPage: !!data?.prevCursor,
+    goToNextPage: () => {
+      if (!data?.nextCursor) return;
+      setNewerVoters((prev) => [...prev, data.votes.map(({ voter }) => voter)]);
+      setCursor(data.nextCursor);
+    },
+    goToPrevPage: () => {
+      if (!data?.prevCursor) return;
+      setNewerVoters((prev) => prev.slice(0, -1));
+      setCursor(data.prevCursor);
+    },
+  };
+};
+
+export const useProposalDeposits = (chainName: string, proposalId: string) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  return useQuery({
+    queryKey: ['proposalDeposits', chainName, proposalId],
+    queryFn: () => fetchProposalDeposits(rpcEndpoint!.toString(), proposalId),
+    enabled: !!rpcEndpoint && !!proposalId,
+  });
+};
@@ -0,0 +1,123 @@
+import { defaultContext, useQueries } from '@tanstack/react-query';
+import {
+  Proposal,
+  ProposalStatus,
+} from '@interchainjs/react/cosmos/gov/v1/gov';
+import { getTallyResult } from '@interchainjs/react/cosmos/gov/v1/query.rpc.func';
+import { useGetParams as useGovParams } from '@interchainjs/react/cosmos/gov/v1/query.rpc.react';
+import { useGetPool } from '@interchainjs/react/cosmos/staking/v1beta1/query.rpc.react';
+
+import {
+  parseTallyParam,
+  projectTally,
+  TallyCounts,
+  TallyParams,
+  TallyProjection,
+} from '@/utils';
+import { useRpcEndpoint } from '../common';
+
+const TALLY_POLLING_INTERVAL = 30000;
+
+export type ProposalTally = {
+  tally?: TallyCounts;
+  /** Only set for proposals that are still being voted on. */
+  projection?: TallyProjection;
+};
+
+export const useTallyParams = (chainName: string) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  return useGovParams({
+    request: { paramsType: 'tallying' },
+    options: {
+      enabled: !!rpcEndpoint,
+      staleTime: Infinity,
+      // SDK 0.47 moved the tallying params into `params`
+      select: ({ params, tallyParams }): TallyParams => {
+        const source = params?.quorum ? params : tallyParams;
+        return {
+          quorum: parseTallyParam(source?.quorum),
+          threshold: parseTallyParam(source?.threshold),
+          vetoThreshold: parseTallyParam(source?.vetoThreshold),
+        };
+      },
+      context: defaultContext,
+    },
+    clientResolver: rpcEndpoint,
+    customizedQueryKey: ['govTallyParams', chainName],
+  });
+};
+
+export const useBondedTokens = (chainName: string) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+
+  return useGetPool({
+    request: {},
+    options: {
+      enabled: !!rpcEndpoint,
+      staleTime: Infinity,
+      select: ({ pool }) => pool?.bondedTokens as string | undefined,
+      context: defaultContext,
+    },
+    clientResolver: rpcEndpoint,
+    customizedQueryKey: ['bondedTokens', chainName],
+  });
+};
+
+/**
+ * Tallies by proposal id. Proposals in their voting period are polled for
+ * their live tally and projected against the tallying params as if voting
+ * ended now, the others keep their final tally.
+ */
+export const useProposalTallies = (
+  chainName: string,
+  proposals: Proposal[] = [],
+) => {
+  const { data: rpcEndpoint } = useRpcEndpoint(chainName);
+  const { data: tallyParams } = useTallyParams(chainName);
+  const { data: bondedTokens } = useBondedTokens(chainName);
+
+  const votingProposals = proposals.filter(
+    ({ status }) => status === ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD,
+  );
+
+  const tallyQueries = useQueries({
+    queries: votingProposals.map(({ id }) => ({
+      queryKey: ['proposalTally', chainName, id.toString()],
+      queryFn: () =>
+        getTallyResult(rpcEndpoint!.toString(), { proposalId: id }),
+      select: ({ tally }: Awaited<ReturnType<typeof getTallyResult>>) =>
+        tally as TallyCounts | undefined,
+      enabled: !!rpcEndpoint,
+      refetchInterval: TALLY_POLLING_INTERVAL,
+    })),
+  });
+
+  const tallies: Record<string, ProposalTally> = {};
+
+  proposals.forEach((proposal) => {
+    const index = votingProposals.indexOf(proposal);
+    const id = proposal.id.toString();
+
+    if (index === -1) {
+      tallies[id] = { tally: proposal.finalTallyResult };
+      return;
+    }
+
+    const tally = tallyQueries[index].data;
+    tallies[id] = {
+      tally,
+      projection:
+        tally && tallyParams && bondedTokens
+          ? projectTally({ tally, bondedTokens, params: tallyParams })
+          : undefined,
+    };
+  });
+
+  return {
+    tallies,
+    tallyParams,
+    bondedTokens,
+    isLoading: tallyQueries.some(({ isLoading }) => isLoading),
+  };
+};
@@ -2,6 +2,8 @@ import { useChain } from '@interchain-kit/react';
 import { Proposal } from '@interchainjs/react/cosmos/gov/v1/gov';
 import { useVote } from '@interchainjs/react/cosmos/gov/v1beta1/tx.rpc.react';
 import { MsgVote } from '@interchainjs/react/cosmos/gov/v1beta1/tx';
+import { useVoteWeighted } from '@interchainjs/react/cosmos/gov/v1/tx.rpc.react';
+import { MsgVoteWeighted } from '@interchainjs/react/cosmos/gov/v1/tx';
 import { defaultContext } from '@tanstack/react-query';
 import { StdFee } from '@interchainjs/react/types';
 
@@ -19,6 +21,13 @@ export type onVoteOptions = {
   error?: () => void;
 };
 
+export type onVoteWeightedOptions = {
+  options: { option: number; weight: string }[];
+  metadata?: string;
+  success?: () => void;
+  error?: () => void;
+};
+
 export function useVoting({ chainName, proposal }: useVotingOptions) {
   const { address, assetList } = useChain(chainName);
   const toastHandlers = useToastHandlers();
@@ -31,8 +40,28 @@ export function useVoting({ chainName, proposal }: useVotingOptions) {
     },
   });
 
+  const { mutate: voteWeighted, isLoading: isVotingWeighted } = useVoteWeighted(
+    {
+      clientResolver: signingClient,
+      options: {
+        context: defaultContext,
+        ...toastHandlers,
+      },
+    }
+  );
+
   const coin = getNativeAsset(assetList);
 
+  const fee: StdFee = {
+    amount: [
+      {
+        denom: coin.base,
+        amount: '0',
+      },
+    ],
+    gas: '100000',
+  };
+
   async function onVote({
     option,
     success = () => {},
@@ -46,16 +75,6 @@ export function useVoting({ chainName, proposal }: useVotingOptions) {
       proposalId: proposal.id,
     });
 
-    const fee: StdFee = {
-      amount: [
-        {
-          denom: coin.base,
-          amount: '0',
-        },
-      ],
-      gas: '100000',
-    };
-
     vote(
       {
         signerAddress: address,
@@ -75,5 +94,43 @@ export function useVoting({ chainName, proposal }: useVotingOptions) {
     );
   }
 
-  return { isVoting, onVote };
+  async function onVoteWeighted({
+    options,
+    metadata = '',
+    success = () => {},
+    error = () => {},
+  }: onVoteWeightedOptions) {
+    if (!address || options.length === 0) return;
+
+    const msg = MsgVoteWeighted.fromPartial({
+      options,
+      metadata,
+      voter: address,
+      proposalId: proposal.id,
+    });
+
+    voteWeighted(
+      {
+        signerAddress: address,
+        message: msg,
+        fee,
+        memo: 'Weighted vote',
+      },
+      {
+        onSuccess: () => {
+          success();
+        },
+        onError: (err) => {
+          error();
+          console.error(err);
+        },
+      }
+    );
+  }
+
+  return {
+    isVoting: isVoting || isVotingWeighted,
+    onVote,
+    onVoteWeighted,
+  };
 }
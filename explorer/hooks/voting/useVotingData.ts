@@ -1,25 +1,24 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useChain } from '@interchain-kit/react';
-import { defaultContext, useQueries } from '@tanstack/react-query';
+import { useQueries } from '@tanstack/react-query';
 import { ProposalStatus } from '@interchainjs/react/cosmos/gov/v1beta1/gov';
-import { getVote } from '@interchainjs/react/cosmos/gov/v1beta1/query.rpc.func';
 import { Proposal as ProposalV1 } from '@interchainjs/react/cosmos/gov/v1/gov';
-import { chains } from 'chain-registry';
 import {
-  useGetProposals,
-  useGetParams as useGovParams,
-} from '@interchainjs/react/cosmos/gov/v1/query.rpc.react';
-import { useGetPool } from '@interchainjs/react/cosmos/staking/v1beta1/query.rpc.react';
+  getProposals,
+  getVote,
+} from '@interchainjs/react/cosmos/gov/v1/query.rpc.func';
 
-import { getTitle, paginate, parseQuorum } from '@/utils';
-import { useRpcEndpoint } from '../common';
+import { getTitle, parseVoteWeight, VoteWeight } from '@/utils';
+import { useAllPages, useRpcEndpoint } from '../common';
+import { useBondedTokens, useTallyParams } from './useProposalTallies';
 
 (BigInt.prototype as any).toJSON = function () {
   return this.toString();
 };
 
+/** The connected account's vote per proposal id, one entry per option. */
 export interface Votes {
-  [key: string]: number;
+  [key: string]: VoteWeight[];
 }
 
 export function processProposals(proposals: ProposalV1[]) {
@@ -50,68 +49,49 @@ export function useVotingData(chainName: string) {
   const { address } = useChain(chainName);
   const { data: rpcEndpoint, isFetching } = useRpcEndpoint(chainName);
 
-  const chain = chains.find((c) => c.chain_name === chainName);
-  const isReady = !!address && !!rpcEndpoint;
-
-  const proposalsQuery = useGetProposals({
-    request: {
-      voter: '',
-      depositor: '',
-      pagination: paginate(50n, true),
-      proposalStatus: ProposalStatus.PROPOSAL_STATUS_UNSPECIFIED,
-    },
-    options: {
-      enabled: isReady,
-      staleTime: Infinity,
-      select: ({ proposals }) => processProposals(proposals),
-      context: defaultContext,
-    },
-    clientResolver: rpcEndpoint,
+  // proposals, tallies and params load without a wallet; votes need one
+  const isReady = !!rpcEndpoint;
+
+  const proposalsQuery = useAllPages({
+    queryKey: ['proposals', chainName],
+    fetchPage: (pagination) =>
+      getProposals(rpcEndpoint!.toString(), {
+        voter: '',
+        depositor: '',
+        pagination,
+        proposalStatus: ProposalStatus.PROPOSAL_STATUS_UNSPECIFIED,
+      }),
+    getItems: ({ proposals }) => proposals,
+    select: processProposals,
+    enabled: isReady,
+    staleTime: Infinity,
+    reverse: true,
   });
 
-  const bondedTokensQuery = useGetPool({
-    request: {},
-    options: {
-      enabled: isReady,
-      staleTime: Infinity,
-      select: ({ pool }) => pool?.bondedTokens,
-      context: defaultContext,
-    },
-    clientResolver: rpcEndpoint,
-  });
-
-  const quorumQuery = useGovParams({
-    request: { paramsType: 'tallying' },
-    options: {
-      enabled: isReady,
-      staleTime: Infinity,
-      select: ({ tallyParams }) => parseQuorum(tallyParams?.quorum as any),
-      context: defaultContext,
-    },
-    clientResolver: rpcEndpoint,
-  });
-
-  const votedProposalsQuery = useGetProposals({
-    request: {
-      voter: address || '/', // use '/' to differentiate from proposalsQuery
-      depositor: '',
-      pagination: paginate(50n, true),
-      proposalStatus: ProposalStatus.PROPOSAL_STATUS_UNSPECIFIED,
-    },
-    options: {
-      enabled: isReady && Boolean(address),
-      select: ({ proposals }) => proposals,
-      keepPreviousData: true,
-      context: defaultContext,
-    },
-    clientResolver: rpcEndpoint,
+  const bondedTokensQuery = useBondedTokens(chainName);
+  const tallyParamsQuery = useTallyParams(chainName);
+
+  const votedProposalsQuery = useAllPages({
+    queryKey: ['votedProposals', chainName, address],
+    fetchPage: (pagination) =>
+      getProposals(rpcEndpoint!.toString(), {
+        voter: address!,
+        depositor: '',
+        pagination,
+        proposalStatus: ProposalStatus.PROPOSAL_STATUS_UNSPECIFIED,
+      }),
+    getItems: ({ proposals }) => proposals,
+    enabled: isReady && Boolean(address),
+    keepPreviousData: true,
+    reverse: true,
   });
 
   const votesQueries = useQueries({
-    queries: (votedProposalsQuery.data || []).map(({ id }) => ({
+    // keepPreviousData would otherwise keep the last wallet's votes around
+    queries: ((address && votedProposalsQuery.data) || []).map(({ id }) => ({
       queryKey: ['voteQuery', id, address],
       queryFn: () =>
-        getVote(rpcEndpoint?.toString() || '',{
+        getVote(rpcEndpoint?.toString() || '', {
           proposalId: id,
           voter: address || '',
         }),
@@ -121,14 +101,14 @@ export function useVotingData(chainName: string) {
   });
 
   const singleQueries = {
-    quorum: quorumQuery,
+    tallyParams: tallyParamsQuery,
     proposals: proposalsQuery,
     bondedTokens: bondedTokensQuery,
     votedProposals: votedProposalsQuery,
   };
 
   const staticQueries = [
-    singleQueries.quorum,
+    singleQueries.tallyParams,
     singleQueries.proposals,
     singleQueries.bondedTokens,
   ];
@@ -170,40 +150,20 @@ export function useVotingData(chainName: string) {
       Object.entries(singleQueries).map(([key, query]) => [key, query.data])
     ) as SingleQueriesData;
 
-    singleQueriesData?.proposals.forEach((proposal) => {
-      if (proposal.status === ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD) {
-        (async () => {
-          for (const { address } of chain?.apis?.rest || []) {
-            const api = `${address}/cosmos/gov/v1/proposals/${Number(
-              proposal.id
-            )}/tally`;
-            try {
-              const tally = (await (await fetch(api)).json()).tally;
-              if (!tally) {
-                continue;
-              }
-              proposal.finalTallyResult = {
-                yesCount: tally.yes_count,
-                noCount: tally.no_count,
-                abstainCount: tally.abstain_count,
-                noWithVetoCount: tally.no_with_veto_count,
-              };
-              break;
-            } catch (e) {
-              console.error('error fetch tally', api);
-            }
-          }
-        })();
-      }
-    });
-
     return singleQueriesData;
   }, [isStaticQueriesFetching, isReady]);
 
   const votes = useMemo(() => {
     const votesEntries = votesQueries
-      .map((query) => query.data)
-      .map((data) => [data?.vote?.proposalId, data?.vote?.options[0].option]);
+      .map((query) => query.data?.vote)
+      .filter(Boolean)
+      .map((vote) => [
+        vote!.proposalId,
+        vote!.options.map(({ option, weight }) => ({
+          option,
+          weight: parseVoteWeight(weight),
+        })),
+      ]);
 
     return Object.fromEntries(votesEntries) as Votes;
   }, [votesQueries]);
@@ -0,0 +1,18 @@
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+type Query = Partial<Record<string, string | string[]>>;
+
+const getNumber = (value: string | string[] | undefined) => {
+  return typeof value === 'string' && /^\d+$/.test(value)
+    ? Number(value)
+    : null;
+};
+
+/**
+ * Reads `limit` / `offset` query params of the list routes.
+ */
+export const getPageParams = ({ limit, offset }: Query) => ({
+  limit: Math.min(getNumber(limit) ?? DEFAULT_LIMIT, MAX_LIMIT),
+  offset: getNumber(offset) ?? 0,
+});
@@ -0,0 +1,27 @@
+import path from 'path';
+
+const DEFAULT_RPC_ENDPOINT = 'https://rpc.akashnet.net:443';
+const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'indexer.sqlite');
+const DEFAULT_POLL_INTERVAL = 6000;
+
+export type IndexerConfig = {
+  rpcEndpoint: string;
+  dbPath: string;
+  bech32Prefix: string;
+  /** Height to start from when the database is empty; latest when unset. */
+  startHeight: number | null;
+  pollInterval: number;
+};
+
+const toNumber = (value: string | undefined) => {
+  return value && /^\d+$/.test(value) ? Number(value) : null;
+};
+
+export const getIndexerConfig = (): IndexerConfig => ({
+  rpcEndpoint: process.env.INDEXER_RPC_ENDPOINT || DEFAULT_RPC_ENDPOINT,
+  dbPath: process.env.INDEXER_DB_PATH || DEFAULT_DB_PATH,
+  bech32Prefix: process.env.INDEXER_BECH32_PREFIX || 'akash',
+  startHeight: toNumber(process.env.INDEXER_START_HEIGHT),
+  pollInterval:
+    toNumber(process.env.INDEXER_POLL_INTERVAL) ?? DEFAULT_POLL_INTERVAL,
+});
@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+export type IndexedEvent = {
+  type: string;
+  attributes: { key: string; value: string }[];
+};
+
+export type IndexedTx = {
+  hash: string;
+  height: number;
+  index: number;
+  code: number;
+  gasUsed: string;
+  gasWanted: string;
+  fee: string;
+  memo: string;
+  messages: { typeUrl: string; value: unknown }[];
+  events: IndexedEvent[];
+  addresses: string[];
+};
+
+export type IndexedBlock = {
+  height: number;
+  hash: string;
+  time: string;
+  proposerAddress: string;
+  txs: IndexedTx[];
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS blocks (
+    height INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    time TEXT NOT NULL,
+    proposer_address TEXT NOT NULL,
+    tx_count INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS txs (
+    hash TEXT PRIMARY KEY,
+    height INTEGER NOT NULL,
+    tx_index INTEGER NOT NULL,
+    code INTEGER NOT NULL,
+    gas_used TEXT NOT NULL,
+    gas_wanted TEXT NOT NULL,
+    fee TEXT NOT NULL,
+    memo TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS txs_height ON txs (height);
+
+  CREATE TABLE IF NOT EXISTS messages (
+    tx_hash TEXT NOT NULL,
+    height INTEGER NOT NULL,
+    msg_index INTEGER NOT NULL,
+    type_url TEXT NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (tx_hash, msg_index)
+  );
+  CREATE INDEX IF NOT EXISTS messages_type ON messages (type_url, height);
+  CREATE INDEX IF NOT EXISTS messages_height ON messages (height);
+
+  CREATE TABLE IF NOT EXISTS events (
+    tx_hash TEXT NOT NULL,
+    height INTEGER NOT NULL,
+    event_index INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    attr_key TEXT NOT NULL,
+    attr_value TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS events_attr ON events (type, attr_key, attr_value);
+  CREATE INDEX IF NOT EXISTS events_height ON events (height);
+
+  CREATE TABLE IF NOT EXISTS address_txs (
+    address TEXT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    height INTEGER NOT NULL,
+    PRIMARY KEY (address, tx_hash)
+  );
+  CREATE INDEX IF NOT EXISTS address_txs_height ON address_txs (address, height);
+`;
+
+const HEIGHT_TABLES = ['blocks', 'txs', 'messages', 'events', 'address_txs'];
+
+export const openDatabase = (dbPath: string) => {
+  if (dbPath !== ':memory:') {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  }
+
+  const db = new Database(dbPath);
+  // lets the API routes read while the indexer writes
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  return db;
+};
+
+export const getLastIndexedHeight = (db: Database.Database) => {
+  const row = db.prepare('SELECT MAX(height) AS height FROM blocks').get() as {
+    height: number | null;
+  };
+  return row.height;
+};
+
+export const saveBlock = (db: Database.Database, block: IndexedBlock) => {
+  const insertBlock = db.prepare(
+    'INSERT OR REPLACE INTO blocks VALUES (?, ?, ?, ?, ?)',
+  );
+  const insertTx = db.prepare(
+    'INSERT OR REPLACE INTO txs VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+  );
+  const insertMessage = db.prepare(
+    'INSERT OR REPLACE INTO messages VALUES (?, ?, ?, ?, ?)',
+  );
+  const insertEvent = db.prepare(
+    'INSERT INTO events VALUES (?, ?, ?, ?, ?, ?)',
+  );
+  const insertAddress = db.prepare(
+    'INSERT OR IGNORE INTO address_txs VALUES (?, ?, ?)',
+  );
+
+  db.transaction(() => {
+    const { height, hash, time, proposerAddress, txs } = block;
+    insertBlock.run(height, hash, time, proposerAddress, txs.length);
+
+    txs.forEach((tx) => {
+      insertTx.run(
+        tx.hash,
+        height,
+        tx.index,
+        tx.code,
+        tx.gasUsed,
+        tx.gasWanted,
+        tx.fee,
+        tx.memo,
+      );
+      tx.messages.forEach(({ typeUrl, value }, index) =>
+        insertMessage.run(
+          tx.hash,
+          height,
+          index,
+          typeUrl,
+          JSON.stringify(value),
+        ),
+      );
+      tx.events.forEach(({ type, attributes }, index) =>
+        attributes.forEach(({ key, value }) =>
+          insertEvent.run(tx.hash, height, index, type, key, value),
+        ),
+      );
+      tx.addresses.forEach((address) =>
+        insertAddress.run(address, tx.hash, height),
+      );
+    });
+  })();
+};
+
+/**
+ * Drops everything indexed at or above `height` so indexing can resume from
+ * there.
+ */
+export const deleteFromHeight = (db: Database.Database, height: number) => {
+  db.transaction(() => {
+    HEIGHT_TABLES.forEach((table) =>
+      db.prepare(`DELETE FROM ${table} WHERE height >= ?`).run(height),
+    );
+  })();
+};
@@ -0,0 +1,48 @@
+/**
+ * Runs the indexer next to the Next.js app:
+ *
+ *   pnpm indexer                        follow the chain, catching up first
+ *   pnpm indexer --reindex-from 123456  drop data from that height and resume
+ */
+import { getIndexerConfig } from './config';
+import { openDatabase } from './db';
+import { reindexFrom, runIndexer } from './sync';
+
+const getReindexHeight = (args: string[]) => {
+  const index = args.indexOf('--reindex-from');
+  if (index === -1) return null;
+
+  const height = Number(args[index + 1]);
+  if (!Number.isInteger(height) || height < 1) {
+    throw Error('--reindex-from expects a block height');
+  }
+  return height;
+};
+
+const main = async () => {
+  const config = getIndexerConfig();
+  const db = openDatabase(config.dbPath);
+  const reindexHeight = getReindexHeight(process.argv.slice(2));
+
+  if (reindexHeight !== null) {
+    reindexFrom(db, reindexHeight);
+    // also covers heights below the first indexed block
+    config.startHeight = reindexHeight;
+  }
+
+  let isStopping = false;
+  const stop = () => {
+    isStopping = true;
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log(`Indexing ${config.rpcEndpoint} into ${config.dbPath}`);
+  await runIndexer(db, config, () => isStopping);
+  db.close();
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,112 @@
+import { fromBech32 } from '@cosmjs/encoding';
+
+import { fetchRpc, getTxHash, RpcBlock } from '../utils/blocks';
+import {
+  MISSING_TX_RESULT,
+  parseTxDetail,
+  RpcTxResponse,
+} from '../utils/transactions';
+import { IndexedBlock, IndexedTx } from './db';
+
+type RpcBlockResults = {
+  txs_results: RpcTxResponse['tx_result'][] | null;
+};
+
+const isChainAddress = (value: string, bech32Prefix: string) => {
+  if (!value.startsWith(bech32Prefix)) return false;
+  try {
+    return fromBech32(value).prefix.startsWith(bech32Prefix);
+  } catch {
+    return false;
+  }
+};
+
+const collectStrings = (value: unknown, strings: string[] = []) => {
+  if (typeof value === 'string') strings.push(value);
+  else if (Array.isArray(value))
+    value.forEach((v) => collectStrings(v, strings));
+  else if (typeof value === 'object' && value !== null) {
+    Object.values(value).forEach((v) => collectStrings(v, strings));
+  }
+  return strings;
+};
+
+/**
+ * Every account, validator or contract address a tx touches, taken from its
+ * decoded messages and event attributes.
+ */
+export const extractAddresses = (
+  tx: Pick<IndexedTx, 'messages' | 'events'>,
+  bech32Prefix: string,
+) => {
+  const candidates = [
+    ...collectStrings(tx.messages.map(({ value }) => value)),
+    ...tx.events.flatMap(({ attributes }) =>
+      attributes.map(({ value }) => value),
+    ),
+  ];
+
+  return Array.from(
+    new Set(candidates.filter((value) => isChainAddress(value, bech32Prefix))),
+  );
+};
+
+export const parseIndexedBlock = (
+  { block_id, block }: RpcBlock,
+  { txs_results }: RpcBlockResults,
+  bech32Prefix: string,
+): IndexedBlock => {
+  const height = Number(block.header.height);
+
+  const txs = (block.data.txs || []).map((tx, index): IndexedTx => {
+    const detail = parseTxDetail({
+      hash: getTxHash(tx),
+      height: block.header.height,
+      index,
+      tx,
+      tx_result: txs_results?.[index] ?? MISSING_TX_RESULT,
+    });
+
+    const indexedTx = {
+      hash: detail.hash,
+      height,
+      index,
+      code: detail.code,
+      gasUsed: detail.gasUsed,
+      gasWanted: detail.gasWanted,
+      fee: detail.fee,
+      memo: detail.memo,
+      messages: detail.messages,
+      events: detail.events.map(({ type, attributes }) => ({
+        type,
+        attributes: attributes.map(({ key, value }) => ({ key, value })),
+      })),
+    };
+
+    return {
+      ...indexedTx,
+      addresses: extractAddresses(indexedTx, bech32Prefix),
+    };
+  });
+
+  return {
+    height,
+    hash: block_id.hash,
+    time: block.header.time,
+    proposerAddress: block.header.proposer_address,
+    txs,
+  };
+};
+
+export const fetchIndexedBlock = async (
+  rpcEndpoint: string,
+  height: number,
+  bech32Prefix: string,
+) => {
+  const [block, results] = await Promise.all([
+    fetchRpc<RpcBlock>(rpcEndpoint, 'block', { height }),
+    fetchRpc<RpcBlockResults>(rpcEndpoint, 'block_results', { height }),
+  ]);
+
+  return parseIndexedBlock(block, results, bech32Prefix);
+};
@@ -0,0 +1,148 @@
+import Database from 'better-sqlite3';
+
+import type { IndexedTxRow, IndexerStatus } from '../utils/indexer';
+import { getIndexerConfig } from './config';
+import { getLastIndexedHeight, IndexedEvent, openDatabase } from './db';
+
+let database: Database.Database | undefined;
+
+/**
+ * Shared connection for the API routes, opened on first use.
+ */
+export const getDatabase = () => {
+  database ??= openDatabase(getIndexerConfig().dbPath);
+  return database;
+};
+
+const TX_ROW_SELECT = `
+  SELECT txs.hash, txs.height, blocks.time, txs.code, txs.fee,
+    (SELECT GROUP_CONCAT(type_url) FROM messages
+      WHERE messages.tx_hash = txs.hash) AS message_types
+  FROM txs JOIN blocks ON blocks.height = txs.height
+`;
+
+type TxRow = Omit<IndexedTxRow, 'messageTypes'> & {
+  message_types: string | null;
+};
+
+const toTxRow = ({ message_types, ...row }: TxRow): IndexedTxRow => ({
+  ...row,
+  messageTypes: message_types ? message_types.split(',') : [],
+});
+
+export const getIndexerStatus = (db: Database.Database): IndexerStatus => {
+  const { count } = db.prepare('SELECT COUNT(*) AS count FROM txs').get() as {
+    count: number;
+  };
+  const first = db
+    .prepare('SELECT MIN(height) AS height FROM blocks')
+    .get() as {
+    height: number | null;
+  };
+
+  return {
+    firstHeight: first.height,
+    lastHeight: getLastIndexedHeight(db),
+    txCount: count,
+  };
+};
+
+export const getAddressTxs = (
+  db: Database.Database,
+  address: string,
+  { limit, offset }: { limit: number; offset: number },
+) => {
+  const rows = db
+    .prepare(
+      `${TX_ROW_SELECT}
+      WHERE txs.hash IN (SELECT tx_hash FROM address_txs WHERE address = ?)
+      ORDER BY txs.height DESC, txs.tx_index DESC
+      LIMIT ? OFFSET ?`,
+    )
+    .all(address, limit, offset) as TxRow[];
+
+  const { total } = db
+    .prepare('SELECT COUNT(*) AS total FROM address_txs WHERE address = ?')
+    .get(address) as { total: number };
+
+  return { txs: rows.map(toTxRow), total };
+};
+
+/**
+ * Txs that emitted an event attribute, e.g. `proposal_vote` /
+ * `proposal_id` / `12` for the votes on a proposal.
+ */
+export const getTxsByEvent = (
+  db: Database.Database,
+  { type, key, value }: { type: string; key: string; value: string },
+  { limit, offset }: { limit: number; offset: number },
+) => {
+  const rows = db
+    .prepare(
+      `${TX_ROW_SELECT}
+      WHERE txs.hash IN (
+        SELECT tx_hash FROM events
+        WHERE type = ? AND attr_key = ? AND attr_value = ?
+      )
+      ORDER BY txs.height DESC, txs.tx_index DESC
+      LIMIT ? OFFSET ?`,
+    )
+    .all(type, key, value, limit, offset) as TxRow[];
+
+  return rows.map(toTxRow);
+};
+
+export const getIndexedTx = (db: Database.Database, hash: string) => {
+  const row = db
+    .prepare(`${TX_ROW_SELECT} WHERE txs.hash = ?`)
+    .get(hash.toUpperCase()) as TxRow | undefined;
+
+  if (!row) return null;
+
+  const tx = db
+    .prepare('SELECT memo, gas_used, gas_wanted FROM txs WHERE hash = ?')
+    .get(row.hash) as { memo: string; gas_used: string; gas_wanted: string };
+
+  const messages = (
+    db
+      .prepare(
+        'SELECT type_url, value FROM messages WHERE tx_hash = ? ORDER BY msg_index',
+      )
+      .all(row.hash) as { type_url: string; value: string }[]
+  ).map(({ type_url, value }) => ({
+    typeUrl: type_url,
+    value: JSON.parse(value),
+  }));
+
+  const events = (
+    db
+      .prepare(
+        'SELECT event_index, type, attr_key, attr_value FROM events WHERE tx_hash = ? ORDER BY rowid',
+      )
+      .all(row.hash) as {
+      event_index: number;
+      type: string;
+      attr_key: string;
+      attr_value: string;
+    }[]
+  ).reduce<IndexedEvent[]>(
+    (grouped, { event_index, type, attr_key, attr_value }) => {
+      grouped[event_index] ??= { type, attributes: [] };
+      grouped[event_index].attributes.push({
+        key: attr_key,
+        value: attr_value,
+      });
+      return grouped;
+    },
+    [],
+  );
+
+  return {
+    ...toTxRow(row),
+    memo: tx.memo,
+    gasUsed: tx.gas_used,
+    gasWanted: tx.gas_wanted,
+    messages,
+    events: events.filter(Boolean),
+  };
+};
@@ -0,0 +1,72 @@
+import Database from 'better-sqlite3';
+
+import { fetchLatestHeight } from '../utils/blocks';
+import { IndexerConfig } from './config';
+import { deleteFromHeight, getLastIndexedHeight, saveBlock } from './db';
+import { fetchIndexedBlock } from './parse';
+
+const RETRY_DELAY = 5000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Next height to index: right after the last stored block, so a restart
+ * catches up from where it stopped.
+ */
+export const getNextHeight = (
+  db: Database.Database,
+  latestHeight: number,
+  startHeight: number | null,
+) => {
+  const lastHeight = getLastIndexedHeight(db);
+  if (lastHeight !== null) return lastHeight + 1;
+  return startHeight ?? latestHeight;
+};
+
+export const reindexFrom = (db: Database.Database, height: number) => {
+  deleteFromHeight(db, height);
+  console.log(`Cleared indexed data from height ${height}`);
+};
+
+export const indexRange = async (
+  db: Database.Database,
+  { rpcEndpoint, bech32Prefix }: IndexerConfig,
+  fromHeight: number,
+  toHeight: number,
+  shouldStop: () => boolean = () => false,
+) => {
+  for (let height = fromHeight; height <= toHeight; height++) {
+    if (shouldStop()) return;
+    const block = await fetchIndexedBlock(rpcEndpoint, height, bech32Prefix);
+    saveBlock(db, block);
+    if (block.txs.length) {
+      console.log(`Indexed block ${height} (${block.txs.length} txs)`);
+    }
+  }
+};
+
+/**
+ * Follows the chain until `shouldStop` returns true, catching up on missed
+ * blocks first. RPC failures are retried after a short delay.
+ */
+export const runIndexer = async (
+  db: Database.Database,
+  config: IndexerConfig,
+  shouldStop: () => boolean = () => false,
+) => {
+  while (!shouldStop()) {
+    try {
+      const latestHeight = await fetchLatestHeight(config.rpcEndpoint);
+      const nextHeight = getNextHeight(db, latestHeight, config.startHeight);
+
+      if (nextHeight <= latestHeight) {
+        await indexRange(db, config, nextHeight, latestHeight, shouldStop);
+      } else {
+        await sleep(config.pollInterval);
+      }
+    } catch (error) {
+      console.error('Indexer error:', (error as Error).message);
+      await sleep(RETRY_DELAY);
+    }
+  }
+};
@@ -3,7 +3,12 @@
 module.exports = {
   reactStrictMode: true,
   swcMinify: true,
-  webpack: (config) => {
+  webpack: (config, { isServer }) => {
+    if (isServer) {
+      // native module used by the indexer API routes
+      config.externals.push('better-sqlite3');
+    }
+
     config.module.rules.push({
       test: /\.yaml$/,
       use: 'yaml-loader',
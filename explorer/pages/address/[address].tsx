@@ -0,0 +1,42 @@
+import { useRouter } from 'next/router';
+import { ReactNoSSR } from '@interchain-ui/react-no-ssr';
+import { useChain } from '@interchain-kit/react';
+import { Box, Text } from '@interchain-ui/react';
+import { AccountSection } from '@/components';
+import { useChainStore } from '@/contexts';
+import { validateChainAddress } from '@/utils';
+
+export default function AddressPage() {
+  const router = useRouter();
+  const { selectedChain } = useChainStore();
+  const { chain } = useChain(selectedChain);
+  const { address } = router.query;
+
+  if (typeof address !== 'string' || !chain) return null;
+
+  const error =
+    chain.chainType !== 'cosmos'
+      ? `Account pages are not available for ${chain.chainType} chains`
+      : validateChainAddress(address, chain.bech32Prefix ?? '');
+
+  if (error) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="400px"
+      >
+        <Text fontWeight="$semibold" fontSize="$xl" textAlign="center">
+          {error}
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <ReactNoSSR>
+      <AccountSection chainName={selectedChain} address={address} />
+    </ReactNoSSR>
+  );
+}
@@ -0,0 +1,48 @@
+import { ReactNoSSR } from '@interchain-ui/react-no-ssr';
+import { useChain } from '@interchain-kit/react';
+import { Box, Text } from '@interchain-ui/react';
+import { ValidatorConsistencyReport } from '@/components';
+import { useChainStore } from '@/contexts';
+
+export default function ValidatorConsistencyPage() {
+  const { selectedChain } = useChainStore();
+  const { chain } = useChain(selectedChain);
+
+  if (chain && chain.chainType !== 'cosmos') {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="400px"
+      >
+        <Text fontWeight="$semibold" fontSize="$xl" textAlign="center">
+          Validator checks are not available for {chain.chainType} chains
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <ReactNoSSR>
+      <Box maxWidth="$containerMd" mx="auto" mb="$17">
+        <Text
+          color="$blackAlpha600"
+          fontSize="24px"
+          fontWeight="700"
+          attributes={{ mb: '4px' }}
+        >
+          Validator Consistency
+        </Text>
+        <Text
+          color="$blackAlpha500"
+          fontSize="14px"
+          attributes={{ mb: '20px' }}
+        >
+          Latest Tendermint validator set compared with the staking validators
+        </Text>
+        <ValidatorConsistencyReport chainName={selectedChain} />
+      </Box>
+    </ReactNoSSR>
+  );
+}
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { getPageParams } from '@/indexer/api';
+import { getAddressTxs, getDatabase } from '@/indexer/queries';
+
+type ResponseData = ReturnType<typeof getAddressTxs>;
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | { error: string }>,
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { address } = req.query;
+  if (typeof address !== 'string') {
+    return res.status(400).json({ error: 'Missing address' });
+  }
+
+  try {
+    return res
+      .status(200)
+      .json(getAddressTxs(getDatabase(), address, getPageParams(req.query)));
+  } catch (error) {
+    console.error('Error reading address txs:', error);
+    return res.status(500).json({ error: 'Indexer database unavailable' });
+  }
+}
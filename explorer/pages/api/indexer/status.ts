@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { getIndexerConfig } from '@/indexer/config';
+import { getDatabase, getIndexerStatus } from '@/indexer/queries';
+import type { IndexerInfo } from '@/utils/indexer';
+
+type ResponseData = IndexerInfo;
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | { error: string }>,
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    return res.status(200).json({
+      ...getIndexerStatus(getDatabase()),
+      bech32Prefix: getIndexerConfig().bech32Prefix,
+    });
+  } catch (error) {
+    console.error('Error reading indexer status:', error);
+    return res.status(500).json({ error: 'Indexer database unavailable' });
+  }
+}
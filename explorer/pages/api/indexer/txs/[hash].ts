@@ -0,0 +1,28 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { getDatabase, getIndexedTx } from '@/indexer/queries';
+
+type ResponseData = NonNullable<ReturnType<typeof getIndexedTx>>;
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | { error: string }>,
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { hash } = req.query;
+  if (typeof hash !== 'string') {
+    return res.status(400).json({ error: 'Missing tx hash' });
+  }
+
+  try {
+    const tx = getIndexedTx(getDatabase(), hash);
+    if (!tx) return res.status(404).json({ error: 'Transaction not indexed' });
+    return res.status(200).json(tx);
+  } catch (error) {
+    console.error('Error reading indexed tx:', error);
+    return res.status(500).json({ error: 'Indexer database unavailable' });
+  }
+}
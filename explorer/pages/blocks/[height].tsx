@@ -0,0 +1,19 @@
+import { useRouter } from 'next/router';
+import { ReactNoSSR } from '@interchain-ui/react-no-ssr';
+import { BlockDetails } from '@/components';
+import { useChainStore } from '@/contexts';
+import { isPositiveInt } from '@/utils';
+
+export default function BlockPage() {
+  const router = useRouter();
+  const { selectedChain } = useChainStore();
+  const { height } = router.query;
+
+  if (typeof height !== 'string' || !isPositiveInt(height)) return null;
+
+  return (
+    <ReactNoSSR>
+      <BlockDetails chainName={selectedChain} height={Number(height)} />
+    </ReactNoSSR>
+  );
+}
@@ -0,0 +1,31 @@
+import { ReactNoSSR } from '@interchain-ui/react-no-ssr';
+import { useChain } from '@interchain-kit/react';
+import { Box, Text } from '@interchain-ui/react';
+import { BlocksSection } from '@/components';
+import { useChainStore } from '@/contexts';
+
+export default function BlocksPage() {
+  const { selectedChain } = useChainStore();
+  const { chain } = useChain(selectedChain);
+
+  if (chain && chain.chainType !== 'cosmos') {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="400px"
+      >
+        <Text fontWeight="$semibold" fontSize="$xl" textAlign="center">
+          Block explorer is not available for {chain.chainType} chains
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <ReactNoSSR>
+      <BlocksSection chainName={selectedChain} />
+    </ReactNoSSR>
+  );
+}
@@ -0,0 +1,45 @@
+import { useRouter } from 'next/router';
+import { ReactNoSSR } from '@interchain-ui/react-no-ssr';
+import { useChain } from '@interchain-kit/react';
+import { Box, Text } from '@interchain-ui/react';
+import { DeploymentDetails } from '@/components';
+import { useChainStore } from '@/contexts';
+import { isPositiveInt, validateChainAddress } from '@/utils';
+
+export default function DeploymentPage() {
+  const router = useRouter();
+  const { selectedChain } = useChainStore();
+  const { chain } = useChain(selectedChain);
+  const { owner, dseq } = router.query;
+
+  if (typeof owner !== 'string' || typeof dseq !== 'string' || !chain) {
+    return null;
+  }
+
+  const error =
+    chain.chainType !== 'cosmos'
+      ? `Deployments are not available for ${chain.chainType} chains`
+      : validateChainAddress(owner, chain.bech32Prefix ?? '') ||
+        (isPositiveInt(dseq) ? null : 'Invalid deployment sequence');
+
+  if (error) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="400px"
+      >
+        <Text fontWeight="$semibold" fontSize="$xl" textAlign="center">
+          {error}
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <ReactNoSSR>
+      <DeploymentDetails chainName={selectedChain} owner={owner} dseq={dseq} />
+    </ReactNoSSR>
+  );
+}
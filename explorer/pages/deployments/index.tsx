@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import { ReactNoSSR } from '@interchain-ui/react-no-ssr';
+import { useChain } from '@interchain-kit/react';
+import { Box, Tabs, Text } from '@interchain-ui/react';
+
+import { AllDeploymentsTab, MyDeploymentsTab } from '@/components';
+import { splitCamelCase, toKebabCase, toPascalCase } from '@/utils';
+import { useChainStore } from '@/contexts';
+import styles from '@/styles/comp.module.css';
+
+enum TabLabel {
+  AllDeployments,
+  MyDeployments,
+}
+
+export default function DeploymentsPage() {
+  const router = useRouter();
+  const { selectedChain } = useChainStore();
+  const { chain } = useChain(selectedChain);
+  const [activeTab, setActiveTab] = useState<TabLabel>(TabLabel.AllDeployments);
+  const initialTab = useRef(false);
+
+  useEffect(() => {
+    if (!initialTab.current && router.isReady) {
+      const { tab } = router.query;
+
+      if (typeof tab === 'string') {
+        const newTab = TabLabel[toPascalCase(tab) as keyof typeof TabLabel];
+        if (newTab !== undefined) setActiveTab(newTab);
+      }
+
+      initialTab.current = true;
+    }
+  }, [router.isReady, router.query]);
+
+  const handleTabChange = useCallback(
+    (tabId: TabLabel) => {
+      setActiveTab(tabId);
+      router.push(
+        {
+          pathname: '/deployments',
+          query: { tab: toKebabCase(TabLabel[tabId]) },
+        },
+        undefined,
+        { shallow: true },
+      );
+    },
+    [router],
+  );
+
+  if (chain && chain.chainType !== 'cosmos') {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="400px"
+      >
+        <Text fontWeight="$semibold" fontSize="$xl" textAlign="center">
+          Deployments are not available for {chain.chainType} chains
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <ReactNoSSR>
+      <Tabs
+        tabs={Object.values(TabLabel)
+          .filter((v) => typeof v === 'string')
+          .map((label) => ({
+            label: splitCamelCase(label as string),
+            content: undefined,
+          }))}
+        activeTab={activeTab}
+        onActiveTabChange={handleTabChange}
+        className={styles.tabs}
+      />
+      <Box mt="40px">
+        <AllDeploymentsTab
+          show={activeTab === TabLabel.AllDeployments}
+          chainName={selectedChain}
+        />
+        <MyDeploymentsTab
+          show={activeTab === TabLabel.MyDeployments}
+          chainName={selectedChain}
+        />
+      </Box>
+    </ReactNoSSR>
+  );
+}
@@ -0,0 +1,37 @@
+import { useRouter } from 'next/router';
+import { ReactNoSSR } from '@interchain-ui/react-no-ssr';
+import { useChain } from '@interchain-kit/react';
+import { Box, Text } from '@interchain-ui/react';
+import { ProposalDetails } from '@/components';
+import { useChainStore } from '@/contexts';
+import { isPositiveInt } from '@/utils';
+
+export default function ProposalPage() {
+  const router = useRouter();
+  const { selectedChain } = useChainStore();
+  const { chain } = useChain(selectedChain);
+  const { id } = router.query;
+
+  if (typeof id !== 'string' || !isPositiveInt(id) || !chain) return null;
+
+  if (chain.chainType !== 'cosmos') {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="400px"
+      >
+        <Text fontWeight="$semibold" fontSize="$xl" textAlign="center">
+          Governance functionality is not available for {chain.chainType} chains
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <ReactNoSSR>
+      <ProposalDetails chainName={selectedChain} proposalId={id} />
+    </ReactNoSSR>
+  );
+}
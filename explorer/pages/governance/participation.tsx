@@ -0,0 +1,31 @@
+import { ReactNoSSR } from '@interchain-ui/react-no-ssr';
+import { GovernanceParticipation } from '@/components';
+import { useChainStore } from '@/contexts';
+import { useChain } from '@interchain-kit/react';
+import { Box, Text } from '@interchain-ui/react';
+
+export default function GovernanceParticipationPage() {
+  const { selectedChain } = useChainStore();
+  const { chain } = useChain(selectedChain);
+
+  if (chain && chain.chainType !== 'cosmos') {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="400px"
+      >
+        <Text fontWeight="$semibold" fontSize="$xl" textAlign="center">
+          Governance functionality is not available for {chain.chainType} chains
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <ReactNoSSR>
+      <GovernanceParticipation chainName={selectedChain} />
+    </ReactNoSSR>
+  );
+}
@@ -1,80 +1,32 @@
-import Image from 'next/image';
-import { Box, Text, useColorModeValue } from '@interchain-ui/react';
+import { ReactNoSSR } from '@interchain-ui/react-no-ssr';
 import { useChain } from '@interchain-kit/react';
+import { Box, Text } from '@interchain-ui/react';
 
-import { Button } from '@/components';
+import { Dashboard } from '@/components';
 import { useChainStore } from '@/contexts';
-import { useDetectBreakpoints } from '@/hooks';
 
 export default function Home() {
-  const { isMobile } = useDetectBreakpoints();
-
-  const chainsImageSrc = useColorModeValue(
-    '/images/chains.png',
-    '/images/chains-dark.png',
-  );
+  const { selectedChain } = useChainStore();
+  const { chain } = useChain(selectedChain);
 
-  return (
-    <>
-      <Text
-        textAlign="center"
-        fontSize="48px"
-        fontWeight="500"
-        attributes={{ mt: '200px', mb: '20px' }}
-      >
-        Create Interchain App
-      </Text>
-      <Text
-        textAlign="center"
-        fontSize="16px"
-        fontWeight="500"
-        attributes={{ mb: '20px' }}
-      >
-        Welcome to <HighlightText>Interchain Kit</HighlightText> +{' '}
-        <HighlightText>Next.js</HighlightText>
-      </Text>
-      <ConnectButton />
+  if (chain && chain.chainType !== 'cosmos') {
+    return (
       <Box
         display="flex"
         justifyContent="center"
-        mt={isMobile ? '60px' : '100px'}
+        alignItems="center"
+        minHeight="400px"
       >
-        <Image
-          alt="chains"
-          src={chainsImageSrc}
-          width={840}
-          height={224}
-          style={{
-            maxWidth: '840px',
-            width: '100%',
-            height: 'auto',
-          }}
-        />
+        <Text fontWeight="$semibold" fontSize="$xl" textAlign="center">
+          The network dashboard is not available for {chain.chainType} chains
+        </Text>
       </Box>
-    </>
-  );
-}
+    );
+  }
 
-const HighlightText = ({ children }: { children: string }) => {
   return (
-    <Text as="span" color="$purple600" fontSize="inherit">
-      {children}
-    </Text>
+    <ReactNoSSR>
+      <Dashboard chainName={selectedChain} />
+    </ReactNoSSR>
   );
-};
-
-const ConnectButton = () => {
-  const { selectedChain } = useChainStore();
-  const { connect, address, openView } = useChain(selectedChain);
-
-  return (
-    <Button
-      variant="primary"
-      leftIcon="walletFilled"
-      mx="auto"
-      onClick={address ? openView : connect}
-    >
-      {address ? 'My Wallet' : 'Connect Wallet'}
-    </Button>
-  );
-};
+}
@@ -0,0 +1,42 @@
+import { useRouter } from 'next/router';
+import { ReactNoSSR } from '@interchain-ui/react-no-ssr';
+import { useChain } from '@interchain-kit/react';
+import { Box, Text } from '@interchain-ui/react';
+import { ProviderDetails } from '@/components';
+import { useChainStore } from '@/contexts';
+import { validateChainAddress } from '@/utils';
+
+export default function ProviderPage() {
+  const router = useRouter();
+  const { selectedChain } = useChainStore();
+  const { chain } = useChain(selectedChain);
+  const { owner } = router.query;
+
+  if (typeof owner !== 'string' || !chain) return null;
+
+  const error =
+    chain.chainType !== 'cosmos'
+      ? `Providers are not available for ${chain.chainType} chains`
+      : validateChainAddress(owner, chain.bech32Prefix ?? '');
+
+  if (error) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="400px"
+      >
+        <Text fontWeight="$semibold" fontSize="$xl" textAlign="center">
+          {error}
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <ReactNoSSR>
+      <ProviderDetails chainName={selectedChain} owner={owner} />
+    </ReactNoSSR>
+  );
+}
@@ -0,0 +1,41 @@
+import { ReactNoSSR } from '@interchain-ui/react-no-ssr';
+import { useChain } from '@interchain-kit/react';
+import { Box, Text } from '@interchain-ui/react';
+import { ProvidersList } from '@/components';
+import { useChainStore } from '@/contexts';
+
+export default function ProvidersPage() {
+  const { selectedChain } = useChainStore();
+  const { chain } = useChain(selectedChain);
+
+  if (chain && chain.chainType !== 'cosmos') {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="400px"
+      >
+        <Text fontWeight="$semibold" fontSize="$xl" textAlign="center">
+          Providers are not available for {chain.chainType} chains
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <ReactNoSSR>
+      <Box maxWidth="$containerMd" mx="auto" mb="$17">
+        <Text
+          color="$blackAlpha600"
+          fontSize="24px"
+          fontWeight="700"
+          attributes={{ mb: '20px' }}
+        >
+          Providers
+        </Text>
+        <ProvidersList chainName={selectedChain} />
+      </Box>
+    </ReactNoSSR>
+  );
+}
@@ -0,0 +1,19 @@
+import { useRouter } from 'next/router';
+import { ReactNoSSR } from '@interchain-ui/react-no-ssr';
+import { TransactionDetails } from '@/components';
+import { useChainStore } from '@/contexts';
+import { isTxHash } from '@/utils';
+
+export default function TransactionPage() {
+  const router = useRouter();
+  const { selectedChain } = useChainStore();
+  const { hash } = router.query;
+
+  if (typeof hash !== 'string' || !isTxHash(hash)) return null;
+
+  return (
+    <ReactNoSSR>
+      <TransactionDetails chainName={selectedChain} hash={hash.toUpperCase()} />
+    </ReactNoSSR>
+  );
+}
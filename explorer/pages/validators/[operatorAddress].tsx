@@ -0,0 +1,45 @@
+import { useRouter } from 'next/router';
+import { ReactNoSSR } from '@interchain-ui/react-no-ssr';
+import { useChain } from '@interchain-kit/react';
+import { Box, Text } from '@interchain-ui/react';
+import { ValidatorDetails } from '@/components';
+import { useChainStore } from '@/contexts';
+import { validateChainAddress } from '@/utils';
+
+export default function ValidatorPage() {
+  const router = useRouter();
+  const { selectedChain } = useChainStore();
+  const { chain } = useChain(selectedChain);
+  const { operatorAddress } = router.query;
+
+  if (typeof operatorAddress !== 'string' || !chain) return null;
+
+  const error =
+    chain.chainType !== 'cosmos'
+      ? `Validator pages are not available for ${chain.chainType} chains`
+      : validateChainAddress(operatorAddress, `${chain.bech32Prefix}valoper`);
+
+  if (error) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="400px"
+      >
+        <Text fontWeight="$semibold" fontSize="$xl" textAlign="center">
+          {error}
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <ReactNoSSR>
+      <ValidatorDetails
+        chainName={selectedChain}
+        operatorAddress={operatorAddress}
+      />
+    </ReactNoSSR>
+  );
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import {
+    appendRewardSample,
+    calcAkashInflation,
+    calcNominalApr,
+    calcRealizedApr,
+    calcValidatorApr,
+    calcWeightedApr,
+    RewardSample,
+} from '@/utils/staking/apr'
+import { params } from './fixtures/akash-inflation-params.json'
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000
+const DAY_MS = YEAR_MS / 365.25
+const genesisTime = '2021-03-08T15:00:00Z'
+const genesis = new Date(genesisTime).getTime()
+
+describe('Akash inflation', () => {
+    it('halves the ideal inflation every decay period', () => {
+        expect(
+            calcAkashInflation({
+                params,
+                genesisTime,
+                now: genesis,
+            }).toNumber(),
+        ).toBe(1)
+        expect(
+            calcAkashInflation({
+                params,
+                genesisTime,
+                now: genesis + 2 * YEAR_MS,
+            }).toNumber(),
+        ).toBeCloseTo(0.5, 10)
+        expect(
+            calcAkashInflation({
+                params,
+                genesisTime,
+                now: genesis + 5 * YEAR_MS,
+            }).toNumber(),
+        ).toBeCloseTo(0.1767767, 6)
+    })
+
+    it('clamps the minter inflation to the variance band', () => {
+        const now = genesis + 2 * YEAR_MS
+        const inflation = (minterInflation: string) =>
+            calcAkashInflation({
+                params,
+                genesisTime,
+                now,
+                minterInflation,
+            }).toNumber()
+
+        expect(inflation('0.9')).toBeCloseTo(0.525, 10)
+        expect(inflation('0.4')).toBeCloseTo(0.475, 10)
+        expect(inflation('0.51')).toBe(0.51)
+    })
+})
+
+describe('Staking APR', () => {
+    it('spreads inflation net of community tax over bonded tokens', () => {
+        const nominalApr = calcNominalApr({
+            inflation: '0.1',
+            totalSupply: '1000000',
+            bondedTokens: '500000',
+            communityTax: '0.02',
+        })
+
+        expect(nominalApr.toString()).toBe('0.196')
+        expect(calcValidatorApr(nominalApr, '0.05')).toBe('18.62')
+        expect(calcValidatorApr(nominalApr, '1')).toBe('0')
+    })
+
+    it('weights APR by delegated amount and skips validators without one', () => {
+        expect(
+            calcWeightedApr([
+                { delegation: '1000', apr: '10' },
+                { delegation: '3000', apr: '20' },
+                { delegation: '500', apr: null },
+                { delegation: '0', apr: '50' },
+            ]),
+        ).toBe('17.5')
+        expect(calcWeightedApr([{ delegation: '500', apr: null }])).toBeNull()
+    })
+})
+
+describe('Realized APR', () => {
+    const sample = (
+        days: number,
+        rewards: string,
+        delegated = '1000',
+    ): RewardSample => ({ time: genesis + days * DAY_MS, rewards, delegated })
+
+    it('annualizes reward growth over the accrual window', () => {
+        const samples = [sample(0, '0'), sample(0.5, '0.15'), sample(1, '0.3')]
+
+        expect(calcRealizedApr(samples)).toBe('10.95')
+    })
+
+    it('needs a long enough window', () => {
+        expect(calcRealizedApr([sample(0, '0')])).toBeNull()
+        expect(
+            calcRealizedApr([sample(0, '0'), sample(0.001, '0.1')]),
+        ).toBeNull()
+    })
+
+    it('starts a new window after a claim or a delegation change', () => {
+        let samples = appendRewardSample([], sample(0, '1'))
+        samples = appendRewardSample(samples, sample(1, '1.3'))
+        expect(samples).toHaveLength(2)
+
+        samples = appendRewardSample(samples, sample(2, '0.1'))
+        expect(samples).toEqual([sample(2, '0.1')])
+
+        samples = appendRewardSample(samples, sample(3, '0.4', '2000'))
+        expect(samples).toEqual([sample(3, '0.4', '2000')])
+    })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import {
+    BlockSummary,
+    getTxHash,
+    mergeBlocks,
+    parseNewBlockEvent,
+    sumTxsGas,
+    toWebsocketEndpoint,
+} from '@/utils/blocks'
+
+const block = (height: number): BlockSummary => ({
+    height,
+    hash: `HASH${height}`,
+    time: '2024-01-01T00:00:00Z',
+    proposerAddress: 'ABCDEF',
+    txCount: 0,
+    gasUsed: '0',
+    gasWanted: '0',
+})
+
+describe('Block Utils Tests', () => {
+    it('should build the websocket endpoint from an rpc endpoint', () => {
+        expect(toWebsocketEndpoint('https://rpc.akash.network/')).toBe('wss://rpc.akash.network/websocket')
+        expect(toWebsocketEndpoint('http://localhost:26657')).toBe('ws://localhost:26657/websocket')
+    })
+
+    it('should parse the height of a NewBlock event', () => {
+        const message = JSON.stringify({
+            jsonrpc: '2.0',
+            id: 'new-block',
+            result: {
+                query: "tm.event='NewBlock'",
+                data: {
+                    type: 'tendermint/event/NewBlock',
+                    value: { block: { header: { height: '1234' } } },
+                },
+            },
+        })
+        expect(parseNewBlockEvent(message)).toBe(1234)
+    })
+
+    it('should ignore the subscription ack and malformed messages', () => {
+        expect(parseNewBlockEvent(JSON.stringify({ jsonrpc: '2.0', id: 'new-block', result: {} }))).toBeNull()
+        expect(parseNewBlockEvent('not json')).toBeNull()
+    })
+
+    it('should sum gas across tx results', () => {
+        const results = [
+            { code: 0, gas_used: '100', gas_wanted: '200' },
+            { code: 5, gas_used: '50', gas_wanted: '80' },
+        ]
+        expect(sumTxsGas(results, 'gas_used')).toBe('150')
+        expect(sumTxsGas(results, 'gas_wanted')).toBe('280')
+        expect(sumTxsGas(null, 'gas_used')).toBe('0')
+    })
+
+    it('should hash base64 encoded txs into uppercase hex', () => {
+        expect(getTxHash('')).toBe('E3B0C44298FC1C149AFBF4C8996FB92427AE41E4649B934CA495991B7852B855')
+    })
+
+    it('should merge streamed blocks newest first without duplicates', () => {
+        const merged = mergeBlocks([block(12), block(11)], [block(11), block(10), block(9)], 3)
+        expect(merged.map(({ height }) => height)).toEqual([12, 11, 10])
+    })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import {
+    calcBurnRate,
+    calcEscrowDaysLeft,
+    getGpuModels,
+    Lease,
+    parseResourceUnit,
+    perBlockToPerDay,
+} from '@/utils/akash'
+
+const lease = (state: string, amount: string, denom = 'uakt'): Lease => ({
+    owner: 'akash1owner',
+    dseq: '1',
+    gseq: 1,
+    oseq: 1,
+    provider: 'akash1provider',
+    state,
+    price: { denom, amount },
+    createdAt: 1,
+    closedOn: 0,
+    withdrawn: null,
+})
+
+describe('Akash Deployment Utils Tests', () => {
+    it('should scale resource units by their count', () => {
+        const resources = parseResourceUnit({
+            resource: {
+                id: 1,
+                cpu: { units: { val: '500' } },
+                memory: { quantity: { val: '1073741824' } },
+                storage: [
+                    { name: 'default', quantity: { val: '1024' } },
+                    { name: 'data', quantity: { val: '2048' } },
+                ],
+                gpu: {
+                    units: { val: '1' },
+                    attributes: [{ key: 'vendor/nvidia/model/a100', value: 'true' }],
+                },
+            },
+            count: 2,
+            price: { denom: 'uakt', amount: '10' },
+        })
+
+        expect(resources).toEqual({
+            cpu: 1,
+            memory: 2147483648,
+            storage: 6144,
+            gpu: 2,
+            gpuModels: ['nvidia a100'],
+        })
+    })
+
+    it('should ignore attributes that are not gpu models', () => {
+        expect(getGpuModels([{ key: 'region', value: 'us-west' }])).toEqual([])
+    })
+
+    it('should only count active leases in the escrow denom towards the burn rate', () => {
+        const leases = [
+            lease('active', '1.5'),
+            lease('active', '2.5'),
+            lease('closed', '100'),
+            lease('active', '7', 'ibc/USDC'),
+        ]
+
+        expect(calcBurnRate(leases, 'uakt')).toBe('4')
+    })
+
+    it('should estimate the days left in escrow', () => {
+        const burnRate = '10'
+        const perDay = perBlockToPerDay(burnRate)
+
+        expect(calcEscrowDaysLeft(perDay, burnRate)).toBe(1)
+        expect(calcEscrowDaysLeft('1000', '0')).toBeNull()
+    })
+})
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { getTopValidators, splitDelegation } from '@/utils/staking/diversify'
+
+const validators = [
+    { address: 'a', votingPower: 100 },
+    { address: 'b', votingPower: 300 },
+    { address: 'c', votingPower: 600 },
+]
+
+const sum = (split: { amount: string }[]) =>
+    split.reduce((total, { amount }) => total + Number(amount), 0)
+
+describe('splitDelegation', () => {
+    it('splits equally and hands the leftover to one validator', () => {
+        const split = splitDelegation({
+            amount: 1000,
+            validators,
+            strategy: 'equal',
+        })
+        expect(split.map(({ amount }) => amount)).toEqual(['334', '333', '333'])
+        expect(sum(split)).toBe(1000)
+    })
+
+    it('gives smaller validators more when weighted by inverse voting power', () => {
+        const split = splitDelegation({
+            amount: 1000,
+            validators,
+            strategy: 'inverse-voting-power',
+        })
+        const [a, b, c] = split.map(({ amount }) => Number(amount))
+        expect(a).toBeGreaterThan(b)
+        expect(b).toBeGreaterThan(c)
+        expect(sum(split)).toBe(1000)
+    })
+
+    it('follows custom shares and drops validators without one', () => {
+        const split = splitDelegation({
+            amount: 1000,
+            validators,
+            strategy: 'custom',
+            shares: { a: 25, c: 75 },
+        })
+        expect(split).toEqual([
+            { address: 'a', amount: '250' },
+            { address: 'c', amount: '750' },
+        ])
+    })
+
+    it('returns nothing when there is nothing to split across', () => {
+        expect(
+            splitDelegation({
+                amount: 1000,
+                validators: [],
+                strategy: 'equal',
+            }),
+        ).toEqual([])
+    })
+})
+
+describe('getTopValidators', () => {
+    it('picks the validators with the most voting power', () => {
+        expect(getTopValidators(validators, 2)).toEqual(new Set(['c', 'b']))
+    })
+})
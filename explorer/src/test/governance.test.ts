@@ -0,0 +1,287 @@
+import { describe, expect, it } from 'vitest'
+import { diffParams, getParamUpdates } from '@/utils/governance/params'
+import {
+    buildTemplateMessages,
+    checkDeposit,
+    getModuleAddress,
+    parseRawMessages,
+} from '@/utils/governance/proposal'
+import { parseTallyParam, projectTally } from '@/utils/governance/tally'
+import {
+    formatWeightedVote,
+    markSupersededVotes,
+    parseVoteOptions,
+    parseVoteWeight,
+    rebalanceVoteWeights,
+    toWeightedVoteOptions,
+} from '@/utils/governance/votes'
+
+describe('diffParams', () => {
+    it('flattens nested params and flags changed keys', () => {
+        const diffs = diffParams(
+            { maxValidators: 100, minDeposit: { amount: '10' } },
+            { maxValidators: 120, minDeposit: { amount: '10' } },
+        )
+        expect(diffs).toEqual([
+            {
+                key: 'maxValidators',
+                current: '100',
+                proposed: '120',
+                changed: true,
+            },
+            {
+                key: 'minDeposit.amount',
+                current: '"10"',
+                proposed: '"10"',
+                changed: false,
+            },
+        ])
+    })
+
+    it('lists keys missing on either side', () => {
+        const diffs = diffParams({ a: 1 }, { b: 2 }, 'staking')
+        expect(diffs.map(({ key, changed }) => [key, changed])).toEqual([
+            ['staking.a', true],
+            ['staking.b', true],
+        ])
+    })
+})
+
+describe('getParamUpdates', () => {
+    it('reads module params and legacy parameter changes', () => {
+        const updates = getParamUpdates([
+            {
+                typeUrl: '/cosmos.staking.v1beta1.MsgUpdateParams',
+                value: { params: { maxValidators: 120 } },
+            },
+            {
+                typeUrl: '/cosmos.gov.v1.MsgExecLegacyContent',
+                value: {
+                    content: {
+                        typeUrl:
+                            '/cosmos.params.v1beta1.ParameterChangeProposal',
+                        value: {
+                            changes: [
+                                {
+                                    subspace: 'mint',
+                                    key: 'InflationMax',
+                                    value: '"0.2"',
+                                },
+                            ],
+                        },
+                    },
+                },
+            },
+            { typeUrl: '/cosmos.bank.v1beta1.MsgSend', value: {} },
+        ])
+        expect(updates).toEqual([
+            {
+                kind: 'module',
+                module: 'staking',
+                proposed: { maxValidators: 120 },
+            },
+            {
+                kind: 'subspace',
+                subspace: 'mint',
+                key: 'InflationMax',
+                proposed: '0.2',
+            },
+        ])
+    })
+})
+
+describe('parseVoteOptions', () => {
+    it('reads every event format', () => {
+        expect(parseVoteOptions('VOTE_OPTION_YES')).toEqual([
+            { option: 'Yes', weight: '1' },
+        ])
+        expect(
+            parseVoteOptions(
+                'option:VOTE_OPTION_YES weight:"0.7"\noption:VOTE_OPTION_NO weight:"0.3"',
+            ),
+        ).toEqual([
+            { option: 'Yes', weight: '0.7' },
+            { option: 'No', weight: '0.3' },
+        ])
+        expect(
+            parseVoteOptions(
+                '[{"option":1,"weight":"0.5"},{"option":2,"weight":"0.5"}]',
+            ),
+        ).toEqual([
+            { option: 'Yes', weight: '0.5' },
+            { option: 'Abstain', weight: '0.5' },
+        ])
+    })
+
+    it('formats single and weighted votes', () => {
+        expect(formatWeightedVote(parseVoteOptions('VOTE_OPTION_NO'))).toBe(
+            'No',
+        )
+        expect(
+            formatWeightedVote([
+                { option: 'Yes', weight: '0.7' },
+                { option: 'No with veto', weight: '0.3' },
+            ]),
+        ).toBe('Yes 70%, No with veto 30%')
+        expect(formatWeightedVote([])).toBe('--')
+    })
+})
+
+describe('markSupersededVotes', () => {
+    it('only counts the newest vote of each voter', () => {
+        const votes = [
+            { voter: 'alice', hash: '3' },
+            { voter: 'bob', hash: '2' },
+            { voter: 'alice', hash: '1' },
+        ]
+        expect(
+            markSupersededVotes(votes).map(({ superseded }) => superseded),
+        ).toEqual([false, false, true])
+        expect(
+            markSupersededVotes(votes, ['bob']).map(
+                ({ superseded }) => superseded,
+            ),
+        ).toEqual([false, true, true])
+    })
+})
+
+describe('rebalanceVoteWeights', () => {
+    const weights = { 1: 100, 2: 0, 3: 0, 4: 0 }
+    const total = (next: Record<number, number>) =>
+        Object.values(next).reduce((sum, weight) => sum + weight, 0)
+
+    it('spreads the rest evenly when the other options are empty', () => {
+        const next = rebalanceVoteWeights(weights, 1, 40)
+        expect(next).toEqual({ 1: 40, 2: 20, 3: 20, 4: 20 })
+    })
+
+    it('keeps the other options in proportion and sums to 100', () => {
+        const next = rebalanceVoteWeights({ 1: 50, 2: 0, 3: 25, 4: 25 }, 2, 33)
+        expect(next).toEqual({ 1: 35, 2: 33, 3: 16, 4: 16 })
+        expect(total(next)).toBe(100)
+    })
+
+    it('builds msg options without empty weights', () => {
+        expect(toWeightedVoteOptions({ 1: 70, 2: 0, 3: 30, 4: 0 })).toEqual([
+            { option: 1, weight: '0.7' },
+            { option: 3, weight: '0.3' },
+        ])
+    })
+
+    it('reads decimal and raw sdk.Dec weights', () => {
+        expect(parseVoteWeight('0.700000000000000000')).toBe(0.7)
+        expect(parseVoteWeight('300000000000000000')).toBe(0.3)
+    })
+})
+
+describe('proposal builder', () => {
+    it('derives the gov module address', () => {
+        expect(getModuleAddress('gov', 'cosmos')).toBe(
+            'cosmos10d07y265gmmuvt4z0w9aw880jnsr700j6zn9kn',
+        )
+    })
+
+    it('builds template messages as the gov authority', () => {
+        const [message] = buildTemplateMessages(
+            'software-upgrade',
+            {
+                recipient: '',
+                amount: '0',
+                denom: 'uakt',
+                upgradeName: 'v1.0.0',
+                upgradeHeight: '100',
+                upgradeInfo: '',
+            },
+            'gov',
+        )
+        expect(message).toEqual({
+            typeUrl: '/cosmos.upgrade.v1beta1.MsgSoftwareUpgrade',
+            value: {
+                authority: 'gov',
+                plan: { name: 'v1.0.0', height: '100', info: '' },
+            },
+        })
+    })
+
+    it('rejects raw messages that are not typed objects', () => {
+        expect(() => parseRawMessages('{}')).toThrow('JSON array')
+        expect(() => parseRawMessages('[{"value":{}}]')).toThrow(
+            'Message 1 must be an object with a typeUrl and a value',
+        )
+        expect(parseRawMessages('[{"typeUrl":"/a","value":{}}]')).toEqual([
+            { typeUrl: '/a', value: {} },
+        ])
+    })
+
+    it('checks the deposit against the gov params', () => {
+        expect(
+            checkDeposit({
+                amount: 200,
+                minDeposit: 1000,
+                minInitialDepositRatio: '0.25',
+            }),
+        ).toEqual({
+            minInitialDeposit: '250',
+            isBelowMinDeposit: true,
+            isBelowMinInitialDeposit: true,
+        })
+        expect(checkDeposit({ amount: 1000, minDeposit: 1000 })).toMatchObject({
+            isBelowMinDeposit: false,
+            isBelowMinInitialDeposit: false,
+        })
+    })
+})
+
+describe('projectTally', () => {
+    const params = { quorum: 0.334, threshold: 0.5, vetoThreshold: 0.334 }
+    const tally = (yes: number, abstain: number, no: number, veto: number) => ({
+        yesCount: String(yes),
+        abstainCount: String(abstain),
+        noCount: String(no),
+        noWithVetoCount: String(veto),
+    })
+
+    it('fails proposals below quorum', () => {
+        const projection = projectTally({
+            tally: tally(300, 0, 0, 0),
+            bondedTokens: 1000,
+            params,
+        })
+        expect(projection).toMatchObject({ turnout: 0.3, outcome: 'no-quorum' })
+    })
+
+    it('leaves abstain votes out of the yes ratio', () => {
+        const projection = projectTally({
+            tally: tally(200, 200, 100, 0),
+            bondedTokens: 1000,
+            params,
+        })
+        expect(projection.yesRatio).toBeCloseTo(2 / 3)
+        expect(projection.outcome).toBe('passing')
+    })
+
+    it('checks the veto before the yes threshold', () => {
+        expect(
+            projectTally({
+                tally: tally(300, 0, 0, 200),
+                bondedTokens: 1000,
+                params,
+            }).outcome,
+        ).toBe('vetoed')
+        expect(
+            projectTally({
+                tally: tally(200, 0, 200, 0),
+                bondedTokens: 1000,
+                params,
+            }).outcome,
+        ).toBe('below-threshold')
+    })
+
+    it('parses decimal, raw and byte params', () => {
+        expect(parseTallyParam('0.334000000000000000')).toBe(0.334)
+        expect(parseTallyParam('500000000000000000')).toBe(0.5)
+        expect(
+            parseTallyParam(new TextEncoder().encode('334000000000000000')),
+        ).toBe(0.334)
+    })
+})
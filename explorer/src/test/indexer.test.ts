@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import Database from 'better-sqlite3'
+import {
+    deleteFromHeight,
+    getLastIndexedHeight,
+    IndexedBlock,
+    openDatabase,
+    saveBlock,
+} from '../../indexer/db'
+import {
+    getAddressTxs,
+    getIndexedTx,
+    getIndexerStatus,
+    getTxsByEvent,
+} from '../../indexer/queries'
+
+const block = (height: number, txHashes: string[] = []): IndexedBlock => ({
+    height,
+    hash: `BLOCK${height}`,
+    time: '2024-01-01T00:00:00Z',
+    proposerAddress: 'PROPOSER',
+    txs: txHashes.map((hash, index) => ({
+        hash,
+        height,
+        index,
+        code: 0,
+        gasUsed: '100',
+        gasWanted: '200',
+        fee: '5000uakt',
+        memo: '',
+        messages: [
+            {
+                typeUrl: '/cosmos.gov.v1beta1.MsgVote',
+                value: { proposalId: '12', voter: 'akash1voter' },
+            },
+        ],
+        events: [
+            {
+                type: 'proposal_vote',
+                attributes: [
+                    { key: 'option', value: 'VOTE_OPTION_YES' },
+                    { key: 'proposal_id', value: '12' },
+                ],
+            },
+            {
+                type: 'message',
+                attributes: [{ key: 'sender', value: 'akash1voter' }],
+            },
+        ],
+        addresses: ['akash1voter'],
+    })),
+})
+
+describe('Indexer Database Tests', () => {
+    let db: Database.Database
+
+    beforeEach(() => {
+        db = openDatabase(':memory:')
+    })
+
+    afterEach(() => {
+        db.close()
+    })
+
+    it('should track the last indexed height', () => {
+        expect(getLastIndexedHeight(db)).toBeNull()
+
+        saveBlock(db, block(10))
+        saveBlock(db, block(11, ['AAA']))
+
+        expect(getLastIndexedHeight(db)).toBe(11)
+        expect(getIndexerStatus(db)).toEqual({
+            firstHeight: 10,
+            lastHeight: 11,
+            txCount: 1,
+        })
+    })
+
+    it('should list txs for an address newest first', () => {
+        saveBlock(db, block(10, ['AAA']))
+        saveBlock(db, block(11, ['BBB', 'CCC']))
+
+        const { txs, total } = getAddressTxs(db, 'akash1voter', {
+            limit: 2,
+            offset: 0,
+        })
+
+        expect(total).toBe(3)
+        expect(txs.map(({ hash }) => hash)).toEqual(['CCC', 'BBB'])
+        expect(txs[0].messageTypes).toEqual(['/cosmos.gov.v1beta1.MsgVote'])
+        expect(
+            getAddressTxs(db, 'akash1other', { limit: 10, offset: 0 }).total,
+        ).toBe(0)
+    })
+
+    it('should find txs by event attribute', () => {
+        saveBlock(db, block(10, ['AAA']))
+
+        const event = { type: 'proposal_vote', key: 'proposal_id' }
+        const page = { limit: 10, offset: 0 }
+
+        expect(
+            getTxsByEvent(db, { ...event, value: '12' }, page).map(
+                ({ hash }) => hash,
+            ),
+        ).toEqual(['AAA'])
+        expect(getTxsByEvent(db, { ...event, value: '13' }, page)).toEqual([])
+    })
+
+    it('should rebuild a tx with its messages and grouped events', () => {
+        saveBlock(db, block(10, ['AAA']))
+
+        const tx = getIndexedTx(db, 'aaa')
+
+        expect(tx?.hash).toBe('AAA')
+        expect(tx?.messages[0].value).toEqual({
+            proposalId: '12',
+            voter: 'akash1voter',
+        })
+        expect(tx?.events).toHaveLength(2)
+        expect(tx?.events[0].attributes).toHaveLength(2)
+        expect(getIndexedTx(db, 'missing')).toBeNull()
+    })
+
+    it('should drop everything from a height when reindexing', () => {
+        saveBlock(db, block(10, ['AAA']))
+        saveBlock(db, block(11, ['BBB']))
+
+        deleteFromHeight(db, 11)
+
+        expect(getLastIndexedHeight(db)).toBe(10)
+        expect(getIndexedTx(db, 'BBB')).toBeNull()
+        expect(
+            getAddressTxs(db, 'akash1voter', { limit: 10, offset: 0 }).total,
+        ).toBe(1)
+    })
+})
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from 'vitest'
+import { fetchAllPages, PaginationRequest } from '@/utils/pagination'
+import { fetchAllRestPages, PageRequest } from '@/utils/rest'
+
+type Page = {
+    validators: string[]
+    pagination?: { nextKey: Uint8Array; total: bigint }
+}
+
+// fake query client serving `items` in pages keyed by the next start index
+const createQueryClient = (items: string[], { countTotal = true } = {}) =>
+    vi.fn(async ({ key, limit, countTotal: withTotal }: PaginationRequest) => {
+        const start = key.length ? key[0] : 0
+        const end = start + Number(limit)
+        return {
+            validators: items.slice(start, end),
+            pagination: {
+                nextKey:
+                    end < items.length
+                        ? new Uint8Array([end])
+                        : new Uint8Array(),
+                total: countTotal && withTotal ? BigInt(items.length) : 0n,
+            },
+        } as Page
+    })
+
+const validators = Array.from({ length: 7 }, (_, index) => `validator-${index}`)
+
+describe('Pagination Tests', () => {
+    it('should follow nextKey until the last page', async () => {
+        const getValidators = createQueryClient(validators)
+
+        const items = await fetchAllPages(
+            getValidators,
+            (page) => page.validators,
+            {
+                limit: 3n,
+            },
+        )
+
+        expect(items).toEqual(validators)
+        expect(getValidators).toHaveBeenCalledTimes(3)
+        expect(
+            getValidators.mock.calls.map(([{ key }]) => Array.from(key)),
+        ).toEqual([[], [3], [6]])
+    })
+
+    it('should only count the total on the first request', async () => {
+        const getValidators = createQueryClient(validators)
+
+        await fetchAllPages(getValidators, (page) => page.validators, {
+            limit: 3n,
+        })
+
+        expect(
+            getValidators.mock.calls.map(([{ countTotal }]) => countTotal),
+        ).toEqual([true, false, false])
+    })
+
+    it('should report progress after every page', async () => {
+        const onProgress = vi.fn()
+
+        await fetchAllPages(
+            createQueryClient(validators),
+            (page) => page.validators,
+            { limit: 3n, onProgress },
+        )
+
+        expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+            { loaded: 3, total: 7, pages: 1 },
+            { loaded: 6, total: 7, pages: 2 },
+            { loaded: 7, total: 7, pages: 3 },
+        ])
+    })
+
+    it('should report an unknown total when the node does not count', async () => {
+        const onProgress = vi.fn()
+
+        await fetchAllPages(
+            createQueryClient(validators, { countTotal: false }),
+            (page) => page.validators,
+            { limit: 5n, onProgress },
+        )
+
+        expect(onProgress).toHaveBeenLastCalledWith({
+            loaded: 7,
+            total: null,
+            pages: 2,
+        })
+    })
+
+    it('should stop on a missing or repeated nextKey', async () => {
+        const withoutPagination = vi.fn(
+            async () => ({ validators: ['a'] } as Page),
+        )
+        expect(
+            await fetchAllPages(withoutPagination, (page) => page.validators),
+        ).toEqual(['a'])
+        expect(withoutPagination).toHaveBeenCalledTimes(1)
+
+        const stuck = vi.fn(
+            async () =>
+                ({
+                    validators: ['a'],
+                    pagination: { nextKey: new Uint8Array([1]), total: 0n },
+                } as Page),
+        )
+        expect(await fetchAllPages(stuck, (page) => page.validators)).toEqual([
+            'a',
+            'a',
+        ])
+        expect(stuck).toHaveBeenCalledTimes(2)
+    })
+
+    it('should pass limit and reverse through to every request', async () => {
+        const getProposals = createQueryClient(validators)
+
+        await fetchAllPages(getProposals, (page) => page.validators, {
+            limit: 4n,
+            reverse: true,
+        })
+
+        getProposals.mock.calls.forEach(([pagination]) => {
+            expect(pagination).toMatchObject({
+                limit: 4n,
+                reverse: true,
+                offset: 0n,
+            })
+        })
+    })
+})
+
+describe('REST Pagination Tests', () => {
+    // fake REST endpoint keyed by the next start index, as a string
+    const getProviders = vi.fn(async ({ key, limit }: PageRequest) => {
+        const start = Number(key ?? 0)
+        const end = start + limit
+        return {
+            providers: validators.slice(start, end),
+            pagination: {
+                next_key: end < validators.length ? String(end) : null,
+                total: String(validators.length),
+            },
+        }
+    })
+
+    it('should follow next_key until the last page', async () => {
+        const items = await fetchAllRestPages(
+            getProviders,
+            (page) => page.providers,
+            { limit: 3 },
+        )
+
+        expect(items).toEqual(validators)
+        expect(getProviders.mock.calls.map(([{ key }]) => key)).toEqual([
+            undefined,
+            '3',
+            '6',
+        ])
+    })
+})
@@ -2,99 +2,23 @@ import { describe, it, expect, beforeAll } from 'vitest'
 import { render, screen,} from '@testing-library/react'
 import '@testing-library/jest-dom'
 
-// API config
-const API_URL = 'https://console-api.akash.network/v1/dashboard-data'
-
-// TypeScript interfaces
-interface DashboardData {
-  now: {
-    dailyUUsdSpent: number
-    activeLeaseCount: number
-  }
-  networkCapacity: {
-    activeProviderCount: number
-  }
-}
-
-interface MetricCardProps {
-  title: string
-  value: string | number | null | undefined
-  isLoading: boolean
-  error: string | null
-}
-
-interface MetricProps {
-  data: DashboardData | null
-  isLoading?: boolean
-  error?: string | null
-}
+import {
+  ActiveLeasesMetric,
+  ActiveProvidersMetric,
+  UsdSpentMetric,
+} from '@/components/dashboard/AkashMetrics'
+import { MetricCard } from '@/components/dashboard/MetricCard'
+import {
+  convertMicroUsdToUsd,
+  DashboardData,
+  fetchDashboardData,
+  formatNumber,
+  formatUsd,
+} from '@/utils/akash/dashboard'
 
 // Store API data
 let liveApiData: DashboardData | null = null
 
-// Fetch the data
-const fetchDashboardData = async () => {
-  const response = await fetch(API_URL)
-  if (!response.ok) {
-    throw new Error(`API request failed: ${response.status}`)
-  }
-  return await response.json()
-}
-
-// Helper fn to convert micro-USD to USD
-const convertMicroUsdToUsd = (microUsd: number): number => {
-  return microUsd / 1000000
-}
-
-// Helper fn to format USD
-const formatUsd = (usd: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2
-  }).format(usd)
-}
-
-// Helper fn to format numbers
-const formatNumber = (num: number): string => {
-  return new Intl.NumberFormat('en-US').format(num)
-}
-
-const MetricCard = ({ title, value, isLoading, error }: MetricCardProps) => (
-  <div data-testid={`metric-card-${title.toLowerCase().replace(/\s+/g, '-')}`}>
-    <h3>{title}</h3>
-    {isLoading && <div data-testid="loading-spinner">Loading...</div>}
-    {error && <div data-testid="error-message">{error}</div>}
-    {!isLoading && !error && <div data-testid="metric-value">{value}</div>}
-  </div>
-)
-
-const UsdSpentMetric = ({ data, isLoading = false, error = null }: MetricProps) => {
-  if (isLoading || error || !data) {
-    return <MetricCard title="USD Spent (24h)" value="" isLoading={isLoading} error={error} />
-  }
-  const usd = convertMicroUsdToUsd(data.now.dailyUUsdSpent)
-  const formatted = formatUsd(usd)
-  return <MetricCard title="USD Spent (24h)" value={formatted} isLoading={isLoading} error={error} />
-}
-
-const ActiveLeasesMetric = ({ data, isLoading = false, error = null }: MetricProps) => {
-  if (isLoading || error || !data) {
-    return <MetricCard title="Active Leases" value="" isLoading={isLoading} error={error} />
-  }
-  const formatted = formatNumber(data.now.activeLeaseCount)
-  return <MetricCard title="Active Leases" value={formatted} isLoading={isLoading} error={error} />
-}
-
-const ActiveProvidersMetric = ({ data, isLoading = false, error = null }: MetricProps) => {
-  if (isLoading || error || !data) {
-    return <MetricCard title="Active Providers" value="" isLoading={isLoading} error={error} />
-  }
-  const formatted = formatNumber(data.networkCapacity.activeProviderCount)
-  return <MetricCard title="Active Providers" value={formatted} isLoading={isLoading} error={error} />
-}
-
 describe('Provider Statistics Tests', () => {
   // Fetch data before all tests
   beforeAll(async () => {
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import {
+    filterProviders,
+    getLeaseHistory,
+    getLeaseStatsByProvider,
+    Lease,
+    parseProvider,
+} from '@/utils/akash'
+
+const AUDITOR = 'akash1auditor'
+
+const providers = [
+    parseProvider(
+        {
+            owner: 'akash1gpu',
+            host_uri: 'https://provider.gpu.example:8443',
+            attributes: [
+                { key: 'region', value: 'us-west' },
+                { key: 'tier', value: 'community' },
+                { key: 'capabilities/gpu/vendor/nvidia/model/a100', value: 'true' },
+            ],
+        },
+        [{ auditor: AUDITOR, attributes: [{ key: 'region', value: 'us-west' }] }],
+    ),
+    parseProvider(
+        {
+            owner: 'akash1cpu',
+            host_uri: 'https://provider.cpu.example:8443',
+            attributes: [{ key: 'location-region', value: 'eu-central' }],
+        },
+        [],
+    ),
+]
+
+const lease = (provider: string, createdAt: number, closedOn = 0): Lease => ({
+    owner: 'akash1owner',
+    dseq: String(createdAt),
+    gseq: 1,
+    oseq: 1,
+    provider,
+    state: closedOn ? 'closed' : 'active',
+    price: { denom: 'uakt', amount: '1' },
+    createdAt,
+    closedOn,
+    withdrawn: { denom: 'uakt', amount: '5' },
+})
+
+describe('Akash Provider Utils Tests', () => {
+    it('should read region, tier and gpu models from attributes', () => {
+        expect(providers[0]).toMatchObject({
+            hostUri: 'https://provider.gpu.example:8443',
+            region: 'us-west',
+            tier: 'community',
+            gpuModels: ['nvidia a100'],
+        })
+        expect(providers[1].region).toBe('eu-central')
+    })
+
+    it('should filter providers by attribute, auditor and gpu model', () => {
+        const owners = (filters: Parameters<typeof filterProviders>[1]) =>
+            filterProviders(providers, filters).map(({ owner }) => owner)
+
+        expect(owners({ attributeKey: 'region', attributeValue: 'eu' })).toEqual(['akash1cpu'])
+        expect(owners({ auditor: AUDITOR })).toEqual(['akash1gpu'])
+        expect(owners({ gpuModel: 'A100' })).toEqual(['akash1gpu'])
+        expect(owners({})).toEqual(['akash1gpu', 'akash1cpu'])
+    })
+
+    it('should aggregate active lease stats per provider', () => {
+        const stats = getLeaseStatsByProvider([lease('akash1gpu', 1), lease('akash1gpu', 2)])
+
+        expect(stats).toEqual({ akash1gpu: { activeLeases: 2, spend: { uakt: '10' } } })
+    })
+
+    it('should bucket leases by the month they were created and closed in', () => {
+        const now = new Date('2024-03-15T00:00:00Z').getTime()
+        const blocksPerMonth = Math.round((31 * 24 * 60 * 60) / 6.1)
+        const latestHeight = 10 * blocksPerMonth
+
+        const history = getLeaseHistory(
+            [lease('akash1gpu', latestHeight - blocksPerMonth, latestHeight), lease('akash1gpu', latestHeight)],
+            latestHeight,
+            now,
+        )
+
+        expect(history).toEqual([
+            { month: '2024-02', created: 1, closed: 0 },
+            { month: '2024-03', created: 1, closed: 1 },
+        ])
+    })
+})
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest'
+import {
+    GenericAuthorization,
+    GrantAuthorization,
+} from '@interchainjs/react/cosmos/authz/v1beta1/authz'
+import {
+    AuthorizationType,
+    StakeAuthorization,
+} from '@interchainjs/react/cosmos/staking/v1beta1/authz'
+import { MsgDelegate } from '@interchainjs/react/cosmos/staking/v1beta1/tx'
+import { MsgWithdrawDelegatorReward } from '@interchainjs/react/cosmos/distribution/v1beta1/tx'
+import {
+    buildRestakeGrantMsgs,
+    parseRestakeGrants,
+} from '@/utils/staking/restake'
+
+const granter = 'akash1granter'
+const grantee = 'akash1bot'
+const validator = 'akashvaloper1validator'
+const expiration = new Date('2030-01-01T00:00:00Z')
+
+const genericGrant = (
+    msg: string,
+    overrides: Partial<GrantAuthorization> = {},
+): GrantAuthorization => ({
+    granter,
+    grantee,
+    authorization: GenericAuthorization.toProtoMsg({ msg }),
+    expiration,
+    ...overrides,
+})
+
+const stakeGrant = (
+    overrides: Partial<StakeAuthorization> = {},
+): GrantAuthorization => ({
+    granter,
+    grantee,
+    authorization: StakeAuthorization.toProtoMsg(
+        StakeAuthorization.fromPartial({
+            allowList: { address: [validator] },
+            authorizationType: AuthorizationType.AUTHORIZATION_TYPE_DELEGATE,
+            ...overrides,
+        }),
+    ),
+    expiration,
+})
+
+describe('buildRestakeGrantMsgs', () => {
+    it('limits a stake authorization to the validator and caps it', () => {
+        const [withdraw, delegate] = buildRestakeGrantMsgs({
+            granter,
+            grantee,
+            validator,
+            kind: 'stake',
+            maxTokens: '5000000',
+            denom: 'uakt',
+            expiration,
+        })
+
+        expect(withdraw.grant?.authorization?.typeUrl).toBe(
+            GenericAuthorization.typeUrl,
+        )
+        expect(
+            GenericAuthorization.decode(withdraw.grant!.authorization!.value)
+                .msg,
+        ).toBe(MsgWithdrawDelegatorReward.typeUrl)
+
+        expect(delegate.granter).toBe(granter)
+        expect(delegate.grantee).toBe(grantee)
+        expect(delegate.grant?.expiration).toEqual(expiration)
+
+        const stake = StakeAuthorization.decode(
+            delegate.grant!.authorization!.value,
+        )
+        expect(stake.allowList?.address).toEqual([validator])
+        expect(stake.maxTokens).toEqual({ denom: 'uakt', amount: '5000000' })
+        expect(stake.authorizationType).toBe(
+            AuthorizationType.AUTHORIZATION_TYPE_DELEGATE,
+        )
+    })
+
+    it('leaves the stake authorization uncapped without max tokens', () => {
+        const [, delegate] = buildRestakeGrantMsgs({
+            granter,
+            grantee,
+            validator,
+            kind: 'stake',
+            denom: 'uakt',
+            expiration,
+        })
+
+        const stake = StakeAuthorization.decode(
+            delegate.grant!.authorization!.value,
+        )
+        expect(stake.maxTokens).toBeUndefined()
+    })
+
+    it('grants a generic delegate authorization and ignores max tokens', () => {
+        const [, delegate] = buildRestakeGrantMsgs({
+            granter,
+            grantee,
+            validator,
+            kind: 'generic',
+            maxTokens: '5000000',
+            denom: 'uakt',
+            expiration,
+        })
+
+        expect(delegate.grant?.authorization?.typeUrl).toBe(
+            GenericAuthorization.typeUrl,
+        )
+        expect(
+            GenericAuthorization.decode(delegate.grant!.authorization!.value)
+                .msg,
+        ).toBe(MsgDelegate.typeUrl)
+    })
+})
+
+describe('parseRestakeGrants', () => {
+    it('groups the withdraw and delegate grants of a grantee', () => {
+        const [grant, ...rest] = parseRestakeGrants(
+            [
+                genericGrant(MsgWithdrawDelegatorReward.typeUrl),
+                stakeGrant({
+                    maxTokens: { denom: 'uakt', amount: '5000000' },
+                }),
+            ],
+            -6,
+        )
+
+        expect(rest).toHaveLength(0)
+        expect(grant).toEqual({
+            grantee,
+            expiration,
+            validators: [validator],
+            maxTokens: '5',
+            canWithdraw: true,
+            canDelegate: true,
+            msgTypeUrls: [
+                MsgWithdrawDelegatorReward.typeUrl,
+                MsgDelegate.typeUrl,
+            ],
+        })
+    })
+
+    it('keeps the expiration of the grant that expires first', () => {
+        const sooner = new Date('2029-01-01T00:00:00Z')
+        const [grant] = parseRestakeGrants(
+            [
+                genericGrant(MsgWithdrawDelegatorReward.typeUrl),
+                genericGrant(MsgDelegate.typeUrl, { expiration: sooner }),
+            ],
+            -6,
+        )
+
+        expect(grant.expiration).toEqual(sooner)
+        expect(grant.validators).toEqual([])
+        expect(grant.maxTokens).toBeNull()
+    })
+
+    it('leaves out grants unrelated to restaking', () => {
+        const grants = parseRestakeGrants(
+            [
+                genericGrant('/cosmos.bank.v1beta1.MsgSend'),
+                stakeGrant({
+                    authorizationType:
+                        AuthorizationType.AUTHORIZATION_TYPE_UNDELEGATE,
+                }),
+            ],
+            -6,
+        )
+
+        expect(grants).toEqual([])
+    })
+
+    it('lists each grantee separately', () => {
+        const grants = parseRestakeGrants(
+            [
+                genericGrant(MsgWithdrawDelegatorReward.typeUrl),
+                genericGrant(MsgWithdrawDelegatorReward.typeUrl, {
+                    grantee: 'akash1otherbot',
+                }),
+            ],
+            -6,
+        )
+
+        expect(grants.map(({ grantee }) => grantee)).toEqual([
+            grantee,
+            'akash1otherbot',
+        ])
+        expect(grants.every(({ canDelegate }) => !canDelegate)).toBe(true)
+    })
+})
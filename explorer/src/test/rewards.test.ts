@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import {
+    findBestCompoundFrequency,
+    projectRewards,
+} from '@/utils/staking/rewards'
+
+describe('projectRewards', () => {
+    it('earns simple interest when rewards are never compounded', () => {
+        const projection = projectRewards({
+            amount: 1000,
+            apr: 10,
+            days: 365,
+            perYear: 0,
+        })
+        expect(Number(projection.rewards)).toBeCloseTo(100, 6)
+        expect(projection.compounds).toBe(0)
+    })
+
+    it('compounds every period when there is no fee', () => {
+        const projection = projectRewards({
+            amount: 1000,
+            apr: 10,
+            days: 365,
+            perYear: 12,
+        })
+        expect(Number(projection.rewards)).toBeCloseTo(104.713, 3)
+        expect(projection.compounds).toBe(12)
+    })
+
+    it('keeps rewards pending until they cover the fee', () => {
+        // 1000 at 10% earns ~0.27 a day, so every fourth claim covers a fee of 1
+        const projection = projectRewards({
+            amount: 1000,
+            apr: 10,
+            days: 28,
+            perYear: 365,
+            feePerCompound: 1,
+        })
+        expect(projection.compounds).toBe(7)
+        expect(Number(projection.fees)).toBe(7)
+    })
+})
+
+describe('findBestCompoundFrequency', () => {
+    it('stops short of daily when claims cost gas', () => {
+        const { frequency } = findBestCompoundFrequency({
+            amount: 1000,
+            apr: 10,
+            days: 365,
+            feePerCompound: 0.5,
+        })
+        expect(frequency.id).not.toBe('daily')
+        expect(frequency.id).not.toBe('never')
+    })
+
+    it('never compounds when the fee outweighs the gain', () => {
+        const { frequency } = findBestCompoundFrequency({
+            amount: 10,
+            apr: 10,
+            days: 365,
+            feePerCompound: 0.5,
+        })
+        expect(frequency.id).toBe('never')
+    })
+})
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { toBech32 } from '@cosmjs/encoding'
+import { classifySearchInput } from '@/utils/search'
+
+const account = toBech32('akash', new Uint8Array(20).fill(1))
+const contract = toBech32('akash', new Uint8Array(32).fill(2))
+const valoper = toBech32('akashvaloper', new Uint8Array(20).fill(3))
+
+const context = {
+    bech32Prefix: 'akash',
+    validators: [
+        { address: valoper, name: 'Cosmostation' },
+        { address: 'akashvaloper1other', name: 'Cosmic Validator' },
+        { address: 'akashvaloper1third', name: 'Stakefish' },
+    ],
+}
+
+const types = (input: string) => classifySearchInput(input, context).map(({ type }) => type)
+
+describe('Search Utils Tests', () => {
+    it('should treat numbers as block heights or proposal ids', () => {
+        expect(types('12345')).toEqual(['block', 'proposal'])
+        expect(classifySearchInput('42', context)[0].href).toBe('/blocks/42')
+    })
+
+    it('should recognise transaction hashes', () => {
+        const hash = 'ab'.repeat(32)
+
+        expect(classifySearchInput(hash, context)).toEqual([
+            { type: 'transaction', label: hash.toUpperCase(), href: `/tx/${hash.toUpperCase()}` },
+        ])
+    })
+
+    it('should tell accounts, contracts and validators apart', () => {
+        expect(types(account)).toEqual(['account'])
+        expect(types(contract)).toEqual(['contract'])
+        expect(types(valoper)).toEqual(['validator'])
+        expect(types(toBech32('cosmos', new Uint8Array(20)))).toEqual([])
+    })
+
+    it('should resolve owner/dseq pairs to deployments', () => {
+        expect(classifySearchInput(`${account}/123`, context)).toEqual([
+            { type: 'deployment', label: `Deployment ${account}/123`, href: `/deployments/${account}/123` },
+        ])
+        expect(types(`${valoper}/123`)).toEqual([])
+    })
+
+    it('should match validators by moniker prefix', () => {
+        expect(classifySearchInput('cosm', context).map(({ label }) => label)).toEqual([
+            'Cosmostation',
+            'Cosmic Validator',
+        ])
+        expect(types('c')).toEqual([])
+    })
+})
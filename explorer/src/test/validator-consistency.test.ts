@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import {
+    checkValidatorConsistency,
+    pubkeyToValconsAddress,
+    RestStakingValidator,
+    RestValidatorSet,
+    tokensToVotingPower,
+} from '@/utils/staking/consistency'
+import validatorSet from './fixtures/validatorsets-latest.json'
+import stakingValidators from './fixtures/staking-validators.json'
+
+const set = validatorSet as RestValidatorSet
+const { validators } = stakingValidators as {
+    validators: RestStakingValidator[]
+}
+
+const report = checkValidatorConsistency(set, validators, {
+    bech32Prefix: 'akash',
+})
+
+describe('Validator Consistency Tests', () => {
+    it('should derive the consensus address from the consensus pubkey', () => {
+        const [first] = validatorSet.validators
+        expect(pubkeyToValconsAddress(first.pub_key, 'akash')).toBe(
+            first.address,
+        )
+    })
+
+    it('should convert bonded tokens to voting power', () => {
+        expect(tokensToVotingPower('5400123456789')).toBe('5400123')
+        expect(tokensToVotingPower('999999')).toBe('0')
+    })
+
+    it('should join the validator set to operators and monikers', () => {
+        expect(report.height).toBe(18765432)
+        expect(report.entries).toHaveLength(4)
+        expect(report.entries[0]).toEqual({
+            consensusAddress: validatorSet.validators[0].address,
+            votingPower: '5400123',
+            operatorAddress: validators[0].operator_address,
+            moniker: 'Validator Alpha',
+            expectedVotingPower: '5400123',
+        })
+    })
+
+    it('should report validators missing from staking', () => {
+        const missing = report.issues.filter(
+            ({ type }) => type === 'missing-from-staking',
+        )
+        expect(missing).toEqual([
+            {
+                type: 'missing-from-staking',
+                consensusAddress: validatorSet.validators[3].address,
+                votingPower: '800000',
+            },
+        ])
+        expect(report.entries[3].operatorAddress).toBeNull()
+    })
+
+    it('should report voting power drift beyond the tolerance', () => {
+        const drifts = report.issues.filter(
+            ({ type }) => type === 'voting-power-drift',
+        )
+        expect(drifts).toHaveLength(1)
+        expect(drifts[0]).toMatchObject({
+            moniker: 'Validator Beta',
+            votingPower: '2000000',
+            expectedVotingPower: '2500000',
+            drift: 0.2,
+        })
+
+        const tolerant = checkValidatorConsistency(set, validators, {
+            bech32Prefix: 'akash',
+            driftTolerance: 0.25,
+        })
+        expect(
+            tolerant.issues.some(({ type }) => type === 'voting-power-drift'),
+        ).toBe(false)
+    })
+
+    it('should report monikers shared by several operators', () => {
+        const conflicts = report.issues.filter(
+            ({ type }) => type === 'moniker-conflict',
+        )
+        expect(conflicts).toEqual([
+            {
+                type: 'moniker-conflict',
+                moniker: 'Validator Gamma',
+                operatorAddresses: [
+                    validators[2].operator_address,
+                    validators[3].operator_address,
+                ],
+            },
+        ])
+    })
+
+    it('should accept the legacy wrapped validator set', () => {
+        const legacy = checkValidatorConsistency(
+            {
+                height: validatorSet.block_height,
+                result: {
+                    block_height: validatorSet.block_height,
+                    validators: validatorSet.validators,
+                },
+            },
+            validators,
+            { bech32Prefix: 'akash' },
+        )
+        expect(legacy).toEqual(report)
+    })
+})
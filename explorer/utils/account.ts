@@ -0,0 +1,135 @@
+import BigNumber from 'bignumber.js';
+import { Coin } from '@interchainjs/react/types';
+import {
+  BaseVestingAccount,
+  ContinuousVestingAccount,
+  DelayedVestingAccount,
+  PeriodicVestingAccount,
+  PermanentLockedAccount,
+} from '@interchainjs/react/cosmos/vesting/v1beta1/vesting';
+
+import { EncodedAny, getMessageType } from './registry';
+
+export type VestingPeriod = {
+  endTime: Date;
+  amount: Coin[];
+};
+
+export type VestingSchedule = {
+  type: string;
+  startTime: Date | null;
+  endTime: Date;
+  originalVesting: Coin[];
+  delegatedVesting: Coin[];
+  delegatedFree: Coin[];
+  periods: VestingPeriod[];
+};
+
+const fromUnixSeconds = (seconds: bigint | number) => {
+  return new Date(Number(seconds) * 1000);
+};
+
+const parseBaseVesting = (
+  type: string,
+  base: BaseVestingAccount | undefined,
+  startTime: bigint | null,
+) => {
+  const endTime = fromUnixSeconds(base?.endTime ?? 0n);
+  const originalVesting = base?.originalVesting || [];
+
+  return {
+    type,
+    startTime: startTime === null ? null : fromUnixSeconds(startTime),
+    endTime,
+    originalVesting,
+    delegatedVesting: base?.delegatedVesting || [],
+    delegatedFree: base?.delegatedFree || [],
+    periods: [{ endTime, amount: originalVesting }],
+  };
+};
+
+/**
+ * Decodes the `x/auth` account of an address and returns its vesting schedule,
+ * or `null` for regular accounts. Continuous and delayed accounts are reported
+ * as a single period ending at `endTime`.
+ */
+export const parseVestingAccount = (
+  account: EncodedAny | undefined,
+): VestingSchedule | null => {
+  if (!account) return null;
+
+  const type = getMessageType(account.typeUrl);
+
+  switch (account.typeUrl) {
+    case ContinuousVestingAccount.typeUrl: {
+      const { baseVestingAccount, startTime } = ContinuousVestingAccount.decode(
+        account.value,
+      );
+      return parseBaseVesting(type, baseVestingAccount, startTime);
+    }
+    case DelayedVestingAccount.typeUrl:
+    case PermanentLockedAccount.typeUrl: {
+      const codec =
+        account.typeUrl === DelayedVestingAccount.typeUrl
+          ? DelayedVestingAccount
+          : PermanentLockedAccount;
+      const { baseVestingAccount } = codec.decode(account.value);
+      return parseBaseVesting(type, baseVestingAccount, null);
+    }
+    case PeriodicVestingAccount.typeUrl: {
+      const { baseVestingAccount, startTime, vestingPeriods } =
+        PeriodicVestingAccount.decode(account.value);
+
+      let periodEnd = Number(startTime);
+      const periods = vestingPeriods.map(({ length, amount }) => {
+        periodEnd += Number(length);
+        return { endTime: fromUnixSeconds(periodEnd), amount };
+      });
+
+      return {
+        ...parseBaseVesting(type, baseVestingAccount, startTime),
+        periods,
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Amount of `denom` still locked at `now`: continuous schedules release
+ * linearly between start and end, permanent locks never release and the
+ * others release per period.
+ */
+export const calcLockedAmount = (
+  { type, startTime, endTime, originalVesting, periods }: VestingSchedule,
+  denom: string,
+  now: Date = new Date(),
+) => {
+  const original = new BigNumber(
+    originalVesting.find((coin) => coin.denom === denom)?.amount || 0,
+  );
+
+  if (type === 'PermanentLockedAccount') return original.toString();
+  if (now >= endTime) return '0';
+
+  if (type === 'ContinuousVestingAccount' && startTime) {
+    if (now <= startTime) return original.toString();
+    const remaining = endTime.getTime() - now.getTime();
+    const duration = endTime.getTime() - startTime.getTime();
+    return original
+      .times(remaining)
+      .div(duration)
+      .integerValue(BigNumber.ROUND_CEIL)
+      .toString();
+  }
+
+  return periods
+    .filter((period) => period.endTime > now)
+    .reduce(
+      (locked, { amount }) =>
+        locked.plus(amount.find((coin) => coin.denom === denom)?.amount || 0),
+      new BigNumber(0),
+    )
+    .toString();
+};
@@ -0,0 +1,37 @@
+export const DASHBOARD_DATA_URL =
+  'https://console-api.akash.network/v1/dashboard-data';
+
+export interface DashboardData {
+  now: {
+    dailyUUsdSpent: number;
+    activeLeaseCount: number;
+  };
+  networkCapacity: {
+    activeProviderCount: number;
+  };
+}
+
+export const fetchDashboardData = async (): Promise<DashboardData> => {
+  const response = await fetch(DASHBOARD_DATA_URL);
+  if (!response.ok) {
+    throw new Error(`API request failed: ${response.status}`);
+  }
+  return await response.json();
+};
+
+export const convertMicroUsdToUsd = (microUsd: number): number => {
+  return microUsd / 1000000;
+};
+
+export const formatUsd = (usd: number): string => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(usd);
+};
+
+export const formatNumber = (num: number): string => {
+  return new Intl.NumberFormat('en-US').format(num);
+};
@@ -0,0 +1,247 @@
+import BigNumber from 'bignumber.js';
+
+import {
+  fetchRest,
+  PageRequest,
+  RestAttribute,
+  RestDecCoin,
+  RestPagination,
+  toPaginationParams,
+} from '../rest';
+
+export type DeploymentState = 'active' | 'closed';
+
+export type DeploymentFilters = {
+  owner?: string;
+  state?: DeploymentState;
+  dseq?: string;
+};
+
+type RestResourceValue = { val: string };
+
+export type RestResourceUnit = {
+  resource: {
+    id: number;
+    cpu?: { units: RestResourceValue; attributes?: RestAttribute[] };
+    memory?: { quantity: RestResourceValue; attributes?: RestAttribute[] };
+    storage?: {
+      name: string;
+      quantity: RestResourceValue;
+      attributes?: RestAttribute[];
+    }[];
+    gpu?: { units: RestResourceValue; attributes?: RestAttribute[] };
+  };
+  count: number;
+  price: RestDecCoin;
+};
+
+type RestGroup = {
+  group_id: { owner: string; dseq: string; gseq: number };
+  state: string;
+  group_spec: {
+    name: string;
+    requirements?: {
+      signed_by?: { all_of?: string[]; any_of?: string[] };
+      attributes?: RestAttribute[];
+    };
+    resources: RestResourceUnit[];
+  };
+  created_at: string;
+};
+
+type RestEscrowAccount = {
+  owner: string;
+  state: string;
+  balance: RestDecCoin;
+  transferred: RestDecCoin;
+  funds?: RestDecCoin;
+  settled_at: string;
+  depositor?: string;
+};
+
+type RestDeploymentResponse = {
+  deployment: {
+    deployment_id: { owner: string; dseq: string };
+    state: string;
+    created_at: string;
+  };
+  groups: RestGroup[];
+  escrow_account: RestEscrowAccount;
+};
+
+export type DeploymentResources = {
+  cpu: number;
+  memory: number;
+  storage: number;
+  gpu: number;
+  gpuModels: string[];
+};
+
+export type DeploymentGroup = {
+  gseq: number;
+  name: string;
+  state: string;
+  requiredAttributes: RestAttribute[];
+  signedBy: string[];
+  resources: (DeploymentResources & { count: number; price: RestDecCoin })[];
+};
+
+export type Deployment = {
+  owner: string;
+  dseq: string;
+  state: string;
+  createdAt: number;
+  groups: DeploymentGroup[];
+  resources: DeploymentResources;
+  escrow: {
+    state: string;
+    balance: RestDecCoin;
+    funds: RestDecCoin | null;
+    transferred: RestDecCoin;
+    settledAt: number;
+  };
+};
+
+export type DeploymentsPage = {
+  deployments: Deployment[];
+  nextKey: string | null;
+  total: number | null;
+};
+
+// CPU is requested in thousandths of a core
+const CPU_UNITS_PER_CORE = 1000;
+
+const toNumber = (value: RestResourceValue | undefined) => {
+  return Number(value?.val ?? 0);
+};
+
+/**
+ * GPU models are advertised as attributes such as
+ * `vendor/nvidia/model/a100` (or `.../model/*` for any model). Providers
+ * prefix the same path with `capabilities/gpu/`.
+ */
+export const getGpuModels = (attributes: RestAttribute[] = []) => {
+  return attributes
+    .map(({ key }) => key.split('/'))
+    .map((parts) => parts.slice(parts.indexOf('vendor')))
+    .filter((parts) => parts[0] === 'vendor' && parts[2] === 'model')
+    .map((parts) => `${parts[1]} ${parts[3]}`);
+};
+
+export const parseResourceUnit = ({ resource, count }: RestResourceUnit) => ({
+  cpu: (toNumber(resource.cpu?.units) / CPU_UNITS_PER_CORE) * count,
+  memory: toNumber(resource.memory?.quantity) * count,
+  storage:
+    (resource.storage ?? []).reduce(
+      (total, { quantity }) => total + toNumber(quantity),
+      0,
+    ) * count,
+  gpu: toNumber(resource.gpu?.units) * count,
+  gpuModels: getGpuModels(resource.gpu?.attributes),
+});
+
+export const sumResources = (
+  resources: DeploymentResources[],
+): DeploymentResources => {
+  return resources.reduce(
+    (total, resource) => ({
+      cpu: total.cpu + resource.cpu,
+      memory: total.memory + resource.memory,
+      storage: total.storage + resource.storage,
+      gpu: total.gpu + resource.gpu,
+      gpuModels: Array.from(
+        new Set([...total.gpuModels, ...resource.gpuModels]),
+      ),
+    }),
+    { cpu: 0, memory: 0, storage: 0, gpu: 0, gpuModels: [] },
+  );
+};
+
+const parseGroup = ({ group_id, state, group_spec }: RestGroup) => ({
+  gseq: group_id.gseq,
+  name: group_spec.name,
+  state,
+  requiredAttributes: group_spec.requirements?.attributes ?? [],
+  signedBy: [
+    ...(group_spec.requirements?.signed_by?.all_of ?? []),
+    ...(group_spec.requirements?.signed_by?.any_of ?? []),
+  ],
+  resources: group_spec.resources.map((unit) => ({
+    ...parseResourceUnit(unit),
+    count: unit.count,
+    price: unit.price,
+  })),
+});
+
+export const parseDeployment = ({
+  deployment,
+  groups,
+  escrow_account,
+}: RestDeploymentResponse): Deployment => {
+  const parsedGroups = groups.map(parseGroup);
+
+  return {
+    owner: deployment.deployment_id.owner,
+    dseq: deployment.deployment_id.dseq,
+    state: deployment.state,
+    createdAt: Number(deployment.created_at),
+    groups: parsedGroups,
+    resources: sumResources(parsedGroups.flatMap((group) => group.resources)),
+    escrow: {
+      state: escrow_account.state,
+      balance: escrow_account.balance,
+      funds: escrow_account.funds ?? null,
+      transferred: escrow_account.transferred,
+      settledAt: Number(escrow_account.settled_at),
+    },
+  };
+};
+
+export const fetchDeployments = async (
+  restEndpoint: string,
+  { owner, state, dseq }: DeploymentFilters,
+  pageRequest: PageRequest,
+): Promise<DeploymentsPage> => {
+  const { deployments, pagination } = await fetchRest<{
+    deployments: RestDeploymentResponse[];
+    pagination: RestPagination;
+  }>(restEndpoint, 'akash/deployment/v1beta3/deployments/list', {
+    'filters.owner': owner,
+    'filters.state': state,
+    'filters.dseq': dseq,
+    ...toPaginationParams(pageRequest),
+  });
+
+  return {
+    deployments: deployments.map(parseDeployment),
+    nextKey: pagination?.next_key || null,
+    total: pageRequest.key ? null : Number(pagination?.total ?? 0),
+  };
+};
+
+export const fetchDeployment = async (
+  restEndpoint: string,
+  owner: string,
+  dseq: string,
+) => {
+  const response = await fetchRest<RestDeploymentResponse>(
+    restEndpoint,
+    'akash/deployment/v1beta3/deployments/info',
+    { 'id.owner': owner, 'id.dseq': dseq },
+  );
+
+  return parseDeployment(response);
+};
+
+/**
+ * Funds left in the escrow account: the deposited balance plus any
+ * authz-granted funds that the deployment may still draw from.
+ */
+export const getEscrowRemaining = ({
+  balance,
+  funds,
+}: Deployment['escrow']) => {
+  return new BigNumber(balance.amount)
+    .plus(funds?.denom === balance.denom ? funds.amount : 0)
+    .toString();
+};
@@ -0,0 +1,62 @@
+import BigNumber from 'bignumber.js';
+import { AssetList } from '@chain-registry/v2-types';
+
+import { getExponentFromAsset } from '../common';
+
+const BYTE_UNITS = ['B', 'KiB', 'MiB', 'GiB', 'TiB', 'PiB'];
+
+export const formatBytes = (bytes: number) => {
+  let value = bytes;
+  let unitIndex = 0;
+
+  while (value >= 1024 && unitIndex < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unitIndex += 1;
+  }
+
+  return `${new BigNumber(value).decimalPlaces(2).toString()} ${
+    BYTE_UNITS[unitIndex]
+  }`;
+};
+
+export const formatCpu = (cores: number) => {
+  return `${new BigNumber(cores).decimalPlaces(3).toString()} CPU`;
+};
+
+/**
+ * Formats a base denom amount with the symbol and exponent of the matching
+ * asset, falling back to the raw denom (e.g. unknown IBC tokens).
+ */
+export const formatDenomAmount = (
+  amount: string | number,
+  denom: string,
+  assetList: AssetList | undefined,
+  decimalPlaces: number = 6,
+) => {
+  const asset = assetList?.assets.find(({ base }) => base === denom);
+
+  if (!asset) {
+    return `${new BigNumber(amount)
+      .decimalPlaces(decimalPlaces)
+      .toFormat()} ${denom}`;
+  }
+
+  return `${new BigNumber(amount)
+    .shiftedBy(-getExponentFromAsset(asset))
+    .decimalPlaces(decimalPlaces)
+    .toFormat()} ${asset.symbol}`;
+};
+
+export const formatDenomAmounts = (
+  amounts: Record<string, string>,
+  assetList: AssetList | undefined,
+  decimalPlaces?: number,
+) => {
+  return (
+    Object.entries(amounts)
+      .map(([denom, amount]) =>
+        formatDenomAmount(amount, denom, assetList, decimalPlaces),
+      )
+      .join(', ') || '--'
+  );
+};
@@ -0,0 +1,5 @@
+export * from './deployment';
+export * from './market';
+export * from './format';
+export * from './provider';
+export * from './dashboard';
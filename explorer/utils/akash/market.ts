@@ -0,0 +1,208 @@
+import BigNumber from 'bignumber.js';
+
+import {
+  fetchAllRestPages,
+  fetchRest,
+  PageRequest,
+  RestDecCoin,
+  RestPagination,
+  toPaginationParams,
+} from '../rest';
+
+// Akash targets ~6s blocks; used to turn per-block prices into durations
+export const AVERAGE_BLOCK_SECONDS = 6.1;
+
+const BLOCKS_PER_DAY = (24 * 60 * 60) / AVERAGE_BLOCK_SECONDS;
+
+type RestOrderId = {
+  owner: string;
+  dseq: string;
+  gseq: number;
+  oseq: number;
+  provider: string;
+};
+
+type RestBidResponse = {
+  bid: {
+    bid_id: RestOrderId;
+    state: string;
+    price: RestDecCoin;
+    created_at: string;
+  };
+};
+
+type RestLeaseResponse = {
+  lease: {
+    lease_id: RestOrderId;
+    state: string;
+    price: RestDecCoin;
+    created_at: string;
+    closed_on: string;
+  };
+  escrow_payment?: {
+    withdrawn: RestDecCoin;
+  };
+};
+
+export type MarketFilters = {
+  owner?: string;
+  dseq?: string;
+  provider?: string;
+  state?: string;
+};
+
+export type Bid = {
+  owner: string;
+  dseq: string;
+  gseq: number;
+  oseq: number;
+  provider: string;
+  state: string;
+  price: RestDecCoin;
+  createdAt: number;
+};
+
+export type Lease = Bid & {
+  closedOn: number;
+  withdrawn: RestDecCoin | null;
+};
+
+export type LeasesPage = {
+  leases: Lease[];
+  nextKey: string | null;
+  total: number | null;
+};
+
+const toMarketParams = ({ owner, dseq, provider, state }: MarketFilters) => ({
+  'filters.owner': owner,
+  'filters.dseq': dseq,
+  'filters.provider': provider,
+  'filters.state': state,
+});
+
+const parseOrder = (
+  { owner, dseq, gseq, oseq, provider }: RestOrderId,
+  state: string,
+  price: RestDecCoin,
+  createdAt: string,
+): Bid => ({
+  owner,
+  dseq,
+  gseq,
+  oseq,
+  provider,
+  state,
+  price,
+  createdAt: Number(createdAt),
+});
+
+export const fetchBids = async (
+  restEndpoint: string,
+  filters: MarketFilters,
+): Promise<Bid[]> => {
+  const bids = await fetchAllRestPages(
+    (pageRequest) =>
+      fetchRest<{ bids: RestBidResponse[]; pagination: RestPagination }>(
+        restEndpoint,
+        'akash/market/v1beta4/bids/list',
+        { ...toMarketParams(filters), ...toPaginationParams(pageRequest) },
+      ),
+    ({ bids }) => bids,
+  );
+
+  return bids.map(({ bid }) =>
+    parseOrder(bid.bid_id, bid.state, bid.price, bid.created_at),
+  );
+};
+
+export const fetchLeases = async (
+  restEndpoint: string,
+  filters: MarketFilters,
+  pageRequest: PageRequest,
+): Promise<LeasesPage> => {
+  const { leases, pagination } = await fetchRest<{
+    leases: RestLeaseResponse[];
+    pagination: RestPagination;
+  }>(restEndpoint, 'akash/market/v1beta4/leases/list', {
+    ...toMarketParams(filters),
+    ...toPaginationParams(pageRequest),
+  });
+
+  return {
+    leases: leases.map(({ lease, escrow_payment }) => ({
+      ...parseOrder(lease.lease_id, lease.state, lease.price, lease.created_at),
+      closedOn: Number(lease.closed_on || 0),
+      withdrawn: escrow_payment?.withdrawn ?? null,
+    })),
+    nextKey: pagination?.next_key || null,
+    total: pageRequest.key ? null : Number(pagination?.total ?? 0),
+  };
+};
+
+/**
+ * Amount the active leases draw from escrow every block, in the escrow denom.
+ */
+export const calcBurnRate = (leases: Lease[], denom: string) => {
+  return leases
+    .filter((lease) => lease.state === 'active' && lease.price.denom === denom)
+    .reduce((total, { price }) => total.plus(price.amount), new BigNumber(0))
+    .toString();
+};
+
+export const perBlockToPerDay = (amount: string | number) => {
+  return new BigNumber(amount).times(BLOCKS_PER_DAY).toString();
+};
+
+/**
+ * Estimated days until the escrow runs dry at the current burn rate, or
+ * `null` when nothing is being spent.
+ */
+export const calcEscrowDaysLeft = (remaining: string, burnRate: string) => {
+  if (!new BigNumber(burnRate).gt(0)) return null;
+  return new BigNumber(remaining)
+    .div(burnRate)
+    .div(BLOCKS_PER_DAY)
+    .decimalPlaces(1)
+    .toNumber();
+};
+
+const ALL_LEASES_PAGE_SIZE = 1000;
+
+/**
+ * Follows the lease pagination up to `maxPages`; `isTruncated` tells whether
+ * more leases were left on chain.
+ */
+export const fetchAllLeases = async (
+  restEndpoint: string,
+  filters: MarketFilters,
+  maxPages: number,
+) => {
+  const leases: Lease[] = [];
+  let key: string | undefined;
+
+  for (let page = 0; page < maxPages; page++) {
+    const { leases: pageLeases, nextKey } = await fetchLeases(
+      restEndpoint,
+      filters,
+      { key, limit: ALL_LEASES_PAGE_SIZE },
+    );
+    leases.push(...pageLeases);
+    if (!nextKey) return { leases, isTruncated: false };
+    key = nextKey;
+  }
+
+  return { leases, isTruncated: true };
+};
+
+/**
+ * Sums what leases have paid out of escrow so far, per denom.
+ */
+export const sumLeaseSpend = (leases: Lease[]) => {
+  return leases.reduce<Record<string, string>>((spend, { withdrawn }) => {
+    if (!withdrawn) return spend;
+    spend[withdrawn.denom] = new BigNumber(spend[withdrawn.denom] ?? 0)
+      .plus(withdrawn.amount)
+      .toString();
+    return spend;
+  }, {});
+};
@@ -0,0 +1,210 @@
+import dayjs from 'dayjs';
+
+import { getGpuModels } from './deployment';
+import { AVERAGE_BLOCK_SECONDS, Lease, sumLeaseSpend } from './market';
+import {
+  fetchAllRestPages,
+  fetchRest,
+  RestAttribute,
+  RestPagination,
+  toPaginationParams,
+} from '../rest';
+
+const REGION_KEYS = ['region', 'location-region'];
+const TIER_KEYS = ['tier'];
+
+type RestProvider = {
+  owner: string;
+  host_uri: string;
+  attributes: RestAttribute[];
+  info?: { email?: string; website?: string };
+};
+
+type RestAuditedAttributes = {
+  owner: string;
+  auditor: string;
+  attributes: RestAttribute[];
+};
+
+export type ProviderAudit = {
+  auditor: string;
+  attributes: RestAttribute[];
+};
+
+export type Provider = ReturnType<typeof parseProvider>;
+
+export type ProviderFilters = {
+  attributeKey?: string;
+  attributeValue?: string;
+  auditor?: string;
+  gpuModel?: string;
+};
+
+export type ProviderLeaseStats = {
+  activeLeases: number;
+  spend: Record<string, string>;
+};
+
+export type LeaseHistoryEntry = {
+  month: string;
+  created: number;
+  closed: number;
+};
+
+const findAttribute = (attributes: RestAttribute[], keys: string[]) => {
+  return attributes.find(({ key }) => keys.includes(key))?.value || '';
+};
+
+export const parseProvider = (
+  { owner, host_uri, attributes, info }: RestProvider,
+  audits: ProviderAudit[],
+) => ({
+  owner,
+  hostUri: host_uri,
+  attributes,
+  email: info?.email || '',
+  website: info?.website || '',
+  region: findAttribute(attributes, REGION_KEYS),
+  tier: findAttribute(attributes, TIER_KEYS),
+  gpuModels: Array.from(new Set(getGpuModels(attributes))),
+  audits,
+});
+
+export const fetchAuditedAttributes = async (
+  restEndpoint: string,
+  owner?: string,
+) => {
+  const providers = await fetchAllRestPages(
+    (pageRequest) =>
+      fetchRest<{
+        providers: RestAuditedAttributes[];
+        pagination: RestPagination;
+      }>(
+        restEndpoint,
+        owner
+          ? `akash/audit/v1beta3/audit/attributes/${owner}/list`
+          : 'akash/audit/v1beta3/audit/attributes/list',
+        toPaginationParams(pageRequest),
+      ),
+    ({ providers }) => providers,
+  );
+
+  return providers.reduce<Record<string, ProviderAudit[]>>(
+    (audits, { owner, auditor, attributes }) => {
+      audits[owner] = [...(audits[owner] ?? []), { auditor, attributes }];
+      return audits;
+    },
+    {},
+  );
+};
+
+export const fetchProviders = async (restEndpoint: string) => {
+  const [providers, audits] = await Promise.all([
+    fetchAllRestPages(
+      (pageRequest) =>
+        fetchRest<{ providers: RestProvider[]; pagination: RestPagination }>(
+          restEndpoint,
+          'akash/provider/v1beta3/providers',
+          toPaginationParams(pageRequest),
+        ),
+      ({ providers }) => providers,
+    ),
+    fetchAuditedAttributes(restEndpoint),
+  ]);
+
+  return providers.map((provider) =>
+    parseProvider(provider, audits[provider.owner] ?? []),
+  );
+};
+
+export const fetchProvider = async (restEndpoint: string, owner: string) => {
+  const [{ provider }, audits] = await Promise.all([
+    fetchRest<{ provider: RestProvider }>(
+      restEndpoint,
+      `akash/provider/v1beta3/providers/${owner}`,
+    ),
+    fetchAuditedAttributes(restEndpoint, owner),
+  ]);
+
+  return parseProvider(provider, audits[owner] ?? []);
+};
+
+export const getAuditors = (providers: Provider[]) => {
+  return Array.from(
+    new Set(
+      providers.flatMap(({ audits }) => audits.map(({ auditor }) => auditor)),
+    ),
+  ).sort();
+};
+
+const includesText = (value: string, search: string) => {
+  return value.toLowerCase().includes(search.trim().toLowerCase());
+};
+
+export const filterProviders = (
+  providers: Provider[],
+  { attributeKey, attributeValue, auditor, gpuModel }: ProviderFilters,
+) => {
+  return providers.filter(({ attributes, audits, gpuModels }) => {
+    if (
+      (attributeKey || attributeValue) &&
+      !attributes.some(
+        ({ key, value }) =>
+          includesText(key, attributeKey ?? '') &&
+          includesText(value, attributeValue ?? ''),
+      )
+    ) {
+      return false;
+    }
+    if (auditor && !audits.some((audit) => audit.auditor === auditor)) {
+      return false;
+    }
+    if (gpuModel && !gpuModels.some((model) => includesText(model, gpuModel))) {
+      return false;
+    }
+    return true;
+  });
+};
+
+export const getLeaseStatsByProvider = (activeLeases: Lease[]) => {
+  const leasesByProvider = activeLeases.reduce<Record<string, Lease[]>>(
+    (grouped, lease) => {
+      grouped[lease.provider] = [...(grouped[lease.provider] ?? []), lease];
+      return grouped;
+    },
+    {},
+  );
+
+  return Object.fromEntries(
+    Object.entries(leasesByProvider).map(([provider, leases]) => [
+      provider,
+      { activeLeases: leases.length, spend: sumLeaseSpend(leases) },
+    ]),
+  ) as Record<string, ProviderLeaseStats>;
+};
+
+/**
+ * Buckets leases by the month they were created and closed in. Leases only
+ * carry block heights, so dates are estimated back from the latest block.
+ */
+export const getLeaseHistory = (
+  leases: Lease[],
+  latestHeight: number,
+  now: number = Date.now(),
+): LeaseHistoryEntry[] => {
+  const toMonth = (height: number) =>
+    dayjs(now - (latestHeight - height) * AVERAGE_BLOCK_SECONDS * 1000).format(
+      'YYYY-MM',
+    );
+
+  const history: Record<string, LeaseHistoryEntry> = {};
+  const getEntry = (month: string) =>
+    (history[month] ??= { month, created: 0, closed: 0 });
+
+  leases.forEach(({ createdAt, closedOn }) => {
+    getEntry(toMonth(createdAt)).created += 1;
+    if (closedOn > 0) getEntry(toMonth(closedOn)).closed += 1;
+  });
+
+  return Object.values(history).sort((a, b) => a.month.localeCompare(b.month));
+};
@@ -0,0 +1,231 @@
+import BigNumber from 'bignumber.js';
+import { sha256 } from '@cosmjs/crypto';
+import { fromBase64, toHex } from '@cosmjs/encoding';
+
+export type RpcBlockHeader = {
+  chain_id: string;
+  height: string;
+  time: string;
+  proposer_address: string;
+  app_hash: string;
+  last_block_id?: { hash: string };
+};
+
+export type RpcBlockMeta = {
+  block_id: { hash: string };
+  header: RpcBlockHeader;
+  num_txs: string;
+};
+
+export type RpcBlock = {
+  block_id: { hash: string };
+  block: {
+    header: RpcBlockHeader;
+    data: { txs: string[] | null };
+  };
+};
+
+export type RpcTxResult = {
+  code: number;
+  gas_wanted: string;
+  gas_used: string;
+};
+
+export type RpcBlockResults = {
+  height: string;
+  txs_results: RpcTxResult[] | null;
+};
+
+export type BlockSummary = {
+  height: number;
+  hash: string;
+  time: string;
+  proposerAddress: string;
+  txCount: number;
+  gasUsed: string;
+  gasWanted: string;
+};
+
+export type BlockDetail = BlockSummary & {
+  chainId: string;
+  appHash: string;
+  lastBlockHash: string;
+  txHashes: string[];
+};
+
+export const NEW_BLOCK_SUBSCRIPTION = {
+  jsonrpc: '2.0',
+  method: 'subscribe',
+  id: 'new-block',
+  params: { query: "tm.event='NewBlock'" },
+};
+
+export const fetchRpc = async <T>(
+  rpcEndpoint: string,
+  path: string,
+  params: Record<string, string | number> = {},
+): Promise<T> => {
+  const baseUrl = rpcEndpoint.endsWith('/') ? rpcEndpoint : `${rpcEndpoint}/`;
+  const url = new URL(path, baseUrl);
+
+  Object.entries(params).forEach(([key, value]) =>
+    url.searchParams.set(key, String(value)),
+  );
+
+  const resp = await fetch(url.toString());
+  if (!resp.ok) throw Error(resp.statusText);
+
+  const { result, error } = await resp.json();
+  if (error) throw Error(error.data || error.message);
+
+  return result;
+};
+
+export const toWebsocketEndpoint = (rpcEndpoint: string) => {
+  return `${rpcEndpoint.replace(/^http/, 'ws').replace(/\/+$/, '')}/websocket`;
+};
+
+export const getTxHash = (tx: string) => {
+  return toHex(sha256(fromBase64(tx))).toUpperCase();
+};
+
+export const sumTxsGas = (
+  txsResults: RpcTxResult[] | null,
+  key: 'gas_used' | 'gas_wanted',
+) => {
+  return (txsResults || [])
+    .reduce((total, tx) => total.plus(tx[key] || 0), new BigNumber(0))
+    .toString();
+};
+
+export const parseBlockSummary = (
+  { block_id, block }: RpcBlock,
+  { txs_results }: RpcBlockResults,
+): BlockSummary => ({
+  height: Number(block.header.height),
+  hash: block_id.hash,
+  time: block.header.time,
+  proposerAddress: block.header.proposer_address,
+  txCount: block.data.txs?.length ?? 0,
+  gasUsed: sumTxsGas(txs_results, 'gas_used'),
+  gasWanted: sumTxsGas(txs_results, 'gas_wanted'),
+});
+
+export const parseBlockDetail = (
+  rpcBlock: RpcBlock,
+  blockResults: RpcBlockResults,
+): BlockDetail => {
+  const { header, data } = rpcBlock.block;
+
+  return {
+    ...parseBlockSummary(rpcBlock, blockResults),
+    chainId: header.chain_id,
+    appHash: header.app_hash,
+    lastBlockHash: header.last_block_id?.hash || '',
+    txHashes: (data.txs || []).map(getTxHash),
+  };
+};
+
+/**
+ * Returns the height of a `NewBlock` event pushed over the Tendermint
+ * websocket, or `null` for any other message (e.g. the subscribe ack).
+ */
+export const parseNewBlockEvent = (message: string) => {
+  try {
+    const { result } = JSON.parse(message);
+    const height = result?.data?.value?.block?.header?.height;
+    return height ? Number(height) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const fetchLatestHeight = async (rpcEndpoint: string) => {
+  const { sync_info } = await fetchRpc<{
+    sync_info: { latest_block_height: string };
+  }>(rpcEndpoint, 'status');
+
+  return Number(sync_info.latest_block_height);
+};
+
+const fetchBlockResults = (rpcEndpoint: string, height: number) => {
+  return fetchRpc<RpcBlockResults>(rpcEndpoint, 'block_results', { height });
+};
+
+export const fetchBlockSummary = async (
+  rpcEndpoint: string,
+  height: number,
+) => {
+  const [block, results] = await Promise.all([
+    fetchRpc<RpcBlock>(rpcEndpoint, 'block', { height }),
+    fetchBlockResults(rpcEndpoint, height),
+  ]);
+
+  return parseBlockSummary(block, results);
+};
+
+export const fetchBlockDetail = async (rpcEndpoint: string, height: number) => {
+  const [block, results] = await Promise.all([
+    fetchRpc<RpcBlock>(rpcEndpoint, 'block', { height }),
+    fetchBlockResults(rpcEndpoint, height),
+  ]);
+
+  return parseBlockDetail(block, results);
+};
+
+export const fetchLatestBlocks = async (rpcEndpoint: string, limit: number) => {
+  const maxHeight = await fetchLatestHeight(rpcEndpoint);
+  const minHeight = Math.max(1, maxHeight - limit + 1);
+
+  const { block_metas } = await fetchRpc<{ block_metas: RpcBlockMeta[] }>(
+    rpcEndpoint,
+    'blockchain',
+    { minHeight, maxHeight },
+  );
+
+  const results = await Promise.all(
+    block_metas.map(({ header }) =>
+      fetchBlockResults(rpcEndpoint, Number(header.height)),
+    ),
+  );
+
+  return block_metas.map(
+    ({ block_id, header, num_txs }, index): BlockSummary => ({
+      height: Number(header.height),
+      hash: block_id.hash,
+      time: header.time,
+      proposerAddress: header.proposer_address,
+      txCount: Number(num_txs),
+      gasUsed: sumTxsGas(results[index].txs_results, 'gas_used'),
+      gasWanted: sumTxsGas(results[index].txs_results, 'gas_wanted'),
+    }),
+  );
+};
+
+export const mergeBlocks = (
+  incoming: BlockSummary[],
+  current: BlockSummary[] = [],
+  limit: number,
+) => {
+  const byHeight = new Map<number, BlockSummary>();
+  [...current, ...incoming].forEach((block) =>
+    byHeight.set(block.height, block),
+  );
+
+  return Array.from(byHeight.values())
+    .sort((a, b) => b.height - a.height)
+    .slice(0, limit);
+};
+
+/**
+ * Average seconds between consecutive blocks, or `null` with fewer than two
+ * blocks to compare.
+ */
+export const calcAverageBlockTime = (blocks: BlockSummary[]) => {
+  if (blocks.length < 2) return null;
+
+  const times = blocks.map(({ time }) => new Date(time).getTime());
+  const span = Math.max(...times) - Math.min(...times);
+
+  return span / 1000 / (blocks.length - 1);
+};
@@ -60,3 +60,15 @@ export const convertGasToTokenAmount = (
   const gasPrice = chain.fees?.feeTokens[0].averageGasPrice ?? 0.025;
   return BigNumber(gasAmount).shiftedBy(-exponent).multipliedBy(gasPrice);
 };
+
+export const formatCountdown = (target: Date, now = Date.now()) => {
+  const totalSeconds = Math.max(0, Math.floor((target.getTime() - now) / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days) return `${days}d ${hours}h ${minutes}m`;
+  if (hours) return `${hours}h ${minutes}m ${seconds}s`;
+  return `${minutes}m ${seconds}s`;
+};
@@ -1,4 +1,4 @@
-import { AssetList, Chain } from '@chain-registry/v2-types';
+import { AssetList } from '@chain-registry/v2-types';
 import { toBech32, fromBech32 } from '@cosmjs/encoding';
 import { Coin, logs, parseCoins } from '@cosmjs/stargate';
 import BigNumber from 'bignumber.js';
@@ -59,12 +59,8 @@ export const prettifyJson = (text: string) => {
 
 export const countJsonLines = (text: string) => text.split(/\n/).length;
 
-export const getExplorerLink = (
-  chain: Chain,
-  txHash: string | undefined,
-): string | null => {
-  const txPageLink = chain.explorers?.[0]?.txPage;
-  return txPageLink && txHash ? txPageLink.replace('${txHash}', txHash) : null;
+export const getExplorerLink = (txHash: string | undefined): string | null => {
+  return txHash ? `/tx/${txHash.toUpperCase()}` : null;
 };
 
 export const bytesToKb = (bytes: number) => {
@@ -0,0 +1,204 @@
+import { fetchLatestHeight, fetchRpc } from '../blocks';
+import {
+  normalizeEvents,
+  RpcTxResponse,
+  searchTxs,
+  TxCursor,
+} from '../transactions';
+import { markSupersededVotes, parseVoteOptions, WeightedVote } from './votes';
+
+const DEPOSITS_LIMIT = 100;
+const ACCOUNT_VOTES_LIMIT = 100;
+
+export type ProposalVote = {
+  hash: string;
+  height: number;
+  time?: string;
+  voter: string;
+  options: WeightedVote[];
+  /** The voter changed their vote later, so these options no longer count. */
+  superseded: boolean;
+};
+
+export type ProposalDeposit = {
+  hash: string;
+  height: number;
+  time?: string;
+  depositor: string;
+  /** Coins as emitted by the event, e.g. `5000000uakt`. */
+  amount: string;
+};
+
+export type ProposalVotesPage = {
+  votes: ProposalVote[];
+  totalCount: number;
+  cursor: TxCursor;
+  nextCursor: TxCursor | null;
+  prevCursor: TxCursor | null;
+};
+
+/**
+ * The attributes of every `eventType` event in a tx. Older SDKs leave the
+ * voter or depositor out of the event, so the tx signer is used in its place.
+ */
+const getEventAttributes = (
+  { tx_result }: RpcTxResponse,
+  eventType: string,
+): Record<string, string | undefined>[] => {
+  const events = normalizeEvents(tx_result.events);
+  const sender =
+    events
+      .find(({ type }) => type === 'message')
+      ?.attributes.find(({ key }) => key === 'sender')?.value ?? '';
+
+  return events
+    .filter(({ type }) => type === eventType)
+    .map(({ attributes }) =>
+      Object.fromEntries(attributes.map(({ key, value }) => [key, value])),
+    )
+    .map((attrs) => ({ sender, ...attrs }));
+};
+
+/** The attributes of every `eventType` event about `proposalId` in a tx. */
+const getProposalEvents = (
+  tx: RpcTxResponse,
+  eventType: string,
+  proposalId: string,
+) =>
+  getEventAttributes(tx, eventType).filter(
+    (attrs) => attrs.proposal_id === proposalId,
+  );
+
+/**
+ * Vote txs of a proposal, newest first. Votes are pruned from gov state once
+ * voting ends, so they are read from the vote txs instead. A voter can appear
+ * more than once, so pass the voters of the newer pages as `newerVoters` to
+ * mark their older votes as superseded.
+ */
+export const fetchProposalVotes = async (
+  rpcEndpoint: string,
+  proposalId: string,
+  {
+    cursor,
+    limit,
+    newerVoters,
+  }: { cursor?: TxCursor; limit: number; newerVoters?: string[] },
+): Promise<ProposalVotesPage> => {
+  const maxHeight = cursor?.maxHeight ?? (await fetchLatestHeight(rpcEndpoint));
+  const page = cursor?.page ?? 1;
+
+  const { txs, times, totalCount } = await searchTxs(rpcEndpoint, {
+    query: `proposal_vote.proposal_id='${proposalId}' AND tx.height<=${maxHeight}`,
+    page,
+    limit,
+  });
+
+  const votes = txs
+    .filter(({ tx_result }) => tx_result.code === 0)
+    .flatMap((tx) =>
+      getProposalEvents(tx, 'proposal_vote', proposalId).map(
+        ({ sender, voter, option = '' }) => ({
+          hash: tx.hash,
+          height: Number(tx.height),
+          time: times[Number(tx.height)],
+          voter: voter || sender || '',
+          options: parseVoteOptions(option),
+        }),
+      ),
+    );
+
+  return {
+    votes: markSupersededVotes(votes, newerVoters),
+    totalCount,
+    cursor: { maxHeight, page },
+    nextCursor:
+      page * limit < totalCount ? { maxHeight, page: page + 1 } : null,
+    prevCursor: page > 1 ? { maxHeight, page: page - 1 } : null,
+  };
+};
+
+/**
+ * Deposits made on a proposal, including the initial one, newest first.
+ * Like votes, deposits are removed from state once the deposit is settled.
+ */
+export const fetchProposalDeposits = async (
+  rpcEndpoint: string,
+  proposalId: string,
+): Promise<ProposalDeposit[]> => {
+  const { txs, times } = await searchTxs(rpcEndpoint, {
+    query: `proposal_deposit.proposal_id='${proposalId}'`,
+    limit: DEPOSITS_LIMIT,
+  });
+
+  return txs
+    .filter(({ tx_result }) => tx_result.code === 0)
+    .flatMap((tx) =>
+      getProposalEvents(tx, 'proposal_deposit', proposalId).map(
+        ({ sender, depositor, amount = '' }) => ({
+          hash: tx.hash,
+          height: Number(tx.height),
+          time: times[Number(tx.height)],
+          depositor: depositor || sender || '',
+          amount,
+        }),
+      ),
+    );
+};
+
+const searchAccountVoteTxs = async (rpcEndpoint: string, query: string) => {
+  // block times are not needed, so this skips `searchTxs`
+  const { txs } = await fetchRpc<{ txs: RpcTxResponse[] }>(
+    rpcEndpoint,
+    'tx_search',
+    {
+      query: `"${query}"`,
+      per_page: ACCOUNT_VOTES_LIMIT,
+      order_by: '"desc"',
+    },
+  );
+  return txs.filter(({ tx_result }) => tx_result.code === 0);
+};
+
+/**
+ * The latest vote of an account on each proposal it voted on, by proposal id.
+ * Votes are looked up by the `voter` event attribute so votes cast through
+ * authz grants are included. Votes from before the SDK emitted it can only
+ * be matched by the tx signer, so both searches are merged and the latest
+ * vote per proposal is kept. Only the last `ACCOUNT_VOTES_LIMIT` vote txs of
+ * each search are read.
+ */
+export const fetchAccountVotes = async (
+  rpcEndpoint: string,
+  accountAddress: string,
+): Promise<Record<string, WeightedVote[]>> => {
+  const results = await Promise.all([
+    searchAccountVoteTxs(
+      rpcEndpoint,
+      `proposal_vote.voter='${accountAddress}'`,
+    ),
+    searchAccountVoteTxs(
+      rpcEndpoint,
+      `message.module='governance' AND message.sender='${accountAddress}'`,
+    ),
+  ]);
+
+  // a vote from after the upgrade that added `voter` matches both searches
+  const txs = Array.from(
+    new Map(results.flat().map((tx) => [tx.hash, tx])).values(),
+  ).sort((a, b) => Number(b.height) - Number(a.height) || b.index - a.index);
+
+  const votes: Record<string, WeightedVote[]> = {};
+
+  txs
+    .flatMap((tx) => getEventAttributes(tx, 'proposal_vote'))
+    // a tx can carry votes of several accounts, e.g. an authz `MsgExec`
+    .filter(({ voter, sender }) => (voter || sender) === accountAddress)
+    .forEach(({ proposal_id, option = '' }) => {
+      // txs are newest first, so a changed vote keeps its latest options
+      if (proposal_id && !votes[proposal_id]) {
+        votes[proposal_id] = parseVoteOptions(option);
+      }
+    });
+
+  return votes;
+};
@@ -0,0 +1,5 @@
+export * from './params';
+export * from './votes';
+export * from './history';
+export * from './proposal';
+export * from './tally';
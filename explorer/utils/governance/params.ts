@@ -0,0 +1,124 @@
+import type { DecodedAny } from '../registry';
+
+export type ParamsModule =
+  | 'auth'
+  | 'bank'
+  | 'distribution'
+  | 'gov'
+  | 'mint'
+  | 'slashing'
+  | 'staking';
+
+const UPDATE_PARAMS_MODULES: Record<string, ParamsModule> = {
+  '/cosmos.auth.v1beta1.MsgUpdateParams': 'auth',
+  '/cosmos.bank.v1beta1.MsgUpdateParams': 'bank',
+  '/cosmos.distribution.v1beta1.MsgUpdateParams': 'distribution',
+  '/cosmos.gov.v1.MsgUpdateParams': 'gov',
+  '/cosmos.mint.v1beta1.MsgUpdateParams': 'mint',
+  '/cosmos.slashing.v1beta1.MsgUpdateParams': 'slashing',
+  '/cosmos.staking.v1beta1.MsgUpdateParams': 'staking',
+};
+
+const EXEC_LEGACY_CONTENT_TYPE_URL = '/cosmos.gov.v1.MsgExecLegacyContent';
+const PARAMETER_CHANGE_TYPE_URL =
+  '/cosmos.params.v1beta1.ParameterChangeProposal';
+
+/**
+ * A parameter change carried by a proposal. Modules migrated to `x/gov` v1
+ * replace their whole params at once, legacy `x/params` subspaces change one
+ * key at a time.
+ */
+export type ParamUpdate =
+  | { kind: 'module'; module: ParamsModule; proposed: unknown }
+  | { kind: 'subspace'; subspace: string; key: string; proposed: unknown };
+
+export type ParamDiff = {
+  key: string;
+  current?: string;
+  proposed?: string;
+  changed: boolean;
+};
+
+const parseJson = (value: unknown) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+/** Parameter changes of a proposal's decoded messages, in message order. */
+export const getParamUpdates = (messages: DecodedAny[]): ParamUpdate[] => {
+  return messages.flatMap(({ typeUrl, value }): ParamUpdate[] => {
+    const module = UPDATE_PARAMS_MODULES[typeUrl];
+    if (module) {
+      return [
+        {
+          kind: 'module',
+          module,
+          proposed: (value as { params?: unknown } | null)?.params ?? {},
+        },
+      ];
+    }
+
+    const content = (value as { content?: DecodedAny } | null)?.content;
+    if (
+      typeUrl !== EXEC_LEGACY_CONTENT_TYPE_URL ||
+      content?.typeUrl !== PARAMETER_CHANGE_TYPE_URL
+    ) {
+      return [];
+    }
+
+    const { changes = [] } = content.value as {
+      changes?: { subspace: string; key: string; value: string }[];
+    };
+    return changes.map(({ subspace, key, value }) => ({
+      kind: 'subspace',
+      subspace,
+      key,
+      proposed: parseJson(value),
+    }));
+  });
+};
+
+const flattenParams = (value: unknown, prefix = ''): Record<string, string> => {
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).length > 0
+  ) {
+    return Object.fromEntries(
+      Object.entries(value).flatMap(([key, val]) =>
+        Object.entries(flattenParams(val, prefix ? `${prefix}.${key}` : key)),
+      ),
+    );
+  }
+  return { [prefix]: JSON.stringify(value) };
+};
+
+/**
+ * Compares params key by key, nested objects flattened into dotted keys.
+ * Every key of either side is listed so unchanged values give context.
+ */
+export const diffParams = (
+  current: unknown,
+  proposed: unknown,
+  prefix = '',
+) => {
+  const currentValues = flattenParams(current, prefix);
+  const proposedValues = flattenParams(proposed, prefix);
+  const keys = Array.from(
+    new Set([...Object.keys(currentValues), ...Object.keys(proposedValues)]),
+  );
+
+  return keys.map(
+    (key): ParamDiff => ({
+      key,
+      current: currentValues[key],
+      proposed: proposedValues[key],
+      changed: currentValues[key] !== proposedValues[key],
+    }),
+  );
+};
@@ -0,0 +1,136 @@
+import BigNumber from 'bignumber.js';
+import { sha256 } from '@cosmjs/crypto';
+import { toBech32, toUtf8 } from '@cosmjs/encoding';
+
+import type { DecodedAny } from '../registry';
+
+export type ProposalTemplate =
+  | 'text'
+  | 'community-pool-spend'
+  | 'software-upgrade'
+  | 'raw';
+
+export const PROPOSAL_TEMPLATES: { id: ProposalTemplate; label: string }[] = [
+  { id: 'text', label: 'Text' },
+  { id: 'community-pool-spend', label: 'Community pool spend' },
+  { id: 'software-upgrade', label: 'Software upgrade' },
+  { id: 'raw', label: 'Raw messages (JSON)' },
+];
+
+export type ProposalTemplateFields = {
+  recipient: string;
+  /** In base units. */
+  amount: string;
+  denom: string;
+  upgradeName: string;
+  upgradeHeight: string;
+  upgradeInfo: string;
+};
+
+export const RAW_MESSAGES_EXAMPLE = JSON.stringify(
+  [
+    {
+      typeUrl: '/cosmos.bank.v1beta1.MsgSend',
+      value: { fromAddress: '', toAddress: '', amount: [] },
+    },
+  ],
+  null,
+  2,
+);
+
+/** Module accounts derive their address from the module name alone. */
+export const getModuleAddress = (moduleName: string, prefix: string) => {
+  return toBech32(prefix, sha256(toUtf8(moduleName)).slice(0, 20));
+};
+
+/**
+ * The messages a template proposal executes once it passes. They run as the
+ * gov module, so `authority` is its account address.
+ */
+export const buildTemplateMessages = (
+  template: Exclude<ProposalTemplate, 'raw'>,
+  fields: ProposalTemplateFields,
+  authority: string,
+): DecodedAny[] => {
+  switch (template) {
+    case 'text':
+      return [];
+    case 'community-pool-spend':
+      return [
+        {
+          typeUrl: '/cosmos.distribution.v1beta1.MsgCommunityPoolSpend',
+          value: {
+            authority,
+            recipient: fields.recipient,
+            amount: [{ denom: fields.denom, amount: fields.amount }],
+          },
+        },
+      ];
+    case 'software-upgrade':
+      return [
+        {
+          typeUrl: '/cosmos.upgrade.v1beta1.MsgSoftwareUpgrade',
+          value: {
+            authority,
+            plan: {
+              name: fields.upgradeName,
+              height: fields.upgradeHeight,
+              info: fields.upgradeInfo,
+            },
+          },
+        },
+      ];
+  }
+};
+
+/**
+ * Reads the raw message editor: a JSON array of `{ typeUrl, value }`
+ * objects, values in the camelCase form of the message.
+ */
+export const parseRawMessages = (json: string): DecodedAny[] => {
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Messages must be a JSON array');
+  }
+
+  parsed.forEach((message, index) => {
+    if (
+      typeof message !== 'object' ||
+      message === null ||
+      typeof message.typeUrl !== 'string' ||
+      typeof message.value !== 'object' ||
+      message.value === null
+    ) {
+      throw new Error(
+        `Message ${index + 1} must be an object with a typeUrl and a value`,
+      );
+    }
+  });
+
+  return parsed.map(({ typeUrl, value }) => ({ typeUrl, value }));
+};
+
+/**
+ * Compares a deposit (in base units) with the gov deposit params. Proposals
+ * below `minDeposit` wait in the deposit period, and the chain rejects
+ * submissions below `minDeposit * minInitialDepositRatio` outright.
+ */
+export const checkDeposit = ({
+  amount,
+  minDeposit,
+  minInitialDepositRatio = '0',
+}: {
+  amount: BigNumber.Value;
+  minDeposit: BigNumber.Value;
+  minInitialDepositRatio?: BigNumber.Value;
+}) => {
+  const minInitialDeposit = new BigNumber(minDeposit)
+    .multipliedBy(minInitialDepositRatio || 0)
+    .integerValue(BigNumber.ROUND_CEIL);
+
+  return {
+    minInitialDeposit: minInitialDeposit.toString(),
+    isBelowMinDeposit: new BigNumber(amount).lt(minDeposit),
+    isBelowMinInitialDeposit: new BigNumber(amount).lt(minInitialDeposit),
+  };
+};
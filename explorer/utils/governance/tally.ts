@@ -0,0 +1,88 @@
+import BigNumber from 'bignumber.js';
+
+/** Fractions, e.g. `0.334` for a 33.4% quorum. */
+export type TallyParams = {
+  quorum: number;
+  threshold: number;
+  vetoThreshold: number;
+};
+
+/** Same shape as the gov v1 `TallyResult`, in base units. */
+export type TallyCounts = {
+  yesCount: string;
+  abstainCount: string;
+  noCount: string;
+  noWithVetoCount: string;
+};
+
+export type TallyOutcome =
+  | 'passing'
+  | 'no-quorum'
+  | 'no-votes'
+  | 'vetoed'
+  | 'below-threshold';
+
+export type TallyProjection = {
+  turnout: number;
+  /** Yes votes over non-abstaining votes. */
+  yesRatio: number;
+  /** Veto votes over all votes. */
+  vetoRatio: number;
+  outcome: TallyOutcome;
+};
+
+/**
+ * Tallying params are `sdk.Dec`s: decimal strings on gov v1, and the raw
+ * 18-decimal integer, sometimes as bytes, on older endpoints.
+ */
+export const parseTallyParam = (value?: string | Uint8Array) => {
+  const decimal =
+    typeof value === 'string' ? value : new TextDecoder().decode(value);
+  if (!decimal) return 0;
+
+  return decimal.includes('.')
+    ? Number(decimal)
+    : new BigNumber(decimal).shiftedBy(-18).toNumber();
+};
+
+/**
+ * Mirrors the gov module's end-of-voting tally: quorum is checked against
+ * the bonded tokens, then the veto threshold against all votes, then the
+ * yes threshold against the votes that did not abstain.
+ */
+export const projectTally = ({
+  tally,
+  bondedTokens,
+  params,
+}: {
+  tally: TallyCounts;
+  bondedTokens: BigNumber.Value;
+  params: TallyParams;
+}): TallyProjection => {
+  const yes = new BigNumber(tally.yesCount || 0);
+  const abstain = new BigNumber(tally.abstainCount || 0);
+  const no = new BigNumber(tally.noCount || 0);
+  const veto = new BigNumber(tally.noWithVetoCount || 0);
+
+  const total = yes.plus(abstain).plus(no).plus(veto);
+  const nonAbstaining = total.minus(abstain);
+
+  const turnout = new BigNumber(bondedTokens).gt(0)
+    ? total.div(bondedTokens).toNumber()
+    : 0;
+  const yesRatio = nonAbstaining.gt(0) ? yes.div(nonAbstaining).toNumber() : 0;
+  const vetoRatio = total.gt(0) ? veto.div(total).toNumber() : 0;
+
+  const outcome: TallyOutcome =
+    turnout < params.quorum
+      ? 'no-quorum'
+      : nonAbstaining.isZero()
+      ? 'no-votes'
+      : vetoRatio > params.vetoThreshold
+      ? 'vetoed'
+      : yesRatio > params.threshold
+      ? 'passing'
+      : 'below-threshold';
+
+  return { turnout, yesRatio, vetoRatio, outcome };
+};
@@ -0,0 +1,180 @@
+import BigNumber from 'bignumber.js';
+
+export type VoteOptionLabel = 'Yes' | 'Abstain' | 'No' | 'No with veto';
+
+export type WeightedVote = {
+  option: VoteOptionLabel;
+  /** Share of the voting power, as a fraction. */
+  weight: string;
+};
+
+const VOTE_OPTION_LABELS: Record<string, VoteOptionLabel> = {
+  '1': 'Yes',
+  '2': 'Abstain',
+  '3': 'No',
+  '4': 'No with veto',
+  VOTE_OPTION_YES: 'Yes',
+  VOTE_OPTION_ABSTAIN: 'Abstain',
+  VOTE_OPTION_NO: 'No',
+  VOTE_OPTION_NO_WITH_VETO: 'No with veto',
+};
+
+/** Maps `VoteOption` values or names to labels, unknown options dropped. */
+export const toWeightedVotes = (
+  entries: { option: unknown; weight?: unknown }[],
+): WeightedVote[] => {
+  return entries
+    .map(({ option, weight }) => ({
+      option: VOTE_OPTION_LABELS[String(option)],
+      weight: weight === undefined ? '1' : String(weight),
+    }))
+    .filter(({ option }) => !!option);
+};
+
+/** E.g. `Yes`, or `Yes 70%, No 30%` for a weighted vote. */
+export const formatWeightedVote = (options: WeightedVote[]) => {
+  if (options.length === 0) return '--';
+  if (options.length === 1) return options[0].option;
+
+  return options
+    .map(({ option, weight }) => `${option} ${Math.round(+weight * 100)}%`)
+    .join(', ');
+};
+
+/**
+ * Reads the `option` attribute of a `proposal_vote` event. SDK versions
+ * disagree on its format: a bare option name, `option:X weight:"Y"` pairs,
+ * or JSON for one or several weighted options.
+ */
+export const parseVoteOptions = (value: string): WeightedVote[] => {
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return toWeightedVotes(parsed);
+    if (typeof parsed === 'object' && parsed !== null) {
+      return toWeightedVotes([parsed]);
+    }
+  } catch {}
+
+  const pairs = Array.from(
+    value.matchAll(/option:\s*(\w+)\s+weight:\s*"?([\d.]+)"?/g),
+  );
+  if (pairs.length > 0) {
+    return toWeightedVotes(
+      pairs.map(([, option, weight]) => ({ option, weight })),
+    );
+  }
+
+  return toWeightedVotes([{ option: value.trim() }]);
+};
+
+/** Vote options in the order the tally lists them, by `VoteOption` value. */
+export const VOTE_OPTIONS: { option: number; label: VoteOptionLabel }[] = [
+  { option: 1, label: 'Yes' },
+  { option: 3, label: 'No' },
+  { option: 4, label: 'No with veto' },
+  { option: 2, label: 'Abstain' },
+];
+
+/** Whole percentages by `VoteOption` value, always adding up to 100. */
+export type VoteWeights = Record<number, number>;
+
+export type VoteWeight = {
+  option: number;
+  /** Share of the voting power, as a fraction. */
+  weight: number;
+};
+
+/**
+ * Vote weights are `sdk.Dec`s, which some clients hand over as the raw
+ * 18-decimal integer instead of a decimal string.
+ */
+export const parseVoteWeight = (weight: string) => {
+  if (!weight) return 0;
+  return weight.includes('.')
+    ? Number(weight)
+    : new BigNumber(weight).shiftedBy(-18).toNumber();
+};
+
+export const toVoteWeights = (votes: VoteWeight[]): VoteWeights => {
+  const weights: VoteWeights = Object.fromEntries(
+    VOTE_OPTIONS.map(({ option }) => [option, 0]),
+  );
+  votes.forEach(({ option, weight }) => {
+    weights[option] = Math.round(weight * 100);
+  });
+  return weights;
+};
+
+/**
+ * Sets one option's weight and spreads what is left over the other options
+ * in proportion to their current weights, or evenly when they are all zero,
+ * so the weights keep adding up to 100.
+ */
+export const rebalanceVoteWeights = (
+  weights: VoteWeights,
+  option: number,
+  percent: number,
+): VoteWeights => {
+  const value = Math.min(100, Math.max(0, Math.round(percent)));
+  const others = VOTE_OPTIONS.map(({ option }) => option).filter(
+    (other) => other !== option,
+  );
+  const othersTotal = others.reduce(
+    (sum, other) => sum + (weights[other] || 0),
+    0,
+  );
+  const rest = 100 - value;
+
+  const shares = others.map((other) =>
+    Math.floor(
+      othersTotal > 0
+        ? (rest * (weights[other] || 0)) / othersTotal
+        : rest / others.length,
+    ),
+  );
+  const largest = shares.reduce(
+    (max, share, index) => (share > shares[max] ? index : max),
+    0,
+  );
+  shares[largest] += rest - shares.reduce((sum, share) => sum + share, 0);
+
+  return {
+    ...Object.fromEntries(others.map((other, index) => [other, shares[index]])),
+    [option]: value,
+  };
+};
+
+/** The options of a `MsgVoteWeighted`, zero weights left out. */
+export const toWeightedVoteOptions = (weights: VoteWeights) => {
+  return VOTE_OPTIONS.filter(({ option }) => weights[option] > 0).map(
+    ({ option }) => ({
+      option,
+      weight: new BigNumber(weights[option]).shiftedBy(-2).toFixed(),
+    }),
+  );
+};
+
+/** E.g. `Yes 70%, No 30%`, in tally order. */
+export const formatVoteWeights = (votes: VoteWeight[]) => {
+  return VOTE_OPTIONS.flatMap(({ option, label }) => {
+    const vote = votes.find((item) => item.option === option);
+    return vote ? [`${label} ${Math.round(vote.weight * 100)}%`] : [];
+  }).join(', ');
+};
+
+/**
+ * Flags votes followed by a newer one from the same voter, either earlier in
+ * the newest first `votes` or among `newerVoters`, the voters of newer pages.
+ */
+export const markSupersededVotes = <Vote extends { voter: string }>(
+  votes: Vote[],
+  newerVoters: string[] = [],
+) => {
+  const seen = new Set(newerVoters);
+
+  return votes.map((vote) => {
+    const superseded = seen.has(vote.voter);
+    seen.add(vote.voter);
+    return { ...vote, superseded };
+  });
+};
@@ -4,3 +4,13 @@ export * from './voting';
 export * from './asset-list';
 export * from './contract';
 export * from './faucet';
+export * from './blocks';
+export * from './registry';
+export * from './transactions';
+export * from './account';
+export * from './akash';
+export * from './search';
+export * from './indexer';
+export * from './pagination';
+export * from './rest';
+export * from './governance';
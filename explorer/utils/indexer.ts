@@ -0,0 +1,58 @@
+export type IndexedTxRow = {
+  hash: string;
+  height: number;
+  time: string;
+  code: number;
+  fee: string;
+  messageTypes: string[];
+};
+
+export type IndexerStatus = {
+  firstHeight: number | null;
+  lastHeight: number | null;
+  txCount: number;
+};
+
+/** Status served to the UI, with the prefix of the chain being indexed. */
+export type IndexerInfo = IndexerStatus & {
+  bech32Prefix: string;
+};
+
+export type IndexerPageParams = {
+  limit: number;
+  offset: number;
+};
+
+const INDEXER_API = '/api/indexer';
+
+const handleError = (resp: Response) => {
+  if (!resp.ok) throw Error(resp.statusText);
+  return resp;
+};
+
+const fetchIndexer = async <T>(
+  path: string,
+  params: Record<string, string | number> = {},
+): Promise<T> => {
+  const search = new URLSearchParams(
+    Object.entries(params).map(([key, value]) => [key, String(value)]),
+  ).toString();
+
+  return fetch(`${INDEXER_API}/${path}${search ? `?${search}` : ''}`)
+    .then(handleError)
+    .then((resp) => resp.json());
+};
+
+export const fetchIndexerStatus = () => {
+  return fetchIndexer<IndexerInfo>('status');
+};
+
+export const fetchIndexedAddressTxs = (
+  address: string,
+  page: IndexerPageParams,
+) => {
+  return fetchIndexer<{ txs: IndexedTxRow[]; total: number }>(
+    `address/${address}`,
+    page,
+  );
+};
@@ -0,0 +1,76 @@
+export const DEFAULT_PAGE_LIMIT = 100n;
+
+export type PaginationRequest = {
+  key: Uint8Array;
+  offset: bigint;
+  limit: bigint;
+  countTotal: boolean;
+  reverse: boolean;
+};
+
+export type PaginationResponse = {
+  nextKey?: Uint8Array;
+  total?: bigint;
+};
+
+export type PaginationProgress = {
+  loaded: number;
+  /** Only known when the node honours `countTotal`. */
+  total: number | null;
+  pages: number;
+};
+
+export type FetchAllPagesOptions = {
+  limit?: bigint;
+  reverse?: boolean;
+  onProgress?: (progress: PaginationProgress) => void;
+};
+
+const isSameKey = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((byte, index) => byte === b[index]);
+
+/**
+ * Requests pages with `pagination.key` set to the previous `nextKey` until
+ * the node returns an empty one, and concatenates their items. The total is
+ * only counted on the first request since later ones would repeat the work.
+ */
+export const fetchAllPages = async <
+  Page extends { pagination?: PaginationResponse },
+  Item,
+>(
+  fetchPage: (pagination: PaginationRequest) => Promise<Page>,
+  getItems: (page: Page) => Item[],
+  {
+    limit = DEFAULT_PAGE_LIMIT,
+    reverse = false,
+    onProgress,
+  }: FetchAllPagesOptions = {},
+) => {
+  const items: Item[] = [];
+  let key = new Uint8Array();
+  let total: number | null = null;
+  let pages = 0;
+
+  while (true) {
+    const page = await fetchPage({
+      key,
+      offset: 0n,
+      limit,
+      countTotal: pages === 0,
+      reverse,
+    });
+
+    items.push(...getItems(page));
+    pages += 1;
+
+    if (pages === 1) total = Number(page.pagination?.total ?? 0) || null;
+    onProgress?.({ loaded: items.length, total, pages });
+
+    const nextKey = page.pagination?.nextKey;
+    // a node repeating the same key would otherwise loop forever
+    if (!nextKey?.length || isSameKey(nextKey, key)) break;
+    key = nextKey;
+  }
+
+  return items;
+};
@@ -0,0 +1,210 @@
+import { toBase64 } from '@cosmjs/encoding';
+import {
+  MsgMultiSend,
+  MsgSend,
+  MsgUpdateParams as MsgUpdateBankParams,
+} from '@interchainjs/react/cosmos/bank/v1beta1/tx';
+import {
+  MsgBeginRedelegate,
+  MsgCancelUnbondingDelegation,
+  MsgCreateValidator,
+  MsgDelegate,
+  MsgEditValidator,
+  MsgUndelegate,
+  MsgUpdateParams as MsgUpdateStakingParams,
+} from '@interchainjs/react/cosmos/staking/v1beta1/tx';
+import {
+  MsgCommunityPoolSpend,
+  MsgFundCommunityPool,
+  MsgSetWithdrawAddress,
+  MsgUpdateParams as MsgUpdateDistributionParams,
+  MsgWithdrawDelegatorReward,
+  MsgWithdrawValidatorCommission,
+} from '@interchainjs/react/cosmos/distribution/v1beta1/tx';
+import { CommunityPoolSpendProposal } from '@interchainjs/react/cosmos/distribution/v1beta1/distribution';
+import {
+  MsgDeposit,
+  MsgSubmitProposal,
+  MsgVote,
+  MsgVoteWeighted,
+} from '@interchainjs/react/cosmos/gov/v1beta1/tx';
+import { TextProposal } from '@interchainjs/react/cosmos/gov/v1beta1/gov';
+import {
+  MsgDeposit as MsgDepositV1,
+  MsgExecLegacyContent,
+  MsgSubmitProposal as MsgSubmitProposalV1,
+  MsgUpdateParams as MsgUpdateGovParams,
+  MsgVote as MsgVoteV1,
+  MsgVoteWeighted as MsgVoteWeightedV1,
+} from '@interchainjs/react/cosmos/gov/v1/tx';
+import {
+  MsgExec,
+  MsgGrant,
+  MsgRevoke,
+} from '@interchainjs/react/cosmos/authz/v1beta1/tx';
+import {
+  MsgExecuteContract,
+  MsgInstantiateContract,
+  MsgStoreCode,
+} from '@interchainjs/react/cosmwasm/wasm/v1/tx';
+import { MsgTransfer } from '@interchainjs/react/ibc/applications/transfer/v1/tx';
+import { MsgUpdateParams as MsgUpdateAuthParams } from '@interchainjs/react/cosmos/auth/v1beta1/tx';
+import { MsgUpdateParams as MsgUpdateMintParams } from '@interchainjs/react/cosmos/mint/v1beta1/tx';
+import { MsgUpdateParams as MsgUpdateSlashingParams } from '@interchainjs/react/cosmos/slashing/v1beta1/tx';
+import {
+  MsgCancelUpgrade,
+  MsgSoftwareUpgrade,
+} from '@interchainjs/react/cosmos/upgrade/v1beta1/tx';
+import {
+  CancelSoftwareUpgradeProposal,
+  SoftwareUpgradeProposal,
+} from '@interchainjs/react/cosmos/upgrade/v1beta1/upgrade';
+import { ParameterChangeProposal } from '@interchainjs/react/cosmos/params/v1beta1/params';
+
+export type EncodedAny = {
+  typeUrl: string;
+  value: Uint8Array;
+};
+
+export type DecodedAny = {
+  typeUrl: string;
+  value: unknown;
+};
+
+type MessageCodec = {
+  typeUrl: string;
+  decode: (input: Uint8Array) => unknown;
+  encode?: (message: any) => { finish: () => Uint8Array };
+  fromPartial?: (object: any) => unknown;
+};
+
+const codecs: MessageCodec[] = [
+  MsgSend,
+  MsgMultiSend,
+  MsgDelegate,
+  MsgUndelegate,
+  MsgBeginRedelegate,
+  MsgCancelUnbondingDelegation,
+  MsgCreateValidator,
+  MsgEditValidator,
+  MsgWithdrawDelegatorReward,
+  MsgWithdrawValidatorCommission,
+  MsgSetWithdrawAddress,
+  MsgFundCommunityPool,
+  MsgVote,
+  MsgVoteWeighted,
+  MsgDeposit,
+  MsgSubmitProposal,
+  MsgVoteV1,
+  MsgVoteWeightedV1,
+  MsgDepositV1,
+  MsgSubmitProposalV1,
+  MsgExecLegacyContent,
+  MsgGrant,
+  MsgExec,
+  MsgRevoke,
+  MsgStoreCode,
+  MsgInstantiateContract,
+  MsgExecuteContract,
+  MsgTransfer,
+  // governance proposal messages and legacy contents
+  MsgSoftwareUpgrade,
+  MsgCancelUpgrade,
+  MsgCommunityPoolSpend,
+  MsgUpdateAuthParams,
+  MsgUpdateBankParams,
+  MsgUpdateDistributionParams,
+  MsgUpdateGovParams,
+  MsgUpdateMintParams,
+  MsgUpdateSlashingParams,
+  MsgUpdateStakingParams,
+  TextProposal,
+  ParameterChangeProposal,
+  SoftwareUpgradeProposal,
+  CancelSoftwareUpgradeProposal,
+  CommunityPoolSpendProposal,
+];
+
+export const messageRegistry = new Map<string, MessageCodec>(
+  codecs.map((codec) => [codec.typeUrl, codec]),
+);
+
+export const registerMessageCodec = (codec: MessageCodec) => {
+  messageRegistry.set(codec.typeUrl, codec);
+};
+
+export const getMessageType = (typeUrl: string) => {
+  return typeUrl.split('.').pop() || typeUrl;
+};
+
+const isEncodedAny = (value: unknown): value is EncodedAny => {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as EncodedAny).typeUrl === 'string' &&
+    (value as EncodedAny).value instanceof Uint8Array
+  );
+};
+
+const MAX_DISPLAY_BYTES = 2048;
+
+const decodeBytes = (bytes: Uint8Array) => {
+  try {
+    return JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+  } catch {
+    return bytes.length > MAX_DISPLAY_BYTES
+      ? `<${bytes.length} bytes>`
+      : toBase64(bytes);
+  }
+};
+
+/**
+ * Turns decoded protobuf values into plain JSON: nested `Any`s are decoded
+ * through the registry, byte fields become JSON (e.g. wasm msgs) or base64.
+ */
+export const toDisplayValue = (value: unknown): unknown => {
+  if (value instanceof Uint8Array) return decodeBytes(value);
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  if (isEncodedAny(value)) return decodeAny(value);
+
+  if (Array.isArray(value)) return value.map(toDisplayValue);
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, val]) => [key, toDisplayValue(val)]),
+    );
+  }
+
+  return value;
+};
+
+export const decodeAny = ({ typeUrl, value }: EncodedAny): DecodedAny => {
+  const codec = messageRegistry.get(typeUrl);
+
+  if (!codec) return { typeUrl, value: toBase64(value) };
+
+  try {
+    return { typeUrl, value: toDisplayValue(codec.decode(value)) };
+  } catch (error) {
+    console.error(error);
+    return { typeUrl, value: toBase64(value) };
+  }
+};
+
+/**
+ * The inverse of `decodeAny` for messages typed in as JSON, e.g. the messages
+ * of a governance proposal.
+ */
+export const encodeAny = ({ typeUrl, value }: DecodedAny): EncodedAny => {
+  const codec = messageRegistry.get(typeUrl);
+
+  if (!codec?.encode || !codec.fromPartial) {
+    throw new Error(`Unsupported message type ${typeUrl}`);
+  }
+
+  return {
+    typeUrl,
+    value: codec.encode(codec.fromPartial(value)).finish(),
+  };
+};
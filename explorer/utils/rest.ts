@@ -0,0 +1,83 @@
+export type RestPagination = {
+  next_key: string | null;
+  total: string;
+};
+
+export type RestDecCoin = {
+  denom: string;
+  amount: string;
+};
+
+export type RestAttribute = {
+  key: string;
+  value: string;
+};
+
+export type PageRequest = {
+  key?: string;
+  limit: number;
+};
+
+// large pages keep the request count down, nodes cap them where they must
+const REST_PAGE_LIMIT = 1000;
+
+const handleError = (resp: Response) => {
+  if (!resp.ok) throw Error(resp.statusText);
+  return resp;
+};
+
+export const fetchRest = async <T>(
+  restEndpoint: string,
+  path: string,
+  params: Record<string, string | number | boolean | undefined> = {},
+): Promise<T> => {
+  const baseUrl = restEndpoint.endsWith('/')
+    ? restEndpoint
+    : `${restEndpoint}/`;
+  const url = new URL(path, baseUrl);
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      url.searchParams.set(key, String(value));
+    }
+  });
+
+  return fetch(url.toString())
+    .then(handleError)
+    .then((resp) => resp.json());
+};
+
+export const toPaginationParams = ({ key, limit }: PageRequest) => ({
+  'pagination.key': key,
+  'pagination.limit': limit,
+  'pagination.count_total': !key,
+});
+
+/**
+ * REST counterpart of `fetchAllPages`: requests pages with `pagination.key`
+ * set to the previous `next_key` until the node returns none, and
+ * concatenates their items.
+ */
+export const fetchAllRestPages = async <
+  Page extends { pagination?: RestPagination | null },
+  Item,
+>(
+  fetchPage: (pageRequest: PageRequest) => Promise<Page>,
+  getItems: (page: Page) => Item[],
+  { limit = REST_PAGE_LIMIT }: { limit?: number } = {},
+) => {
+  const items: Item[] = [];
+  let key: string | undefined;
+
+  while (true) {
+    const page = await fetchPage({ key, limit });
+    items.push(...getItems(page));
+
+    const nextKey = page.pagination?.next_key;
+    // a node repeating the same key would otherwise loop forever
+    if (!nextKey || nextKey === key) break;
+    key = nextKey;
+  }
+
+  return items;
+};
@@ -0,0 +1,130 @@
+import { fromBech32 } from '@cosmjs/encoding';
+
+import { isPositiveInt, validateContractAddress } from './contract';
+import { isTxHash } from './transactions';
+
+const MAX_VALIDATOR_RESULTS = 5;
+const MIN_MONIKER_QUERY_LENGTH = 2;
+
+export type SearchResultType =
+  | 'block'
+  | 'proposal'
+  | 'transaction'
+  | 'account'
+  | 'validator'
+  | 'contract'
+  | 'deployment';
+
+export type SearchResult = {
+  type: SearchResultType;
+  label: string;
+  href: string;
+};
+
+export type SearchContext = {
+  bech32Prefix: string;
+  validators: { address: string; name: string }[];
+};
+
+const getBech32Prefix = (input: string) => {
+  try {
+    return fromBech32(input).prefix;
+  } catch {
+    return null;
+  }
+};
+
+const classifyAddress = (
+  address: string,
+  bech32Prefix: string,
+): SearchResult | null => {
+  const prefix = getBech32Prefix(address);
+
+  if (!bech32Prefix || !prefix) return null;
+
+  if (prefix === `${bech32Prefix}valoper`) {
+    return {
+      type: 'validator',
+      label: address,
+      href: `/validators/${address}`,
+    };
+  }
+
+  if (prefix !== bech32Prefix) return null;
+
+  // contract addresses are 32 bytes long, accounts 20
+  if (!validateContractAddress(address, bech32Prefix)) {
+    return {
+      type: 'contract',
+      label: address,
+      href: `/contract?tab=query&address=${address}`,
+    };
+  }
+
+  return { type: 'account', label: address, href: `/address/${address}` };
+};
+
+/**
+ * Resolves free-form search input to the pages it may refer to. Inputs such
+ * as plain numbers can match several pages, in which case every candidate is
+ * returned for the user to pick from.
+ */
+export const classifySearchInput = (
+  input: string,
+  { bech32Prefix, validators }: SearchContext,
+): SearchResult[] => {
+  const query = input.trim();
+
+  if (!query) return [];
+
+  if (/^\d+$/.test(query) && isPositiveInt(query)) {
+    return [
+      { type: 'block', label: `Block #${query}`, href: `/blocks/${query}` },
+      {
+        type: 'proposal',
+        label: `Proposal #${query}`,
+        href: `/governance/${query}`,
+      },
+    ];
+  }
+
+  if (isTxHash(query)) {
+    return [
+      {
+        type: 'transaction',
+        label: query.toUpperCase(),
+        href: `/tx/${query.toUpperCase()}`,
+      },
+    ];
+  }
+
+  const deploymentMatch = query.match(/^([^/\s]+)\/(\d+)$/);
+  if (deploymentMatch) {
+    const [, owner, dseq] = deploymentMatch;
+    const address = classifyAddress(owner, bech32Prefix);
+    return address?.type === 'account'
+      ? [
+          {
+            type: 'deployment',
+            label: `Deployment ${owner}/${dseq}`,
+            href: `/deployments/${owner}/${dseq}`,
+          },
+        ]
+      : [];
+  }
+
+  const address = classifyAddress(query, bech32Prefix);
+  if (address) return [address];
+
+  if (query.length < MIN_MONIKER_QUERY_LENGTH) return [];
+
+  const moniker = query.toLowerCase();
+  return validators
+    .filter(({ name }) => name.toLowerCase().startsWith(moniker))
+    .slice(0, MAX_VALIDATOR_RESULTS)
+    .map(({ address, name }) => ({
+      type: 'validator',
+      label: name,
+      href: `/validators/${address}`,
+    }));
+};
@@ -0,0 +1,175 @@
+import BigNumber from 'bignumber.js';
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+// rewards accrue every block, but a short window exaggerates rounding
+const MIN_REALIZED_WINDOW_MS = 10 * 60 * 1000;
+const MAX_REWARD_SAMPLES = 200;
+
+export type InflationSource = 'mint' | 'akash';
+
+export type AprProvider = {
+  source: InflationSource;
+  /** Start of the decay curve, required by the `akash` source. */
+  genesisTime?: string;
+};
+
+const APR_PROVIDERS: Record<string, AprProvider> = {
+  akash: { source: 'akash', genesisTime: '2021-03-08T15:00:00Z' },
+};
+
+export const getAprProvider = (chainName: string): AprProvider => {
+  return APR_PROVIDERS[chainName] ?? { source: 'mint' };
+};
+
+/** `akash.inflation` params as served over REST. */
+export type AkashInflationParams = {
+  /** Inflation at genesis, in percent. */
+  initial_inflation: string;
+  /** How far inflation may stray from the ideal, as a fraction of it. */
+  variance: string;
+  /** Years it takes the ideal inflation to halve. */
+  inflation_decay_factor: string;
+};
+
+/**
+ * Akash halves its ideal inflation every `inflation_decay_factor` years and
+ * lets the minter move within `variance` of it. The minter's current rate is
+ * clamped to that band, and the ideal is used when it is unavailable.
+ */
+export const calcAkashInflation = ({
+  params,
+  genesisTime,
+  now = Date.now(),
+  minterInflation,
+}: {
+  params: AkashInflationParams;
+  genesisTime: string;
+  now?: number;
+  minterInflation?: string | null;
+}) => {
+  const years = (now - new Date(genesisTime).getTime()) / YEAR_MS;
+  const decay = 2 ** (-years / Number(params.inflation_decay_factor));
+  const ideal = new BigNumber(params.initial_inflation)
+    .shiftedBy(-2)
+    .multipliedBy(decay);
+
+  if (!minterInflation) return ideal;
+
+  const variance = ideal.multipliedBy(params.variance);
+  return BigNumber.min(
+    BigNumber.max(minterInflation, ideal.minus(variance)),
+    ideal.plus(variance),
+  );
+};
+
+/**
+ * Yearly rewards per bonded token before commission: newly minted tokens,
+ * less the community tax, shared by everything that is bonded.
+ */
+export const calcNominalApr = ({
+  inflation,
+  totalSupply,
+  bondedTokens,
+  communityTax,
+}: {
+  inflation: BigNumber.Value;
+  totalSupply: BigNumber.Value;
+  bondedTokens: BigNumber.Value;
+  communityTax: BigNumber.Value;
+}) => {
+  return new BigNumber(inflation)
+    .multipliedBy(totalSupply)
+    .multipliedBy(new BigNumber(1).minus(communityTax))
+    .div(bondedTokens);
+};
+
+export const calcValidatorApr = (
+  nominalApr: BigNumber,
+  commission: BigNumber.Value,
+) => {
+  return nominalApr
+    .multipliedBy(new BigNumber(1).minus(commission))
+    .shiftedBy(2)
+    .decimalPlaces(2, BigNumber.ROUND_DOWN)
+    .toString();
+};
+
+/** APR across several delegations, weighted by the amount delegated. */
+export const calcWeightedApr = (
+  delegations: { delegation: string; apr: string | null }[],
+) => {
+  const withApr = delegations.filter(
+    ({ delegation, apr }) => apr && new BigNumber(delegation).gt(0),
+  );
+  const total = withApr.reduce(
+    (sum, { delegation }) => sum.plus(delegation),
+    new BigNumber(0),
+  );
+  if (total.isZero()) return null;
+
+  return withApr
+    .reduce(
+      (sum, { delegation, apr }) =>
+        sum.plus(new BigNumber(delegation).times(apr!)),
+      new BigNumber(0),
+    )
+    .div(total)
+    .decimalPlaces(2, BigNumber.ROUND_DOWN)
+    .toString();
+};
+
+export type RewardSample = {
+  time: number;
+  rewards: string;
+  delegated: string;
+};
+
+/**
+ * Adds a sample to the current accrual window. A claim (rewards going down)
+ * or a change in the delegated amount starts a new window, since rewards
+ * before and after it can no longer be compared.
+ */
+export const appendRewardSample = (
+  samples: RewardSample[],
+  sample: RewardSample,
+) => {
+  const last = samples[samples.length - 1];
+
+  if (
+    !last ||
+    !new BigNumber(sample.delegated).eq(last.delegated) ||
+    new BigNumber(sample.rewards).lt(last.rewards)
+  ) {
+    return [sample];
+  }
+
+  // keep the first sample so the window keeps its full length
+  const next = [...samples, sample];
+  return next.length > MAX_REWARD_SAMPLES
+    ? [next[0], ...next.slice(-(MAX_REWARD_SAMPLES - 1))]
+    : next;
+};
+
+/** APR in percent implied by how fast rewards grew over an accrual window. */
+export const calcRealizedApr = (
+  samples: RewardSample[],
+  minWindowMs = MIN_REALIZED_WINDOW_MS,
+) => {
+  if (samples.length < 2) return null;
+
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const elapsed = last.time - first.time;
+
+  if (elapsed < minWindowMs || !new BigNumber(first.delegated).gt(0)) {
+    return null;
+  }
+
+  return new BigNumber(last.rewards)
+    .minus(first.rewards)
+    .div(first.delegated)
+    .multipliedBy(YEAR_MS / elapsed)
+    .shiftedBy(2)
+    .decimalPlaces(2, BigNumber.ROUND_DOWN)
+    .toString();
+};
@@ -0,0 +1,250 @@
+import BigNumber from 'bignumber.js';
+import { fromBase64 } from '@cosmjs/encoding';
+
+import {
+  fetchAllRestPages,
+  fetchRest,
+  RestPagination,
+  toPaginationParams,
+} from '../rest';
+import { pubkeyToConsensusAddress } from './staking';
+import { toValconsAddress } from './validator';
+
+// tokens per unit of Tendermint voting power (sdk.DefaultPowerReduction)
+const POWER_REDUCTION = 1_000_000;
+// voting power is applied with a block of delay, so allow a little drift
+const DEFAULT_DRIFT_TOLERANCE = 0.001;
+
+export type RestPubKey = {
+  '@type': string;
+  key: string;
+};
+
+export type RestValidatorSetEntry = {
+  address: string;
+  pub_key: RestPubKey;
+  voting_power: string;
+  proposer_priority: string;
+};
+
+/**
+ * `/cosmos/base/tendermint/v1beta1/validatorsets/latest`, or the legacy
+ * `/validatorsets/latest` which wraps the same data in `result`.
+ */
+export type RestValidatorSet =
+  | { block_height: string; validators: RestValidatorSetEntry[] }
+  | {
+      height: string;
+      result: { block_height: string; validators: RestValidatorSetEntry[] };
+    };
+
+export type RestStakingValidator = {
+  operator_address: string;
+  consensus_pubkey: RestPubKey;
+  jailed: boolean;
+  status: string;
+  tokens: string;
+  description: { moniker: string };
+};
+
+export type ConsistencyEntry = {
+  consensusAddress: string;
+  votingPower: string;
+  operatorAddress: string | null;
+  moniker: string | null;
+  expectedVotingPower: string | null;
+};
+
+export type ConsistencyIssue =
+  | {
+      type: 'missing-from-staking';
+      consensusAddress: string;
+      votingPower: string;
+    }
+  | {
+      type: 'voting-power-drift';
+      consensusAddress: string;
+      operatorAddress: string;
+      moniker: string;
+      votingPower: string;
+      expectedVotingPower: string;
+      drift: number;
+    }
+  | {
+      type: 'moniker-conflict';
+      moniker: string;
+      operatorAddresses: string[];
+    };
+
+export type ConsistencyReport = {
+  height: number;
+  entries: ConsistencyEntry[];
+  issues: ConsistencyIssue[];
+};
+
+export const normalizeValidatorSet = (validatorSet: RestValidatorSet) => {
+  const { block_height, validators } =
+    'result' in validatorSet ? validatorSet.result : validatorSet;
+  return { height: Number(block_height), validators };
+};
+
+export const pubkeyToValconsAddress = (
+  { '@type': typeUrl, key }: RestPubKey,
+  bech32Prefix: string,
+) => {
+  const hexAddress = pubkeyToConsensusAddress(fromBase64(key), typeUrl);
+  return toValconsAddress(hexAddress, bech32Prefix);
+};
+
+export const tokensToVotingPower = (tokens: string) => {
+  return new BigNumber(tokens).dividedToIntegerBy(POWER_REDUCTION).toString();
+};
+
+const findMonikerConflicts = (validators: RestStakingValidator[]) => {
+  const byMoniker = new Map<string, RestStakingValidator[]>();
+
+  validators.forEach((validator) => {
+    const moniker = validator.description.moniker.trim().toLowerCase();
+    if (!moniker) return;
+    byMoniker.set(moniker, [...(byMoniker.get(moniker) ?? []), validator]);
+  });
+
+  return Array.from(byMoniker.values())
+    .filter((group) => group.length > 1)
+    .map(
+      (group): ConsistencyIssue => ({
+        type: 'moniker-conflict',
+        moniker: group[0].description.moniker.trim(),
+        operatorAddresses: group.map(
+          ({ operator_address }) => operator_address,
+        ),
+      }),
+    );
+};
+
+/**
+ * Joins the Tendermint validator set with the staking validators through the
+ * consensus address derived from each validator's consensus pubkey, and
+ * reports set members missing from staking, voting power that no longer
+ * matches the bonded tokens, and monikers shared by several operators.
+ */
+export const checkValidatorConsistency = (
+  validatorSet: RestValidatorSet,
+  stakingValidators: RestStakingValidator[],
+  {
+    bech32Prefix,
+    driftTolerance = DEFAULT_DRIFT_TOLERANCE,
+  }: { bech32Prefix: string; driftTolerance?: number },
+): ConsistencyReport => {
+  const { height, validators } = normalizeValidatorSet(validatorSet);
+
+  const byConsensusAddress = new Map(
+    stakingValidators.map((validator) => [
+      pubkeyToValconsAddress(validator.consensus_pubkey, bech32Prefix),
+      validator,
+    ]),
+  );
+
+  const issues: ConsistencyIssue[] = [];
+
+  const entries = validators.map(
+    ({ address, voting_power }): ConsistencyEntry => {
+      const validator = byConsensusAddress.get(address);
+
+      if (!validator) {
+        issues.push({
+          type: 'missing-from-staking',
+          consensusAddress: address,
+          votingPower: voting_power,
+        });
+        return {
+          consensusAddress: address,
+          votingPower: voting_power,
+          operatorAddress: null,
+          moniker: null,
+          expectedVotingPower: null,
+        };
+      }
+
+      const expectedVotingPower = tokensToVotingPower(validator.tokens);
+      const drift = new BigNumber(voting_power)
+        .minus(expectedVotingPower)
+        .abs()
+        .dividedBy(BigNumber.max(expectedVotingPower, 1))
+        .toNumber();
+
+      if (drift > driftTolerance) {
+        issues.push({
+          type: 'voting-power-drift',
+          consensusAddress: address,
+          operatorAddress: validator.operator_address,
+          moniker: validator.description.moniker,
+          votingPower: voting_power,
+          expectedVotingPower,
+          drift,
+        });
+      }
+
+      return {
+        consensusAddress: address,
+        votingPower: voting_power,
+        operatorAddress: validator.operator_address,
+        moniker: validator.description.moniker,
+        expectedVotingPower,
+      };
+    },
+  );
+
+  return {
+    height,
+    entries,
+    issues: [...issues, ...findMonikerConflicts(stakingValidators)],
+  };
+};
+
+export const fetchValidatorConsistencyReport = async (
+  restEndpoint: string,
+  bech32Prefix: string,
+) => {
+  let blockHeight: string | undefined;
+
+  const [validatorSetEntries, stakingValidators] = await Promise.all([
+    fetchAllRestPages(
+      async (pageRequest) => {
+        const page = await fetchRest<{
+          block_height: string;
+          validators: RestValidatorSetEntry[];
+          pagination: RestPagination;
+        }>(
+          restEndpoint,
+          // later pages stay at the height of the first, `latest` would move
+          `cosmos/base/tendermint/v1beta1/validatorsets/${
+            blockHeight ?? 'latest'
+          }`,
+          toPaginationParams(pageRequest),
+        );
+        blockHeight ??= page.block_height;
+        return page;
+      },
+      ({ validators }) => validators,
+    ),
+    fetchAllRestPages(
+      (pageRequest) =>
+        fetchRest<{
+          validators: RestStakingValidator[];
+          pagination: RestPagination;
+        }>(
+          restEndpoint,
+          'cosmos/staking/v1beta1/validators',
+          toPaginationParams(pageRequest),
+        ),
+      ({ validators }) => validators,
+    ),
+  ]);
+
+  return checkValidatorConsistency(
+    { block_height: blockHeight ?? '', validators: validatorSetEntries },
+    stakingValidators,
+    { bech32Prefix },
+  );
+};
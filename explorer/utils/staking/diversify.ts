@@ -0,0 +1,104 @@
+import BigNumber from 'bignumber.js';
+
+export const TOP_VALIDATOR_COUNT = 10;
+
+export type SplitStrategy = 'equal' | 'inverse-voting-power' | 'custom';
+
+export const SPLIT_STRATEGIES: { id: SplitStrategy; label: string }[] = [
+  { id: 'equal', label: 'Equal split' },
+  { id: 'inverse-voting-power', label: 'Favor smaller validators' },
+  { id: 'custom', label: 'Custom shares' },
+];
+
+export type SplitTarget = {
+  address: string;
+  votingPower: BigNumber.Value;
+};
+
+export type DelegationSplit = {
+  address: string;
+  /** In base units. */
+  amount: string;
+};
+
+/** Addresses of the validators holding the most voting power. */
+export const getTopValidators = (
+  validators: SplitTarget[],
+  count = TOP_VALIDATOR_COUNT,
+) => {
+  return new Set(
+    [...validators]
+      .sort((a, b) => new BigNumber(b.votingPower).comparedTo(a.votingPower))
+      .slice(0, count)
+      .map(({ address }) => address),
+  );
+};
+
+const getWeight = (
+  { address, votingPower }: SplitTarget,
+  strategy: SplitStrategy,
+  shares: Record<string, BigNumber.Value>,
+) => {
+  switch (strategy) {
+    case 'equal':
+      return new BigNumber(1);
+    case 'inverse-voting-power':
+      // a validator without voting power would take everything
+      return new BigNumber(votingPower).gt(0)
+        ? new BigNumber(1).div(votingPower)
+        : new BigNumber(0);
+    case 'custom':
+      return new BigNumber(shares[address] || 0);
+  }
+};
+
+/**
+ * Splits `amount` (in base units) across `validators` in proportion to the
+ * strategy's weights. Shares are rounded down and the leftover units go to the
+ * largest share, so the split always adds up to `amount`.
+ */
+export const splitDelegation = ({
+  amount,
+  validators,
+  strategy,
+  shares = {},
+}: {
+  amount: BigNumber.Value;
+  validators: SplitTarget[];
+  strategy: SplitStrategy;
+  /** Relative shares by validator address, used by the `custom` strategy. */
+  shares?: Record<string, BigNumber.Value>;
+}): DelegationSplit[] => {
+  const weights = validators.map((validator) =>
+    getWeight(validator, strategy, shares),
+  );
+  const totalWeight = weights.reduce(
+    (sum, weight) => sum.plus(weight),
+    new BigNumber(0),
+  );
+  if (!totalWeight.gt(0)) return [];
+
+  const amounts = weights.map((weight) =>
+    new BigNumber(amount)
+      .multipliedBy(weight)
+      .div(totalWeight)
+      .integerValue(BigNumber.ROUND_DOWN),
+  );
+
+  const remainder = amounts.reduce(
+    (rest, share) => rest.minus(share),
+    new BigNumber(amount),
+  );
+  const largest = amounts.reduce(
+    (max, share, index) => (share.gt(amounts[max]) ? index : max),
+    0,
+  );
+  amounts[largest] = amounts[largest].plus(remainder);
+
+  return validators
+    .map(({ address }, index) => ({
+      address,
+      amount: amounts[index].toString(),
+    }))
+    .filter(({ amount }) => new BigNumber(amount).gt(0));
+};
@@ -1,3 +1,9 @@
 export * from './math';
 export * from './logos';
 export * from './staking';
+export * from './validator';
+export * from './consistency';
+export * from './restake';
+export * from './apr';
+export * from './rewards';
+export * from './diversify';
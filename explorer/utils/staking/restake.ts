@@ -0,0 +1,166 @@
+import {
+  GenericAuthorization,
+  GrantAuthorization,
+} from '@interchainjs/react/cosmos/authz/v1beta1/authz';
+import {
+  MsgGrant,
+  MsgRevoke,
+} from '@interchainjs/react/cosmos/authz/v1beta1/tx';
+import {
+  AuthorizationType,
+  StakeAuthorization,
+} from '@interchainjs/react/cosmos/staking/v1beta1/authz';
+import { MsgDelegate } from '@interchainjs/react/cosmos/staking/v1beta1/tx';
+import { MsgWithdrawDelegatorReward } from '@interchainjs/react/cosmos/distribution/v1beta1/tx';
+
+import { shiftDigits } from './math';
+
+/** Messages a restake bot needs to claim rewards and delegate them back. */
+export const RESTAKE_MSG_TYPE_URLS = [
+  MsgWithdrawDelegatorReward.typeUrl,
+  MsgDelegate.typeUrl,
+];
+
+export type RestakeAuthorizationKind = 'stake' | 'generic';
+
+export type RestakeGrant = {
+  grantee: string;
+  expiration: Date | null;
+  /** Validators the bot may delegate to, empty when it may use any. */
+  validators: string[];
+  /** Remaining delegation allowance, `null` when uncapped. */
+  maxTokens: string | null;
+  canWithdraw: boolean;
+  canDelegate: boolean;
+  msgTypeUrls: string[];
+};
+
+/**
+ * Grants a restake bot permission to withdraw rewards and delegate them. A
+ * stake authorization limits the bot to `validator` and optionally caps the
+ * amount, while a generic one lets it delegate anywhere.
+ */
+export const buildRestakeGrantMsgs = ({
+  granter,
+  grantee,
+  validator,
+  kind,
+  maxTokens,
+  denom,
+  expiration,
+}: {
+  granter: string;
+  grantee: string;
+  validator: string;
+  kind: RestakeAuthorizationKind;
+  /** In base units, ignored for generic authorizations. */
+  maxTokens?: string;
+  denom: string;
+  expiration: Date;
+}) => {
+  const delegateAuthorization =
+    kind === 'stake'
+      ? StakeAuthorization.toProtoMsg(
+          StakeAuthorization.fromPartial({
+            maxTokens: maxTokens ? { denom, amount: maxTokens } : undefined,
+            allowList: { address: [validator] },
+            authorizationType: AuthorizationType.AUTHORIZATION_TYPE_DELEGATE,
+          })
+        )
+      : GenericAuthorization.toProtoMsg({ msg: MsgDelegate.typeUrl });
+
+  const withdrawAuthorization = GenericAuthorization.toProtoMsg({
+    msg: MsgWithdrawDelegatorReward.typeUrl,
+  });
+
+  return [withdrawAuthorization, delegateAuthorization].map((authorization) =>
+    MsgGrant.fromPartial({
+      granter,
+      grantee,
+      grant: { authorization, expiration },
+    })
+  );
+};
+
+export const buildRestakeRevokeMsgs = (
+  granter: string,
+  { grantee, msgTypeUrls }: RestakeGrant
+) => {
+  return msgTypeUrls.map((msgTypeUrl) =>
+    MsgRevoke.fromPartial({ granter, grantee, msgTypeUrl })
+  );
+};
+
+const decodeGrant = ({ authorization }: GrantAuthorization) => {
+  if (authorization?.typeUrl === StakeAuthorization.typeUrl) {
+    const stake = StakeAuthorization.decode(authorization.value);
+    if (
+      stake.authorizationType !== AuthorizationType.AUTHORIZATION_TYPE_DELEGATE
+    ) {
+      return null;
+    }
+    return {
+      msgTypeUrl: MsgDelegate.typeUrl,
+      validators: stake.allowList?.address ?? [],
+      maxTokens: stake.maxTokens?.amount ?? null,
+    };
+  }
+
+  if (authorization?.typeUrl === GenericAuthorization.typeUrl) {
+    const { msg } = GenericAuthorization.decode(authorization.value);
+    return { msgTypeUrl: msg, validators: [], maxTokens: null };
+  }
+
+  return null;
+};
+
+/**
+ * Groups the withdraw and delegate grants of a granter by grantee. Grants for
+ * other messages are left out since they have nothing to do with restaking.
+ */
+export const parseRestakeGrants = (
+  grants: GrantAuthorization[],
+  exponent: number
+) => {
+  const byGrantee = new Map<string, RestakeGrant>();
+
+  grants.forEach((grant) => {
+    const decoded = decodeGrant(grant);
+    if (!decoded || !RESTAKE_MSG_TYPE_URLS.includes(decoded.msgTypeUrl)) {
+      return;
+    }
+
+    const current = byGrantee.get(grant.grantee) ?? {
+      grantee: grant.grantee,
+      expiration: grant.expiration ?? null,
+      validators: [],
+      maxTokens: null,
+      canWithdraw: false,
+      canDelegate: false,
+      msgTypeUrls: [],
+    };
+
+    const isDelegate = decoded.msgTypeUrl === MsgDelegate.typeUrl;
+
+    byGrantee.set(grant.grantee, {
+      ...current,
+      // the grant that expires first decides when restaking stops
+      expiration:
+        current.expiration && grant.expiration
+          ? new Date(
+              Math.min(current.expiration.getTime(), grant.expiration.getTime())
+            )
+          : current.expiration ?? grant.expiration ?? null,
+      validators: isDelegate ? decoded.validators : current.validators,
+      maxTokens:
+        isDelegate && decoded.maxTokens
+          ? shiftDigits(decoded.maxTokens, exponent)
+          : current.maxTokens,
+      canWithdraw: current.canWithdraw || !isDelegate,
+      canDelegate: current.canDelegate || isDelegate,
+      msgTypeUrls: [...current.msgTypeUrls, decoded.msgTypeUrl],
+    });
+  });
+
+  return Array.from(byGrantee.values());
+};
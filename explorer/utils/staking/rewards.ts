@@ -0,0 +1,101 @@
+import BigNumber from 'bignumber.js';
+
+const DAYS_PER_YEAR = 365;
+
+/** `projectRewards` steps through every period, so keep durations bounded. */
+export const MAX_PROJECTION_DAYS = 10 * DAYS_PER_YEAR;
+
+export type CompoundFrequency = {
+  id: string;
+  label: string;
+  /** Claim and re-delegate this many times a year, never when zero. */
+  perYear: number;
+};
+
+export const COMPOUND_FREQUENCIES: CompoundFrequency[] = [
+  { id: 'never', label: 'Never', perYear: 0 },
+  { id: 'yearly', label: 'Yearly', perYear: 1 },
+  { id: 'quarterly', label: 'Quarterly', perYear: 4 },
+  { id: 'monthly', label: 'Monthly', perYear: 12 },
+  { id: 'weekly', label: 'Weekly', perYear: 52 },
+  { id: 'daily', label: 'Daily', perYear: DAYS_PER_YEAR },
+];
+
+export type RewardsProjectionInput = {
+  amount: BigNumber.Value;
+  /** Validator APR in percent, net of commission. */
+  apr: BigNumber.Value;
+  days: number;
+  perYear: number;
+  /** Cost of one claim and re-delegation, in the same unit as `amount`. */
+  feePerCompound?: BigNumber.Value;
+};
+
+export type RewardsProjection = {
+  /** Rewards earned, net of the fees paid to compound them. */
+  rewards: string;
+  fees: string;
+  compounds: number;
+};
+
+/**
+ * Projects the rewards earned on `amount` over `days`. Each compounding
+ * period the pending rewards are claimed and delegated if they cover the fee,
+ * otherwise they keep accruing until the next period.
+ */
+export const projectRewards = ({
+  amount,
+  apr,
+  days,
+  perYear,
+  feePerCompound = 0,
+}: RewardsProjectionInput): RewardsProjection => {
+  const rate = new BigNumber(apr).shiftedBy(-2);
+  const years = days / DAYS_PER_YEAR;
+  const periods = perYear ? Math.floor(years * perYear) : 0;
+
+  let stake = new BigNumber(amount);
+  let pending = new BigNumber(0);
+  let fees = new BigNumber(0);
+  let compounds = 0;
+
+  for (let period = 0; period < periods; period++) {
+    pending = pending.plus(stake.multipliedBy(rate).div(perYear));
+
+    if (pending.gt(feePerCompound)) {
+      stake = stake.plus(pending).minus(feePerCompound);
+      fees = fees.plus(feePerCompound);
+      pending = new BigNumber(0);
+      compounds++;
+    }
+  }
+
+  const remainingYears = perYear ? years - periods / perYear : years;
+  pending = pending.plus(stake.multipliedBy(rate).multipliedBy(remainingYears));
+
+  return {
+    rewards: stake.minus(amount).plus(pending).toString(),
+    fees: fees.toString(),
+    compounds,
+  };
+};
+
+/**
+ * The compounding frequency that earns the most once fees are paid. Anything
+ * more frequent spends more on gas than the extra compounding brings in.
+ */
+export const findBestCompoundFrequency = (
+  input: Omit<RewardsProjectionInput, 'perYear'>,
+  frequencies = COMPOUND_FREQUENCIES,
+) => {
+  return frequencies
+    .map((frequency) => ({
+      frequency,
+      projection: projectRewards({ ...input, perYear: frequency.perYear }),
+    }))
+    .reduce((best, current) =>
+      new BigNumber(current.projection.rewards).gt(best.projection.rewards)
+        ? current
+        : best,
+    );
+};
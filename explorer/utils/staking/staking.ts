@@ -1,5 +1,6 @@
 import { QueryDelegationTotalRewardsResponse } from '@interchainjs/react/cosmos/distribution/v1beta1/query';
 import {
+  BondStatus,
   Pool,
   Validator,
 } from '@interchainjs/react/cosmos/staking/v1beta1/staking';
@@ -7,40 +8,47 @@ import { isGreaterThanZero, shiftDigits, toNumber } from '.';
 import { Coin, decodeCosmosSdkDecFromProto } from '@cosmjs/stargate';
 import {
   QueryDelegatorDelegationsResponse,
+  QueryDelegatorUnbondingDelegationsResponse,
   QueryParamsResponse,
+  QueryRedelegationsResponse,
 } from '@interchainjs/react/cosmos/staking/v1beta1/query';
 import BigNumber from 'bignumber.js';
-import { QueryAnnualProvisionsResponse } from '@interchainjs/react/cosmos/mint/v1beta1/query';
+import { ripemd160, sha256 } from '@cosmjs/crypto';
+import { toHex } from '@cosmjs/encoding';
+import { PubKey } from '@interchainjs/react/cosmos/crypto/ed25519/keys';
 import type { Asset } from '@chain-registry/v2-types';
 
+import { calcNominalApr, calcValidatorApr } from './apr';
+
 const DAY_TO_SECONDS = 24 * 60 * 60;
 const ZERO = '0';
+const SECP256K1_PUBKEY_TYPE = '/cosmos.crypto.secp256k1.PubKey';
+
+const getPoolSupply = (pool: ChainMetaData['pool']) => {
+  return new BigNumber(pool?.bondedTokens || 0).plus(
+    pool?.notBondedTokens || 0
+  );
+};
+
+export const calcBondedRatio = (pool: ChainMetaData['pool']) => {
+  return new BigNumber(pool?.bondedTokens || 0).div(getPoolSupply(pool));
+};
 
 export const calcStakingApr = ({
   pool,
   commission,
   communityTax,
-  annualProvisions,
+  inflation,
+  totalSupply,
 }: ChainMetaData & { commission: string }) => {
-  const totalSupply = new BigNumber(pool?.bondedTokens || 0).plus(
-    pool?.notBondedTokens || 0
-  );
-
-  const bondedTokensRatio = new BigNumber(pool?.bondedTokens || 0).div(
-    totalSupply
-  );
-
-  const inflation = new BigNumber(annualProvisions || 0).div(totalSupply);
-
-  const one = new BigNumber(1);
+  const nominalApr = calcNominalApr({
+    inflation,
+    totalSupply,
+    bondedTokens: pool.bondedTokens,
+    communityTax,
+  });
 
-  return inflation
-    .multipliedBy(one.minus(communityTax || 0))
-    .div(bondedTokensRatio)
-    .multipliedBy(one.minus(commission))
-    .shiftedBy(2)
-    .decimalPlaces(2, BigNumber.ROUND_DOWN)
-    .toString();
+  return calcValidatorApr(nominalApr, commission);
 };
 
 export const decodeUint8Arr = (uint8array: Uint8Array | undefined) => {
@@ -54,6 +62,35 @@ const formatCommission = (commission: string) => {
     : shiftDigits(commission, -18);
 };
 
+export const pubkeyToConsensusAddress = (key: Uint8Array, typeUrl: string) => {
+  const hash =
+    typeUrl === SECP256K1_PUBKEY_TYPE
+      ? ripemd160(sha256(key))
+      : sha256(key).slice(0, 20);
+  return toHex(hash).toUpperCase();
+};
+
+export const getConsensusAddress = (
+  consensusPubkey: Validator['consensusPubkey']
+) => {
+  if (!consensusPubkey?.value) return '';
+  // ed25519 and secp256k1 PubKey share the same wire format
+  const { key } = PubKey.decode(consensusPubkey.value);
+  return pubkeyToConsensusAddress(key, consensusPubkey.typeUrl);
+};
+
+export type ValidatorStatus = 'Active' | 'Inactive' | 'Unbonding' | 'Jailed';
+
+export const getStatusLabel = (
+  status: BondStatus,
+  jailed: boolean
+): ValidatorStatus => {
+  if (jailed) return 'Jailed';
+  if (status === BondStatus.BOND_STATUS_BONDED) return 'Active';
+  if (status === BondStatus.BOND_STATUS_UNBONDING) return 'Unbonding';
+  return 'Inactive';
+};
+
 export type ParsedValidator = ReturnType<typeof parseValidators>[0];
 
 export const parseValidators = (validators: Validator[]) => {
@@ -62,17 +99,23 @@ export const parseValidators = (validators: Validator[]) => {
     name: validator.description?.moniker || '',
     identity: validator.description?.identity || '',
     address: validator.operatorAddress,
+    consensusAddress: getConsensusAddress(validator.consensusPubkey),
     commission: formatCommission(
       validator.commission?.commissionRates?.rate || '0'
     ),
     votingPower: toNumber(shiftDigits(validator.tokens, -6, 4), 4),
+    jailed: validator.jailed,
+    status: getStatusLabel(validator.status, validator.jailed),
   }));
 };
 
 export type ExtendedValidator = ReturnType<typeof extendValidators>[0];
 
 export type ChainMetaData = {
-  annualProvisions: string;
+  /** Yearly inflation as a fraction, from the chain's APR provider. */
+  inflation: string;
+  /** Bank supply of the staking denom, in base units. */
+  totalSupply: string;
   communityTax: string;
   pool: Pool;
 };
@@ -83,7 +126,7 @@ export const extendValidators = (
   rewards: ParsedRewards['byValidators'] = [],
   chainMetadata: ChainMetaData
 ) => {
-  const { annualProvisions, communityTax, pool } = chainMetadata;
+  const { inflation, totalSupply, communityTax, pool } = chainMetadata;
 
   return validators.map((validator) => {
     const { address, commission } = validator;
@@ -95,9 +138,21 @@ export const extendValidators = (
       rewards.find(({ validatorAddress }) => validatorAddress === address)
         ?.amount || ZERO;
 
+    // only active validators earn rewards
     const apr =
-      annualProvisions && communityTax && pool && commission
-        ? calcStakingApr({ annualProvisions, commission, communityTax, pool })
+      validator.status === 'Active' &&
+      inflation &&
+      totalSupply &&
+      communityTax &&
+      pool &&
+      commission
+        ? calcStakingApr({
+            inflation,
+            totalSupply,
+            commission,
+            communityTax,
+            pool,
+          })
         : null;
 
     return { ...validator, delegation, reward, apr };
@@ -146,6 +201,69 @@ export const parseDelegations = (
   }));
 };
 
+export type ParsedUnbondingDelegations = ReturnType<
+  typeof parseUnbondingDelegations
+>;
+
+export const parseUnbondingDelegations = (
+  unbondings: QueryDelegatorUnbondingDelegationsResponse['unbondingResponses'],
+  exponent: number
+) => {
+  if (!unbondings) return [];
+  return unbondings
+    .flatMap(({ validatorAddress, entries }) =>
+      entries.map(({ creationHeight, completionTime, balance }) => ({
+        validatorAddress,
+        creationHeight: creationHeight.toString(),
+        completionTime: new Date(completionTime),
+        amount: shiftDigits(balance || ZERO, exponent),
+      }))
+    )
+    .sort((a, b) => a.completionTime.getTime() - b.completionTime.getTime());
+};
+
+export type ParsedRedelegations = ReturnType<typeof parseRedelegations>;
+
+export const parseRedelegations = (
+  redelegations: QueryRedelegationsResponse['redelegationResponses'],
+  exponent: number
+) => {
+  if (!redelegations) return [];
+  return redelegations
+    .flatMap(({ redelegation, entries }) =>
+      entries.map(({ redelegationEntry, balance }) => ({
+        srcValidatorAddress: redelegation?.validatorSrcAddress || '',
+        dstValidatorAddress: redelegation?.validatorDstAddress || '',
+        creationHeight: redelegationEntry?.creationHeight?.toString() || ZERO,
+        completionTime: new Date(redelegationEntry?.completionTime || 0),
+        amount: shiftDigits(balance || ZERO, exponent),
+      }))
+    )
+    .sort((a, b) => a.completionTime.getTime() - b.completionTime.getTime());
+};
+
+/**
+ * Validators that received a redelegation which has not completed yet, mapped
+ * to the time the last one completes. Until then the staking module rejects
+ * redelegating away from them as a transitive redelegation.
+ */
+export const getRedelegationLocks = (
+  redelegations: ParsedRedelegations,
+  now = Date.now()
+) => {
+  const locks: Record<string, Date> = {};
+
+  redelegations.forEach(({ dstValidatorAddress, completionTime }) => {
+    if (completionTime.getTime() <= now) return;
+    const lockedUntil = locks[dstValidatorAddress];
+    if (!lockedUntil || completionTime > lockedUntil) {
+      locks[dstValidatorAddress] = completionTime;
+    }
+  });
+
+  return locks;
+};
+
 export const calcTotalDelegation = (delegations: ParsedDelegations) => {
   if (!delegations) return ZERO;
 
@@ -161,8 +279,9 @@ export const parseUnbondingDays = (params: QueryParamsResponse['params']) => {
     .toString();
 };
 
-export const parseAnnualProvisions = (data: QueryAnnualProvisionsResponse) => {
-  const res = shiftDigits(decodeUint8Arr(data?.annualProvisions), -18);
+/** Decodes an `sdk.Dec` that the mint module serves as raw bytes. */
+export const parseMintDec = (value: Uint8Array | undefined) => {
+  const res = shiftDigits(decodeUint8Arr(value), -18);
   return isGreaterThanZero(res) ? res : null;
 };
 
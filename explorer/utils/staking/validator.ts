@@ -0,0 +1,202 @@
+import BigNumber from 'bignumber.js';
+import { fromBech32, fromHex, toBech32, toHex } from '@cosmjs/encoding';
+import { Validator } from '@interchainjs/react/cosmos/staking/v1beta1/staking';
+import { ValidatorSigningInfo } from '@interchainjs/react/cosmos/slashing/v1beta1/slashing';
+
+import { fetchLatestHeight, fetchRpc } from '../blocks';
+import { findAttr } from '../contract';
+import { parseTxDetail, searchTxs } from '../transactions';
+import { splitIntoChunks } from './logos';
+import { shiftDigits } from './math';
+import { parseValidators } from './staking';
+
+const EDIT_VALIDATOR_TYPE_URL = '/cosmos.staking.v1beta1.MsgEditValidator';
+const COMMISSION_HISTORY_LIMIT = 50;
+// commits are fetched one height at a time, keep public nodes' limits in mind
+const COMMIT_BATCH_SIZE = 10;
+
+export type SignedBlock = {
+  height: number;
+  signed: boolean;
+};
+
+export type CommissionChange = {
+  hash: string;
+  height: number;
+  time?: string;
+  rate: string;
+};
+
+export type ValidatorDetail = ReturnType<typeof parseValidatorDetail>;
+
+export type SigningInfo = ReturnType<typeof parseSigningInfo>;
+
+type RpcCommit = {
+  signed_header: {
+    commit: {
+      height: string;
+      signatures: { validator_address: string | null }[];
+    };
+  };
+};
+
+export const toAccountAddress = (operatorAddress: string, prefix: string) => {
+  return toBech32(prefix, fromBech32(operatorAddress).data);
+};
+
+export const toValconsAddress = (consensusAddress: string, prefix: string) => {
+  return toBech32(`${prefix}valcons`, fromHex(consensusAddress));
+};
+
+const formatRate = (rate: string = '0') => {
+  return rate.includes('.') ? rate : shiftDigits(rate, -18);
+};
+
+export const parseValidatorDetail = (
+  validator: Validator,
+  exponent: number
+) => {
+  const [parsed] = parseValidators([validator]);
+  const { description, commission } = validator;
+
+  return {
+    ...parsed,
+    website: description?.website || '',
+    securityContact: description?.securityContact || '',
+    tokens: shiftDigits(validator.tokens, exponent),
+    minSelfDelegation: shiftDigits(validator.minSelfDelegation, exponent),
+    maxCommission: formatRate(commission?.commissionRates?.maxRate),
+    maxCommissionChange: formatRate(commission?.commissionRates?.maxChangeRate),
+    commissionUpdateTime: commission?.updateTime
+      ? new Date(commission.updateTime)
+      : null,
+  };
+};
+
+export const parseSigningInfo = (
+  info: ValidatorSigningInfo | undefined,
+  signedBlocksWindow: bigint | undefined
+) => {
+  const jailedUntil = info?.jailedUntil ? new Date(info.jailedUntil) : null;
+
+  return {
+    missedBlocks: Number(info?.missedBlocksCounter ?? 0),
+    signedBlocksWindow: Number(signedBlocksWindow ?? 0),
+    startHeight: Number(info?.startHeight ?? 0),
+    tombstoned: info?.tombstoned ?? false,
+    // unjailed validators report the zero time (0001-01-01)
+    jailedUntil: jailedUntil && jailedUntil.getTime() > 0 ? jailedUntil : null,
+  };
+};
+
+/**
+ * Signing infos keyed by hex consensus address, the format `parseValidators`
+ * uses, so they can be looked up per validator.
+ */
+export const parseSigningInfos = (
+  infos: ValidatorSigningInfo[],
+  signedBlocksWindow: bigint | undefined
+) => {
+  return Object.fromEntries(
+    infos.map((info) => [
+      toHex(fromBech32(info.address).data).toUpperCase(),
+      parseSigningInfo(info, signedBlocksWindow),
+    ])
+  ) as Record<string, SigningInfo>;
+};
+
+/** Share of the signing window the validator signed, in percent. */
+export const calcUptime = ({
+  missedBlocks,
+  signedBlocksWindow,
+}: SigningInfo) => {
+  if (!signedBlocksWindow) return null;
+  return new BigNumber(1)
+    .minus(new BigNumber(missedBlocks).div(signedBlocksWindow))
+    .shiftedBy(2)
+    .decimalPlaces(2, BigNumber.ROUND_DOWN)
+    .toString();
+};
+
+/**
+ * Checks the commit signatures of the last `count` blocks for the validator's
+ * hex consensus address, newest block first. Heights already in `known` are
+ * reused, so a refresh only requests the blocks produced since.
+ */
+export const fetchSignedBlocks = async (
+  rpcEndpoint: string,
+  consensusAddress: string,
+  count: number,
+  known: SignedBlock[] = []
+): Promise<SignedBlock[]> => {
+  const latestHeight = await fetchLatestHeight(rpcEndpoint);
+  const heights = Array.from(
+    { length: Math.min(count, latestHeight) },
+    (_, index) => latestHeight - index
+  );
+
+  const blocksByHeight = new Map(known.map((block) => [block.height, block]));
+  const missingHeights = heights.filter(
+    (height) => !blocksByHeight.has(height)
+  );
+
+  for (const chunk of splitIntoChunks(missingHeights, COMMIT_BATCH_SIZE)) {
+    const commits = await Promise.all(
+      chunk.map((height: number) =>
+        fetchRpc<RpcCommit>(rpcEndpoint, 'commit', { height })
+      )
+    );
+
+    commits.forEach(({ signed_header }) => {
+      const height = Number(signed_header.commit.height);
+      blocksByHeight.set(height, {
+        height,
+        signed: signed_header.commit.signatures.some(
+          ({ validator_address }) => validator_address === consensusAddress
+        ),
+      });
+    });
+  }
+
+  return heights.map((height) => blocksByHeight.get(height)!);
+};
+
+/**
+ * Commission rates set through `MsgEditValidator`, newest first. Edits that
+ * only change the description carry no rate and are skipped.
+ */
+export const fetchCommissionHistory = async (
+  rpcEndpoint: string,
+  accountAddress: string
+): Promise<CommissionChange[]> => {
+  const { txs, times } = await searchTxs(rpcEndpoint, {
+    query: `message.action='${EDIT_VALIDATOR_TYPE_URL}' AND message.sender='${accountAddress}'`,
+    limit: COMMISSION_HISTORY_LIMIT,
+  });
+
+  return txs
+    .filter(({ tx_result }) => tx_result.code === 0)
+    .map((tx) => parseTxDetail(tx, times[Number(tx.height)]))
+    .map(({ hash, height, time, events }) => ({
+      hash,
+      height,
+      time,
+      rate: findAttr(events, 'edit_validator', 'commission_rate') || '',
+    }))
+    .filter(({ rate }) => rate && rate !== '<nil>');
+};
+
+/** Share of `proposalIds` the voter took part in, in percent. */
+export const calcGovernanceParticipation = (
+  votedProposalIds: string[],
+  proposalIds: string[]
+) => {
+  if (proposalIds.length === 0) return null;
+
+  const voted = proposalIds.filter((id) => votedProposalIds.includes(id));
+  return new BigNumber(voted.length)
+    .div(proposalIds.length)
+    .shiftedBy(2)
+    .decimalPlaces(0)
+    .toString();
+};
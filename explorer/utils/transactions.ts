@@ -0,0 +1,420 @@
+import { fromBase64, fromUtf8 } from '@cosmjs/encoding';
+import { logs } from '@cosmjs/stargate';
+import { Tx } from '@interchainjs/react/cosmos/tx/v1beta1/tx';
+import { Coin } from '@interchainjs/react/types';
+
+import {
+  fetchLatestHeight,
+  fetchRpc,
+  getTxHash,
+  RpcBlock,
+  RpcBlockMeta,
+} from './blocks';
+import { findAttr } from './contract';
+import { decodeAny, DecodedAny, getMessageType } from './registry';
+import { splitIntoChunks } from './staking/logos';
+
+export type RpcEvent = {
+  type: string;
+  attributes: { key: string; value: string; index?: boolean }[];
+};
+
+export type RpcTxResponse = {
+  hash: string;
+  height: string;
+  index: number;
+  tx_result: {
+    code: number;
+    codespace?: string;
+    log: string;
+    gas_wanted: string;
+    gas_used: string;
+    events: RpcEvent[];
+  };
+  tx: string;
+};
+
+/** Stands in for results that `block_results` no longer has. */
+export const MISSING_TX_RESULT: RpcTxResponse['tx_result'] = {
+  code: 0,
+  log: '',
+  gas_wanted: '0',
+  gas_used: '0',
+  events: [],
+};
+
+export type TxSummary = {
+  hash: string;
+  height: number;
+  index: number;
+  time?: string;
+  code: number;
+  fee: string;
+  gasUsed: string;
+  gasWanted: string;
+  messageTypes: string[];
+};
+
+export type TxDetail = TxSummary & {
+  memo: string;
+  rawLog: string;
+  codespace: string;
+  messages: DecodedAny[];
+  events: logs.Log['events'];
+};
+
+/**
+ * Fixes the upper height of a listing so pages stay stable while new blocks
+ * are produced; `page` is 1-based as in Tendermint's `tx_search`.
+ */
+export type TxCursor = {
+  maxHeight: number;
+  page: number;
+};
+
+/**
+ * `totalCount` is `null` for the unfiltered listing, which is read from the
+ * latest blocks rather than counted by `tx_search`.
+ */
+export type TxPage = {
+  txs: TxSummary[];
+  totalCount: number | null;
+  cursor: TxCursor;
+  nextCursor: TxCursor | null;
+  prevCursor: TxCursor | null;
+};
+
+export const isTxHash = (value: string) => /^[0-9A-Fa-f]{64}$/.test(value);
+
+export const coinsToString = (coins: Coin[] = []) => {
+  return coins.map(({ amount, denom }) => `${amount}${denom}`).join(',');
+};
+
+const BASE64_REGEX =
+  /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+const decodeBase64Text = (value: string) => {
+  if (!value || !BASE64_REGEX.test(value)) return null;
+  try {
+    const text = fromUtf8(fromBase64(value));
+    return /^[\x20-\x7E]*$/.test(text) ? text : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Tendermint 0.34 nodes return base64 encoded event attributes while newer
+ * ones return plain strings. Attributes are only decoded when every key of
+ * the tx looks like base64 text, so plain keys are never mangled.
+ */
+export const normalizeEvents = (
+  events: RpcEvent[] = [],
+): logs.Log['events'] => {
+  const attributes = events.flatMap((event) => event.attributes);
+  const isBase64 =
+    attributes.length > 0 &&
+    attributes.every(({ key }) => decodeBase64Text(key) !== null);
+
+  return events.map(({ type, attributes }) => ({
+    type,
+    attributes: attributes.map(({ key, value }) => ({
+      key: isBase64 ? decodeBase64Text(key) ?? key : key,
+      value: isBase64 ? decodeBase64Text(value ?? '') ?? value : value ?? '',
+    })),
+  }));
+};
+
+export const decodeTx = (txBase64: string) => {
+  const { body, authInfo } = Tx.decode(fromBase64(txBase64));
+
+  return {
+    memo: body?.memo || '',
+    messages: body?.messages || [],
+    fee: authInfo?.fee?.amount || [],
+  };
+};
+
+export const parseTxSummary = (
+  { hash, height, index, tx_result, tx }: RpcTxResponse,
+  time?: string,
+): TxSummary => {
+  let messageTypes: string[] = [];
+  let fee = '';
+
+  try {
+    const decoded = decodeTx(tx);
+    messageTypes = decoded.messages.map(({ typeUrl }) =>
+      getMessageType(typeUrl),
+    );
+    fee = coinsToString(decoded.fee);
+  } catch (error) {
+    console.error(error);
+  }
+
+  return {
+    hash,
+    height: Number(height),
+    index,
+    time,
+    code: tx_result.code,
+    fee,
+    gasUsed: tx_result.gas_used,
+    gasWanted: tx_result.gas_wanted,
+    messageTypes,
+  };
+};
+
+export const parseTxDetail = (
+  txResponse: RpcTxResponse,
+  time?: string,
+): TxDetail => {
+  const { tx_result, tx } = txResponse;
+  const summary = parseTxSummary(txResponse, time);
+  const events = normalizeEvents(tx_result.events);
+
+  let memo = '';
+  let messages: DecodedAny[] = [];
+
+  try {
+    const decoded = decodeTx(tx);
+    memo = decoded.memo;
+    messages = decoded.messages.map(decodeAny);
+  } catch (error) {
+    console.error(error);
+  }
+
+  return {
+    ...summary,
+    fee: findAttr(events, 'tx', 'fee') ?? summary.fee,
+    memo,
+    messages,
+    events,
+    rawLog: tx_result.log,
+    codespace: tx_result.codespace || '',
+  };
+};
+
+const fetchBlockTimes = async (rpcEndpoint: string, heights: number[]) => {
+  const uniqueHeights = Array.from(new Set(heights));
+
+  const metas = await Promise.all(
+    uniqueHeights.map((height) =>
+      fetchRpc<{ block_metas: RpcBlockMeta[] }>(rpcEndpoint, 'blockchain', {
+        minHeight: height,
+        maxHeight: height,
+      }),
+    ),
+  );
+
+  return Object.fromEntries(
+    metas.flatMap(({ block_metas }) =>
+      block_metas.map(({ header }) => [Number(header.height), header.time]),
+    ),
+  ) as Record<number, string>;
+};
+
+export const getAddressTxQuery = (
+  address: string,
+  direction: 'sent' | 'received',
+) => {
+  return direction === 'sent'
+    ? `message.sender='${address}'`
+    : `transfer.recipient='${address}'`;
+};
+
+/**
+ * Height of the oldest tx that sent to or from `address` that the node still
+ * has indexed, or `null` when it has none.
+ */
+export const fetchAddressFirstTxHeight = async (
+  rpcEndpoint: string,
+  address: string,
+) => {
+  const results = await Promise.all(
+    (['sent', 'received'] as const).map((direction) =>
+      fetchRpc<{ txs: RpcTxResponse[] }>(rpcEndpoint, 'tx_search', {
+        query: `"${getAddressTxQuery(address, direction)}"`,
+        page: 1,
+        per_page: 1,
+        order_by: '"asc"',
+      }),
+    ),
+  );
+
+  const heights = results.flatMap(({ txs }) =>
+    txs.map(({ height }) => Number(height)),
+  );
+
+  return heights.length > 0 ? Math.min(...heights) : null;
+};
+
+export const searchTxs = async (
+  rpcEndpoint: string,
+  {
+    query,
+    page = 1,
+    limit,
+    order = 'desc',
+  }: { query: string; page?: number; limit: number; order?: 'asc' | 'desc' },
+) => {
+  const { txs, total_count } = await fetchRpc<{
+    txs: RpcTxResponse[];
+    total_count: string;
+  }>(rpcEndpoint, 'tx_search', {
+    query: `"${query}"`,
+    page,
+    per_page: limit,
+    order_by: `"${order}"`,
+  });
+
+  const times = await fetchBlockTimes(
+    rpcEndpoint,
+    txs.map(({ height }) => Number(height)),
+  );
+
+  return { txs, times, totalCount: Number(total_count) };
+};
+
+// `blockchain` returns at most 20 block metas per call
+const BLOCKCHAIN_PAGE_SIZE = 20;
+const MAX_SCANNED_BLOCKS = 200;
+const BLOCK_FETCH_CONCURRENCY = 5;
+
+const fetchBlockTxs = async (
+  rpcEndpoint: string,
+  height: number,
+): Promise<{ txs: RpcTxResponse[]; time: string }> => {
+  const [{ block }, { txs_results }] = await Promise.all([
+    fetchRpc<RpcBlock>(rpcEndpoint, 'block', { height }),
+    // pruned nodes keep blocks longer than their results
+    fetchRpc<{ txs_results: RpcTxResponse['tx_result'][] | null }>(
+      rpcEndpoint,
+      'block_results',
+      { height },
+    ).catch(() => ({ txs_results: null })),
+  ]);
+
+  const txs = (block.data.txs || []).map((tx, index) => ({
+    hash: getTxHash(tx),
+    height: block.header.height,
+    index,
+    tx_result: txs_results?.[index] ?? MISSING_TX_RESULT,
+    tx,
+  }));
+
+  return { txs, time: block.header.time };
+};
+
+/**
+ * Lists the transactions of the latest blocks, newest first. A range-only
+ * `tx_search` scans the whole kv index and times out on public nodes, so
+ * this walks block metas down from `cursor.maxHeight` and reads the
+ * `block`/`block_results` of the heights that have transactions. Whole
+ * blocks are taken until at least `limit` transactions are collected or
+ * `MAX_SCANNED_BLOCKS` have been scanned; the next page continues below the
+ * lowest scanned height.
+ */
+const fetchRecentTransactions = async (
+  rpcEndpoint: string,
+  { cursor, limit }: { cursor?: TxCursor; limit: number },
+): Promise<TxPage> => {
+  const maxHeight = cursor?.maxHeight ?? (await fetchLatestHeight(rpcEndpoint));
+  const page = cursor?.page ?? 1;
+
+  const heights: number[] = [];
+  let txCount = 0;
+  let lowestHeight = maxHeight + 1;
+
+  while (
+    txCount < limit &&
+    lowestHeight > 1 &&
+    maxHeight - lowestHeight + 1 < MAX_SCANNED_BLOCKS
+  ) {
+    const { block_metas } = await fetchRpc<{ block_metas: RpcBlockMeta[] }>(
+      rpcEndpoint,
+      'blockchain',
+      {
+        minHeight: Math.max(1, lowestHeight - BLOCKCHAIN_PAGE_SIZE),
+        maxHeight: lowestHeight - 1,
+      },
+    );
+    if (block_metas.length === 0) break;
+
+    for (const { header, num_txs } of block_metas) {
+      if (txCount >= limit) break;
+
+      lowestHeight = Number(header.height);
+      if (Number(num_txs) > 0) {
+        heights.push(lowestHeight);
+        txCount += Number(num_txs);
+      }
+    }
+  }
+
+  const txs: TxSummary[] = [];
+  for (const chunk of splitIntoChunks(heights, BLOCK_FETCH_CONCURRENCY)) {
+    const blocks = await Promise.all(
+      chunk.map((height: number) => fetchBlockTxs(rpcEndpoint, height)),
+    );
+
+    blocks.forEach((block) =>
+      txs.push(
+        ...block.txs.reverse().map((tx) => parseTxSummary(tx, block.time)),
+      ),
+    );
+  }
+
+  return {
+    txs,
+    totalCount: null,
+    cursor: { maxHeight, page },
+    nextCursor:
+      lowestHeight > 1 ? { maxHeight: lowestHeight - 1, page: page + 1 } : null,
+    prevCursor: null,
+  };
+};
+
+/**
+ * Without a `query` the page is read from the latest blocks, whose cursors
+ * can only move forward; callers keep the cursors they visited to go back.
+ */
+export const fetchTransactions = async (
+  rpcEndpoint: string,
+  {
+    cursor,
+    limit,
+    query,
+  }: { cursor?: TxCursor; limit: number; query?: string },
+): Promise<TxPage> => {
+  if (!query) return fetchRecentTransactions(rpcEndpoint, { cursor, limit });
+
+  const maxHeight = cursor?.maxHeight ?? (await fetchLatestHeight(rpcEndpoint));
+  const page = cursor?.page ?? 1;
+
+  const { txs, times, totalCount } = await searchTxs(rpcEndpoint, {
+    query: `${query} AND tx.height<=${maxHeight}`,
+    page,
+    limit,
+  });
+
+  return {
+    txs: txs.map((tx) => parseTxSummary(tx, times[Number(tx.height)])),
+    totalCount,
+    cursor: { maxHeight, page },
+    nextCursor:
+      page * limit < totalCount ? { maxHeight, page: page + 1 } : null,
+    prevCursor: page > 1 ? { maxHeight, page: page - 1 } : null,
+  };
+};
+
+export const fetchTransaction = async (rpcEndpoint: string, hash: string) => {
+  const txResponse = await fetchRpc<RpcTxResponse>(rpcEndpoint, 'tx', {
+    hash: `0x${hash}`,
+  });
+
+  const height = Number(txResponse.height);
+  const times = await fetchBlockTimes(rpcEndpoint, [height]);
+
+  return parseTxDetail(txResponse, times[height]);
+};
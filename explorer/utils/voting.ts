@@ -52,11 +52,6 @@ export function getTitle(value?: Uint8Array) {
     .match(/[A-Z][A-Za-z].*(?=\u0012)/)?.[0];
 }
 
-export function parseQuorum(value?: Uint8Array) {
-  const quorum = decodeUint8Array(value);
-  return new BigNumber(quorum).shiftedBy(-quorum.length).toNumber();
-}
-
 export function processProposals(proposals: Proposal[]) {
   const sorted = proposals.sort(
     (a, b) => Number(b.proposalId) - Number(a.proposalId)